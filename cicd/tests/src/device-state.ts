@@ -7,9 +7,14 @@
  *
  * We do NOT manually reconnect to the original SSID — Android auto-reconnects
  * to known saved networks when WiFi comes up.
+ *
+ * Under ADB_TRANSPORT=virtual there is no adb to run: the scripted device lives
+ * inside each spawned server and persists to ADB_VIRTUAL_STATE, so snapshot and
+ * restore copy that file instead.
  */
 
 import { exec } from 'child_process';
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'fs';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
@@ -18,9 +23,13 @@ export interface DeviceSnapshot {
   wifiEnabled: boolean;
   currentSsid: string | null;
   savedNetworkIds: number[];
+  /** Raw ADB_VIRTUAL_STATE contents (virtual transport only); null = file absent. */
+  virtualState?: string | null;
 }
 
 const ADB = process.env.ADB_PATH || 'adb';
+const VIRTUAL = (process.env.ADB_TRANSPORT || '').toLowerCase() === 'virtual';
+const VIRTUAL_STATE = process.env.ADB_VIRTUAL_STATE || '';
 
 function adbArgs(): string {
   const serial = process.env.TEST_DEVICE_SERIAL;
@@ -33,6 +42,8 @@ async function adbShell(cmd: string, timeout = 15000): Promise<string> {
 }
 
 export async function snapshotDeviceState(): Promise<DeviceSnapshot> {
+  if (VIRTUAL) return snapshotVirtualState();
+
   const statusOut = await adbShell('cmd wifi status');
   const wifiEnabled = /wifi is enabled/i.test(statusOut);
 
@@ -55,6 +66,11 @@ export async function snapshotDeviceState(): Promise<DeviceSnapshot> {
 }
 
 export async function restoreDeviceState(snapshot: DeviceSnapshot): Promise<void> {
+  if (VIRTUAL) {
+    restoreVirtualState(snapshot);
+    return;
+  }
+
   // Match WiFi enabled state.
   const currentStatus = await adbShell('cmd wifi status');
   const isEnabled = /wifi is enabled/i.test(currentStatus);
@@ -92,3 +108,33 @@ async function listSavedNetworkIds(): Promise<number[]> {
     return [];
   }
 }
+
+interface VirtualStateFile {
+  devices: Array<{
+    wifiEnabled: boolean;
+    connectedId: number | null;
+    saved: Array<{ networkId: number; ssid: string }>;
+  }>;
+}
+
+function snapshotVirtualState(): DeviceSnapshot {
+  const raw = VIRTUAL_STATE && existsSync(VIRTUAL_STATE) ? readFileSync(VIRTUAL_STATE, 'utf-8') : null;
+  // Without a state file every spawned server starts from the scenario, so
+  // there is nothing to restore; report the scenario defaults for the log line.
+  const dev = raw ? (JSON.parse(raw) as VirtualStateFile).devices[0] : undefined;
+  return {
+    wifiEnabled: dev?.wifiEnabled ?? true,
+    currentSsid: dev?.saved.find((n) => n.networkId === dev.connectedId)?.ssid ?? null,
+    savedNetworkIds: dev?.saved.map((n) => n.networkId) ?? [],
+    virtualState: raw,
+  };
+}
+
+function restoreVirtualState(snapshot: DeviceSnapshot): void {
+  if (!VIRTUAL_STATE) return;
+  if (snapshot.virtualState) {
+    writeFileSync(VIRTUAL_STATE, snapshot.virtualState);
+  } else {
+    rmSync(VIRTUAL_STATE, { force: true });
+  }
+}
@@ -24,9 +24,20 @@ class AdbBridgeReceiver : BroadcastReceiver() {
         const val ACTION_CONNECT_ENTERPRISE = "com.example.wifimcpcompanion.CONNECT_ENTERPRISE"
         const val ACTION_INSTALL_CERTIFICATE = "com.example.wifimcpcompanion.INSTALL_CERTIFICATE"
         const val ACTION_LIST_CERTIFICATES = "com.example.wifimcpcompanion.LIST_CERTIFICATES"
+        const val ACTION_REMOVE_CERTIFICATE = "com.example.wifimcpcompanion.REMOVE_CERTIFICATE"
         const val ACTION_DISCONNECT = "com.example.wifimcpcompanion.DISCONNECT"
         const val ACTION_LIST_NOTIFICATIONS = "com.example.wifimcpcompanion.LIST_NOTIFICATIONS"
         const val ACTION_NOTIFICATION_STATUS = "com.example.wifimcpcompanion.NOTIFICATION_STATUS"
+        const val ACTION_CONFIGURE_NETWORK = "com.example.wifimcpcompanion.CONFIGURE_NETWORK"
+        const val ACTION_UPDATE_NETWORK = "com.example.wifimcpcompanion.UPDATE_NETWORK"
+        const val ACTION_P2P_DISCOVER = "com.example.wifimcpcompanion.P2P_DISCOVER"
+        const val ACTION_P2P_CONNECT = "com.example.wifimcpcompanion.P2P_CONNECT"
+        const val ACTION_P2P_REMOVE_GROUP = "com.example.wifimcpcompanion.P2P_REMOVE_GROUP"
+        const val ACTION_INSTALL_PASSPOINT = "com.example.wifimcpcompanion.INSTALL_PASSPOINT"
+        const val ACTION_LIST_PASSPOINT = "com.example.wifimcpcompanion.LIST_PASSPOINT"
+        const val ACTION_REMOVE_PASSPOINT = "com.example.wifimcpcompanion.REMOVE_PASSPOINT"
+        const val ACTION_HTTP_REQUEST = "com.example.wifimcpcompanion.HTTP_REQUEST"
+        const val ACTION_THROUGHPUT_UDP = "com.example.wifimcpcompanion.THROUGHPUT_UDP"
 
         private const val COMMAND_FILE_NAME = "wifi_mcp_command.json"
         private const val RESULT_FILE_NAME = "wifi_mcp_result.json"
@@ -43,9 +54,18 @@ class AdbBridgeReceiver : BroadcastReceiver() {
                 ACTION_CONNECT_ENTERPRISE -> handleConnectEnterprise(context)
                 ACTION_INSTALL_CERTIFICATE -> handleInstallCertificate(context)
                 ACTION_LIST_CERTIFICATES -> handleListCertificates(context)
+                ACTION_REMOVE_CERTIFICATE -> handleRemoveCertificate(context)
                 ACTION_DISCONNECT -> handleDisconnect(context)
                 ACTION_LIST_NOTIFICATIONS -> handleListNotifications(context)
                 ACTION_NOTIFICATION_STATUS -> handleNotificationStatus(context)
+                ACTION_CONFIGURE_NETWORK -> handleConfigureNetwork(context)
+                ACTION_UPDATE_NETWORK -> handleUpdateNetwork(context)
+                ACTION_P2P_DISCOVER, ACTION_P2P_CONNECT, ACTION_P2P_REMOVE_GROUP -> handleP2p(context, intent.action!!)
+                ACTION_INSTALL_PASSPOINT -> handleInstallPasspoint(context)
+                ACTION_LIST_PASSPOINT -> handleListPasspoint(context)
+                ACTION_REMOVE_PASSPOINT -> handleRemovePasspoint(context)
+                ACTION_HTTP_REQUEST -> handleHttpRequest(context)
+                ACTION_THROUGHPUT_UDP -> handleThroughputUdp(context)
                 else -> {
                     Log.w(TAG, "Unknown action: ${intent.action}")
                     writeResult(context, false, "Unknown action", mapOf("action" to (intent.action ?: "null")))
@@ -67,7 +87,7 @@ class AdbBridgeReceiver : BroadcastReceiver() {
 
         val ssid = config.getString("ssid")
         val eapMethod = config.getString("eapMethod")
-        val identity = config.getString("identity")
+        val identity = config.optString("identity", "")
         val domainSuffixMatch = config.optString("domainSuffixMatch", "")
         val password = config.optString("password", null)
         val phase2Method = config.optString("phase2Method", "mschapv2")
@@ -76,6 +96,7 @@ class AdbBridgeReceiver : BroadcastReceiver() {
         val clientCertificate = config.optString("clientCertificate", null)
         val privateKey = config.optString("privateKey", null)
         val privateKeyPassword = config.optString("privateKeyPassword", null)
+        val options = WifiEnterpriseManager.EnterpriseOptions.from(config)
 
         val wifiManager = WifiEnterpriseManager(context)
 
@@ -87,7 +108,8 @@ class AdbBridgeReceiver : BroadcastReceiver() {
                 domain = domainSuffixMatch,
                 caCertPem = caCertificate,
                 anonymousIdentity = anonymousIdentity,
-                phase2Method = wifiManager.getPhase2Method(phase2Method)
+                phase2Method = wifiManager.getPhase2Method(phase2Method),
+                options = options
             )
             "ttls" -> wifiManager.connectTtls(
                 ssid = ssid,
@@ -96,7 +118,23 @@ class AdbBridgeReceiver : BroadcastReceiver() {
                 domain = domainSuffixMatch,
                 caCertPem = caCertificate,
                 anonymousIdentity = anonymousIdentity,
-                phase2Method = wifiManager.getPhase2Method(phase2Method)
+                phase2Method = wifiManager.getPhase2Method(phase2Method),
+                options = options
+            )
+            "pwd" -> wifiManager.connectPwd(
+                ssid = ssid,
+                identity = identity,
+                password = password ?: "",
+                options = options
+            )
+            "sim", "aka", "aka_prime" -> wifiManager.connectSim(
+                ssid = ssid,
+                eapMethod = eapMethod.lowercase(),
+                identity = identity,
+                anonymousIdentity = anonymousIdentity,
+                simSlot = if (config.has("simSlot")) config.getInt("simSlot") else null,
+                subscriptionId = if (config.has("subscriptionId")) config.getInt("subscriptionId") else null,
+                options = options
             )
             "tls" -> {
                 if (clientCertificate == null || privateKey == null) {
@@ -115,7 +153,8 @@ class AdbBridgeReceiver : BroadcastReceiver() {
                     clientCertPem = clientCertificate,
                     privateKeyPem = privateKey,
                     privateKeyPassword = privateKeyPassword,
-                    caCertPem = caCertificate
+                    caCertPem = caCertificate,
+                    options = options
                 )
             }
             else -> {
@@ -141,6 +180,170 @@ class AdbBridgeReceiver : BroadcastReceiver() {
         )
     }
 
+    private fun handleConfigureNetwork(context: Context) {
+        val config = readConfigFile(commandFile(context))
+
+        if (config == null) {
+            writeResult(context, false, "Failed to read config file", mapOf("action" to "configure_network"))
+            return
+        }
+
+        val result = WifiNetworkConfigurator(context).configure(config)
+        writeResult(
+            context,
+            result.success,
+            result.message ?: result.error ?: "Unknown",
+            mapOf(
+                "action" to "configure_network",
+                "ssid" to result.ssid,
+                "networkId" to result.networkId
+            )
+        )
+    }
+
+    private fun handleUpdateNetwork(context: Context) {
+        val config = readConfigFile(commandFile(context))
+
+        if (config == null) {
+            writeResult(context, false, "Failed to read config file", mapOf("action" to "update_network"))
+            return
+        }
+
+        val result = WifiNetworkConfigurator(context).update(config)
+        writeResult(
+            context,
+            result.success,
+            result.message ?: result.error ?: "Unknown",
+            mapOf(
+                "action" to "update_network",
+                "ssid" to result.ssid,
+                "networkId" to result.networkId
+            )
+        )
+    }
+
+    /**
+     * Wi-Fi Direct calls block on framework callbacks (discovery for several
+     * seconds), so they run on a worker thread under goAsync() instead of
+     * holding up the main thread.
+     */
+    private fun handleP2p(context: Context, action: String) {
+        val name = when (action) {
+            ACTION_P2P_DISCOVER -> "p2p_discover"
+            ACTION_P2P_CONNECT -> "p2p_connect"
+            else -> "p2p_remove_group"
+        }
+        val config = readConfigFile(commandFile(context))
+        if (config == null && action == ACTION_P2P_CONNECT) {
+            writeResult(context, false, "Failed to read config file", mapOf("action" to name))
+            return
+        }
+
+        val pending = goAsync()
+        Thread {
+            try {
+                val controller = WifiP2pController(context)
+                val result = when (action) {
+                    ACTION_P2P_DISCOVER -> controller.discover(config ?: JSONObject())
+                    ACTION_P2P_CONNECT -> controller.connect(config!!)
+                    else -> controller.removeGroup()
+                }
+                writeResult(context, result.success, result.message, mapOf("action" to name) + result.extra)
+            } catch (e: Exception) {
+                Log.e(TAG, "Error processing $name", e)
+                writeResult(context, false, e.message ?: "Unknown error", mapOf("action" to name))
+            } finally {
+                pending.finish()
+            }
+        }.start()
+    }
+
+    private fun handleHttpRequest(context: Context) {
+        val config = readConfigFile(commandFile(context))
+        if (config == null) {
+            writeResult(context, false, "Failed to read config file", mapOf("action" to "http_request"))
+            return
+        }
+
+        val pending = goAsync()
+        Thread {
+            try {
+                val result = HttpProbe(context).request(config)
+                writeResult(context, result.success, result.message, mapOf("action" to "http_request") + result.extra)
+            } catch (e: Exception) {
+                Log.e(TAG, "Error processing http_request", e)
+                writeResult(context, false, e.message ?: "Unknown error", mapOf("action" to "http_request"))
+            } finally {
+                pending.finish()
+            }
+        }.start()
+    }
+
+    private fun handleThroughputUdp(context: Context) {
+        val config = readConfigFile(commandFile(context))
+        if (config == null) {
+            writeResult(context, false, "Failed to read config file", mapOf("action" to "throughput_udp"))
+            return
+        }
+
+        val pending = goAsync()
+        Thread {
+            try {
+                val result = ThroughputProbe(context).udp(config)
+                writeResult(context, result.success, result.message, mapOf("action" to "throughput_udp") + result.extra)
+            } catch (e: Exception) {
+                Log.e(TAG, "Error processing throughput_udp", e)
+                writeResult(context, false, e.message ?: "Unknown error", mapOf("action" to "throughput_udp"))
+            } finally {
+                pending.finish()
+            }
+        }.start()
+    }
+
+    private fun handleInstallPasspoint(context: Context) {
+        val config = readConfigFile(commandFile(context))
+
+        if (config == null) {
+            writeResult(context, false, "Failed to read config file", mapOf("action" to "install_passpoint"))
+            return
+        }
+
+        val result = WifiEnterpriseManager(context).installPasspoint(config)
+        writeResult(
+            context,
+            result.success,
+            result.message ?: result.error ?: "Unknown",
+            mapOf("action" to "install_passpoint", "fqdn" to result.fqdn)
+        )
+    }
+
+    private fun handleListPasspoint(context: Context) {
+        val profiles = WifiEnterpriseManager(context).listPasspoint()
+        writeResult(
+            context,
+            true,
+            "Found ${profiles.size} Passpoint profiles",
+            mapOf("action" to "list_passpoint", "profiles" to profiles)
+        )
+    }
+
+    private fun handleRemovePasspoint(context: Context) {
+        val fqdn = readConfigFile(commandFile(context))?.optString("fqdn", null)
+
+        if (fqdn == null) {
+            writeResult(context, false, "fqdn is required to remove a Passpoint profile", mapOf("action" to "remove_passpoint"))
+            return
+        }
+
+        val result = WifiEnterpriseManager(context).removePasspoint(fqdn)
+        writeResult(
+            context,
+            result.success,
+            result.message ?: result.error ?: "Unknown",
+            mapOf("action" to "remove_passpoint", "fqdn" to fqdn)
+        )
+    }
+
     private fun handleInstallCertificate(context: Context) {
         val config = readConfigFile(commandFile(context))
 
@@ -263,6 +466,23 @@ class AdbBridgeReceiver : BroadcastReceiver() {
         )
     }
 
+    private fun handleRemoveCertificate(context: Context) {
+        val alias = readConfigFile(commandFile(context))?.optString("alias", null)
+
+        if (alias == null) {
+            writeResult(context, false, "alias is required to remove a certificate", mapOf("action" to "remove_certificate"))
+            return
+        }
+
+        val result = CertificateManager(context).removeCertificate(alias)
+        writeResult(
+            context,
+            result.success,
+            result.message ?: result.error ?: "Unknown",
+            mapOf("action" to "remove_certificate", "alias" to alias)
+        )
+    }
+
     private fun handleDisconnect(context: Context) {
         val config = readConfigFile(commandFile(context))
 
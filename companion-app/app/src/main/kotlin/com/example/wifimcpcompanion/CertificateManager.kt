@@ -144,9 +144,9 @@ class CertificateManager(private val context: Context) {
     }
 
     /**
-     * Delete a certificate
+     * Remove a certificate or client key entry (REMOVE_CERTIFICATE)
      */
-    fun deleteCertificate(alias: String): Boolean {
+    fun removeCertificate(alias: String): CertificateResult {
         return try {
             val keyStore = KeyStore.getInstance(KEYSTORE_TYPE)
             keyStore.load(null)
@@ -154,14 +154,14 @@ class CertificateManager(private val context: Context) {
             if (keyStore.containsAlias(alias)) {
                 keyStore.deleteEntry(alias)
                 Log.i(TAG, "Certificate deleted: $alias")
-                true
+                CertificateResult(success = true, alias = alias, message = "Certificate removed")
             } else {
                 Log.w(TAG, "Certificate not found: $alias")
-                false
+                CertificateResult(success = false, alias = alias, error = "No certificate with alias \"$alias\"")
             }
         } catch (e: Exception) {
             Log.e(TAG, "Failed to delete certificate: $alias", e)
-            false
+            CertificateResult(success = false, alias = alias, error = e.message ?: "Unknown error")
         }
     }
 
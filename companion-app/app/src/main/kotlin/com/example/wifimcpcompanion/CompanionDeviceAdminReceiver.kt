@@ -0,0 +1,12 @@
+package com.example.wifimcpcompanion
+
+import android.app.admin.DeviceAdminReceiver
+
+/**
+ * Lets the companion be provisioned as device owner, which Android 10+
+ * requires before WifiManager.addNetwork accepts a configuration (static IP /
+ * proxy in [WifiNetworkConfigurator]). Only works on a device with no
+ * accounts added:
+ *   adb shell dpm set-device-owner com.example.wifimcpcompanion/.CompanionDeviceAdminReceiver
+ */
+class CompanionDeviceAdminReceiver : DeviceAdminReceiver()
@@ -0,0 +1,366 @@
+package com.example.wifimcpcompanion
+
+import android.content.Context
+import android.net.ConnectivityManager
+import android.net.Network
+import android.net.NetworkCapabilities
+import android.util.Log
+import org.json.JSONObject
+import java.io.BufferedInputStream
+import java.io.ByteArrayOutputStream
+import java.io.FilterInputStream
+import java.io.InputStream
+import java.net.InetSocketAddress
+import java.net.Socket
+import java.net.URL
+import java.security.cert.X509Certificate
+import java.util.Base64
+import javax.net.ssl.HttpsURLConnection
+import javax.net.ssl.SSLContext
+import javax.net.ssl.SSLSocket
+import javax.net.ssl.SSLSocketFactory
+import javax.net.ssl.X509TrustManager
+
+/**
+ * One HTTP(S) request from the phone over its Wi-Fi network, for checking
+ * walled-garden rules and portal redirects along the path the phone really
+ * uses (the shell has no curl, and the default network may be cellular).
+ *
+ * DNS, TCP and TLS go through the Wi-Fi `Network` object by hand rather than
+ * through HttpURLConnection, so each phase can be timed and cleartext HTTP
+ * isn't blocked by the network security policy. HTTP/1.1 only, one
+ * connection per hop, `Connection: close`. Every hop together gets 50 s, so
+ * the answer is written inside the broadcast's goAsync() window however many
+ * redirects and slow reads there are.
+ *
+ * Blocking: callers must be off the main thread (AdbBridgeReceiver runs it
+ * under goAsync()).
+ */
+class HttpProbe(private val context: Context) {
+
+    companion object {
+        private const val TAG = "HttpProbe"
+        private const val MAX_LINE_BYTES = 16 * 1024
+        private const val USER_AGENT = "wifi-mcp-companion"
+        private const val BUDGET_MS = 50_000L
+    }
+
+    data class ProbeResult(
+        val success: Boolean,
+        val message: String,
+        val extra: Map<String, Any> = emptyMap()
+    )
+
+    private class ProbeException(
+        override val message: String,
+        val partial: Map<String, Any> = emptyMap()
+    ) : Exception(message)
+
+    private class Response(
+        val status: Int,
+        val statusText: String,
+        val headers: Map<String, String>,
+        val body: ByteArray,
+        val bodyTruncated: Boolean,
+        val remoteAddress: String,
+        val timing: Map<String, Long>,
+        val tls: Map<String, Any>?
+    )
+
+    fun request(config: JSONObject): ProbeResult {
+        val network = wifiNetwork() ?: return ProbeResult(false, "No Wi-Fi network (connect to Wi-Fi first)")
+        val networkInfo = mapOf("network" to describe(network))
+
+        var url = URL(config.getString("url"))
+        var method = config.optString("method", "GET").uppercase()
+        var body = if (config.has("body")) config.getString("body").toByteArray(Charsets.UTF_8) else null
+        val headers = config.optJSONObject("headers") ?: JSONObject()
+        val followRedirects = config.optBoolean("followRedirects", true)
+        val maxRedirects = config.optInt("maxRedirects", 5)
+        val timeoutMs = config.optInt("timeoutMs", 15_000)
+        val maxBodyBytes = config.optInt("maxBodyBytes", 4096)
+        val insecure = config.optBoolean("insecure", false)
+
+        val started = System.nanoTime()
+        val deadline = started + BUDGET_MS * 1_000_000
+        val redirects = mutableListOf<Map<String, Any>>()
+        while (true) {
+            val response = try {
+                exchange(network, url, method, headers, body, timeoutMs, deadline, maxBodyBytes, insecure)
+            } catch (e: ProbeException) {
+                Log.w(TAG, "Request to $url failed: ${e.message}")
+                return ProbeResult(false, e.message, networkInfo + e.partial + mapOf("finalUrl" to url.toString(), "redirects" to redirects))
+            } catch (e: Exception) {
+                Log.e(TAG, "Request to $url failed", e)
+                return ProbeResult(false, e.message ?: e.javaClass.simpleName, networkInfo + mapOf("finalUrl" to url.toString(), "redirects" to redirects))
+            }
+
+            val location = response.headers["location"]
+            if (followRedirects && response.status in 300..399 && location != null && redirects.size < maxRedirects) {
+                redirects.add(mapOf("url" to url.toString(), "status" to response.status, "location" to location))
+                url = URL(url, location)
+                if (response.status == 303 || (response.status in 301..302 && method == "POST")) {
+                    method = "GET"
+                    body = null
+                }
+                continue
+            }
+
+            val extra = mutableMapOf<String, Any>(
+                "finalUrl" to url.toString(),
+                "status" to response.status,
+                "statusText" to response.statusText,
+                "headers" to response.headers,
+                "redirects" to redirects,
+                "remoteAddress" to response.remoteAddress,
+                "timing" to response.timing + ("totalMs" to (System.nanoTime() - started) / 1_000_000),
+                "body" to String(response.body, charsetOf(response.headers["content-type"])),
+                "bodyBytes" to response.body.size,
+                "bodyTruncated" to response.bodyTruncated
+            )
+            response.tls?.let { extra["tls"] = it }
+            return ProbeResult(true, "HTTP ${response.status}", networkInfo + extra)
+        }
+    }
+
+    private fun exchange(
+        network: Network,
+        url: URL,
+        method: String,
+        headers: JSONObject,
+        body: ByteArray?,
+        timeoutMs: Int,
+        deadline: Long,
+        maxBodyBytes: Int,
+        insecure: Boolean
+    ): Response {
+        val https = when (url.protocol) {
+            "https" -> true
+            "http" -> false
+            else -> throw ProbeException("Unsupported scheme ${url.protocol}")
+        }
+        val port = if (url.port != -1) url.port else url.defaultPort
+        val timing = linkedMapOf<String, Long>()
+        var mark = System.nanoTime()
+        fun lap(name: String) {
+            val now = System.nanoTime()
+            timing[name] = (now - mark) / 1_000_000
+            mark = now
+        }
+        // The per-hop timeout, cut short where the whole request's budget ends first.
+        fun timeout(): Int {
+            val left = (deadline - System.nanoTime()) / 1_000_000
+            if (left <= 0) throw ProbeException("Gave up after ${BUDGET_MS / 1000} s at $url", mapOf("timing" to timing))
+            return minOf(timeoutMs.toLong(), left).toInt()
+        }
+
+        val address = try {
+            network.getAllByName(url.host).first()
+        } catch (e: Exception) {
+            throw ProbeException("DNS lookup failed for ${url.host}: ${e.message}", mapOf("timing" to timing))
+        }
+        lap("dnsMs")
+        val connectTimeout = timeout()
+        val remote = "${address.hostAddress}:$port"
+
+        var socket: Socket = network.socketFactory.createSocket()
+        try {
+            socket.soTimeout = connectTimeout
+            try {
+                socket.connect(InetSocketAddress(address, port), connectTimeout)
+            } catch (e: Exception) {
+                throw ProbeException("Connect to $remote failed: ${e.message}", mapOf("remoteAddress" to remote, "timing" to timing))
+            }
+            lap("connectMs")
+
+            var tls: Map<String, Any>? = null
+            if (https) {
+                val ssl = socketFactory(insecure).createSocket(socket, url.host, port, true) as SSLSocket
+                socket = ssl
+                ssl.soTimeout = timeout()
+                try {
+                    ssl.startHandshake()
+                } catch (e: Exception) {
+                    throw ProbeException(
+                        "TLS handshake failed: ${e.message} (insecure: true shows the presented certificate)",
+                        mapOf("remoteAddress" to remote, "timing" to timing)
+                    )
+                }
+                lap("tlsMs")
+                val hostnameVerified = HttpsURLConnection.getDefaultHostnameVerifier().verify(url.host, ssl.session)
+                tls = mapOf(
+                    "protocol" to ssl.session.protocol,
+                    "cipherSuite" to ssl.session.cipherSuite,
+                    "hostnameVerified" to hostnameVerified,
+                    "peerCertificates" to ssl.session.peerCertificates.map { Base64.getEncoder().encodeToString(it.encoded) }
+                )
+                if (!hostnameVerified && !insecure) {
+                    throw ProbeException(
+                        "TLS certificate is not valid for ${url.host}",
+                        mapOf("remoteAddress" to remote, "timing" to timing, "tls" to tls)
+                    )
+                }
+            }
+
+            val output = socket.getOutputStream()
+            output.write(requestHead(url, port, method, headers, body).toByteArray(Charsets.ISO_8859_1))
+            body?.let { output.write(it) }
+            output.flush()
+
+            val input = BufferedInputStream(BudgetedInputStream(socket.getInputStream()) { socket.soTimeout = timeout() })
+            var statusLine = readLine(input)
+                ?: throw ProbeException("Connection closed before a response", mapOf("remoteAddress" to remote, "timing" to timing))
+            lap("firstByteMs")
+            var responseHeaders = readHeaders(input)
+            // Skip interim 100 Continue responses.
+            while (statusLine.split(" ").getOrNull(1) == "100") {
+                statusLine = readLine(input) ?: throw ProbeException("Connection closed after 100 Continue")
+                responseHeaders = readHeaders(input)
+            }
+            val parts = statusLine.split(" ", limit = 3)
+            val status = parts.getOrNull(1)?.toIntOrNull() ?: throw ProbeException("Malformed status line: $statusLine")
+
+            val noBody = method == "HEAD" || status == 204 || status == 304
+            val (bytes, truncated) = when {
+                noBody -> ByteArray(0) to false
+                responseHeaders["transfer-encoding"]?.contains("chunked", ignoreCase = true) == true ->
+                    readChunked(input, maxBodyBytes)
+                responseHeaders["content-length"]?.toLongOrNull() != null -> {
+                    val length = responseHeaders.getValue("content-length").toLong()
+                    readUpTo(input, minOf(length, maxBodyBytes.toLong()).toInt()) to (length > maxBodyBytes)
+                }
+                else -> readToEnd(input, maxBodyBytes)
+            }
+            lap("downloadMs")
+
+            return Response(status, parts.getOrElse(2) { "" }, responseHeaders, bytes, truncated, remote, timing, tls)
+        } finally {
+            socket.close()
+        }
+    }
+
+    /** Runs `beforeRead` (re-arming the socket timeout) ahead of every read that may block. */
+    private class BudgetedInputStream(input: InputStream, private val beforeRead: () -> Unit) : FilterInputStream(input) {
+        override fun read(): Int {
+            beforeRead()
+            return super.read()
+        }
+
+        override fun read(b: ByteArray, off: Int, len: Int): Int {
+            beforeRead()
+            return super.read(b, off, len)
+        }
+    }
+
+    private fun requestHead(url: URL, port: Int, method: String, headers: JSONObject, body: ByteArray?): String {
+        val host = if (port == url.defaultPort) url.host else "${url.host}:$port"
+        val path = url.file.ifEmpty { "/" }
+        val lines = linkedMapOf(
+            "host" to "Host: $host",
+            "user-agent" to "User-Agent: $USER_AGENT",
+            "accept" to "Accept: */*",
+            "accept-encoding" to "Accept-Encoding: identity"
+        )
+        headers.keys().forEach { name -> lines[name.lowercase()] = "$name: ${headers.getString(name)}" }
+        lines["connection"] = "Connection: close"
+        if (body != null) lines["content-length"] = "Content-Length: ${body.size}"
+        return "$method $path HTTP/1.1\r\n" + lines.values.joinToString("") { "$it\r\n" } + "\r\n"
+    }
+
+    /** Header lines up to the blank line; repeated names are joined with ", ". */
+    private fun readHeaders(input: InputStream): Map<String, String> {
+        val headers = linkedMapOf<String, String>()
+        while (true) {
+            val line = readLine(input) ?: break
+            if (line.isEmpty()) break
+            val colon = line.indexOf(':')
+            if (colon <= 0) continue
+            val name = line.substring(0, colon).trim().lowercase()
+            val value = line.substring(colon + 1).trim()
+            headers[name] = headers[name]?.let { "$it, $value" } ?: value
+        }
+        return headers
+    }
+
+    private fun readLine(input: InputStream): String? {
+        val line = ByteArrayOutputStream()
+        while (true) {
+            val b = input.read()
+            if (b == -1) return if (line.size() == 0) null else line.toString(Charsets.ISO_8859_1.name())
+            if (b == '\n'.code) return line.toString(Charsets.ISO_8859_1.name()).trimEnd('\r')
+            if (line.size() >= MAX_LINE_BYTES) throw ProbeException("Response line longer than $MAX_LINE_BYTES bytes")
+            line.write(b)
+        }
+    }
+
+    private fun readUpTo(input: InputStream, count: Int): ByteArray {
+        val out = ByteArrayOutputStream()
+        val buffer = ByteArray(8192)
+        while (out.size() < count) {
+            val n = input.read(buffer, 0, minOf(buffer.size, count - out.size()))
+            if (n == -1) break
+            out.write(buffer, 0, n)
+        }
+        return out.toByteArray()
+    }
+
+    private fun readToEnd(input: InputStream, limit: Int): Pair<ByteArray, Boolean> {
+        val bytes = readUpTo(input, limit + 1)
+        return if (bytes.size > limit) bytes.copyOf(limit) to true else bytes to false
+    }
+
+    private fun readChunked(input: InputStream, limit: Int): Pair<ByteArray, Boolean> {
+        val out = ByteArrayOutputStream()
+        while (true) {
+            val size = readLine(input)?.substringBefore(';')?.trim()?.toIntOrNull(16) ?: break
+            if (size == 0) break
+            if (out.size() + size > limit) {
+                out.write(readUpTo(input, limit - out.size()))
+                return out.toByteArray() to true
+            }
+            out.write(readUpTo(input, size))
+            readLine(input)
+        }
+        return out.toByteArray() to false
+    }
+
+    private fun charsetOf(contentType: String?): java.nio.charset.Charset {
+        val name = contentType?.let { Regex("charset=\"?([\\w.-]+)", RegexOption.IGNORE_CASE).find(it)?.groupValues?.get(1) }
+        return try {
+            if (name != null) charset(name) else Charsets.UTF_8
+        } catch (e: Exception) {
+            Charsets.UTF_8
+        }
+    }
+
+    private fun socketFactory(insecure: Boolean): SSLSocketFactory {
+        if (!insecure) return SSLSocketFactory.getDefault() as SSLSocketFactory
+        val trustAll = object : X509TrustManager {
+            override fun checkClientTrusted(chain: Array<out X509Certificate>?, authType: String?) {}
+            override fun checkServerTrusted(chain: Array<out X509Certificate>?, authType: String?) {}
+            override fun getAcceptedIssuers(): Array<X509Certificate> = emptyArray()
+        }
+        return SSLContext.getInstance("TLS").apply { init(null, arrayOf(trustAll), null) }.socketFactory
+    }
+
+    /** The connected Wi-Fi network, validated or not (a captive network isn't). */
+    private fun wifiNetwork(): Network? {
+        val cm = context.getSystemService(ConnectivityManager::class.java)
+        @Suppress("DEPRECATION")
+        return cm.allNetworks.firstOrNull {
+            cm.getNetworkCapabilities(it)?.hasTransport(NetworkCapabilities.TRANSPORT_WIFI) == true
+        }
+    }
+
+    private fun describe(network: Network): Map<String, Any> {
+        val cm = context.getSystemService(ConnectivityManager::class.java)
+        val caps = cm.getNetworkCapabilities(network)
+        val info = mutableMapOf<String, Any>(
+            "netId" to network.toString(),
+            "validated" to (caps?.hasCapability(NetworkCapabilities.NET_CAPABILITY_VALIDATED) == true),
+            "captivePortal" to (caps?.hasCapability(NetworkCapabilities.NET_CAPABILITY_CAPTIVE_PORTAL) == true)
+        )
+        cm.getLinkProperties(network)?.interfaceName?.let { info["interface"] = it }
+        return info
+    }
+}
@@ -0,0 +1,200 @@
+package com.example.wifimcpcompanion
+
+import android.content.Context
+import android.net.ConnectivityManager
+import android.net.Network
+import android.net.NetworkCapabilities
+import android.util.Log
+import org.json.JSONObject
+import java.net.DatagramPacket
+import java.net.DatagramSocket
+import java.net.InetSocketAddress
+import java.net.SocketTimeoutException
+import java.nio.ByteBuffer
+
+/**
+ * The phone's end of a UDP throughput run against the MCP host's server
+ * (see src/network/throughput.ts), over the Wi-Fi network.
+ *
+ * Datagrams start with a 16-byte header: type (1 = data, 2 = hello,
+ * 3 = end), three reserved bytes, a big-endian sequence number and the
+ * sender's System.nanoTime(). End markers carry the number of data packets
+ * sent in the sequence field.
+ *
+ *   • up — send paced data packets for durationMs, then end markers; the
+ *     host measures what arrived.
+ *   • down — send hellos until the host's stream starts, then receive until
+ *     its end marker (or durationMs plus slack) and report loss, reordering
+ *     and RFC 3550 jitter.
+ *
+ * Blocking: callers must be off the main thread (AdbBridgeReceiver runs it
+ * under goAsync()).
+ */
+class ThroughputProbe(private val context: Context) {
+
+    companion object {
+        private const val TAG = "ThroughputProbe"
+        private const val HEADER_BYTES = 16
+        private const val TYPE_DATA: Byte = 1
+        private const val TYPE_HELLO: Byte = 2
+        private const val TYPE_END: Byte = 3
+        private const val END_REPEATS = 3
+        private const val HELLO_INTERVAL_MS = 200
+        private const val HELLO_ATTEMPTS = 25
+        private const val RECEIVE_SLACK_MS = 3_000L
+        // goAsync() gives the receiver about a minute, hellos and slack included.
+        private const val MAX_DURATION_MS = 45_000L
+        private const val JITTER_GAIN = 16.0
+    }
+
+    data class ProbeResult(
+        val success: Boolean,
+        val message: String,
+        val extra: Map<String, Any> = emptyMap()
+    )
+
+    fun udp(config: JSONObject): ProbeResult {
+        val network = wifiNetwork() ?: return ProbeResult(false, "No Wi-Fi network (connect to Wi-Fi first)")
+        val host = InetSocketAddress(config.getString("host"), config.getInt("port"))
+        val durationMs = config.optLong("durationMs", 10_000).coerceIn(0, MAX_DURATION_MS)
+        val bitrateMbps = config.optDouble("bitrateMbps", 50.0)
+        val packetSize = config.optInt("packetSize", 1200).coerceAtLeast(HEADER_BYTES)
+
+        DatagramSocket().use { socket ->
+            network.bindSocket(socket)
+            socket.connect(host)
+            return when (config.optString("direction")) {
+                "up" -> send(socket, durationMs, bitrateMbps, packetSize)
+                "down" -> receive(socket, durationMs, packetSize)
+                else -> ProbeResult(false, "Unknown direction ${config.optString("direction")}")
+            }
+        }
+    }
+
+    private fun send(socket: DatagramSocket, durationMs: Long, bitrateMbps: Double, packetSize: Int): ProbeResult {
+        val packetsPerMs = bitrateMbps * 1000 / 8 / packetSize
+        val buffer = ByteArray(packetSize)
+        val started = System.nanoTime()
+        var seq = 0
+        while (true) {
+            val elapsedMs = (System.nanoTime() - started) / 1_000_000.0
+            if (elapsedMs >= durationMs) break
+            val due = (elapsedMs * packetsPerMs).toInt()
+            while (seq < due) {
+                socket.send(packet(buffer, TYPE_DATA, seq++, packetSize))
+            }
+            Thread.sleep(1)
+        }
+        repeat(END_REPEATS) { socket.send(packet(buffer, TYPE_END, seq, HEADER_BYTES)) }
+        Log.i(TAG, "Sent $seq packets in ${(System.nanoTime() - started) / 1_000_000} ms")
+        return ProbeResult(
+            true,
+            "Sent $seq packets",
+            mapOf("packetsSent" to seq, "bytes" to seq.toLong() * packetSize)
+        )
+    }
+
+    private fun receive(socket: DatagramSocket, durationMs: Long, packetSize: Int): ProbeResult {
+        val hello = ByteArray(HEADER_BYTES)
+        val buffer = ByteArray(maxOf(packetSize, HEADER_BYTES))
+        val incoming = DatagramPacket(buffer, buffer.size)
+
+        // Hello until the stream starts; the host sends to wherever the hello came from.
+        socket.soTimeout = HELLO_INTERVAL_MS
+        var streaming = false
+        for (attempt in 1..HELLO_ATTEMPTS) {
+            socket.send(packet(hello, TYPE_HELLO, attempt, HEADER_BYTES))
+            try {
+                socket.receive(incoming)
+                streaming = true
+                break
+            } catch (e: SocketTimeoutException) {
+                continue
+            }
+        }
+        if (!streaming) {
+            return ProbeResult(false, "No data from ${socket.remoteSocketAddress}: is the host reachable and its firewall open?")
+        }
+
+        val seen = HashSet<Int>()
+        var bytes = 0L
+        var maxSeq = -1
+        var outOfOrder = 0
+        var jitterMs = 0.0
+        var previousArrival = 0L
+        var previousSent = 0L
+        var firstArrival = 0L
+        var lastArrival = 0L
+        var packetsSent: Int? = null
+        val deadline = System.nanoTime() + (durationMs + RECEIVE_SLACK_MS) * 1_000_000
+
+        socket.soTimeout = 1_000
+        var pending = true // `incoming` already holds the packet that ended the hellos
+        while (System.nanoTime() < deadline) {
+            if (!pending) {
+                incoming.length = buffer.size
+                try {
+                    socket.receive(incoming)
+                } catch (e: SocketTimeoutException) {
+                    continue
+                }
+            }
+            pending = false
+            val arrival = System.nanoTime()
+            if (incoming.length < HEADER_BYTES) continue
+
+            val header = ByteBuffer.wrap(buffer, 0, HEADER_BYTES)
+            val seq = header.getInt(4)
+            val sent = header.getLong(8)
+            if (header.get(0) == TYPE_END) {
+                packetsSent = seq
+                break
+            }
+            if (header.get(0) != TYPE_DATA || !seen.add(seq)) continue
+
+            bytes += incoming.length
+            if (seq < maxSeq) outOfOrder++
+            maxSeq = maxOf(maxSeq, seq)
+            if (firstArrival == 0L) {
+                firstArrival = arrival
+            } else {
+                val transitChangeMs = ((arrival - previousArrival) - (sent - previousSent)) / 1_000_000.0
+                jitterMs += (Math.abs(transitChangeMs) - jitterMs) / JITTER_GAIN
+            }
+            previousArrival = arrival
+            previousSent = sent
+            lastArrival = arrival
+        }
+
+        Log.i(TAG, "Received ${seen.size} of ${packetsSent ?: "?"} packets")
+        return ProbeResult(
+            true,
+            "Received ${seen.size} packets",
+            buildMap {
+                put("packetsReceived", seen.size)
+                put("bytes", bytes)
+                put("durationMs", (lastArrival - firstArrival) / 1_000_000.0)
+                put("jitterMs", jitterMs)
+                put("outOfOrder", outOfOrder)
+                packetsSent?.let { put("packetsSent", it) }
+            }
+        )
+    }
+
+    private fun packet(buffer: ByteArray, type: Byte, seq: Int, length: Int): DatagramPacket {
+        ByteBuffer.wrap(buffer).apply {
+            put(0, type)
+            putInt(4, seq)
+            putLong(8, System.nanoTime())
+        }
+        return DatagramPacket(buffer, length)
+    }
+
+    private fun wifiNetwork(): Network? {
+        val cm = context.getSystemService(ConnectivityManager::class.java)
+        @Suppress("DEPRECATION")
+        return cm.allNetworks.firstOrNull {
+            cm.getNetworkCapabilities(it)?.hasTransport(NetworkCapabilities.TRANSPORT_WIFI) == true
+        }
+    }
+}
@@ -1,13 +1,20 @@
 package com.example.wifimcpcompanion
 
 import android.content.Context
+import android.net.wifi.WifiConfiguration
 import android.net.wifi.WifiEnterpriseConfig
 import android.net.wifi.WifiManager
 import android.net.wifi.WifiNetworkSuggestion
+import android.net.wifi.hotspot2.PasspointConfiguration
+import android.net.wifi.hotspot2.pps.Credential
+import android.net.wifi.hotspot2.pps.HomeSp
 import android.os.Build
+import android.telephony.SubscriptionManager
 import android.util.Log
+import org.json.JSONObject
 import java.io.ByteArrayInputStream
 import java.security.KeyFactory
+import java.security.MessageDigest
 import java.security.PrivateKey
 import java.security.cert.CertificateFactory
 import java.security.cert.X509Certificate
@@ -15,12 +22,18 @@ import java.security.spec.PKCS8EncodedKeySpec
 import java.util.Base64
 
 /**
- * Manages enterprise WiFi (802.1X/EAP) connections
+ * Manages enterprise WiFi (802.1X/EAP) connections and Passpoint profiles
  */
 class WifiEnterpriseManager(private val context: Context) {
 
     companion object {
         private const val TAG = "WifiEnterpriseManager"
+
+        // EAPConstants (hidden): the EAP types Passpoint credentials carry.
+        private const val EAP_SIM = 18
+        private const val EAP_TTLS = 21
+        private const val EAP_AKA = 23
+        private const val EAP_AKA_PRIME = 50
     }
 
     private val wifiManager: WifiManager by lazy {
@@ -35,6 +48,25 @@ class WifiEnterpriseManager(private val context: Context) {
         val error: String? = null
     )
 
+    /**
+     * Security mode and TLS policy for the suggestion: `wpa2`, `wpa3` or
+     * `wpa3_192bit` (Suite-B, EAP-TLS only), a minimum TLS version and the
+     * OCSP stance. Unset fields keep the framework defaults.
+     */
+    data class EnterpriseOptions(
+        val securityMode: String = "wpa2",
+        val tlsMinVersion: String? = null,
+        val ocsp: String? = null
+    ) {
+        companion object {
+            fun from(config: JSONObject) = EnterpriseOptions(
+                securityMode = config.optString("securityMode", "wpa2"),
+                tlsMinVersion = config.optString("tlsMinVersion", "").ifEmpty { null },
+                ocsp = config.optString("ocsp", "").ifEmpty { null }
+            )
+        }
+    }
+
     /**
      * Connect to an enterprise WiFi network using EAP-PEAP
      */
@@ -45,7 +77,8 @@ class WifiEnterpriseManager(private val context: Context) {
         domain: String,
         caCertPem: String? = null,
         anonymousIdentity: String? = null,
-        phase2Method: Int = WifiEnterpriseConfig.Phase2.MSCHAPV2
+        phase2Method: Int = WifiEnterpriseConfig.Phase2.MSCHAPV2,
+        options: EnterpriseOptions = EnterpriseOptions()
     ): ConnectionResult {
         return try {
             val enterpriseConfig = WifiEnterpriseConfig().apply {
@@ -56,9 +89,10 @@ class WifiEnterpriseManager(private val context: Context) {
                 anonymousIdentity?.let { this.anonymousIdentity = it }
 
                 applyServerValidation(domain, caCertPem)
+                applyTlsOptions(options)
             }
 
-            addNetworkSuggestion(ssid, enterpriseConfig, "peap")
+            addNetworkSuggestion(ssid, enterpriseConfig, "peap", options.securityMode)
         } catch (e: Exception) {
             Log.e(TAG, "PEAP connection failed", e)
             ConnectionResult(
@@ -80,7 +114,8 @@ class WifiEnterpriseManager(private val context: Context) {
         domain: String,
         caCertPem: String? = null,
         anonymousIdentity: String? = null,
-        phase2Method: Int = WifiEnterpriseConfig.Phase2.MSCHAPV2
+        phase2Method: Int = WifiEnterpriseConfig.Phase2.MSCHAPV2,
+        options: EnterpriseOptions = EnterpriseOptions()
     ): ConnectionResult {
         return try {
             val enterpriseConfig = WifiEnterpriseConfig().apply {
@@ -91,9 +126,10 @@ class WifiEnterpriseManager(private val context: Context) {
                 anonymousIdentity?.let { this.anonymousIdentity = it }
 
                 applyServerValidation(domain, caCertPem)
+                applyTlsOptions(options)
             }
 
-            addNetworkSuggestion(ssid, enterpriseConfig, "ttls")
+            addNetworkSuggestion(ssid, enterpriseConfig, "ttls", options.securityMode)
         } catch (e: Exception) {
             Log.e(TAG, "TTLS connection failed", e)
             ConnectionResult(
@@ -115,7 +151,8 @@ class WifiEnterpriseManager(private val context: Context) {
         clientCertPem: String,
         privateKeyPem: String,
         privateKeyPassword: String? = null,
-        caCertPem: String? = null
+        caCertPem: String? = null,
+        options: EnterpriseOptions = EnterpriseOptions()
     ): ConnectionResult {
         return try {
             val clientCert = parseCertificate(clientCertPem)
@@ -129,9 +166,10 @@ class WifiEnterpriseManager(private val context: Context) {
                 setClientKeyEntry(privateKey, clientCert)
 
                 applyServerValidation(domain, caCertPem)
+                applyTlsOptions(options)
             }
 
-            addNetworkSuggestion(ssid, enterpriseConfig, "tls")
+            addNetworkSuggestion(ssid, enterpriseConfig, "tls", options.securityMode)
         } catch (e: Exception) {
             Log.e(TAG, "TLS connection failed", e)
             ConnectionResult(
@@ -143,6 +181,124 @@ class WifiEnterpriseManager(private val context: Context) {
         }
     }
 
+    /**
+     * Connect to an enterprise WiFi network using EAP-PWD (password, no certificates)
+     */
+    fun connectPwd(
+        ssid: String,
+        identity: String,
+        password: String,
+        options: EnterpriseOptions = EnterpriseOptions()
+    ): ConnectionResult {
+        return try {
+            val enterpriseConfig = WifiEnterpriseConfig().apply {
+                eapMethod = WifiEnterpriseConfig.Eap.PWD
+                this.identity = identity
+                this.password = password
+            }
+
+            addNetworkSuggestion(ssid, enterpriseConfig, "pwd", options.securityMode)
+        } catch (e: Exception) {
+            Log.e(TAG, "PWD connection failed", e)
+            ConnectionResult(
+                success = false,
+                ssid = ssid,
+                eapMethod = "pwd",
+                error = e.message ?: "Unknown error"
+            )
+        }
+    }
+
+    /**
+     * Connect with EAP-SIM, EAP-AKA or EAP-AKA'. Android only accepts SIM-based
+     * network suggestions from carrier-privileged apps, so the network is saved
+     * with addNetwork instead, which works once the companion is device owner.
+     * Without an identity the supplicant uses the SIM's permanent identity;
+     * `simSlot` / `subscriptionId` pick the SIM on dual-SIM phones.
+     */
+    @Suppress("DEPRECATION")
+    fun connectSim(
+        ssid: String,
+        eapMethod: String,
+        identity: String? = null,
+        anonymousIdentity: String? = null,
+        simSlot: Int? = null,
+        subscriptionId: Int? = null,
+        options: EnterpriseOptions = EnterpriseOptions()
+    ): ConnectionResult {
+        return try {
+            val wifiConfig = WifiConfiguration().apply {
+                SSID = "\"$ssid\""
+                when {
+                    options.securityMode == "wpa3" -> setSecurityParams(wpa3EnterpriseSecurityType())
+                    Build.VERSION.SDK_INT >= Build.VERSION_CODES.S -> setSecurityParams(WifiConfiguration.SECURITY_TYPE_EAP)
+                    else -> {
+                        // setSecurityParams is API 31+; on Android 11 set the key management bits directly.
+                        allowedKeyManagement.set(WifiConfiguration.KeyMgmt.WPA_EAP)
+                        allowedKeyManagement.set(WifiConfiguration.KeyMgmt.IEEE8021X)
+                    }
+                }
+                enterpriseConfig = WifiEnterpriseConfig().apply {
+                    this.eapMethod = when (eapMethod) {
+                        "sim" -> WifiEnterpriseConfig.Eap.SIM
+                        "aka" -> WifiEnterpriseConfig.Eap.AKA
+                        else -> WifiEnterpriseConfig.Eap.AKA_PRIME
+                    }
+                    identity?.takeIf { it.isNotEmpty() }?.let { this.identity = it }
+                    anonymousIdentity?.takeIf { it.isNotEmpty() }?.let { this.anonymousIdentity = it }
+                }
+            }
+            val subId = subscriptionId ?: simSlot?.let { subscriptionForSlot(it) }
+            // WifiConfiguration.subscriptionId is hidden; the framework falls back to the default data SIM.
+            subId?.let { WifiConfiguration::class.java.getField("subscriptionId").setInt(wifiConfig, it) }
+
+            val networkId = wifiManager.addNetwork(wifiConfig)
+            if (networkId == -1) {
+                return ConnectionResult(
+                    success = false,
+                    ssid = ssid,
+                    eapMethod = eapMethod,
+                    error = "addNetwork was refused. EAP-SIM/AKA networks need the companion to be device owner: " +
+                        "adb shell dpm set-device-owner com.example.wifimcpcompanion/.CompanionDeviceAdminReceiver"
+                )
+            }
+            wifiManager.enableNetwork(networkId, true)
+            Log.i(TAG, "Saved $eapMethod network $ssid as $networkId")
+            ConnectionResult(
+                success = true,
+                ssid = ssid,
+                eapMethod = eapMethod,
+                message = "Network saved (id $networkId); connecting with the SIM"
+            )
+        } catch (e: Exception) {
+            Log.e(TAG, "SIM-based connection failed", e)
+            ConnectionResult(
+                success = false,
+                ssid = ssid,
+                eapMethod = eapMethod,
+                error = e.message ?: "Unknown error"
+            )
+        }
+    }
+
+    private fun wpa3EnterpriseSecurityType(): Int {
+        requireSdk(Build.VERSION_CODES.S, "WPA3-Enterprise for a saved network")
+        return WifiConfiguration.SECURITY_TYPE_EAP_WPA3_ENTERPRISE
+    }
+
+    /** Active subscription in a SIM slot; needs READ_PHONE_STATE. */
+    private fun subscriptionForSlot(slot: Int): Int {
+        val subscriptions = context.getSystemService(SubscriptionManager::class.java)
+        val info = try {
+            subscriptions.getActiveSubscriptionInfoForSimSlotIndex(slot)
+        } catch (e: SecurityException) {
+            throw IllegalStateException(
+                "Reading SIM slots needs READ_PHONE_STATE: adb shell pm grant com.example.wifimcpcompanion android.permission.READ_PHONE_STATE"
+            )
+        }
+        return info?.subscriptionId ?: throw IllegalArgumentException("No active SIM in slot $slot")
+    }
+
     /**
      * Apply the server-certificate stance to this config (#71): pin the CA when
      * supplied, and match the domain only when it is non-empty (a pinned CA with
@@ -173,24 +329,84 @@ class WifiEnterpriseManager(private val context: Context) {
         if (domain.isNotEmpty()) setDomainSuffixMatch(domain)
     }
 
+    /**
+     * OCSP stance and minimum TLS version. OCSP needs a pinned CA (checked
+     * host-side); the TLS floor is an Android 13 API, and TLS 1.3 also needs
+     * supplicant support.
+     */
+    private fun WifiEnterpriseConfig.applyTlsOptions(options: EnterpriseOptions) {
+        options.ocsp?.let { mode ->
+            ocsp = when (mode) {
+                "none" -> WifiEnterpriseConfig.OCSP_NONE
+                "request" -> WifiEnterpriseConfig.OCSP_REQUEST_CERT_STATUS
+                "require" -> WifiEnterpriseConfig.OCSP_REQUIRE_CERT_STATUS
+                "require_all" -> WifiEnterpriseConfig.OCSP_REQUIRE_ALL_NON_TRUSTED_CERTS_STATUS
+                else -> throw IllegalArgumentException("Unknown ocsp mode: $mode")
+            }
+        }
+        options.tlsMinVersion?.let { version ->
+            requireSdk(Build.VERSION_CODES.TIRAMISU, "tlsMinVersion")
+            if (version == "1.3" && !wifiManager.isTlsV13Supported) {
+                throw IllegalArgumentException("This device's supplicant does not support TLS 1.3 for EAP")
+            }
+            minimumTlsVersion = when (version) {
+                "1.0" -> WifiEnterpriseConfig.TLS_V1_0
+                "1.1" -> WifiEnterpriseConfig.TLS_V1_1
+                "1.2" -> WifiEnterpriseConfig.TLS_V1_2
+                "1.3" -> WifiEnterpriseConfig.TLS_V1_3
+                else -> throw IllegalArgumentException("Unknown tlsMinVersion: $version")
+            }
+        }
+    }
+
+    /** Pick the builder call for the security mode, failing clearly where the device can't do it. */
+    @Suppress("DEPRECATION")
+    private fun WifiNetworkSuggestion.Builder.setEnterpriseConfig(
+        enterpriseConfig: WifiEnterpriseConfig,
+        securityMode: String
+    ): WifiNetworkSuggestion.Builder = when (securityMode) {
+        "wpa2" -> setWpa2EnterpriseConfig(enterpriseConfig)
+        "wpa3" -> if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.S) {
+            setWpa3EnterpriseStandardModeConfig(enterpriseConfig)
+        } else {
+            setWpa3EnterpriseConfig(enterpriseConfig)
+        }
+        "wpa3_192bit" -> {
+            requireSdk(Build.VERSION_CODES.S, "WPA3-Enterprise 192-bit mode")
+            if (!wifiManager.isWpa3SuiteBSupported) {
+                throw IllegalArgumentException("This device does not support WPA3-Enterprise 192-bit (Suite-B)")
+            }
+            setWpa3Enterprise192BitModeConfig(enterpriseConfig)
+        }
+        else -> throw IllegalArgumentException("Unknown securityMode: $securityMode")
+    }
+
+    private fun requireSdk(minSdk: Int, feature: String) {
+        if (Build.VERSION.SDK_INT < minSdk) {
+            throw IllegalArgumentException("$feature requires API $minSdk; this device is API ${Build.VERSION.SDK_INT}")
+        }
+    }
+
     /**
      * Add network suggestion using WifiNetworkSuggestion API
      */
     private fun addNetworkSuggestion(
         ssid: String,
         enterpriseConfig: WifiEnterpriseConfig,
-        eapMethod: String
+        eapMethod: String,
+        securityMode: String = "wpa2"
     ): ConnectionResult {
-        // Clear any prior suggestion first — the app holds one enterprise network
-        // at a time, and a stale one would compete during the next auto-join.
-        clearAllSuggestions()
-
+        // Build before clearing so an unsupported mode leaves the current suggestion alone.
         val suggestion = WifiNetworkSuggestion.Builder()
             .setSsid(ssid)
-            .setWpa2EnterpriseConfig(enterpriseConfig)
+            .setEnterpriseConfig(enterpriseConfig, securityMode)
             .setIsAppInteractionRequired(false)
             .build()
 
+        // Clear any prior suggestion first — the app holds one enterprise network
+        // at a time, and a stale one would compete during the next auto-join.
+        clearAllSuggestions()
+
         val status = wifiManager.addNetworkSuggestions(listOf(suggestion))
 
         return when (status) {
@@ -232,18 +448,146 @@ class WifiEnterpriseManager(private val context: Context) {
     }
 
     /**
-     * Remove every network suggestion this app added. Android matches
+     * Remove every SSID network suggestion this app added. Android matches
      * suggestions for removal by full equality (SSID + security + enterprise
      * config), which can't be rebuilt from an SSID alone, so per-SSID removal
      * isn't possible. The companion holds one enterprise network at a time, so
      * clearing all is equivalent to forgetting it — and also stops a stale
-     * suggestion from competing during the next auto-join.
+     * suggestion from competing during the next auto-join. Passpoint profiles
+     * are suggestions too and are left alone.
      */
     fun clearAllSuggestions(): Boolean {
-        val status = wifiManager.removeNetworkSuggestions(emptyList())
+        val ssidSuggestions = wifiManager.networkSuggestions.filter { it.passpointConfig == null }
+        if (ssidSuggestions.isEmpty()) return true
+        val status = wifiManager.removeNetworkSuggestions(ssidSuggestions)
         return status == WifiManager.STATUS_NETWORK_SUGGESTIONS_SUCCESS
     }
 
+    data class PasspointResult(
+        val success: Boolean,
+        val fqdn: String,
+        val message: String? = null,
+        val error: String? = null
+    )
+
+    /**
+     * Install a Passpoint profile as a network suggestion. Suggestions are keyed
+     * by home SP FQDN, so installing the same FQDN again replaces the profile.
+     */
+    fun installPasspoint(config: JSONObject): PasspointResult {
+        val fqdn = config.getString("fqdn")
+        return try {
+            val passpoint = PasspointConfiguration().apply {
+                homeSp = HomeSp().apply {
+                    this.fqdn = fqdn
+                    friendlyName = config.getString("friendlyName")
+                    config.optJSONArray("roamingConsortiumOis")?.let { arr ->
+                        roamingConsortiumOis = LongArray(arr.length()) { arr.getString(it).toLong(16) }
+                    }
+                }
+                credential = buildPasspointCredential(config)
+            }
+            val suggestion = WifiNetworkSuggestion.Builder()
+                .setPasspointConfig(passpoint)
+                .setIsAppInteractionRequired(false)
+                .build()
+
+            when (val status = wifiManager.addNetworkSuggestions(listOf(suggestion))) {
+                WifiManager.STATUS_NETWORK_SUGGESTIONS_SUCCESS -> {
+                    Log.i(TAG, "Passpoint profile installed for $fqdn")
+                    PasspointResult(true, fqdn, message = "Passpoint profile installed. Device will connect when a matching hotspot is in range.")
+                }
+                WifiManager.STATUS_NETWORK_SUGGESTIONS_ERROR_APP_DISALLOWED -> PasspointResult(
+                    false,
+                    fqdn,
+                    error = "App is not allowed to add network suggestions. User must approve in settings."
+                )
+                WifiManager.STATUS_NETWORK_SUGGESTIONS_ERROR_ADD_NOT_ALLOWED -> PasspointResult(
+                    false,
+                    fqdn,
+                    error = "Android only accepts Passpoint profiles with a SIM credential from carrier-privileged apps"
+                )
+                WifiManager.STATUS_NETWORK_SUGGESTIONS_ERROR_ADD_INVALID -> PasspointResult(
+                    false,
+                    fqdn,
+                    error = "The framework rejected the Passpoint profile as invalid (user and certificate credentials may need caCertificate)"
+                )
+                else -> PasspointResult(false, fqdn, error = "Failed to add Passpoint suggestion. Status code: $status")
+            }
+        } catch (e: Exception) {
+            Log.e(TAG, "Passpoint install for $fqdn failed", e)
+            PasspointResult(false, fqdn, error = e.message ?: "Unknown error")
+        }
+    }
+
+    /** Passpoint profiles this app has installed. */
+    fun listPasspoint(): List<Map<String, Any>> =
+        wifiManager.networkSuggestions.mapNotNull { it.passpointConfig }.map { pc ->
+            val credential = pc.credential
+            mapOf(
+                "fqdn" to pc.homeSp.fqdn,
+                "friendlyName" to (pc.homeSp.friendlyName ?: ""),
+                "realm" to (credential?.realm ?: ""),
+                "credentialType" to when {
+                    credential?.simCredential != null -> "sim"
+                    credential?.certCredential != null -> "certificate"
+                    else -> "user"
+                },
+                "roamingConsortiumOis" to (pc.homeSp.roamingConsortiumOis?.map(::formatOi) ?: emptyList<String>())
+            )
+        }
+
+    /** An OI is 3 or 5 octets; keep its leading zeros so it reads back as it was installed. */
+    private fun formatOi(oi: Long): String = if (oi > 0xFFFFFFL) "%010x".format(oi) else "%06x".format(oi)
+
+    fun removePasspoint(fqdn: String): PasspointResult {
+        val matching = wifiManager.networkSuggestions.filter { it.passpointConfig?.homeSp?.fqdn.equals(fqdn, ignoreCase = true) }
+        if (matching.isEmpty()) return PasspointResult(false, fqdn, error = "No Passpoint profile installed for $fqdn")
+        val status = wifiManager.removeNetworkSuggestions(matching)
+        return if (status == WifiManager.STATUS_NETWORK_SUGGESTIONS_SUCCESS) {
+            Log.i(TAG, "Passpoint profile removed for $fqdn")
+            PasspointResult(true, fqdn, message = "Passpoint profile removed")
+        } else {
+            PasspointResult(false, fqdn, error = "Failed to remove Passpoint suggestion. Status code: $status")
+        }
+    }
+
+    /**
+     * One credential per profile: username/password over EAP-TTLS/MSCHAPv2,
+     * a client certificate over EAP-TLS, or the SIM over EAP-SIM/AKA/AKA'.
+     * The Passpoint MO stores the user password base64-encoded.
+     */
+    private fun buildPasspointCredential(config: JSONObject): Credential = Credential().apply {
+        realm = config.getString("realm")
+        config.optString("caCertificate", "").takeIf { it.isNotBlank() }?.let { caCertificate = parseCertificate(it) }
+        when (val type = config.getString("credentialType")) {
+            "user" -> userCredential = Credential.UserCredential().apply {
+                username = config.getString("username")
+                password = Base64.getEncoder().encodeToString(config.getString("password").toByteArray())
+                eapType = EAP_TTLS
+                nonEapInnerMethod = "MS-CHAP-V2"
+            }
+            "certificate" -> {
+                val clientCert = parseCertificate(config.getString("clientCertificate"))
+                certCredential = Credential.CertificateCredential().apply {
+                    certType = "x509v3"
+                    certSha256Fingerprint = MessageDigest.getInstance("SHA-256").digest(clientCert.encoded)
+                }
+                clientCertificateChain = arrayOf(clientCert)
+                clientPrivateKey = parsePrivateKey(config.getString("privateKey"))
+            }
+            "sim" -> simCredential = Credential.SimCredential().apply {
+                imsi = config.getString("imsi")
+                eapType = when (config.optString("simEapMethod", "aka")) {
+                    "sim" -> EAP_SIM
+                    "aka_prime" -> EAP_AKA_PRIME
+                    else -> EAP_AKA
+                }
+            }
+            else -> throw IllegalArgumentException("Unknown Passpoint credential type: $type")
+        }
+    }
+
     /**
      * Parse PEM-encoded X.509 certificate
      */
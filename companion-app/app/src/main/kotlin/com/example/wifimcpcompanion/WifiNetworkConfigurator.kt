@@ -0,0 +1,208 @@
+package com.example.wifimcpcompanion
+
+import android.content.Context
+import android.net.LinkAddress
+import android.net.ProxyInfo
+import android.net.Uri
+import android.net.wifi.WifiConfiguration
+import android.net.wifi.WifiManager
+import android.os.Build
+import android.util.Log
+import org.json.JSONObject
+import java.net.InetAddress
+
+/**
+ * Adds a PSK/open/OWE network with the WifiConfiguration fields that
+ * `cmd wifi connect-network` has no flags for: static IP and HTTP proxy
+ * (plus hidden / metered / MAC randomization / BSSID so one call carries
+ * everything), and changes auto-join / priority on saved networks.
+ *
+ * `WifiManager.addNetwork` is refused for ordinary apps on Android 10+; it
+ * works once the companion is device owner:
+ *   adb shell dpm set-device-owner com.example.wifimcpcompanion/.CompanionDeviceAdminReceiver
+ */
+@Suppress("DEPRECATION")
+class WifiNetworkConfigurator(private val context: Context) {
+
+    companion object {
+        private const val TAG = "WifiNetworkConfigurator"
+        private const val DEVICE_OWNER_HINT =
+            "adb shell dpm set-device-owner com.example.wifimcpcompanion/.CompanionDeviceAdminReceiver"
+    }
+
+    private val wifiManager: WifiManager by lazy {
+        context.applicationContext.getSystemService(Context.WIFI_SERVICE) as WifiManager
+    }
+
+    data class ConfigureResult(
+        val success: Boolean,
+        val ssid: String,
+        val networkId: Int = -1,
+        val message: String? = null,
+        val error: String? = null
+    )
+
+    fun configure(config: JSONObject): ConfigureResult {
+        val ssid = config.getString("ssid")
+        return try {
+            val wifiConfig = WifiConfiguration().apply {
+                SSID = "\"$ssid\""
+                hiddenSSID = config.optBoolean("hidden", false)
+                config.optString("bssid", "").takeIf { it.isNotEmpty() }?.let { BSSID = it }
+                applySecurity(config.optString("security", "open"), config.optString("password", ""))
+            }
+            if (config.optBoolean("metered", false)) setHiddenInt(wifiConfig, "meteredOverride", 1 /* METERED_OVERRIDE_METERED */)
+            config.optString("macRandomization", "").takeIf { it.isNotEmpty() }?.let { applyMacRandomization(wifiConfig, it) }
+            config.optJSONObject("proxy")?.let { wifiConfig.httpProxy = buildProxy(it) }
+            config.optJSONObject("staticIp")?.let { applyStaticIp(wifiConfig, it) }
+
+            val networkId = wifiManager.addNetwork(wifiConfig)
+            if (networkId == -1) {
+                return ConfigureResult(
+                    success = false,
+                    ssid = ssid,
+                    error = "addNetwork was refused. On Android 10+ only a device-owner app may add networks: $DEVICE_OWNER_HINT"
+                )
+            }
+            if (!wifiManager.enableNetwork(networkId, true)) {
+                return ConfigureResult(false, ssid, networkId, error = "Network added (id $networkId) but enableNetwork failed")
+            }
+            Log.i(TAG, "Configured and enabled $ssid as network $networkId")
+            ConfigureResult(true, ssid, networkId, message = "Network configured (id $networkId); connecting")
+        } catch (e: Exception) {
+            Log.e(TAG, "Configuring $ssid failed", e)
+            ConfigureResult(false, ssid, error = e.message ?: e.javaClass.simpleName)
+        }
+    }
+
+    /**
+     * Change auto-join and/or priority of an existing saved network.
+     * `WifiManager.allowAutojoin` is a system API, so it's tried reflectively
+     * and, when refused, the hidden `allowAutojoin` field is set and written
+     * back with `updateNetwork` (which a device owner may do for any network).
+     */
+    fun update(config: JSONObject): ConfigureResult {
+        val networkId = config.getInt("networkId")
+        return try {
+            val existing = wifiManager.configuredNetworks.firstOrNull { it.networkId == networkId }
+                ?: return ConfigureResult(false, "", networkId, error = "No saved network with ID $networkId")
+            val ssid = existing.SSID.removeSurrounding("\"")
+
+            if (config.has("autoJoin")) {
+                val allow = config.getBoolean("autoJoin")
+                try {
+                    WifiManager::class.java
+                        .getMethod("allowAutojoin", Int::class.javaPrimitiveType, Boolean::class.javaPrimitiveType)
+                        .invoke(wifiManager, networkId, allow)
+                } catch (e: Exception) {
+                    Log.w(TAG, "allowAutojoin refused, falling back to updateNetwork", e)
+                    WifiConfiguration::class.java.getField("allowAutojoin").setBoolean(existing, allow)
+                }
+            }
+            if (config.has("priority")) existing.priority = config.getInt("priority")
+
+            if (wifiManager.updateNetwork(existing) == -1) {
+                return ConfigureResult(
+                    success = false,
+                    ssid = ssid,
+                    networkId = networkId,
+                    error = "updateNetwork was refused. On Android 10+ only a device-owner app may change networks: $DEVICE_OWNER_HINT"
+                )
+            }
+            Log.i(TAG, "Updated network $networkId ($ssid)")
+            ConfigureResult(true, ssid, networkId, message = "Network $networkId updated")
+        } catch (e: Exception) {
+            Log.e(TAG, "Updating network $networkId failed", e)
+            ConfigureResult(false, "", networkId, error = e.message ?: e.javaClass.simpleName)
+        }
+    }
+
+    private fun WifiConfiguration.applySecurity(security: String, password: String) {
+        when (security) {
+            "open" -> setSecurity(WifiConfiguration.SECURITY_TYPE_OPEN, WifiConfiguration.KeyMgmt.NONE)
+            "owe" -> setSecurity(WifiConfiguration.SECURITY_TYPE_OWE, WifiConfiguration.KeyMgmt.OWE)
+            "wpa2" -> {
+                setSecurity(WifiConfiguration.SECURITY_TYPE_PSK, WifiConfiguration.KeyMgmt.WPA_PSK)
+                preSharedKey = "\"$password\""
+            }
+            "wpa3" -> {
+                setSecurity(WifiConfiguration.SECURITY_TYPE_SAE, WifiConfiguration.KeyMgmt.SAE)
+                preSharedKey = "\"$password\""
+            }
+            else -> throw IllegalArgumentException("Unsupported security type: $security")
+        }
+    }
+
+    /** setSecurityParams is API 31+; on Android 11 set the key management bits it would have set. */
+    private fun WifiConfiguration.setSecurity(securityType: Int, keyMgmt: Int) {
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.S) {
+            setSecurityParams(securityType)
+            return
+        }
+        allowedKeyManagement.clear()
+        allowedKeyManagement.set(keyMgmt)
+        if (keyMgmt != WifiConfiguration.KeyMgmt.NONE) allowedProtocols.set(WifiConfiguration.Protocol.RSN)
+    }
+
+    private fun applyMacRandomization(wifiConfig: WifiConfiguration, mode: String) {
+        val setting = when (mode) {
+            "none" -> 0
+            "persistent" -> 1
+            "non_persistent" -> 2
+            "auto" -> 3
+            else -> throw IllegalArgumentException("Unknown macRandomization: $mode")
+        }
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.TIRAMISU) {
+            wifiConfig.macRandomizationSetting = setting
+        } else {
+            setHiddenInt(wifiConfig, "macRandomizationSetting", setting)
+        }
+    }
+
+    private fun buildProxy(proxy: JSONObject): ProxyInfo {
+        val pacUrl = proxy.optString("pacUrl", "")
+        if (pacUrl.isNotEmpty()) return ProxyInfo.buildPacProxy(Uri.parse(pacUrl))
+        val exclusions = proxy.optJSONArray("exclusionList")?.let { arr -> List(arr.length()) { arr.getString(it) } } ?: emptyList()
+        return ProxyInfo.buildDirectProxy(proxy.getString("host"), proxy.getInt("port"), exclusions)
+    }
+
+    /**
+     * There is no public API for a static IP on a WifiConfiguration —
+     * StaticIpConfiguration and IpConfiguration are @SystemApi — so build them
+     * reflectively. Builds whose hidden-API policy blocks this fail with the
+     * reflection error, which is reported to the caller as-is.
+     */
+    private fun applyStaticIp(wifiConfig: WifiConfiguration, staticIp: JSONObject) {
+        val (address, prefix) = staticIp.getString("address").split("/")
+        val linkAddress = LinkAddress::class.java
+            .getConstructor(InetAddress::class.java, Int::class.javaPrimitiveType)
+            .newInstance(InetAddress.getByName(address), prefix.toInt())
+
+        val builderClass = Class.forName("android.net.StaticIpConfiguration\$Builder")
+        val builder = builderClass.getConstructor().newInstance()
+        builderClass.getMethod("setIpAddress", LinkAddress::class.java).invoke(builder, linkAddress)
+        staticIp.optString("gateway", "").takeIf { it.isNotEmpty() }?.let {
+            builderClass.getMethod("setGateway", InetAddress::class.java).invoke(builder, InetAddress.getByName(it))
+        }
+        staticIp.optJSONArray("dns")?.let { arr ->
+            val servers = List(arr.length()) { InetAddress.getByName(arr.getString(it)) }
+            builderClass.getMethod("setDnsServers", Iterable::class.java).invoke(builder, servers)
+        }
+        val staticConfig = builderClass.getMethod("build").invoke(builder)
+
+        val staticConfigClass = Class.forName("android.net.StaticIpConfiguration")
+        val ipConfigClass = Class.forName("android.net.IpConfiguration")
+        val ipConfig = ipConfigClass.getConstructor().newInstance()
+        ipConfigClass.getMethod("setStaticIpConfiguration", staticConfigClass).invoke(ipConfig, staticConfig)
+        val assignmentClass = Class.forName("android.net.IpConfiguration\$IpAssignment")
+        val static = assignmentClass.enumConstants!!.first { (it as Enum<*>).name == "STATIC" }
+        ipConfigClass.getMethod("setIpAssignment", assignmentClass).invoke(ipConfig, static)
+        // Keep any proxy already set on the config.
+        wifiConfig.httpProxy?.let { ipConfigClass.getMethod("setHttpProxy", ProxyInfo::class.java).invoke(ipConfig, it) }
+        WifiConfiguration::class.java.getMethod("setIpConfiguration", ipConfigClass).invoke(wifiConfig, ipConfig)
+    }
+
+    private fun setHiddenInt(wifiConfig: WifiConfiguration, field: String, value: Int) {
+        WifiConfiguration::class.java.getField(field).setInt(wifiConfig, value)
+    }
+}
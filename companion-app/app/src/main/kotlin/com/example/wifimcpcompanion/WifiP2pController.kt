@@ -0,0 +1,138 @@
+package com.example.wifimcpcompanion
+
+import android.content.Context
+import android.net.wifi.WpsInfo
+import android.net.wifi.p2p.WifiP2pConfig
+import android.net.wifi.p2p.WifiP2pDevice
+import android.net.wifi.p2p.WifiP2pManager
+import android.os.HandlerThread
+import android.util.Log
+import org.json.JSONObject
+import java.util.concurrent.CountDownLatch
+import java.util.concurrent.TimeUnit
+
+/**
+ * Wi-Fi Direct operations the shell has no command for: peer discovery,
+ * connecting to a peer and tearing the group down.
+ *
+ * WifiP2pManager is callback-based, so every call runs on a private looper
+ * thread and the caller blocks on a latch — callers must already be off the
+ * main thread (AdbBridgeReceiver runs P2P actions under goAsync()).
+ *
+ * Needs NEARBY_WIFI_DEVICES on Android 13+ (ACCESS_FINE_LOCATION before):
+ *   adb shell pm grant com.example.wifimcpcompanion android.permission.NEARBY_WIFI_DEVICES
+ */
+class WifiP2pController(private val context: Context) {
+
+    companion object {
+        private const val TAG = "WifiP2pController"
+        private const val CALL_TIMEOUT_SECONDS = 10L
+        // goAsync() gives the receiver about a minute; leave room for the two framework calls.
+        private const val MAX_DISCOVERY_MS = 45_000L
+    }
+
+    data class P2pResult(
+        val success: Boolean,
+        val message: String,
+        val extra: Map<String, Any> = emptyMap()
+    )
+
+    private val manager: WifiP2pManager by lazy {
+        context.applicationContext.getSystemService(Context.WIFI_P2P_SERVICE) as WifiP2pManager
+    }
+
+    /** Start discovery, let it run for `durationMs` (at most 45 s), then report the peer list. */
+    fun discover(config: JSONObject): P2pResult = withChannel { channel ->
+        val durationMs = config.optLong("durationMs", 10_000).coerceIn(0, MAX_DISCOVERY_MS)
+        val started = await { listener -> manager.discoverPeers(channel, listener) }
+        if (started != null) return@withChannel P2pResult(false, "discoverPeers failed: $started")
+
+        Thread.sleep(durationMs)
+        val latch = CountDownLatch(1)
+        var peers: List<WifiP2pDevice> = emptyList()
+        manager.requestPeers(channel) { list ->
+            peers = list?.deviceList?.toList() ?: emptyList()
+            latch.countDown()
+        }
+        latch.await(CALL_TIMEOUT_SECONDS, TimeUnit.SECONDS)
+        manager.stopPeerDiscovery(channel, null)
+
+        Log.i(TAG, "Discovery found ${peers.size} peers")
+        P2pResult(true, "Found ${peers.size} peers", mapOf("peers" to peers.map(::deviceToMap)))
+    }
+
+    /** Invite `deviceAddress`; group formation is then observed from the shell. */
+    fun connect(config: JSONObject): P2pResult = withChannel { channel ->
+        val deviceAddress = config.getString("deviceAddress")
+        val p2pConfig = WifiP2pConfig().apply {
+            this.deviceAddress = deviceAddress
+            if (config.has("groupOwnerIntent")) groupOwnerIntent = config.getInt("groupOwnerIntent")
+            wps.setup = when (config.optString("wps", "pbc")) {
+                "display" -> WpsInfo.DISPLAY
+                "keypad" -> WpsInfo.KEYPAD
+                else -> WpsInfo.PBC
+            }
+            config.optString("pin", "").takeIf { it.isNotEmpty() }?.let { wps.pin = it }
+        }
+        val failure = await { listener -> manager.connect(channel, p2pConfig, listener) }
+        if (failure != null) {
+            P2pResult(false, "connect failed: $failure", mapOf("deviceAddress" to deviceAddress))
+        } else {
+            Log.i(TAG, "Invitation sent to $deviceAddress")
+            P2pResult(true, "Invitation sent to $deviceAddress", mapOf("deviceAddress" to deviceAddress))
+        }
+    }
+
+    fun removeGroup(): P2pResult = withChannel { channel ->
+        val failure = await { listener -> manager.removeGroup(channel, listener) }
+        if (failure != null) P2pResult(false, "removeGroup failed: $failure") else P2pResult(true, "Group removed")
+    }
+
+    private fun withChannel(block: (WifiP2pManager.Channel) -> P2pResult): P2pResult {
+        val thread = HandlerThread("wifi-p2p").apply { start() }
+        return try {
+            val channel = manager.initialize(context, thread.looper, null)
+                ?: return P2pResult(false, "Wi-Fi Direct is not supported on this device")
+            block(channel).also { channel.close() }
+        } catch (e: SecurityException) {
+            P2pResult(false, "Permission denied (grant NEARBY_WIFI_DEVICES / ACCESS_FINE_LOCATION): ${e.message}")
+        } catch (e: Exception) {
+            Log.e(TAG, "Wi-Fi Direct call failed", e)
+            P2pResult(false, e.message ?: e.javaClass.simpleName)
+        } finally {
+            thread.quitSafely()
+        }
+    }
+
+    /** Run one ActionListener call; returns null on success or the failure reason. */
+    private fun await(call: (WifiP2pManager.ActionListener) -> Unit): String? {
+        val latch = CountDownLatch(1)
+        var failure: String? = "timed out"
+        call(object : WifiP2pManager.ActionListener {
+            override fun onSuccess() {
+                failure = null
+                latch.countDown()
+            }
+
+            override fun onFailure(reason: Int) {
+                failure = when (reason) {
+                    WifiP2pManager.P2P_UNSUPPORTED -> "P2P unsupported"
+                    WifiP2pManager.BUSY -> "framework busy"
+                    WifiP2pManager.NO_SERVICE_REQUESTS -> "no service requests"
+                    else -> "internal error"
+                }
+                latch.countDown()
+            }
+        })
+        latch.await(CALL_TIMEOUT_SECONDS, TimeUnit.SECONDS)
+        return failure
+    }
+
+    private fun deviceToMap(device: WifiP2pDevice): Map<String, Any> = mapOf(
+        "deviceName" to (device.deviceName ?: ""),
+        "deviceAddress" to device.deviceAddress,
+        "primaryDeviceType" to (device.primaryDeviceType ?: ""),
+        "status" to device.status,
+        "isGroupOwner" to device.isGroupOwner
+    )
+}
@@ -0,0 +1,29 @@
+/**
+ * RF survey samples (wifi_survey_start / wifi_survey_stop): one row per BSSID
+ * sighting per survey scan, tagged with the location label in effect.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('wifi_survey_samples', {
+    sample_id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    survey_id: { type: 'uuid', notNull: true },
+    serial: { type: 'text', notNull: true },
+    label: { type: 'text', notNull: false },
+    scan: { type: 'integer', notNull: true },
+    bssid: { type: 'text', notNull: true },
+    ssid: { type: 'text', notNull: true },
+    frequency: { type: 'integer', notNull: true },
+    channel: { type: 'integer', notNull: false },
+    band: { type: 'text', notNull: false },
+    rssi: { type: 'integer', notNull: true },
+    security: { type: 'text', notNull: true },
+    sampled_at: { type: 'timestamptz', notNull: true, default: pgm.func('now()') },
+  });
+  pgm.createIndex('wifi_survey_samples', 'survey_id');
+  pgm.createIndex('wifi_survey_samples', 'bssid');
+  pgm.createIndex('wifi_survey_samples', 'sampled_at');
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('wifi_survey_samples');
+};
@@ -1,54 +1,33 @@
-import { execFile, spawn } from 'child_process';
-import { promisify } from 'util';
 import { Device, DeviceInfo, AdbResult } from '../types.js';
+import { AdbTransport, SpawnTransport } from './transport.js';
 
-const execFileAsync = promisify(execFile);
-
-const MAX_OUTPUT_BUFFER = 1024 * 1024 * 8; // 8 MB; covers ui_dump and wifi_scan with headroom
+export { formatAdbError } from './transport.js';
 
 export class AdbClient {
-  private adbPath: string;
+  private transport: AdbTransport;
   private selectedDevice: string | null = null;
 
-  constructor(adbPath: string = 'adb') {
-    this.adbPath = adbPath;
+  /**
+   * `transport` overrides where commands go (e.g. the virtual device); when
+   * omitted, commands spawn the real adb binary at `adbPath`.
+   */
+  constructor(adbPath: string = 'adb', transport?: AdbTransport) {
+    this.transport = transport ?? new SpawnTransport(adbPath);
   }
 
   /**
-   * Execute an ADB command.
-   *
-   * Uses `execFile` so adb is invoked directly with an args array — no host
-   * /bin/sh layer between us and adb. That keeps shell metacharacters in
-   * shell-command args (`|`, `>`, single quotes around `sh -c '...'`)
-   * intact when adb forwards them to the device shell.
+   * Get the transport commands are sent through
+   */
+  getTransport(): AdbTransport {
+    return this.transport;
+  }
+
+  /**
+   * Execute an ADB command against the selected device.
    */
   async exec(args: string[], timeout: number = 30000): Promise<AdbResult> {
     const deviceArgs = this.selectedDevice ? ['-s', this.selectedDevice] : [];
-    const fullArgs = [...deviceArgs, ...args];
-
-    try {
-      const { stdout, stderr } = await execFileAsync(this.adbPath, fullArgs, {
-        timeout,
-        maxBuffer: MAX_OUTPUT_BUFFER,
-      });
-      return {
-        success: true,
-        stdout: stdout.trim(),
-        stderr: stderr.trim(),
-        exitCode: 0,
-      };
-    } catch (error: unknown) {
-      const err = error as ExecError;
-      return {
-        success: false,
-        stdout: err.stdout?.trim() || '',
-        // Never fall back to err.message: for a timeout Node sets it to
-        // "Command failed: <full command>", leaking secret args (Wi-Fi
-        // password, EAP credentials) into stderr and tool_calls.error (#81).
-        stderr: formatAdbError(err, timeout),
-        exitCode: err.code ?? 1,
-      };
-    }
+    return this.transport.exec([...deviceArgs, ...args], timeout);
   }
 
   /**
@@ -216,66 +195,6 @@ export class AdbClient {
    */
   async execBinary(args: string[], timeout: number = 30000): Promise<Buffer> {
     const deviceArgs = this.selectedDevice ? ['-s', this.selectedDevice] : [];
-    const fullArgs = [...deviceArgs, ...args];
-
-    return new Promise((resolve, reject) => {
-      const proc = spawn(this.adbPath, fullArgs);
-      const chunks: Buffer[] = [];
-      const errChunks: Buffer[] = [];
-
-      const timer = setTimeout(() => {
-        proc.kill('SIGKILL');
-        // Don't echo args — keep secret-bearing commands out of error text (#81).
-        reject(new Error(`adb command timed out after ${timeout}ms`));
-      }, timeout);
-
-      proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
-      proc.stderr.on('data', (chunk: Buffer) => errChunks.push(chunk));
-      proc.on('error', (err) => {
-        clearTimeout(timer);
-        reject(err);
-      });
-      proc.on('close', (code) => {
-        clearTimeout(timer);
-        if (code === 0) {
-          resolve(Buffer.concat(chunks));
-        } else {
-          const err = Buffer.concat(errChunks).toString().trim();
-          reject(new Error(`adb exited with code ${code}: ${err}`));
-        }
-      });
-    });
-  }
-}
-
-/** Shape of the error object child_process rejects with (execFile). */
-interface ExecError {
-  stdout?: string;
-  stderr?: string;
-  code?: number;
-  message?: string;
-  killed?: boolean;
-  signal?: string;
-}
-
-/**
- * Build a safe error string for a failed `adb` invocation.
- *
- * Critically it NEVER returns Node's `err.message`: for a timeout that is
- * `Command failed: <full command>`, which would leak secret args (Wi-Fi
- * password, EAP credentials) into `AdbResult.stderr` and from there into
- * surfaced errors and the `tool_calls.error` log column (#81). The command's
- * own `stderr` (device output — no command line) is safe to pass through;
- * otherwise we return a generic message.
- *
- * Pure function — exported for unit testing.
- */
-export function formatAdbError(err: ExecError, timeoutMs: number): string {
-  if (err.killed || err.signal) {
-    return `adb command timed out after ${timeoutMs}ms`;
+    return this.transport.execBinary([...deviceArgs, ...args], timeout);
   }
-  const stderr = err.stderr?.trim();
-  if (stderr) return stderr;
-  if (err.code !== undefined) return `adb command failed (exit ${err.code})`;
-  return 'adb command failed';
 }
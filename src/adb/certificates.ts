@@ -0,0 +1,110 @@
+import { X509Certificate } from 'node:crypto';
+import { CertificateInfo } from '../types.js';
+
+/** Certificates expiring within this many days draw a warning. */
+export const EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PEM_BLOCK = /-----BEGIN CERTIFICATE-----[\s\S]*?-----END CERTIFICATE-----/g;
+
+/**
+ * Parse every certificate in `input`: PEM text with one or more blocks (a
+ * chain), or the base64 of a PEM file or of a single DER certificate — the
+ * forms wifi_install_certificate accepts. Throws when nothing parses.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function inspectCertificates(input: string, now: Date = new Date()): CertificateInfo[] {
+  return decodeCertificates(input).map(cert => describeCertificate(cert, now));
+}
+
+/**
+ * Warnings for certificates that are expired, not yet valid, or expire within
+ * `withinDays`, keyed by the field that carried them (e.g. `caCertificate`).
+ * Fields that are unset or don't parse are skipped — the companion reports
+ * those itself.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function certificateExpiryWarnings(
+  fields: Record<string, string | undefined>,
+  now: Date = new Date(),
+  withinDays: number = EXPIRY_WARNING_DAYS
+): string[] {
+  const warnings: string[] = [];
+  for (const [field, value] of Object.entries(fields)) {
+    if (!value) continue;
+    let certs: CertificateInfo[];
+    try {
+      certs = inspectCertificates(value, now);
+    } catch {
+      continue;
+    }
+    for (const cert of certs) {
+      const name = `${field} "${commonName(cert.subject)}"`;
+      const until = cert.notAfter.slice(0, 10);
+      if (cert.expired) {
+        warnings.push(`${name} expired on ${until}`);
+      } else if (cert.notYetValid) {
+        warnings.push(`${name} is not valid until ${cert.notBefore.slice(0, 10)}`);
+      } else if (cert.daysUntilExpiry <= withinDays) {
+        warnings.push(`${name} expires on ${until} (${cert.daysUntilExpiry} days)`);
+      }
+    }
+  }
+  return warnings;
+}
+
+function decodeCertificates(input: string): X509Certificate[] {
+  let text = input.trim();
+  if (!text.includes('-----BEGIN')) {
+    const der = Buffer.from(text.replace(/\s+/g, ''), 'base64');
+    const decoded = der.toString('latin1');
+    if (!decoded.includes('-----BEGIN CERTIFICATE-----')) return [parse(der)];
+    text = decoded;
+  }
+  const blocks = text.match(PEM_BLOCK);
+  if (!blocks) throw new Error('No PEM certificate found (expected -----BEGIN CERTIFICATE-----)');
+  return blocks.map(block => parse(block));
+}
+
+function parse(data: string | Buffer): X509Certificate {
+  try {
+    return new X509Certificate(data);
+  } catch (err) {
+    throw new Error(`Invalid certificate: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function describeCertificate(cert: X509Certificate, now: Date): CertificateInfo {
+  const notBefore = new Date(cert.validFrom);
+  const notAfter = new Date(cert.validTo);
+  const info: CertificateInfo = {
+    subject: distinguishedName(cert.subject),
+    issuer: distinguishedName(cert.issuer),
+    subjectAltNames: cert.subjectAltName ? cert.subjectAltName.split(/,\s*/) : [],
+    serialNumber: cert.serialNumber,
+    notBefore: notBefore.toISOString(),
+    notAfter: notAfter.toISOString(),
+    daysUntilExpiry: Math.floor((notAfter.getTime() - now.getTime()) / DAY_MS),
+    expired: notAfter.getTime() < now.getTime(),
+    notYetValid: notBefore.getTime() > now.getTime(),
+    isCa: cert.ca,
+    selfSigned: cert.subject === cert.issuer && cert.verify(cert.publicKey),
+    fingerprintSha256: cert.fingerprint256,
+  };
+  const key = cert.publicKey;
+  const details = key.asymmetricKeyDetails;
+  const size = details?.namedCurve ?? details?.modulusLength;
+  if (key.asymmetricKeyType) info.publicKey = size ? `${key.asymmetricKeyType} ${size}` : key.asymmetricKeyType;
+  return info;
+}
+
+/** Node prints one RDN per line; join them the way openssl -nameopt oneline does. */
+function distinguishedName(name: string): string {
+  return name.split('\n').filter(Boolean).join(', ');
+}
+
+function commonName(subject: string): string {
+  return subject.match(/(?:^|, )CN=([^,]+)/)?.[1] ?? subject;
+}
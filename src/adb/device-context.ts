@@ -0,0 +1,164 @@
+import { AdbClient } from './adb-client.js';
+import { WifiCommands } from './wifi-commands.js';
+import { ScreenshotCommands } from './screenshot-commands.js';
+import { SmsCommands } from './sms-commands.js';
+import { NotificationCommands } from './notifications-commands.js';
+import { SettingsCommands } from './settings-commands.js';
+import { FileCommands } from './file-commands.js';
+import { DeviceStateCommands } from './device-state.js';
+import { HotspotCommands } from './hotspot-commands.js';
+import type { AdbTransport, TrackDevicesProcess } from './transport.js';
+import type { AdbResult } from '../types.js';
+import type { WifiSurvey } from './wifi-survey.js';
+
+/**
+ * One phone's worth of command builders, all sharing an `AdbClient` pinned to
+ * that serial. DeviceManager hands out one context per serial, so two agents
+ * driving two phones never share a selection or step on each other's command
+ * instances.
+ *
+ * {@link exclusive} serializes work on this device: a roaming test and a
+ * settings write on the same phone can't interleave their adb calls, while
+ * calls against different phones run concurrently. {@link stepwise} is the
+ * same phone with the lock taken per adb call instead, for tools that wait.
+ */
+export class DeviceContext {
+  private readonly adb: AdbClient;
+  private readonly wifi: WifiCommands;
+  private readonly screenshot: ScreenshotCommands;
+  private readonly sms: SmsCommands;
+  private readonly notifications: NotificationCommands;
+  private readonly settings: SettingsCommands;
+  private readonly files: FileCommands;
+  private readonly deviceState: DeviceStateCommands;
+  private readonly hotspot: HotspotCommands;
+  private survey: WifiSurvey | null = null;
+  private tail: Promise<void> = Promise.resolve();
+  private pending = 0;
+  private stepwiseView: DeviceContext | null = null;
+
+  /** `owner` is set on a {@link stepwise} view: the context whose lock and state it shares. */
+  constructor(
+    readonly serial: string,
+    private readonly transport: AdbTransport,
+    private readonly owner?: DeviceContext
+  ) {
+    this.adb = new AdbClient(undefined, transport);
+    this.adb.selectDevice(serial);
+    this.wifi = new WifiCommands(this.adb);
+    this.screenshot = new ScreenshotCommands(this.adb);
+    this.sms = new SmsCommands(this.adb);
+    this.notifications = new NotificationCommands(this.adb);
+    this.settings = new SettingsCommands(this.adb);
+    this.files = new FileCommands(this.adb);
+    this.deviceState = new DeviceStateCommands(this.adb, this.wifi, this.settings);
+    this.hotspot = new HotspotCommands(this.adb);
+  }
+
+  getAdbClient(): AdbClient {
+    return this.adb;
+  }
+
+  getWifiCommands(): WifiCommands {
+    return this.wifi;
+  }
+
+  getScreenshotCommands(): ScreenshotCommands {
+    return this.screenshot;
+  }
+
+  getSmsCommands(): SmsCommands {
+    return this.sms;
+  }
+
+  getNotificationCommands(): NotificationCommands {
+    return this.notifications;
+  }
+
+  getSettingsCommands(): SettingsCommands {
+    return this.settings;
+  }
+
+  getFileCommands(): FileCommands {
+    return this.files;
+  }
+
+  getDeviceStateCommands(): DeviceStateCommands {
+    return this.deviceState;
+  }
+
+  getHotspotCommands(): HotspotCommands {
+    return this.hotspot;
+  }
+
+  /** The most recent RF survey on this device (running or stopped), if any. */
+  getSurvey(): WifiSurvey | null {
+    return this.owner ? this.owner.getSurvey() : this.survey;
+  }
+
+  setSurvey(survey: WifiSurvey | null): void {
+    if (this.owner) this.owner.setSurvey(survey);
+    else this.survey = survey;
+  }
+
+  /**
+   * This phone with every adb call taking the device lock on its own, rather
+   * than the caller holding it for a whole tool call — for tools that mostly
+   * wait (OTP polls, scan windows, timed runs), so other tools on the phone
+   * run between their calls. The view's {@link exclusive} is this device's
+   * lock: don't wrap the view's own adb calls in it (not re-entrant).
+   */
+  stepwise(): DeviceContext {
+    if (this.owner) return this;
+    this.stepwiseView ??= new DeviceContext(
+      this.serial,
+      new LockedTransport(this.transport, fn => this.exclusive(fn)),
+      this
+    );
+    return this.stepwiseView;
+  }
+
+  /**
+   * Run `fn` once every earlier exclusive call on this device has settled
+   * (FIFO). Not re-entrant — calling exclusive() from inside `fn` deadlocks.
+   */
+  exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.owner) return this.owner.exclusive(fn);
+    this.pending++;
+    const run = this.tail.then(fn);
+    this.tail = run.then(
+      () => { this.pending--; },
+      () => { this.pending--; }
+    );
+    return run;
+  }
+
+  /** Calls queued or running under {@link exclusive}. */
+  getPendingCount(): number {
+    return this.owner ? this.owner.getPendingCount() : this.pending;
+  }
+}
+
+/** Runs each adb call under `lock`; behind {@link DeviceContext.stepwise}. */
+class LockedTransport implements AdbTransport {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: AdbTransport,
+    private readonly lock: <T>(fn: () => Promise<T>) => Promise<T>
+  ) {
+    this.name = inner.name;
+  }
+
+  exec(args: string[], timeout: number): Promise<AdbResult> {
+    return this.lock(() => this.inner.exec(args, timeout));
+  }
+
+  execBinary(args: string[], timeout: number): Promise<Buffer> {
+    return this.lock(() => this.inner.execBinary(args, timeout));
+  }
+
+  trackDevices(): TrackDevicesProcess {
+    return this.inner.trackDevices();
+  }
+}
@@ -0,0 +1,109 @@
+import { logger } from '../log/logger.js';
+
+const log = logger.child({ component: 'device-leases' });
+
+export const DEFAULT_LEASE_TTL_SECONDS = 15 * 60;
+export const MAX_LEASE_TTL_SECONDS = 24 * 60 * 60;
+
+export interface DeviceLease {
+  serial: string;
+  /** Caller label (X-Caller-Session-Id) or MCP session id of the holder. */
+  owner: string;
+  acquiredAt: Date;
+  expiresAt: Date;
+  note?: string;
+}
+
+export type LeaseAcquireResult =
+  | { success: true; lease: DeviceLease; renewed: boolean }
+  | { success: false; error: string; heldBy: DeviceLease };
+
+export type LeaseReleaseResult =
+  | { success: true; released: boolean }
+  | { success: false; error: string; heldBy: DeviceLease };
+
+/**
+ * Advisory reservations for shared phone labs. A lease names one holder per
+ * device for a bounded time; mutating tools refuse callers that aren't the
+ * holder while a lease is live. Devices without a lease are open to anyone,
+ * so single-user setups never have to think about this.
+ *
+ * Leases are in-memory and expire on their own — a crashed client can't
+ * wedge a phone for longer than its TTL. Expiry is evaluated lazily on every
+ * read, so there is no timer to stop.
+ */
+export class DeviceLeaseRegistry {
+  private leases: Map<string, DeviceLease> = new Map();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * Take or renew the lease on `serial`. Renewing (same owner) resets the
+   * expiry; a live lease held by someone else is refused.
+   */
+  acquire(serial: string, owner: string, ttlSeconds: number, note?: string): LeaseAcquireResult {
+    const current = this.get(serial);
+    if (current && current.owner !== owner) {
+      return { success: false, error: formatHeldError(current), heldBy: current };
+    }
+    const now = this.now();
+    const lease: DeviceLease = {
+      serial,
+      owner,
+      acquiredAt: current?.acquiredAt ?? new Date(now),
+      expiresAt: new Date(now + ttlSeconds * 1000),
+      note: note ?? current?.note,
+    };
+    this.leases.set(serial, lease);
+    log.info({ serial, owner, expiresAt: lease.expiresAt }, current ? 'lease renewed' : 'lease acquired');
+    return { success: true, lease, renewed: !!current };
+  }
+
+  /** Drop the caller's lease on `serial`. Releasing an unleased device is a no-op success. */
+  release(serial: string, owner: string): LeaseReleaseResult {
+    const current = this.get(serial);
+    if (!current) return { success: true, released: false };
+    if (current.owner !== owner) {
+      return { success: false, error: formatHeldError(current), heldBy: current };
+    }
+    this.leases.delete(serial);
+    log.info({ serial, owner }, 'lease released');
+    return { success: true, released: true };
+  }
+
+  /** The live lease on `serial`, if any. */
+  get(serial: string): DeviceLease | undefined {
+    const lease = this.leases.get(serial);
+    if (lease && lease.expiresAt.getTime() <= this.now()) {
+      this.leases.delete(serial);
+      log.info({ serial, owner: lease.owner }, 'lease expired');
+      return undefined;
+    }
+    return lease;
+  }
+
+  /** Every live lease. */
+  list(): DeviceLease[] {
+    return [...this.leases.keys()]
+      .map(serial => this.get(serial))
+      .filter((l): l is DeviceLease => l !== undefined);
+  }
+
+  /**
+   * Error message when `owner` may not mutate `serial`, or null when it may
+   * (no live lease, or `owner` holds it).
+   */
+  checkAccess(serial: string, owner: string | null): string | null {
+    const lease = this.get(serial);
+    if (!lease || lease.owner === owner) return null;
+    return formatHeldError(lease);
+  }
+}
+
+function formatHeldError(lease: DeviceLease): string {
+  const note = lease.note ? ` (${lease.note})` : '';
+  return (
+    `Device ${lease.serial} is leased to '${lease.owner}'${note} until ${lease.expiresAt.toISOString()}. ` +
+    'Wait for device_lease_release or expiry, or pick another device (device_lease_list shows current leases).'
+  );
+}
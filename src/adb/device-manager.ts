@@ -5,8 +5,11 @@ import { SmsCommands } from './sms-commands.js';
 import { NotificationCommands } from './notifications-commands.js';
 import { SettingsCommands } from './settings-commands.js';
 import { FileCommands } from './file-commands.js';
+import { DeviceContext } from './device-context.js';
+import { DeviceLeaseRegistry } from './device-leases.js';
 import { Device, DeviceInfo } from '../types.js';
 import type { DeviceObserver } from './device-observer.js';
+import { SpawnTransport, type AdbTransport } from './transport.js';
 
 function formatElapsed(ms: number): string {
   if (ms < 0) return 'just now';
@@ -20,11 +23,27 @@ function formatElapsed(ms: number): string {
   return `${d}d`;
 }
 
+/**
+ * Where a caller's default device lives. DeviceManager itself is the
+ * process-wide selection (stateless requests); each MCP session carries its
+ * own, so two sessions can `device_select` different phones.
+ */
+export interface DeviceSelection {
+  getSelectedDevice(): string | null;
+  selectDevice(serial: string | null): void;
+}
+
 /**
  * Manages connected Android devices and provides unified access
  * to ADB, WiFi, UI, SMS, notification, settings, and file commands.
+ *
+ * The getters below act on the globally selected device (`device_select`).
+ * Tools go through {@link withDevice} instead, which resolves an explicit
+ * serial (or that selection) to a per-device {@link DeviceContext} and runs
+ * under that device's lock.
  */
-export class DeviceManager {
+export class DeviceManager implements DeviceSelection {
+  private transport: AdbTransport;
   private adb: AdbClient;
   private wifi: WifiCommands;
   private screenshot: ScreenshotCommands;
@@ -34,9 +53,12 @@ export class DeviceManager {
   private files: FileCommands;
   private devices: Map<string, DeviceInfo> = new Map();
   private observer: DeviceObserver | null = null;
+  private contexts: Map<string, DeviceContext> = new Map();
+  private leases = new DeviceLeaseRegistry();
 
-  constructor(adbPath?: string) {
-    this.adb = new AdbClient(adbPath);
+  constructor(adbPath?: string, transport?: AdbTransport) {
+    this.transport = transport ?? new SpawnTransport(adbPath);
+    this.adb = new AdbClient(adbPath, this.transport);
     this.wifi = new WifiCommands(this.adb);
     this.screenshot = new ScreenshotCommands(this.adb);
     this.sms = new SmsCommands(this.adb);
@@ -58,6 +80,13 @@ export class DeviceManager {
     return this.observer;
   }
 
+  /**
+   * Get the device lease registry (shared by every session)
+   */
+  getLeases(): DeviceLeaseRegistry {
+    return this.leases;
+  }
+
   /**
    * Get the ADB client instance
    */
@@ -107,6 +136,35 @@ export class DeviceManager {
     return this.files;
   }
 
+  /**
+   * Get the command context for one device, created on first use. Contexts
+   * are independent of the global selection and of each other.
+   */
+  getDeviceContext(serial: string): DeviceContext {
+    let context = this.contexts.get(serial);
+    if (!context) {
+      context = new DeviceContext(serial, this.transport);
+      this.contexts.set(serial, context);
+    }
+    return context;
+  }
+
+  /**
+   * Run `fn` against one device while holding that device's lock. `serial`
+   * defaults to the device chosen in `selection` (auto-selecting a lone
+   * device, see {@link ensureDeviceSelected}). Calls for different devices
+   * run concurrently; calls for the same device queue in arrival order.
+   */
+  async withDevice<T>(
+    serial: string | undefined,
+    fn: (device: DeviceContext) => Promise<T>,
+    selection: DeviceSelection = this
+  ): Promise<T> {
+    const target = serial ?? (await this.ensureDeviceSelected(selection));
+    const device = this.getDeviceContext(target);
+    return device.exclusive(() => fn(device));
+  }
+
   /**
    * Initialize and check ADB availability
    */
@@ -206,10 +264,11 @@ export class DeviceManager {
   }
 
   /**
-   * Ensure a device is selected, auto-selecting if only one is connected
+   * Ensure a device is selected in `selection` (process-wide by default),
+   * auto-selecting if only one is connected
    */
-  async ensureDeviceSelected(): Promise<string> {
-    const currentSelection = this.adb.getSelectedDevice();
+  async ensureDeviceSelected(selection: DeviceSelection = this): Promise<string> {
+    const currentSelection = selection.getSelectedDevice();
     if (currentSelection) {
       return currentSelection;
     }
@@ -224,12 +283,12 @@ export class DeviceManager {
     if (connectedDevices.length > 1) {
       throw new Error(
         `Multiple devices connected: ${connectedDevices.map(d => d.serial).join(', ')}. ` +
-        'Please select a device using device_select.'
+        'Please select a device using device_select, or pass serial.'
       );
     }
 
     // Auto-select the only connected device
-    this.adb.selectDevice(connectedDevices[0].serial);
+    selection.selectDevice(connectedDevices[0].serial);
     return connectedDevices[0].serial;
   }
 
@@ -263,10 +322,11 @@ export class DeviceManager {
   }
 
   /**
-   * Check device Android version
+   * Check device Android version (of the selected device unless another
+   * device's client is given)
    */
-  async checkAndroidVersion(): Promise<{ supported: boolean; version: number; message: string }> {
-    const info = await this.adb.getDeviceInfo();
+  async checkAndroidVersion(adb: AdbClient = this.adb): Promise<{ supported: boolean; version: number; message: string }> {
+    const info = await adb.getDeviceInfo();
     const version = info.sdkVersion;
 
     if (version < 30) {
@@ -1,7 +1,7 @@
-import { spawn, type ChildProcess } from 'node:child_process';
 import { logger } from '../log/logger.js';
 import { recordDeviceEvent } from '../db/writer.js';
 import { getTraceId } from '../log/trace-context.js';
+import { SpawnTransport, type AdbTransport, type TrackDevicesProcess } from './transport.js';
 
 const log = logger.child({ component: 'device-observer' });
 
@@ -116,10 +116,11 @@ const MAX_BACKOFF_MS = 30_000;
  * can show last-seen state without a DB round-trip.
  *
  * Subprocess death is handled with exponential backoff; the observer stays
- * resilient to `adb kill-server` and similar host-side accidents.
+ * resilient to `adb kill-server` and similar host-side accidents. The stream
+ * comes from the adb transport, so the virtual device drives it too.
  */
 export class DeviceObserver {
-  private proc: ChildProcess | null = null;
+  private proc: TrackDevicesProcess | null = null;
   private decoder = new FrameDecoder();
   private prev: DeviceSnapshot[] = [];
   private ring: DeviceTransition[] = [];
@@ -129,7 +130,7 @@ export class DeviceObserver {
   private backoffMs = RESTART_BACKOFF_MS;
 
   constructor(
-    private readonly adbPath: string = 'adb',
+    private readonly transport: AdbTransport = new SpawnTransport(),
     private readonly ringCapacity: number = DEFAULT_RING_CAPACITY
   ) {}
 
@@ -202,10 +203,8 @@ export class DeviceObserver {
     //      the subprocess died); the pending timer would then race a second spawn.
     // Re-checking here closes both.
     if (this.stopping || this.proc) return;
-    log.info({ adb: this.adbPath }, 'starting device observer');
-    const proc = spawn(this.adbPath, ['track-devices'], {
-      stdio: ['ignore', 'pipe', 'pipe'],
-    });
+    log.info({ adb: this.transport.name }, 'starting device observer');
+    const proc = this.transport.trackDevices();
     this.proc = proc;
 
     proc.stdout.on('data', (chunk: Buffer) => this.handleChunk(chunk));
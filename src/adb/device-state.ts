@@ -0,0 +1,202 @@
+import { randomUUID } from 'node:crypto';
+import { AdbClient } from './adb-client.js';
+import { WifiCommands } from './wifi-commands.js';
+import { SettingsCommands, type SettingsNamespace } from './settings-commands.js';
+import { EnterpriseWifiCommands } from './enterprise-wifi.js';
+import type { SavedNetwork } from '../types.js';
+
+/**
+ * Settings a test is likely to touch and that change how the phone reaches
+ * the network: private DNS, the captive-portal probe, airplane mode.
+ */
+export const SNAPSHOT_SETTINGS: ReadonlyArray<{ namespace: SettingsNamespace; key: string }> = [
+  { namespace: 'global', key: 'private_dns_mode' },
+  { namespace: 'global', key: 'private_dns_specifier' },
+  { namespace: 'global', key: 'captive_portal_mode' },
+  { namespace: 'global', key: 'captive_portal_server' },
+  { namespace: 'global', key: 'captive_portal_http_url' },
+  { namespace: 'global', key: 'captive_portal_https_url' },
+  { namespace: 'global', key: 'airplane_mode_on' },
+];
+
+export interface DeviceStateSnapshot {
+  snapshotId: string;
+  serial: string;
+  takenAt: string;
+  wifiEnabled: boolean;
+  connectedSsid: string | null;
+  connectedNetworkId: number | null;
+  savedNetworks: SavedNetwork[];
+  settings: Array<{ namespace: SettingsNamespace; key: string; value: string | null }>;
+  /** Companion keystore aliases; null when the companion app isn't installed. */
+  companionCertificates: string[] | null;
+}
+
+export interface DeviceStateRestoreResult {
+  snapshotId: string;
+  /** True when the device now matches the snapshot in every captured respect. */
+  restored: boolean;
+  /** What restore changed; empty when the device already matched. */
+  changes: string[];
+  /** Differences restore couldn't undo from the shell. */
+  warnings: string[];
+  connectedSsid: string | null;
+}
+
+// How long restore waits for the phone to rejoin the snapshot's network.
+const REJOIN_TIMEOUT_MS = 10_000;
+const REJOIN_POLL_MS = 500;
+
+/**
+ * Snapshot and restore the parts of a phone's state that Wi-Fi tests change,
+ * so a client can leave the device as it found it.
+ *
+ * Restore is idempotent: it compares before acting, so running it twice (or
+ * on an untouched device) changes nothing. What the shell can't put back —
+ * a forgotten network's credentials, a removed certificate — is reported as
+ * a warning rather than silently skipped.
+ *
+ * Snapshots live in memory for the life of the server, keyed by id.
+ */
+export class DeviceStateCommands {
+  private readonly snapshots = new Map<string, DeviceStateSnapshot>();
+  private latest: DeviceStateSnapshot | null = null;
+
+  constructor(
+    private readonly adb: AdbClient,
+    private readonly wifi: WifiCommands,
+    private readonly settings: SettingsCommands
+  ) {}
+
+  async snapshot(serial: string): Promise<DeviceStateSnapshot> {
+    const status = await this.wifi.getStatus();
+    const savedNetworks = await this.wifi.listSavedNetworks();
+    const settings = [];
+    for (const { namespace, key } of SNAPSHOT_SETTINGS) {
+      settings.push({ namespace, key, value: (await this.settings.get(namespace, key)).value });
+    }
+
+    const snapshot: DeviceStateSnapshot = {
+      snapshotId: randomUUID(),
+      serial,
+      takenAt: new Date().toISOString(),
+      wifiEnabled: status.enabled,
+      connectedSsid: status.connected ? status.ssid ?? null : null,
+      connectedNetworkId: status.connected ? status.networkId ?? null : null,
+      savedNetworks,
+      settings,
+      companionCertificates: await this.listCompanionCertificates(),
+    };
+    this.snapshots.set(snapshot.snapshotId, snapshot);
+    this.latest = snapshot;
+    return snapshot;
+  }
+
+  /** A snapshot by id, or the most recent one when `snapshotId` is omitted. */
+  getSnapshot(snapshotId?: string): DeviceStateSnapshot | null {
+    return snapshotId === undefined ? this.latest : this.snapshots.get(snapshotId) ?? null;
+  }
+
+  async restore(snapshot: DeviceStateSnapshot): Promise<DeviceStateRestoreResult> {
+    const changes: string[] = [];
+    const warnings: string[] = [];
+
+    // Settings first: airplane mode decides whether the radio may come up.
+    for (const { namespace, key, value } of snapshot.settings) {
+      const current = (await this.settings.get(namespace, key)).value;
+      if (current === value) continue;
+      const error = await this.restoreSetting(namespace, key, value);
+      if (error) warnings.push(`${namespace}/${key}: ${error}`);
+      else changes.push(`${namespace}/${key}: ${current ?? 'unset'} -> ${value ?? 'unset'}`);
+    }
+
+    let status = await this.wifi.getStatus();
+    if (status.enabled !== snapshot.wifiEnabled) {
+      await this.wifi.setEnabled(snapshot.wifiEnabled);
+      if (await this.wifi.waitForEnabled(snapshot.wifiEnabled)) {
+        changes.push(`Wi-Fi ${snapshot.wifiEnabled ? 'enabled' : 'disabled'}`);
+      } else {
+        warnings.push(`Wi-Fi did not become ${snapshot.wifiEnabled ? 'enabled' : 'disabled'}`);
+      }
+    }
+
+    const originalIds = new Set(snapshot.savedNetworks.map(n => n.networkId));
+    const saved = await this.wifi.listSavedNetworks();
+    for (const n of saved.filter(n => !originalIds.has(n.networkId))) {
+      await this.wifi.forgetNetwork(n.networkId);
+      changes.push(`Forgot network ${n.networkId} (${n.ssid})`);
+    }
+    const currentIds = new Set(saved.map(n => n.networkId));
+    for (const n of snapshot.savedNetworks.filter(n => !currentIds.has(n.networkId))) {
+      warnings.push(`Network ${n.networkId} (${n.ssid}) was forgotten since the snapshot and can't be re-added without its credentials`);
+    }
+
+    if (snapshot.wifiEnabled && snapshot.connectedSsid !== null) {
+      status = await this.wifi.getStatus();
+      if (!status.connected) {
+        await this.adb.shell('cmd wifi reconnect');
+        status = await this.waitForConnection();
+        if (status.connected) changes.push(`Reconnected to ${status.ssid}`);
+      }
+      if (!status.connected) {
+        warnings.push(`Not connected; the snapshot was on ${snapshot.connectedSsid}`);
+      } else if (status.ssid !== snapshot.connectedSsid) {
+        warnings.push(`Connected to ${status.ssid}; the snapshot was on ${snapshot.connectedSsid}`);
+      }
+    } else {
+      status = await this.wifi.getStatus();
+    }
+
+    if (snapshot.companionCertificates !== null) {
+      const certificates = (await this.listCompanionCertificates()) ?? [];
+      const original = new Set(snapshot.companionCertificates);
+      const added = certificates.filter(alias => !original.has(alias));
+      const removed = snapshot.companionCertificates.filter(alias => !certificates.includes(alias));
+      const enterprise = new EnterpriseWifiCommands(this.adb);
+      for (const alias of added) {
+        const result = await enterprise.removeCertificate(alias);
+        if (result.success) changes.push(`Removed certificate ${alias}`);
+        else warnings.push(`Certificate ${alias} was installed since the snapshot and could not be removed: ${result.error}`);
+      }
+      if (removed.length > 0) warnings.push(`Certificates removed since the snapshot: ${removed.join(', ')}`);
+    }
+
+    return {
+      snapshotId: snapshot.snapshotId,
+      restored: warnings.length === 0,
+      changes,
+      warnings,
+      connectedSsid: status.connected ? status.ssid ?? null : null,
+    };
+  }
+
+  /**
+   * Put one setting back. Airplane mode goes through `cmd connectivity`
+   * first so the radios actually follow (writing the key alone only flips
+   * the flag); the key is then written as captured, unset included.
+   */
+  private async restoreSetting(namespace: SettingsNamespace, key: string, value: string | null): Promise<string | undefined> {
+    if (namespace === 'global' && key === 'airplane_mode_on') {
+      await this.adb.shell(`cmd connectivity airplane-mode ${value === '1' ? 'enable' : 'disable'}`);
+    }
+    const result = value === null
+      ? await this.settings.delete(namespace, key)
+      : await this.settings.put(namespace, key, value);
+    return result.success ? undefined : result.error;
+  }
+
+  private async waitForConnection() {
+    const deadline = Date.now() + REJOIN_TIMEOUT_MS;
+    for (;;) {
+      const status = await this.wifi.getStatus();
+      if (status.connected || Date.now() >= deadline) return status;
+      await new Promise(resolve => setTimeout(resolve, REJOIN_POLL_MS));
+    }
+  }
+
+  private async listCompanionCertificates(): Promise<string[] | null> {
+    const enterprise = new EnterpriseWifiCommands(this.adb);
+    if (!(await enterprise.isCompanionAppInstalled())) return null;
+    return enterprise.listCertificates();
+  }
+}
@@ -0,0 +1,113 @@
+import { EapFailureDiagnosis } from '../types.js';
+
+/** Log tags that carry the EAP exchange and the framework's reaction to it. */
+export const EAP_LOG_TAGS = ['wpa_supplicant', 'WifiClientModeImpl', 'WifiConfigManager'];
+
+// Evidence patterns, most specific first. Each is matched per logcat line.
+const SERVER_CERT_PATTERNS = [
+  /CTRL-EVENT-EAP-TLS-CERT-ERROR/,
+  /certificate verify failed/i,
+  /TLS: Certificate verification failed/i,
+  /Domain (?:suffix )?match(?:ing)? failed|No matching (?:domain|altSubjectName)/i,
+];
+const METHOD_MISMATCH_PATTERNS = [
+  /CTRL-EVENT-EAP-PROPOSED-METHOD.*->\s*NAK/,
+  /refuse proposed method/i,
+  /EAP: configuration does not allow/i,
+  /Received EAP-Nak/i,
+];
+const CREDENTIAL_PATTERNS = [
+  /EAP-MSCHAPV2: .*(?:Authentication failed|E=691)/i,
+  /CTRL-EVENT-EAP-FAILURE/,
+  /AUTH_FAILURE_(?:WRONG_PSWD|EAP_FAILURE)|ERROR_AUTH_FAILURE/,
+  /EAP-(?:SIM|AKA'?): .*(?:failure|Client-Error)/i,
+];
+const TIMEOUT_PATTERNS = [/timed out/i, /Authentication .*timeout/i];
+const EAP_STARTED = /CTRL-EVENT-EAP-STARTED|CTRL-EVENT-EAP-PROPOSED-METHOD/;
+
+// NetworkSelectionStatus disable reasons that mean the credentials were refused.
+const CREDENTIAL_DISABLE_REASONS = /AUTHENTICATION_NO_CREDENTIALS|BY_WRONG_PASSWORD|AUTHENTICATION_NO_SUBSCRIPTION/;
+
+/**
+ * Why an enterprise association didn't happen, from the supplicant and
+ * framework logs since the attempt plus the network's selection status in
+ * `dumpsys wifi`:
+ *
+ *   server_cert_rejected   the supplicant refused the RADIUS certificate
+ *   eap_method_mismatch    the server NAKed our method (or we NAKed its)
+ *   wrong_credentials      EAP failure / wrong password / no credentials
+ *   disabled_by_framework  the framework disabled the network for another reason
+ *   timeout                nothing conclusive — out of range, never attempted,
+ *                          or the exchange stalled
+ *
+ * Log evidence wins over the selection status, which only says the network
+ * was disabled, not always why.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function classifyEapFailure(logcat: string, dumpsys: string, ssid: string): EapFailureDiagnosis {
+  const lines = logcat.split('\n').filter(line => line.trim() !== '');
+  const evidence = (patterns: RegExp[]) => lines.filter(line => patterns.some(p => p.test(line))).slice(-5);
+  const selection = networkSelectionStatus(dumpsys, ssid);
+  const withSelection = (diagnosis: EapFailureDiagnosis): EapFailureDiagnosis => ({
+    ...diagnosis,
+    ...(selection?.status && { networkSelectionStatus: selection.status }),
+    ...(selection?.disableReason && { disableReason: selection.disableReason }),
+  });
+
+  const cert = evidence(SERVER_CERT_PATTERNS);
+  if (cert.length > 0) {
+    return withSelection({
+      reason: 'server_cert_rejected',
+      detail: 'The supplicant rejected the server certificate (check caCertificate and domainSuffixMatch against the RADIUS certificate)',
+      evidence: cert,
+    });
+  }
+  const method = evidence(METHOD_MISMATCH_PATTERNS);
+  if (method.length > 0) {
+    return withSelection({
+      reason: 'eap_method_mismatch',
+      detail: 'The server and the device did not agree on an EAP method (check eapMethod / phase2Method against the RADIUS policy)',
+      evidence: method,
+    });
+  }
+  const credentials = evidence(CREDENTIAL_PATTERNS);
+  if (credentials.length > 0 || CREDENTIAL_DISABLE_REASONS.test(selection?.disableReason ?? '')) {
+    return withSelection({
+      reason: 'wrong_credentials',
+      detail: 'EAP authentication failed (identity, password, client certificate or SIM rejected)',
+      evidence: credentials,
+    });
+  }
+  if (selection && selection.status !== 'NETWORK_SELECTION_ENABLED') {
+    return withSelection({
+      reason: 'disabled_by_framework',
+      detail: `The framework disabled the network${selection.disableReason ? ` (${selection.disableReason})` : ''}`,
+      evidence: [],
+    });
+  }
+  const started = lines.some(line => EAP_STARTED.test(line));
+  return withSelection({
+    reason: 'timeout',
+    detail: started
+      ? 'EAP started but neither succeeded nor failed before the deadline'
+      : 'No EAP exchange was seen: the network may be out of range, awaiting suggestion approval, or not yet selected',
+    evidence: evidence(TIMEOUT_PATTERNS),
+  });
+}
+
+/**
+ * `NetworkSelectionStatus` and `mNetworkSelectionDisableReason` of the
+ * configured network for `ssid` in a full `dumpsys wifi`.
+ */
+function networkSelectionStatus(dumpsys: string, ssid: string): { status: string; disableReason?: string } | undefined {
+  const quoted = `SSID: "${ssid}"`;
+  // The current network's record starts `* `, a disabled one's `- DSBLE `.
+  const records = dumpsys.split(/^(?=\s*(?:\*\s+|-\s*DSBLE\s+)?ID:\s*-?\d+\s+SSID:)/m);
+  const record = records.find(r => r.includes(quoted) && /NetworkSelectionStatus/.test(r));
+  if (!record) return undefined;
+  const status = record.match(/NetworkSelectionStatus\s+(\w+)/)?.[1];
+  if (!status) return undefined;
+  const disableReason = record.match(/mNetworkSelectionDisableReason\s+(\w+)/)?.[1];
+  return { status, ...(disableReason && disableReason !== 'NETWORK_SELECTION_ENABLE' && { disableReason }) };
+}
@@ -1,11 +1,23 @@
 import { AdbClient } from './adb-client.js';
 import { CompanionAppBridge, COMPANION_PACKAGE } from './companion-bridge.js';
 import { WifiCommands } from './wifi-commands.js';
+import { classifyEapFailure, EAP_LOG_TAGS } from './eap-diagnostics.js';
+import { certificateExpiryWarnings } from './certificates.js';
+import { unpackPkcs12 } from './pkcs12.js';
 import {
   EapConfig,
   EapMethod,
+  SimEapMethod,
   EnterpriseConnectionResult,
+  EapFailureDiagnosis,
   CertificateInstallResult,
+  CertificateRemoveResult,
+  PasspointConfig,
+  PasspointCredentialType,
+  PasspointListResult,
+  PasspointMatch,
+  PasspointProfile,
+  PasspointResult,
 } from '../types.js';
 
 export class EnterpriseWifiCommands {
@@ -26,18 +38,55 @@ export class EnterpriseWifiCommands {
   }
 
   /**
-   * Connect to an enterprise WiFi network (802.1X/EAP)
+   * Connect to an enterprise WiFi network (802.1X/EAP). EAP-SIM/AKA/AKA'
+   * networks are saved with addNetwork rather than suggested (Android takes
+   * SIM-based suggestions only from carrier apps), so they need the
+   * companion to be device owner.
+   *
+   * An EAP-TLS credential may come as a PKCS#12 bundle; it is unpacked here
+   * and sent on as PEM. Certificates in the config that are expired or
+   * expire soon don't stop the attempt; they come back as `warnings`.
    */
   async connectEnterprise(config: EapConfig): Promise<EnterpriseConnectionResult> {
-    if ((config.eapMethod === 'peap' || config.eapMethod === 'ttls') && !config.password) {
+    let resolved: EapConfig;
+    try {
+      resolved = withClientPkcs12(config);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      return { success: false, ssid: config.ssid, eapMethod: config.eapMethod, error };
+    }
+    const result = await this.connect(resolved);
+    const warnings = certificateExpiryWarnings({
+      caCertificate: resolved.caCertificate,
+      clientCertificate: resolved.clientCertificate,
+    });
+    return warnings.length > 0 ? { ...result, warnings } : result;
+  }
+
+  private async connect(config: EapConfig): Promise<EnterpriseConnectionResult> {
+    if ((config.eapMethod === 'peap' || config.eapMethod === 'ttls' || config.eapMethod === 'pwd') && !config.password) {
+      return {
+        success: false,
+        ssid: config.ssid,
+        eapMethod: config.eapMethod,
+        error: 'Password is required for EAP-PEAP/TTLS/PWD',
+      };
+    }
+
+    if (!isSimEapMethod(config.eapMethod) && !config.identity) {
       return {
         success: false,
         ssid: config.ssid,
         eapMethod: config.eapMethod,
-        error: 'Password is required for EAP-PEAP/TTLS',
+        error: `Identity is required for EAP-${config.eapMethod.toUpperCase()}`,
       };
     }
 
+    const optionError = simSelectionError(config) ?? enterpriseModeError(config);
+    if (optionError) {
+      return { success: false, ssid: config.ssid, eapMethod: config.eapMethod, error: optionError };
+    }
+
     if (config.eapMethod === 'tls' && (!config.clientCertificate || !config.privateKey)) {
       return {
         success: false,
@@ -61,6 +110,8 @@ export class EnterpriseWifiCommands {
       };
     }
 
+    // Failure diagnostics only read log lines from this attempt on.
+    const startedAt = Date.now();
     const payload = {
       action: 'connect_enterprise',
       timestamp: Date.now(),
@@ -94,7 +145,37 @@ export class EnterpriseWifiCommands {
     if (!result.success || config.verify === false) return result;
     const timeoutMs = config.verifyTimeoutMs ?? 30_000;
     const associated = await this.pollAssociation(result.ssid, timeoutMs);
-    return applyVerification(result, associated, timeoutMs);
+    const verified = applyVerification(result, associated, timeoutMs);
+    if (associated) return verified;
+    const diagnosis = await this.diagnoseFailure(result.ssid, startedAt);
+    return diagnosis ? { ...verified, diagnosis } : verified;
+  }
+
+  /**
+   * Classify a failed association from the supplicant/framework log lines
+   * since `startedAt` (host ms; the last few hundred lines when omitted) and
+   * the network's selection status. Best effort: undefined when neither can
+   * be read.
+   */
+  async diagnoseFailure(ssid: string, startedAt?: number): Promise<EapFailureDiagnosis | undefined> {
+    const since = startedAt === undefined ? undefined : await this.deviceTimeSince(startedAt);
+    const window = since ? `-T ${since}` : '-t 500';
+    const logcat = await this.adb.shell(`logcat -d -v epoch ${window} -s ${EAP_LOG_TAGS.join(' ')}`);
+    const dumpsys = await this.adb.shell('dumpsys wifi');
+    if (!logcat.success && !dumpsys.success) return undefined;
+    return classifyEapFailure(logcat.success ? logcat.stdout : '', dumpsys.success ? dumpsys.stdout : '', ssid);
+  }
+
+  /**
+   * The device-clock equivalent of host time `startedAt`, in the `sss.mmm`
+   * form `logcat -T` takes: device now minus the time elapsed on the host
+   * (plus a second of slack), so host/device clock skew doesn't matter.
+   */
+  private async deviceTimeSince(startedAt: number): Promise<string | undefined> {
+    const result = await this.adb.shell('date +%s');
+    const now = result.stdout.trim();
+    if (!result.success || !/^\d+$/.test(now)) return undefined;
+    return `${parseInt(now, 10) - Math.ceil((Date.now() - startedAt) / 1000) - 1}.000`;
   }
 
   /**
@@ -148,12 +229,14 @@ export class EnterpriseWifiCommands {
   }
 
   /**
-   * Install a certificate for enterprise WiFi
+   * Install a certificate for enterprise WiFi. A client certificate needs
+   * its PKCS#8 `privateKey`.
    */
   async installCertificate(
     certificate: string,
     alias: string,
-    type: 'ca' | 'client'
+    type: 'ca' | 'client',
+    privateKey?: string
   ): Promise<CertificateInstallResult> {
     if (!(await this.isCompanionAppInstalled())) {
       return {
@@ -170,6 +253,7 @@ export class EnterpriseWifiCommands {
       certificate,
       alias,
       type,
+      ...(privateKey && { privateKey }),
     };
     const { raw, broadcastError } = await this.bridge.sendBroadcastAndWait('INSTALL_CERTIFICATE', payload);
 
@@ -190,7 +274,24 @@ export class EnterpriseWifiCommands {
       };
     }
 
-    return normalizeCertificateResult(raw, alias, type);
+    const result = normalizeCertificateResult(raw, alias, type);
+    const warnings = certificateExpiryWarnings({ certificate });
+    return warnings.length > 0 ? { ...result, warnings } : result;
+  }
+
+  /**
+   * Install the client certificate and key from a PKCS#12 bundle (base64),
+   * unpacked host-side. Wrong passwords and keys the companion can't load
+   * fail here, before anything reaches the device.
+   */
+  async installPkcs12(bundle: string, password: string, alias: string): Promise<CertificateInstallResult> {
+    let credentials;
+    try {
+      credentials = unpackPkcs12(bundle, password);
+    } catch (err) {
+      return { success: false, alias, type: 'client', error: err instanceof Error ? err.message : String(err) };
+    }
+    return this.installCertificate(credentials.certificate, alias, 'client', credentials.privateKey);
   }
 
   /**
@@ -207,6 +308,202 @@ export class EnterpriseWifiCommands {
     const certs = raw.certificates;
     return Array.isArray(certs) ? (certs as string[]) : [];
   }
+
+  /**
+   * Remove a certificate (or client key entry) from the companion's keystore.
+   * Networks already suggested keep their own copy of the certificate, so
+   * they are unaffected.
+   */
+  async removeCertificate(alias: string): Promise<CertificateRemoveResult> {
+    if (!(await this.isCompanionAppInstalled())) {
+      return { success: false, alias, error: `Companion app not installed. Please install ${COMPANION_PACKAGE}` };
+    }
+
+    const payload = { action: 'remove_certificate', timestamp: Date.now(), alias };
+    const { raw, broadcastError } = await this.bridge.sendBroadcastAndWait('REMOVE_CERTIFICATE', payload);
+
+    if (broadcastError) {
+      return { success: false, alias, error: `Failed to send broadcast: ${broadcastError}` };
+    }
+    if (!raw) {
+      return { success: false, alias, error: 'Timeout waiting for certificate removal result' };
+    }
+    return { success: !!raw.success, alias, error: raw.success ? undefined : pickErrorMessage(raw) };
+  }
+
+  /**
+   * Install a Passpoint (Hotspot 2.0) profile as a companion-app suggestion.
+   * Installing again with the same home SP FQDN replaces the profile.
+   */
+  async installPasspoint(config: PasspointConfig): Promise<PasspointResult> {
+    const invalid = passpointConfigError(config);
+    if (invalid) return { success: false, fqdn: config.fqdn, error: invalid };
+
+    if (!(await this.isCompanionAppInstalled())) {
+      return { success: false, fqdn: config.fqdn, error: `Companion app not installed. Please install ${COMPANION_PACKAGE}` };
+    }
+
+    const payload = { action: 'install_passpoint', timestamp: Date.now(), ...config };
+    const { raw, broadcastError } = await this.bridge.sendBroadcastAndWait('INSTALL_PASSPOINT', payload);
+
+    if (broadcastError) {
+      return { success: false, fqdn: config.fqdn, error: `Failed to send broadcast: ${broadcastError}` };
+    }
+    if (!raw) {
+      return { success: false, fqdn: config.fqdn, error: 'Timeout waiting for Passpoint install result' };
+    }
+    const warnings = certificateExpiryWarnings({
+      caCertificate: config.caCertificate,
+      clientCertificate: config.clientCertificate,
+    });
+    return {
+      success: !!raw.success,
+      fqdn: config.fqdn,
+      ...(warnings.length > 0 && { warnings }),
+      error: raw.success ? undefined : pickErrorMessage(raw),
+    };
+  }
+
+  /**
+   * Passpoint profiles the companion has installed, with the one the current
+   * connection matched (from `dumpsys wifi`) flagged.
+   */
+  async listPasspoint(): Promise<PasspointListResult> {
+    if (!(await this.isCompanionAppInstalled())) {
+      return { success: false, profiles: [], error: `Companion app not installed. Please install ${COMPANION_PACKAGE}` };
+    }
+
+    const payload = { action: 'list_passpoint', timestamp: Date.now() };
+    const { raw, broadcastError } = await this.bridge.sendBroadcastAndWait('LIST_PASSPOINT', payload);
+
+    if (broadcastError) {
+      return { success: false, profiles: [], error: `Failed to send broadcast: ${broadcastError}` };
+    }
+    if (!raw) {
+      return { success: false, profiles: [], error: 'Timeout waiting for Passpoint profile list' };
+    }
+    if (!raw.success) {
+      return { success: false, profiles: [], error: pickErrorMessage(raw) };
+    }
+
+    const dumpsys = await this.adb.shell('dumpsys wifi | grep mWifiInfo');
+    const matched = parsePasspointMatch(dumpsys.stdout);
+    const profiles = Array.isArray(raw.profiles)
+      ? (raw.profiles as Array<Record<string, unknown>>).map(p => normalizePasspointProfile(p, matched))
+      : [];
+    return { success: true, profiles, ...(matched && { matched }) };
+  }
+
+  /** Remove the Passpoint profile for a home SP FQDN. */
+  async removePasspoint(fqdn: string): Promise<PasspointResult> {
+    if (!(await this.isCompanionAppInstalled())) {
+      return { success: false, fqdn, error: `Companion app not installed. Please install ${COMPANION_PACKAGE}` };
+    }
+
+    const payload = { action: 'remove_passpoint', timestamp: Date.now(), fqdn };
+    const { raw, broadcastError } = await this.bridge.sendBroadcastAndWait('REMOVE_PASSPOINT', payload);
+
+    if (broadcastError) {
+      return { success: false, fqdn, error: `Failed to send broadcast: ${broadcastError}` };
+    }
+    if (!raw) {
+      return { success: false, fqdn, error: 'Timeout waiting for Passpoint removal result' };
+    }
+    return { success: !!raw.success, fqdn, error: raw.success ? undefined : pickErrorMessage(raw) };
+  }
+}
+
+/**
+ * `config` with its clientPkcs12 bundle replaced by the PEM certificate and
+ * key inside, which is what the companion takes. Throws on a wrong password,
+ * an unsupported key, or a bundle given alongside PEM credentials.
+ */
+function withClientPkcs12(config: EapConfig): EapConfig {
+  const { clientPkcs12, clientPkcs12Password, ...rest } = config;
+  if (!clientPkcs12) return rest;
+  if (config.eapMethod !== 'tls') throw new Error('clientPkcs12 is only used with EAP-TLS');
+  if (config.clientCertificate || config.privateKey) {
+    throw new Error('Give either clientPkcs12 or clientCertificate + privateKey, not both');
+  }
+  const { certificate, privateKey } = unpackPkcs12(clientPkcs12, clientPkcs12Password ?? '');
+  return { ...rest, clientCertificate: certificate, privateKey, privateKeyPassword: undefined };
+}
+
+const PASSPOINT_CREDENTIAL_TYPES: PasspointCredentialType[] = ['user', 'certificate', 'sim'];
+
+/**
+ * Check a Passpoint profile before it goes to the companion: each credential
+ * type needs its own fields, OIs are 3- or 5-octet hex, and a SIM IMSI is
+ * digits with an optional trailing `*` prefix wildcard.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function passpointConfigError(config: PasspointConfig): string | null {
+  if (!config.fqdn || !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(config.fqdn)) {
+    return `Invalid home SP FQDN "${config.fqdn}"`;
+  }
+  if (!config.friendlyName) return 'friendlyName is required';
+  if (!config.realm) return 'realm is required';
+  const badOi = config.roamingConsortiumOis?.find(oi => !/^([0-9a-f]{6}|[0-9a-f]{10})$/i.test(oi));
+  if (badOi !== undefined) {
+    return `Invalid roaming consortium OI "${badOi}" (expected 6 or 10 hex digits)`;
+  }
+  switch (config.credentialType) {
+    case 'user':
+      if (!config.username || !config.password) return 'username and password are required for a user credential';
+      return null;
+    case 'certificate':
+      if (!config.clientCertificate || !config.privateKey) {
+        return 'clientCertificate and privateKey are required for a certificate credential';
+      }
+      return null;
+    case 'sim':
+      if (!config.imsi || !/^\d{5,15}$|^\d{5,14}\*$/.test(config.imsi)) {
+        return 'A SIM credential needs imsi: the full IMSI, or an MCC+MNC prefix ending in "*" (e.g. "310260*")';
+      }
+      return null;
+    default:
+      return `Unknown credentialType "${config.credentialType}"`;
+  }
+}
+
+/**
+ * The Passpoint provider of the current association, from the mWifiInfo line
+ * of `dumpsys wifi` (`FQDN: <none>` on ordinary networks).
+ *
+ * Pure function — exported for unit testing.
+ */
+export function parsePasspointMatch(dumpsys: string): PasspointMatch | undefined {
+  const info = dumpsys.split('\n').find(line => line.includes('mWifiInfo'));
+  if (!info || !/Supplicant state: COMPLETED/.test(info)) return undefined;
+  const fqdn = info.match(/\bFQDN: ([^,\s]+)/)?.[1];
+  if (!fqdn || fqdn === '<none>' || fqdn === 'null') return undefined;
+
+  const match: PasspointMatch = { fqdn };
+  const friendlyName = info.match(/Provider friendly name: ([^,]+)/)?.[1]?.trim();
+  if (friendlyName && friendlyName !== '<none>' && friendlyName !== 'null') match.friendlyName = friendlyName;
+  const ssid = info.match(/SSID: "([^"]*)"/)?.[1];
+  if (ssid !== undefined) match.ssid = ssid;
+  const bssid = info.match(/BSSID: ([0-9a-f]{2}(?::[0-9a-f]{2}){5})/i)?.[1];
+  if (bssid) match.bssid = bssid.toLowerCase();
+  return match;
+}
+
+function normalizePasspointProfile(raw: Record<string, unknown>, matched: PasspointMatch | undefined): PasspointProfile {
+  const fqdn = String(raw.fqdn ?? '');
+  const profile: PasspointProfile = {
+    fqdn,
+    friendlyName: String(raw.friendlyName ?? ''),
+    matched: matched?.fqdn.toLowerCase() === fqdn.toLowerCase(),
+  };
+  if (typeof raw.realm === 'string' && raw.realm) profile.realm = raw.realm;
+  if (PASSPOINT_CREDENTIAL_TYPES.includes(raw.credentialType as PasspointCredentialType)) {
+    profile.credentialType = raw.credentialType as PasspointCredentialType;
+  }
+  if (Array.isArray(raw.roamingConsortiumOis) && raw.roamingConsortiumOis.length > 0) {
+    profile.roamingConsortiumOis = raw.roamingConsortiumOis.map(String);
+  }
+  return profile;
 }
 
 /**
@@ -226,10 +523,7 @@ function normalizeEnterpriseResult(
   return {
     success,
     ssid: typeof raw.ssid === 'string' ? raw.ssid : fallbackSsid,
-    eapMethod:
-      raw.eapMethod === 'peap' || raw.eapMethod === 'ttls' || raw.eapMethod === 'tls'
-        ? raw.eapMethod
-        : fallbackEapMethod,
+    eapMethod: EAP_METHODS.includes(raw.eapMethod as EapMethod) ? (raw.eapMethod as EapMethod) : fallbackEapMethod,
     error: success ? undefined : pickErrorMessage(raw),
   };
 }
@@ -255,13 +549,21 @@ export function applyVerification(
   };
 }
 
+const EAP_METHODS: EapMethod[] = ['peap', 'ttls', 'tls', 'pwd', 'sim', 'aka', 'aka_prime'];
+
+function isSimEapMethod(method: EapMethod): method is SimEapMethod {
+  return method === 'sim' || method === 'aka' || method === 'aka_prime';
+}
+
 /**
  * Validate the server-certificate stance before forwarding (#71). Android 11+
  * rejects an enterprise config that has no server validation, so surface a
  * clear, actionable error here instead of the framework's cryptic one. A pinned
- * CA with no domain is valid (#71).
+ * CA with no domain is valid (#71). EAP-PWD and the SIM methods run no TLS
+ * tunnel, so there is no server certificate to validate.
  */
 export function serverValidationError(config: EapConfig): string | null {
+  if (config.eapMethod === 'pwd' || isSimEapMethod(config.eapMethod)) return null;
   const hasCa = !!config.caCertificate;
   const hasDomain = !!config.domainSuffixMatch && config.domainSuffixMatch.trim() !== '';
   if (!hasCa && !hasDomain) {
@@ -270,6 +572,47 @@ export function serverValidationError(config: EapConfig): string | null {
   return null;
 }
 
+/**
+ * SIM selection only applies to the SIM methods, and takes a slot or a
+ * subscription id, not both.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function simSelectionError(config: EapConfig): string | null {
+  const selected = config.simSlot !== undefined || config.subscriptionId !== undefined;
+  if (selected && !isSimEapMethod(config.eapMethod)) {
+    return 'simSlot and subscriptionId only apply to EAP-SIM/AKA/AKA\'';
+  }
+  if (config.simSlot !== undefined && config.subscriptionId !== undefined) {
+    return 'Pass simSlot or subscriptionId, not both';
+  }
+  if (config.simSlot !== undefined && (!Number.isInteger(config.simSlot) || config.simSlot < 0)) {
+    return `Invalid simSlot ${config.simSlot} (expected 0, 1, …)`;
+  }
+  return null;
+}
+
+/**
+ * Check the security mode and TLS policy against the EAP method. The
+ * device-side limits (API level, Suite-B and TLS 1.3 support) are checked by
+ * the companion, which knows the SDK.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function enterpriseModeError(config: EapConfig): string | null {
+  if (config.securityMode === 'wpa3_192bit' && config.eapMethod !== 'tls') {
+    return 'WPA3-Enterprise 192-bit (Suite-B) mode requires EAP-TLS';
+  }
+  const tunnelled = config.eapMethod === 'peap' || config.eapMethod === 'ttls' || config.eapMethod === 'tls';
+  if (!tunnelled && (config.tlsMinVersion !== undefined || (config.ocsp !== undefined && config.ocsp !== 'none'))) {
+    return 'tlsMinVersion and ocsp only apply to EAP-PEAP/TTLS/TLS';
+  }
+  if (config.ocsp !== undefined && config.ocsp !== 'none' && !config.caCertificate) {
+    return `ocsp "${config.ocsp}" needs caCertificate: Android only checks certificate status against a pinned CA`;
+  }
+  return null;
+}
+
 function normalizeCertificateResult(
   raw: Record<string, unknown>,
   fallbackAlias: string,
@@ -0,0 +1,230 @@
+import { AdbClient } from './adb-client.js';
+import {
+  SoftApClient,
+  SoftApConfig,
+  SoftApSecurity,
+  SoftApStartResult,
+  SoftApStatus,
+  WifiBand,
+} from '../types.js';
+
+const START_TIMEOUT_MS = 10_000;
+const POLL_INTERVAL_MS = 500;
+
+// SoftApConfiguration.SECURITY_TYPE_* in value order.
+const SECURITY_TYPES: SoftApSecurity[] = ['open', 'wpa2', 'wpa3_transition', 'wpa3', 'owe_transition', 'owe'];
+
+// SoftApConfiguration.BAND_* bits.
+const BAND_BITS: Array<[number, WifiBand]> = [[1, '2.4GHz'], [2, '5GHz'], [4, '6GHz']];
+
+// `start-softap -b` values.
+const BAND_FLAGS: Record<NonNullable<SoftApConfig['band']>, string> = {
+  '2.4GHz': '2',
+  '5GHz': '5',
+  '6GHz': '6',
+  any: 'any',
+  bridged: 'bridged',
+};
+
+/**
+ * Mobile hotspot (SoftAP) via `cmd wifi start-softap` / `stop-softap`, with
+ * state read back from the SoftApManager section of `dumpsys wifi` and
+ * client IPs from the neighbour table on the AP interface.
+ *
+ * `start-softap` brings the AP up but doesn't set up internet sharing —
+ * clients get DHCP from the phone, and internet only where the build
+ * forwards it from the STA or mobile link.
+ */
+export class HotspotCommands {
+  private adb: AdbClient;
+
+  constructor(adb: AdbClient) {
+    this.adb = adb;
+  }
+
+  /** Start the hotspot and wait until dumpsys reports it up with this SSID. */
+  async start(config: SoftApConfig): Promise<SoftApStartResult> {
+    const invalid = softApConfigError(config);
+    if (invalid) return { success: false, error: invalid };
+
+    const result = await this.adb.shell(buildStartSoftApCommand(config));
+    const output = `${result.stdout}\n${result.stderr}`;
+    if (!result.success || /fail|invalid|error/i.test(output)) {
+      return { success: false, error: output.trim() || 'start-softap failed' };
+    }
+
+    const deadline = Date.now() + START_TIMEOUT_MS;
+    for (;;) {
+      const status = await this.getStatus();
+      if (status.enabled && status.ssid === config.ssid) return { success: true, status };
+      if (Date.now() >= deadline) {
+        return { success: false, status, error: 'Hotspot did not come up (check `cmd wifi get-softap-supported-features` and tethering restrictions)' };
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+
+  async stop(): Promise<void> {
+    const result = await this.adb.shell('cmd wifi stop-softap');
+    if (!result.success) {
+      throw new Error(`Failed to stop hotspot: ${result.stderr}`);
+    }
+  }
+
+  async getStatus(): Promise<SoftApStatus> {
+    const result = await this.adb.shell('dumpsys wifi');
+    if (!result.success) {
+      throw new Error(`Failed to read hotspot state: ${result.stderr}`);
+    }
+    return parseSoftApStatus(result.stdout);
+  }
+
+  /** Associated clients, with IPs where the AP interface's neighbour table has them. */
+  async listClients(): Promise<SoftApClient[]> {
+    const dumpsys = await this.adb.shell('dumpsys wifi');
+    if (!dumpsys.success) {
+      throw new Error(`Failed to read hotspot state: ${dumpsys.stderr}`);
+    }
+    const status = parseSoftApStatus(dumpsys.stdout);
+    const macs = parseSoftApClientMacs(dumpsys.stdout);
+    if (!status.enabled || macs.length === 0) return [];
+
+    const neighbours = new Map<string, { ip: string; state?: string }>();
+    if (status.interface && /^[\w.-]+$/.test(status.interface)) {
+      const neigh = await this.adb.shell(`ip -4 neigh show dev ${status.interface}`);
+      for (const entry of parseIpNeigh(neigh.stdout)) neighbours.set(entry.macAddress, entry);
+    }
+    return macs.map(macAddress => {
+      const n = neighbours.get(macAddress);
+      return { macAddress, ...(n && { ipAddress: n.ip, ...(n.state && { neighborState: n.state }) }) };
+    });
+  }
+}
+
+/**
+ * Why `config` can't be passed to start-softap, or undefined. WPA2/WPA3
+ * passphrases are 8–63 characters; open and OWE take none.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function softApConfigError(config: SoftApConfig): string | undefined {
+  if (!config.ssid || Buffer.byteLength(config.ssid, 'utf-8') > 32) {
+    return 'ssid must be 1–32 bytes';
+  }
+  const needsPassphrase = !config.security.startsWith('owe') && config.security !== 'open';
+  if (needsPassphrase && (!config.passphrase || config.passphrase.length < 8 || config.passphrase.length > 63)) {
+    return `${config.security} needs a passphrase of 8–63 characters`;
+  }
+  if (!needsPassphrase && config.passphrase) {
+    return `${config.security} takes no passphrase`;
+  }
+  return undefined;
+}
+
+/**
+ * `cmd wifi start-softap <ssid> <security> [<passphrase>] [-b band]`, with
+ * SSID and passphrase single-quoted for the device shell.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function buildStartSoftApCommand(config: SoftApConfig): string {
+  const sq = (s: string) => `'${s.replace(/'/g, `'\\''`)}'`;
+  let command = `cmd wifi start-softap ${sq(config.ssid)} ${config.security}`;
+  if (config.passphrase) command += ` ${sq(config.passphrase)}`;
+  if (config.band) command += ` -b ${BAND_FLAGS[config.band]}`;
+  return command;
+}
+
+/**
+ * Parse the SoftApManager dump inside `dumpsys wifi`:
+ *
+ *   current StateMachine mode: StartedState
+ *   mApInterfaceName: wlan1
+ *   mCurrentSoftApConfiguration: ssid = "IoT-Lab"
+ *    Passphrase = <non-empty>
+ *    HiddenSsid = false
+ *    Channels = {2=0}
+ *    SecurityType = 1
+ *    MaxClient = 0
+ *   mConnectedClientWithApInfoMap.size(): 1
+ *   mCurrentSoftApInfoMap: {wlan1=SoftApInfo{bandwidth= 2, frequency= 5180, bssid=02:..., ...}}
+ *
+ * `Channels` maps band bits to channels (0 = auto); older builds print
+ * `Band = <bits>` instead. No SoftApManager dump, or an idle state, means off.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function parseSoftApStatus(dumpsys: string): SoftApStatus {
+  const section = softApSection(dumpsys);
+  if (section === undefined) return { enabled: false, clientCount: 0 };
+
+  const state = section.match(/current StateMachine mode:\s*(\w+)/)?.[1];
+  const status: SoftApStatus = {
+    enabled: state === 'StartedState',
+    ...(state && { state }),
+    clientCount: 0,
+  };
+  if (!status.enabled) return status;
+
+  const ssid = section.match(/ssid = "(.*)"/)?.[1];
+  if (ssid !== undefined) status.ssid = ssid;
+  const security = section.match(/SecurityType = (\d)/)?.[1];
+  if (security !== undefined && SECURITY_TYPES[Number(security)]) status.security = SECURITY_TYPES[Number(security)];
+
+  const channels = section.match(/Channels = \{([^}]*)\}/)?.[1];
+  const bandBits = channels !== undefined
+    ? channels.split(',').map(pair => parseInt(pair, 10)).filter(n => !isNaN(n))
+    : [parseInt(section.match(/\bBand = (\d+)/)?.[1] ?? '', 10)].filter(n => !isNaN(n));
+  if (bandBits.length > 0) {
+    const bits = bandBits.reduce((all, b) => all | b, 0);
+    status.bands = BAND_BITS.filter(([bit]) => bits & bit).map(([, band]) => band);
+  }
+
+  const hidden = section.match(/HiddenSsid = (true|false)/i)?.[1];
+  if (hidden) status.hidden = hidden === 'true';
+  const passphrase = section.match(/Passphrase = (<\w+(?:-\w+)?>)/)?.[1];
+  if (passphrase) status.passphraseSet = passphrase === '<non-empty>';
+  const maxClients = section.match(/MaxClient = (\d+)/)?.[1];
+  if (maxClients) status.maxClients = parseInt(maxClients, 10);
+  const iface = section.match(/mApInterfaceName:\s*(\S+)/)?.[1];
+  if (iface) status.interface = iface;
+  const info = section.match(/SoftApInfo\{[^}]*\}/)?.[0];
+  const frequency = info?.match(/frequency=\s*(\d+)/)?.[1];
+  if (frequency) status.frequency = parseInt(frequency, 10);
+  const bssid = info?.match(/bssid=\s*([0-9a-f]{2}(?::[0-9a-f]{2}){5})/i)?.[1];
+  if (bssid) status.bssid = bssid.toLowerCase();
+  status.clientCount = parseSoftApClientMacs(section).length;
+  return status;
+}
+
+/** From "Dump of SoftApManager" up to the next component's dump. */
+function softApSection(dumpsys: string): string | undefined {
+  const start = dumpsys.indexOf('Dump of SoftApManager');
+  if (start < 0) return undefined;
+  const end = dumpsys.indexOf('Dump of ', start + 1);
+  return dumpsys.slice(start, end < 0 ? undefined : end);
+}
+
+/** `WifiClient{mMacAddress=…}` entries, deduped (a bridged AP lists per instance). */
+function parseSoftApClientMacs(dumpsys: string): string[] {
+  const section = softApSection(dumpsys);
+  if (section === undefined) return [];
+  const macs = [...section.matchAll(/WifiClient\{\s*mMacAddress=([0-9a-f]{2}(?::[0-9a-f]{2}){5})/gi)];
+  return [...new Set(macs.map(m => m[1].toLowerCase()))];
+}
+
+/**
+ * `ip neigh show dev <iface>` lines: `192.168.43.17 lladdr aa:bb:cc:dd:ee:ff REACHABLE`.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function parseIpNeigh(output: string): Array<{ ip: string; macAddress: string; state?: string }> {
+  const entries: Array<{ ip: string; macAddress: string; state?: string }> = [];
+  for (const line of output.split('\n')) {
+    const m = line.trim().match(/^(\S+)\s.*?\blladdr\s+([0-9a-f]{2}(?::[0-9a-f]{2}){5})\b(.*)$/i);
+    if (!m) continue;
+    const state = m[3].trim().split(/\s+/).pop();
+    entries.push({ ip: m[1], macAddress: m[2].toLowerCase(), ...(state && /^[A-Z]+$/.test(state) && { state }) });
+  }
+  return entries;
+}
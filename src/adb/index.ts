@@ -1,4 +1,10 @@
 export { AdbClient } from './adb-client.js';
 export { WifiCommands } from './wifi-commands.js';
 export { DeviceManager, deviceManager } from './device-manager.js';
+export { DeviceContext } from './device-context.js';
 export { EnterpriseWifiCommands } from './enterprise-wifi.js';
+export { SpawnTransport, createTransportFromEnv } from './transport.js';
+export type { AdbTransport } from './transport.js';
+export { VirtualAdbTransport } from './virtual-device.js';
+export { RecordingTransport, ReplayTransport, redactAdbArgs, loadAdbFixture } from './recording.js';
+export type { AdbFixture, AdbFixtureEntry } from './recording.js';
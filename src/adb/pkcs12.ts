@@ -0,0 +1,352 @@
+import {
+  createDecipheriv,
+  createHash,
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  pbkdf2Sync,
+  timingSafeEqual,
+  X509Certificate,
+  type KeyObject,
+} from 'node:crypto';
+
+/** The client credential inside a PKCS#12 bundle, as the PEM the companion takes. */
+export interface Pkcs12Credentials {
+  certificate: string;               // PEM, the certificate matching the key
+  privateKey: string;                // PEM, unencrypted PKCS#8
+  caCertificates: string[];          // PEM, the rest of the bundle's chain
+  keyAlgorithm: string;              // "rsa 2048", "ec prime256v1"
+}
+
+// Key types the companion's KeyFactory accepts (RSA, then EC).
+const SUPPORTED_KEY_TYPES = ['rsa', 'ec'];
+
+const OID = {
+  data: '1.2.840.113549.1.7.1',
+  encryptedData: '1.2.840.113549.1.7.6',
+  keyBag: '1.2.840.113549.1.12.10.1.1',
+  shroudedKeyBag: '1.2.840.113549.1.12.10.1.2',
+  certBag: '1.2.840.113549.1.12.10.1.3',
+  x509Certificate: '1.2.840.113549.1.9.22.1',
+  pbes2: '1.2.840.113549.1.5.13',
+  pbkdf2: '1.2.840.113549.1.5.12',
+};
+
+const DIGESTS: Record<string, { name: string; blockSize: number }> = {
+  '1.3.14.3.2.26': { name: 'sha1', blockSize: 64 },
+  '2.16.840.1.101.3.4.2.1': { name: 'sha256', blockSize: 64 },
+  '2.16.840.1.101.3.4.2.2': { name: 'sha384', blockSize: 128 },
+  '2.16.840.1.101.3.4.2.3': { name: 'sha512', blockSize: 128 },
+};
+
+const HMAC_PRFS: Record<string, string> = {
+  '1.2.840.113549.2.7': 'sha1',
+  '1.2.840.113549.2.9': 'sha256',
+  '1.2.840.113549.2.10': 'sha384',
+  '1.2.840.113549.2.11': 'sha512',
+};
+
+// PBES2 encryption schemes: OpenSSL cipher name and key length.
+const PBES2_CIPHERS: Record<string, { cipher: string; keyLength: number }> = {
+  '2.16.840.1.101.3.4.1.2': { cipher: 'aes-128-cbc', keyLength: 16 },
+  '2.16.840.1.101.3.4.1.22': { cipher: 'aes-192-cbc', keyLength: 24 },
+  '2.16.840.1.101.3.4.1.42': { cipher: 'aes-256-cbc', keyLength: 32 },
+  '1.2.840.113549.3.7': { cipher: 'des-ede3-cbc', keyLength: 24 },
+};
+
+// Well above what exporters use (OpenSSL 2048, Windows 2000…10000, a few
+// hundred thousand at most). The KDF runs synchronously, up to a few seconds
+// per million rounds, and a bundle needs several derivations, so a bigger
+// count would stall every session on the host.
+const MAX_ITERATIONS = 1_000_000;
+
+// PKCS#12 password-based encryption (RFC 7292 appendix C), all SHA-1.
+const PKCS12_PBE_CIPHERS: Record<string, { cipher: string; keyLength: number; name: string }> = {
+  '1.2.840.113549.1.12.1.3': { cipher: 'des-ede3-cbc', keyLength: 24, name: 'pbeWithSHAAnd3-KeyTripleDES-CBC' },
+  '1.2.840.113549.1.12.1.4': { cipher: 'des-ede-cbc', keyLength: 16, name: 'pbeWithSHAAnd2-KeyTripleDES-CBC' },
+  '1.2.840.113549.1.12.1.5': { cipher: 'rc2-cbc', keyLength: 16, name: 'pbeWithSHAAnd128BitRC2-CBC' },
+  '1.2.840.113549.1.12.1.6': { cipher: 'rc2-40-cbc', keyLength: 5, name: 'pbeWithSHAAnd40BitRC2-CBC' },
+};
+
+/**
+ * Unpack a PKCS#12 (.p12/.pfx) bundle — base64 or raw bytes — into the PEM
+ * certificate and PKCS#8 key `wifi_connect_enterprise` and the companion
+ * already take. The MAC is checked first, so a wrong password fails with a
+ * clear error rather than as garbage during decryption. The key must be RSA
+ * or EC, which is what the companion can load.
+ *
+ * Handles what OpenSSL, Windows and Java keytool export: PBES2
+ * (PBKDF2 + AES/3DES) and the PKCS#12 SHA-1 3DES schemes. RC2 bags need
+ * RC2 in the host's OpenSSL and are reported as unsupported without it.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function unpackPkcs12(bundle: string | Buffer, password: string): Pkcs12Credentials {
+  const der = typeof bundle === 'string' ? Buffer.from(bundle.replace(/\s+/g, ''), 'base64') : bundle;
+  let pfx: Asn1[];
+  try {
+    pfx = children(readAsn1(der));
+  } catch {
+    throw new Error('Not a PKCS#12 bundle (expected base64 of a .p12/.pfx file)');
+  }
+  const [version, authSafe, macData] = pfx;
+  if (!version || version.tag !== 0x02 || !authSafe) throw new Error('Not a PKCS#12 bundle');
+  const [contentType, content] = children(authSafe);
+  if (oid(contentType) !== OID.data) throw new Error('Public-key-protected PKCS#12 bundles are not supported');
+  const authSafeData = octets(children(content)[0]);
+  if (macData) verifyMac(macData, authSafeData, password);
+
+  const certificates: X509Certificate[] = [];
+  const keys: KeyObject[] = [];
+  for (const info of children(readAsn1(authSafeData))) {
+    const [type, wrapped] = children(info);
+    const safeContents = oid(type) === OID.data
+      ? octets(children(wrapped)[0])
+      : oid(type) === OID.encryptedData
+        ? decryptEncryptedData(children(wrapped)[0], password)
+        : undefined;
+    if (!safeContents) throw new Error(`Unsupported PKCS#12 content type ${oid(type)}`);
+    for (const bag of children(readAsn1(safeContents))) {
+      const [bagId, bagValue] = children(bag);
+      const value = children(bagValue)[0];
+      switch (oid(bagId)) {
+        case OID.certBag: {
+          const [certType, certValue] = children(value);
+          if (oid(certType) === OID.x509Certificate) certificates.push(new X509Certificate(octets(children(certValue)[0])));
+          break;
+        }
+        case OID.keyBag:
+          keys.push(createPrivateKey({ key: value.raw, format: 'der', type: 'pkcs8' }));
+          break;
+        case OID.shroudedKeyBag:
+          keys.push(decryptShroudedKey(value.raw, password));
+          break;
+      }
+    }
+  }
+
+  if (keys.length === 0) throw new Error('The PKCS#12 bundle has no private key');
+  if (keys.length > 1) throw new Error('The PKCS#12 bundle has more than one private key');
+  const key = keys[0];
+  const keyAlgorithm = describeKey(key);
+  if (!SUPPORTED_KEY_TYPES.includes(key.asymmetricKeyType ?? '')) {
+    throw new Error(`Unsupported key algorithm ${keyAlgorithm} (the companion accepts RSA and EC keys)`);
+  }
+  const spki = createPublicKey(key).export({ type: 'spki', format: 'der' });
+  const leaf = certificates.find(cert => cert.publicKey.export({ type: 'spki', format: 'der' }).equals(spki));
+  if (!leaf) throw new Error('The PKCS#12 bundle has no certificate for its private key');
+
+  return {
+    certificate: leaf.toString(),
+    privateKey: key.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    caCertificates: certificates.filter(cert => cert !== leaf).map(cert => cert.toString()),
+    keyAlgorithm,
+  };
+}
+
+/** MacData: HMAC over the authSafe with a key from the PKCS#12 KDF (ID 3). */
+function verifyMac(macData: Asn1, content: Buffer, password: string): void {
+  const [digestInfo, salt, iterations] = children(macData);
+  const [algorithm, digest] = children(digestInfo);
+  const hash = DIGESTS[oid(children(algorithm)[0])];
+  if (!hash) throw new Error(`Unsupported PKCS#12 MAC algorithm ${oid(children(algorithm)[0])}`);
+  const expected = octets(digest);
+  const rounds = iterations ? iterationCount(iterations) : 1;
+  // An empty password is encoded as either an empty BMPString or none at all.
+  const candidates = password === '' ? [bmpString(''), Buffer.alloc(0)] : [bmpString(password)];
+  for (const candidate of candidates) {
+    const key = pkcs12Kdf(hash.name, hash.blockSize, candidate, octets(salt), rounds, 3, expected.length);
+    const mac = createHmac(hash.name, key).update(content).digest();
+    if (mac.length === expected.length && timingSafeEqual(mac, expected)) return;
+  }
+  throw new Error('Wrong PKCS#12 password (MAC verification failed)');
+}
+
+/** EncryptedData → the decrypted SafeContents. */
+function decryptEncryptedData(encryptedData: Asn1, password: string): Buffer {
+  const [, encryptedContentInfo] = children(encryptedData);
+  const [, algorithm, encrypted] = children(encryptedContentInfo);
+  return decrypt(algorithm, octets(encrypted), password);
+}
+
+function decryptShroudedKey(encryptedPrivateKeyInfo: Buffer, password: string): KeyObject {
+  const [algorithm, encrypted] = children(readAsn1(encryptedPrivateKeyInfo));
+  const pkcs8 = decrypt(algorithm, octets(encrypted), password);
+  return createPrivateKey({ key: pkcs8, format: 'der', type: 'pkcs8' });
+}
+
+function decrypt(algorithm: Asn1, data: Buffer, password: string): Buffer {
+  const [algorithmOid, params] = children(algorithm);
+  const id = oid(algorithmOid);
+  let cipher: string;
+  let cipherName: string | undefined;
+  let key: Buffer;
+  let iv: Buffer;
+
+  if (id === OID.pbes2) {
+    const [kdf, scheme] = children(params);
+    const [kdfOid, kdfParams] = children(kdf);
+    if (oid(kdfOid) !== OID.pbkdf2) throw new Error(`Unsupported PKCS#12 key derivation ${oid(kdfOid)}`);
+    const [schemeOid, schemeIv] = children(scheme);
+    const encryption = PBES2_CIPHERS[oid(schemeOid)];
+    if (!encryption) throw new Error(`Unsupported PKCS#12 cipher ${oid(schemeOid)}`);
+    const [salt, iterations, ...rest] = children(kdfParams);
+    const prfParam = rest.find(node => node.tag === 0x30);
+    const prf = prfParam ? HMAC_PRFS[oid(children(prfParam)[0])] : 'sha1';
+    if (!prf) throw new Error('Unsupported PKCS#12 PBKDF2 PRF');
+    cipher = encryption.cipher;
+    key = pbkdf2Sync(Buffer.from(password, 'utf-8'), octets(salt), iterationCount(iterations), encryption.keyLength, prf);
+    iv = octets(schemeIv);
+  } else if (PKCS12_PBE_CIPHERS[id]) {
+    const pbe = PKCS12_PBE_CIPHERS[id];
+    const [salt, iterations] = children(params);
+    const pw = bmpString(password);
+    const rounds = iterationCount(iterations);
+    cipher = pbe.cipher;
+    cipherName = pbe.name;
+    key = pkcs12Kdf('sha1', 64, pw, octets(salt), rounds, 1, pbe.keyLength);
+    iv = pkcs12Kdf('sha1', 64, pw, octets(salt), rounds, 2, 8);
+  } else {
+    throw new Error(`Unsupported PKCS#12 encryption ${id}`);
+  }
+
+  let decipher;
+  try {
+    decipher = createDecipheriv(cipher, key, iv);
+  } catch {
+    throw new Error(`Unsupported PKCS#12 encryption ${cipherName ?? cipher} on this host (re-export the bundle with AES)`);
+  }
+  try {
+    return Buffer.concat([decipher.update(data), decipher.final()]);
+  } catch {
+    throw new Error('Wrong PKCS#12 password or corrupt bundle (decryption failed)');
+  }
+}
+
+/** RFC 7292 appendix B.2 key derivation; `id` 1 = key, 2 = IV, 3 = MAC key. */
+function pkcs12Kdf(
+  hash: string,
+  blockSize: number,
+  password: Buffer,
+  salt: Buffer,
+  iterations: number,
+  id: number,
+  length: number
+): Buffer {
+  const v = blockSize;
+  const fill = (data: Buffer) => {
+    const out = Buffer.alloc(data.length === 0 ? 0 : v * Math.ceil(data.length / v));
+    for (let i = 0; i < out.length; i++) out[i] = data[i % data.length];
+    return out;
+  };
+  const D = Buffer.alloc(v, id);
+  const I = Buffer.concat([fill(salt), fill(password)]);
+  const blocks: Buffer[] = [];
+  let produced = 0;
+  while (produced < length) {
+    let A = createHash(hash).update(D).update(I).digest();
+    for (let i = 1; i < iterations; i++) A = createHash(hash).update(A).digest();
+    blocks.push(A);
+    produced += A.length;
+    const B = fill(A);
+    // I_j = (I_j + B + 1) mod 2^(8v) for each v-byte block of I.
+    for (let j = 0; j < I.length; j += v) {
+      let carry = 1;
+      for (let k = v - 1; k >= 0; k--) {
+        const sum = I[j + k] + B[k] + carry;
+        I[j + k] = sum & 0xff;
+        carry = sum >> 8;
+      }
+    }
+  }
+  return Buffer.concat(blocks).subarray(0, length);
+}
+
+/** Passwords for the PKCS#12 KDF: UTF-16BE with a two-byte terminator. */
+function bmpString(password: string): Buffer {
+  const out = Buffer.alloc(password.length * 2 + 2);
+  for (let i = 0; i < password.length; i++) out.writeUInt16BE(password.charCodeAt(i), i * 2);
+  return out;
+}
+
+function describeKey(key: KeyObject): string {
+  const details = key.asymmetricKeyDetails;
+  const size = details?.namedCurve ?? details?.modulusLength;
+  return size ? `${key.asymmetricKeyType} ${size}` : String(key.asymmetricKeyType);
+}
+
+// ── Minimal DER reader ──────────────────────────────────────────────────
+
+interface Asn1 {
+  tag: number;
+  /** The whole TLV. */
+  raw: Buffer;
+  /** The value bytes. */
+  value: Buffer;
+}
+
+function readAsn1(buf: Buffer, offset = 0): Asn1 {
+  const tag = buf[offset];
+  let length = buf[offset + 1];
+  let header = 2;
+  if (tag === undefined || length === undefined) throw new Error('Truncated DER');
+  if (length === 0x80) throw new Error('Indefinite-length encoding is not supported');
+  if (length > 0x80) {
+    const count = length & 0x7f;
+    if (offset + header + count > buf.length) throw new Error('Truncated DER');
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + buf[offset + 2 + i];
+    header += count;
+  }
+  const end = offset + header + length;
+  if (!Number.isSafeInteger(end) || end > buf.length) throw new Error('Truncated DER');
+  return { tag, raw: buf.subarray(offset, end), value: buf.subarray(offset + header, end) };
+}
+
+function children(node: Asn1 | undefined): Asn1[] {
+  if (!node) throw new Error('Malformed PKCS#12 bundle');
+  const out: Asn1[] = [];
+  for (let offset = 0; offset < node.value.length;) {
+    const child = readAsn1(node.value, offset);
+    // Every TLV is at least two bytes; anything less would never advance.
+    if (child.raw.length === 0) throw new Error('Malformed PKCS#12 bundle');
+    out.push(child);
+    offset += child.raw.length;
+  }
+  return out;
+}
+
+/** An OCTET STRING's bytes, joining the segments of a constructed one. */
+function octets(node: Asn1 | undefined): Buffer {
+  if (!node) throw new Error('Malformed PKCS#12 bundle');
+  if (node.tag === 0x24 || (node.tag & 0x20 && node.tag !== 0x30)) {
+    return Buffer.concat(children(node).map(octets));
+  }
+  return node.value;
+}
+
+function integer(node: Asn1 | undefined): number {
+  if (!node || node.tag !== 0x02) throw new Error('Malformed PKCS#12 bundle');
+  return node.value.reduce((n, byte) => n * 256 + byte, 0);
+}
+
+function iterationCount(node: Asn1 | undefined): number {
+  const count = integer(node);
+  if (count > MAX_ITERATIONS) throw new Error(`PKCS#12 iteration count ${count} is over the ${MAX_ITERATIONS} limit`);
+  return count;
+}
+
+function oid(node: Asn1 | undefined): string {
+  if (!node || node.tag !== 0x06) return '';
+  const bytes = node.value;
+  const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let n = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    n = n * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      parts.push(n);
+      n = 0;
+    }
+  }
+  return parts.join('.');
+}
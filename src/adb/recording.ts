@@ -0,0 +1,251 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { logger } from '../log/logger.js';
+import { redactArgs } from '../log/redact.js';
+import { AdbResult } from '../types.js';
+import { InProcessTrackDevices, type AdbTransport, type TrackDevicesProcess } from './transport.js';
+
+const log = logger.child({ component: 'adb-replay' });
+
+export const ADB_FIXTURE_VERSION = 1;
+
+/** One adb invocation as captured by {@link RecordingTransport}. */
+export interface AdbFixtureEntry {
+  /** adb argv as issued, after {@link redactAdbArgs}. */
+  args: string[];
+  /** ms since the recording started. */
+  at: number;
+  durationMs: number;
+  /** `exec` result. Absent for `execBinary` entries. */
+  result?: AdbResult;
+  /** `execBinary` output, base64. */
+  binary?: string;
+  /** `execBinary` rejection message, when it failed. */
+  error?: string;
+}
+
+/**
+ * A recorded adb session. Plain JSON so a field report can be attached to an
+ * issue, reviewed, and dropped into a unit test as-is.
+ */
+export interface AdbFixture {
+  version: number;
+  recordedAt: string;
+  /** Name of the transport that produced the responses (usually `adb`). */
+  source: string;
+  entries: AdbFixtureEntry[];
+  /** Raw `track-devices` stream chunks, `at` ms after the subscription opened. */
+  trackDevices: Array<{ at: number; data: string }>;
+}
+
+const REDACTED = '***';
+
+// `cmd wifi connect-network <ssid> <security> <passphrase>` — the SSID is one
+// shell word (quoted by wifi-commands' sq(), possibly with the '\'' idiom).
+const CONNECT_NETWORK_RE = /^(cmd wifi connect-network (?:'(?:[^']|'\\'')*'|\S+) \S+ ).+$/s;
+
+// `cmd wifi start-softap <ssid> <security> <passphrase> [-b band]` — keep the band flag.
+const START_SOFTAP_RE = /^(cmd wifi start-softap (?:'(?:[^']|'\\'')*'|\S+) (?:wpa2|wpa3|wpa3_transition) )(?:'(?:[^']|'\\'')*'|\S+)/s;
+
+// Companion command file write (CompanionAppBridge.writeCommandFile).
+const COMPANION_PAYLOAD_RE = /echo ([A-Za-z0-9+/=]+) \| base64 -d/;
+
+/**
+ * Strip secrets from an adb argv before it is written to a fixture: the PSK
+ * passphrase of `cmd wifi connect-network` and `start-softap`, and the
+ * secret-bearing fields of companion-app payloads (decoded, passed through
+ * {@link redactArgs}, and re-encoded so the fixture still round-trips
+ * through the bridge). Replay
+ * redacts incoming commands the same way before matching, so a fixture
+ * recorded with one password replays for any.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function redactAdbArgs(args: string[]): string[] {
+  return args.map(arg => {
+    let out = arg.replace(CONNECT_NETWORK_RE, `$1'${REDACTED}'`);
+    out = out.replace(START_SOFTAP_RE, `$1'${REDACTED}'`);
+    out = out.replace(COMPANION_PAYLOAD_RE, (match, b64: string) => {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(Buffer.from(b64, 'base64').toString('utf-8'));
+      } catch {
+        return match;
+      }
+      const redacted = Buffer.from(JSON.stringify(redactArgs(payload)), 'utf-8').toString('base64');
+      return `echo ${redacted} | base64 -d`;
+    });
+    return out;
+  });
+}
+
+/** Read and version-check a fixture file. */
+export function loadAdbFixture(path: string): AdbFixture {
+  const fixture = JSON.parse(readFileSync(path, 'utf-8')) as AdbFixture;
+  if (fixture.version !== ADB_FIXTURE_VERSION) {
+    throw new Error(`Unsupported adb fixture version ${fixture.version} in ${path} (expected ${ADB_FIXTURE_VERSION})`);
+  }
+  return fixture;
+}
+
+/**
+ * Transport that forwards to another (normally {@link SpawnTransport}) and
+ * captures every command/response pair — with timing and exit code — into a
+ * fixture file. The file is rewritten after each call so a crashed or
+ * Ctrl-C'd session still leaves a usable fixture.
+ *
+ * Selected with `ADB_TRANSPORT=record` + `ADB_FIXTURE=<path>`. Command args
+ * are redacted ({@link redactAdbArgs}); responses are kept verbatim, so
+ * review a fixture for SSIDs, BSSIDs and SMS content before committing it.
+ */
+export class RecordingTransport implements AdbTransport {
+  readonly name: string;
+  private readonly fixture: AdbFixture;
+  private readonly startedAt = Date.now();
+
+  constructor(private readonly inner: AdbTransport, private readonly fixturePath: string) {
+    this.name = `record(${inner.name})`;
+    this.fixture = {
+      version: ADB_FIXTURE_VERSION,
+      recordedAt: new Date(this.startedAt).toISOString(),
+      source: inner.name,
+      entries: [],
+      trackDevices: [],
+    };
+    this.flush();
+  }
+
+  async exec(args: string[], timeout: number): Promise<AdbResult> {
+    const start = Date.now();
+    const result = await this.inner.exec(args, timeout);
+    this.record({ args: redactAdbArgs(args), at: start - this.startedAt, durationMs: Date.now() - start, result });
+    return result;
+  }
+
+  async execBinary(args: string[], timeout: number): Promise<Buffer> {
+    const start = Date.now();
+    const entry = (): AdbFixtureEntry => ({
+      args: redactAdbArgs(args),
+      at: start - this.startedAt,
+      durationMs: Date.now() - start,
+    });
+    try {
+      const buf = await this.inner.execBinary(args, timeout);
+      this.record({ ...entry(), binary: buf.toString('base64') });
+      return buf;
+    } catch (err) {
+      this.record({ ...entry(), error: err instanceof Error ? err.message : String(err) });
+      throw err;
+    }
+  }
+
+  trackDevices(): TrackDevicesProcess {
+    const proc = this.inner.trackDevices();
+    const opened = Date.now();
+    proc.stdout.on('data', (chunk: Buffer) => {
+      this.fixture.trackDevices.push({ at: Date.now() - opened, data: chunk.toString('utf-8') });
+      this.flush();
+    });
+    return proc;
+  }
+
+  /** The fixture captured so far. */
+  getFixture(): AdbFixture {
+    return this.fixture;
+  }
+
+  private record(entry: AdbFixtureEntry): void {
+    this.fixture.entries.push(entry);
+    this.flush();
+  }
+
+  private flush(): void {
+    writeFileSync(this.fixturePath, JSON.stringify(this.fixture, null, 2));
+  }
+}
+
+/** Drop `-s <serial>` so a fixture replays regardless of device selection. */
+function withoutSerial(args: string[]): string[] {
+  return args[0] === '-s' ? args.slice(2) : args;
+}
+
+function matchKey(args: string[]): string {
+  return JSON.stringify(redactAdbArgs(args));
+}
+
+/**
+ * Transport that serves a recorded fixture instead of talking to adb.
+ *
+ * Matching is deterministic: each distinct command has a queue of its
+ * recorded responses, served in recording order. The last response repeats
+ * once the queue is drained, so a poll loop that runs longer on replay (e.g.
+ * connect() waiting on `dumpsys wifi`) settles on the final recorded state.
+ * A command is matched on its exact args first, then without `-s <serial>`.
+ * An unrecorded command fails like an adb error rather than throwing, so a
+ * parser test sees the same shape it would on a device.
+ *
+ * Selected with `ADB_TRANSPORT=replay` + `ADB_FIXTURE=<path>`. Responses are
+ * immediate unless `realtime` (`ADB_REPLAY_REALTIME=1`) is set, in which case
+ * each one waits its recorded duration.
+ */
+export class ReplayTransport implements AdbTransport {
+  readonly name = 'replay';
+  private readonly exact = new Map<string, AdbFixtureEntry[]>();
+  private readonly loose = new Map<string, AdbFixtureEntry[]>();
+  private readonly served = new Set<AdbFixtureEntry>();
+
+  constructor(private readonly fixture: AdbFixture, private readonly options: { realtime?: boolean } = {}) {
+    for (const entry of fixture.entries) {
+      push(this.exact, matchKey(entry.args), entry);
+      push(this.loose, matchKey(withoutSerial(entry.args)), entry);
+    }
+  }
+
+  static fromFile(path: string, options: { realtime?: boolean } = {}): ReplayTransport {
+    return new ReplayTransport(loadAdbFixture(path), options);
+  }
+
+  async exec(args: string[], _timeout: number): Promise<AdbResult> {
+    const entry = await this.next(args, e => e.result !== undefined);
+    if (!entry) {
+      return { success: false, stdout: '', stderr: 'adb replay: no recorded response for this command', exitCode: 1 };
+    }
+    return { ...entry.result! };
+  }
+
+  async execBinary(args: string[], _timeout: number): Promise<Buffer> {
+    const entry = await this.next(args, e => e.result === undefined);
+    if (!entry) throw new Error('adb replay: no recorded response for this command');
+    if (entry.error !== undefined) throw new Error(entry.error);
+    return Buffer.from(entry.binary ?? '', 'base64');
+  }
+
+  trackDevices(): TrackDevicesProcess {
+    const tracker = new InProcessTrackDevices(() => timers.forEach(clearTimeout));
+    const timers: NodeJS.Timeout[] = [];
+    for (const { at, data } of this.fixture.trackDevices) {
+      timers.push(setTimeout(() => tracker.push(Buffer.from(data, 'utf-8')), this.options.realtime ? at : 0));
+    }
+    return tracker;
+  }
+
+  private async next(args: string[], kind: (e: AdbFixtureEntry) => boolean): Promise<AdbFixtureEntry | undefined> {
+    let candidates = (this.exact.get(matchKey(args)) ?? []).filter(kind);
+    if (candidates.length === 0) {
+      candidates = (this.loose.get(matchKey(withoutSerial(args))) ?? []).filter(kind);
+    }
+    if (candidates.length === 0) {
+      log.warn({ args: redactAdbArgs(args) }, 'no recorded response for adb command');
+      return undefined;
+    }
+    const entry = candidates.find(e => !this.served.has(e)) ?? candidates[candidates.length - 1];
+    this.served.add(entry);
+    if (this.options.realtime) await new Promise(r => setTimeout(r, entry.durationMs));
+    return entry;
+  }
+}
+
+function push<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
@@ -0,0 +1,230 @@
+import { execFile, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { readFileSync } from 'fs';
+import { PassThrough, type Readable } from 'stream';
+import { promisify } from 'util';
+import { AdbResult } from '../types.js';
+import { RecordingTransport, ReplayTransport } from './recording.js';
+import { VirtualAdbTransport, type VirtualScenario } from './virtual-device.js';
+
+const execFileAsync = promisify(execFile);
+
+const MAX_OUTPUT_BUFFER = 1024 * 1024 * 8; // 8 MB; covers ui_dump and wifi_scan with headroom
+
+/**
+ * The long-lived `adb track-devices` subscription, as the device observer
+ * consumes it. A spawned `ChildProcess` satisfies this shape; the virtual
+ * transport hands back an in-process stand-in.
+ */
+export interface TrackDevicesProcess extends EventEmitter {
+  stdout: Readable;
+  stderr: Readable;
+  kill(signal?: NodeJS.Signals): boolean;
+}
+
+/**
+ * In-process `adb track-devices` stand-in for transports that don't spawn adb.
+ * The owner pushes already-framed bytes (see {@link frameTrackDevicesPayload});
+ * the stream stays open until killed, like the real subscription.
+ */
+export class InProcessTrackDevices extends EventEmitter implements TrackDevicesProcess {
+  stdout = new PassThrough();
+  stderr = new PassThrough();
+  private closed = false;
+
+  constructor(private readonly onClose: () => void = () => {}) {
+    super();
+  }
+
+  push(chunk: Buffer): void {
+    if (!this.closed) this.stdout.write(chunk);
+  }
+
+  kill(signal: NodeJS.Signals = 'SIGTERM'): boolean {
+    if (this.closed) return false;
+    this.closed = true;
+    this.onClose();
+    this.stdout.end();
+    this.stderr.end();
+    setImmediate(() => this.emit('exit', null, signal));
+    return true;
+  }
+}
+
+/**
+ * Frame a device-list payload the way adb's smart socket does:
+ * `<4-hex-length><payload>`.
+ */
+export function frameTrackDevicesPayload(payload: string): Buffer {
+  const len = Buffer.byteLength(payload, 'utf8').toString(16).padStart(4, '0');
+  return Buffer.from(len + payload, 'utf8');
+}
+
+/**
+ * Where adb invocations actually go. `AdbClient` builds the full argument
+ * list (including `-s <serial>`) and hands it to the transport; everything
+ * above that — command builders, parsers, tools — is transport-agnostic.
+ *
+ * Implementations:
+ *   • {@link SpawnTransport} — the real `adb` binary (default).
+ *   • `VirtualAdbTransport` — a scripted in-process device, so the full tool
+ *     surface runs without a phone attached (see virtual-device.ts).
+ *   • `RecordingTransport` / `ReplayTransport` — capture a real session to a
+ *     fixture file and serve it back in tests (see recording.ts).
+ */
+export interface AdbTransport {
+  /** Short label for logs and /health, e.g. `adb` or `virtual`. */
+  readonly name: string;
+  exec(args: string[], timeout: number): Promise<AdbResult>;
+  execBinary(args: string[], timeout: number): Promise<Buffer>;
+  trackDevices(): TrackDevicesProcess;
+}
+
+/**
+ * Transport that spawns the real `adb` binary.
+ */
+export class SpawnTransport implements AdbTransport {
+  readonly name: string;
+
+  constructor(private readonly adbPath: string = 'adb') {
+    this.name = adbPath;
+  }
+
+  /**
+   * Uses `execFile` so adb is invoked directly with an args array — no host
+   * /bin/sh layer between us and adb. That keeps shell metacharacters in
+   * shell-command args (`|`, `>`, single quotes around `sh -c '...'`)
+   * intact when adb forwards them to the device shell.
+   */
+  async exec(args: string[], timeout: number): Promise<AdbResult> {
+    try {
+      const { stdout, stderr } = await execFileAsync(this.adbPath, args, {
+        timeout,
+        maxBuffer: MAX_OUTPUT_BUFFER,
+      });
+      return {
+        success: true,
+        stdout: stdout.trim(),
+        stderr: stderr.trim(),
+        exitCode: 0,
+      };
+    } catch (error: unknown) {
+      const err = error as ExecError;
+      return {
+        success: false,
+        stdout: err.stdout?.trim() || '',
+        // Never fall back to err.message: for a timeout Node sets it to
+        // "Command failed: <full command>", leaking secret args (Wi-Fi
+        // password, EAP credentials) into stderr and tool_calls.error (#81).
+        stderr: formatAdbError(err, timeout),
+        exitCode: err.code ?? 1,
+      };
+    }
+  }
+
+  async execBinary(args: string[], timeout: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const proc = spawn(this.adbPath, args);
+      const chunks: Buffer[] = [];
+      const errChunks: Buffer[] = [];
+
+      const timer = setTimeout(() => {
+        proc.kill('SIGKILL');
+        // Don't echo args — keep secret-bearing commands out of error text (#81).
+        reject(new Error(`adb command timed out after ${timeout}ms`));
+      }, timeout);
+
+      proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+      proc.stderr.on('data', (chunk: Buffer) => errChunks.push(chunk));
+      proc.on('error', (err) => {
+        clearTimeout(timer);
+        reject(err);
+      });
+      proc.on('close', (code) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(Buffer.concat(chunks));
+        } else {
+          const err = Buffer.concat(errChunks).toString().trim();
+          reject(new Error(`adb exited with code ${code}: ${err}`));
+        }
+      });
+    });
+  }
+
+  trackDevices(): TrackDevicesProcess {
+    return spawn(this.adbPath, ['track-devices'], {
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  }
+}
+
+/**
+ * Build the transport selected by the environment:
+ *
+ *   • `ADB_TRANSPORT` — `adb` (default) spawns the real binary at `ADB_PATH`;
+ *     `virtual` runs the scripted device from `ADB_VIRTUAL_SCENARIO` (a JSON
+ *     file; built-in default when unset), persisting its state to
+ *     `ADB_VIRTUAL_STATE` when set; `record` drives the real binary and
+ *     captures every call to the fixture at `ADB_FIXTURE`; `replay` serves
+ *     that fixture back (with recorded delays if `ADB_REPLAY_REALTIME=1`).
+ *
+ * Throws on an unknown transport name so a typo fails at startup rather than
+ * silently driving a real phone.
+ */
+export function createTransportFromEnv(env: NodeJS.ProcessEnv = process.env): AdbTransport {
+  const kind = (env.ADB_TRANSPORT || 'adb').toLowerCase();
+  switch (kind) {
+    case 'adb':
+      return new SpawnTransport(env.ADB_PATH || 'adb');
+    case 'virtual': {
+      const scenario = env.ADB_VIRTUAL_SCENARIO
+        ? (JSON.parse(readFileSync(env.ADB_VIRTUAL_SCENARIO, 'utf-8')) as VirtualScenario)
+        : undefined;
+      return new VirtualAdbTransport(scenario, env.ADB_VIRTUAL_STATE || undefined);
+    }
+    case 'record':
+    case 'replay': {
+      if (!env.ADB_FIXTURE) throw new Error(`ADB_TRANSPORT=${kind} requires ADB_FIXTURE (path to the fixture file)`);
+      return kind === 'record'
+        ? new RecordingTransport(new SpawnTransport(env.ADB_PATH || 'adb'), env.ADB_FIXTURE)
+        : ReplayTransport.fromFile(env.ADB_FIXTURE, { realtime: env.ADB_REPLAY_REALTIME === '1' });
+    }
+    default:
+      throw new Error(
+        `Unknown ADB_TRANSPORT '${env.ADB_TRANSPORT}' (expected 'adb', 'virtual', 'record' or 'replay')`
+      );
+  }
+}
+
+/** Shape of the error object child_process rejects with (execFile). */
+export interface ExecError {
+  stdout?: string;
+  stderr?: string;
+  code?: number;
+  message?: string;
+  killed?: boolean;
+  signal?: string;
+}
+
+/**
+ * Build a safe error string for a failed `adb` invocation.
+ *
+ * Critically it NEVER returns Node's `err.message`: for a timeout that is
+ * `Command failed: <full command>`, which would leak secret args (Wi-Fi
+ * password, EAP credentials) into `AdbResult.stderr` and from there into
+ * surfaced errors and the `tool_calls.error` log column (#81). The command's
+ * own `stderr` (device output — no command line) is safe to pass through;
+ * otherwise we return a generic message.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function formatAdbError(err: ExecError, timeoutMs: number): string {
+  if (err.killed || err.signal) {
+    return `adb command timed out after ${timeoutMs}ms`;
+  }
+  const stderr = err.stderr?.trim();
+  if (stderr) return stderr;
+  if (err.code !== undefined) return `adb command failed (exit ${err.code})`;
+  return 'adb command failed';
+}
@@ -0,0 +1,895 @@
+import { createHash, randomBytes } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import {
+  InProcessTrackDevices,
+  frameTrackDevicesPayload,
+  type AdbTransport,
+  type TrackDevicesProcess,
+} from './transport.js';
+import { AdbResult, Device } from '../types.js';
+
+/**
+ * One access point the virtual radio can see. `flags` is the raw
+ * `cmd wifi list-scan-results` capability string (e.g. `[WPA2-PSK-CCMP][ESS]`).
+ */
+export interface VirtualAccessPoint {
+  ssid: string;
+  bssid: string;
+  frequency: number;
+  rssi: number;
+  flags: string;
+  /** Required passphrase. Omit for open/OWE networks or to accept any password. */
+  password?: string;
+  /** Associating lands behind a captive portal (CAPTIVE_PORTAL, not VALIDATED). */
+  captive?: boolean;
+  /** Advertised as `userPortalUrl` in `dumpsys connectivity` when captive. */
+  portalUrl?: string;
+  /** Channel width in MHz and 802.11 standard (`11ax`), reported by a full `dumpsys wifi`. */
+  channelWidth?: number;
+  standard?: string;
+  /** SSID not broadcast: blank in scans, and joining needs `connect-network -h`. */
+  hidden?: boolean;
+  /** MTU of the link beyond the gateway (e.g. 1400 over a tunnel); DF pings larger than this are refused. */
+  pathMtu?: number;
+}
+
+export interface VirtualSms {
+  address: string;
+  body: string;
+  /** ms since epoch. */
+  date: number;
+}
+
+export interface VirtualSavedNetwork {
+  networkId: number;
+  ssid: string;
+  /** `cmd wifi list-networks` security column, e.g. `wpa2-psk`. */
+  security: string;
+  hidden?: boolean;
+  metered?: boolean;
+  /** `connect-network -r` mode; unset behaves like `auto` (persistent randomized MAC). */
+  macRandomization?: string;
+  /** False after `connect-network -d`: never rejoined automatically. Unset means true. */
+  autoJoin?: boolean;
+  priority?: number;
+  /** Package that added the network; unset means the shell. */
+  creator?: string;
+  fromSuggestion?: boolean;
+  /** Network selection disabled (e.g. after repeated auth failures): never auto-joined. */
+  disabled?: boolean;
+  /** ms since epoch of the last successful association. */
+  lastConnectedAt?: number;
+}
+
+/** The hotspot as `cmd wifi start-softap` configured it. */
+export interface VirtualSoftAp {
+  ssid: string;
+  /** start-softap security argument: open, owe, wpa2, wpa3, wpa3_transition, … */
+  security: string;
+  passphrase?: string;
+  /** start-softap `-b` value; unset means 2.4 GHz. */
+  band?: string;
+}
+
+/**
+ * Full mutable state of one virtual device. Plain JSON so it can be persisted
+ * between processes via `ADB_VIRTUAL_STATE` (the cicd runner spawns one server
+ * per step, and state must survive from `wifi_connect` to `wifi_status`).
+ */
+export interface VirtualDeviceState {
+  serial: string;
+  state: Device['state'];
+  props: Record<string, string>;
+  wifiEnabled: boolean;
+  accessPoints: VirtualAccessPoint[];
+  saved: VirtualSavedNetwork[];
+  nextNetworkId: number;
+  /** networkId of the current association, or null. */
+  connectedId: number | null;
+  /**
+   * AP of the current association when pinned (`connect-network -b`) or
+   * moved by roam(); null means the strongest AP advertising the SSID.
+   */
+  connectedBssid: string | null;
+  /** MAC used for the current association; fresh per connection for `non_persistent`. */
+  connectedMac: string | null;
+  /** Last network we were on — auto-rejoined when the radio comes back. */
+  lastConnectedId: number | null;
+  /**
+   * Supplicant states served (one per `dumpsys wifi` read) before settling.
+   * A wrong password queues ASSOCIATING → DISCONNECTED so connect() sees the
+   * same active-then-terminal sequence a real failed handshake produces.
+   */
+  pendingSupplicantStates: string[];
+  ipAddress: string;
+  gateway: string;
+  settings: Record<'system' | 'secure' | 'global', Record<string, string>>;
+  sms: VirtualSms[];
+  packages: string[];
+  /** Remote path → base64 content, for `adb push` / `adb pull`. */
+  files: Record<string, string>;
+  lastScanAt: number;
+  /** Running hotspot, or null. */
+  softAp: VirtualSoftAp | null;
+  /** Stations that associate whenever the hotspot is up. */
+  softApClients: Array<{ macAddress: string; ipAddress: string }>;
+}
+
+/** Scenario input: everything but the serial is optional and defaulted. */
+export type VirtualDeviceSpec = Partial<Omit<VirtualDeviceState, 'sms'>> & {
+  serial: string;
+  /** Messages in the inbox; `ageSeconds` is relative to server start. */
+  sms?: Array<{ address: string; body: string; ageSeconds?: number }>;
+};
+
+export interface VirtualScenario {
+  devices: VirtualDeviceSpec[];
+}
+
+/** Scenario used when `ADB_VIRTUAL_SCENARIO` is unset: one phone, three APs. */
+export const DEFAULT_VIRTUAL_SCENARIO: VirtualScenario = {
+  devices: [
+    {
+      serial: 'VIRTUAL0001',
+      accessPoints: [
+        { ssid: 'Virtual-WPA2', bssid: '02:00:00:00:01:01', frequency: 5180, rssi: -48, flags: '[WPA2-PSK-CCMP][RSN-PSK-CCMP][ESS]', password: 'virtualpass', channelWidth: 80, standard: '11ax' },
+        { ssid: 'Virtual-Open', bssid: '02:00:00:00:01:02', frequency: 2437, rssi: -61, flags: '[ESS]' },
+        { ssid: 'Virtual-Guest', bssid: '02:00:00:00:01:03', frequency: 2462, rssi: -67, flags: '[ESS]', captive: true, portalUrl: 'http://portal.virtual.test/login' },
+      ],
+      sms: [{ address: 'VirtualBank', body: 'Your verification code is 482913', ageSeconds: 30 }],
+    },
+  ],
+};
+
+const DEFAULT_PROPS: Record<string, string> = {
+  'ro.product.model': 'Virtual Phone',
+  'ro.product.brand': 'virtual',
+  'ro.product.manufacturer': 'android-wifi-mcp',
+  'ro.build.version.release': '14',
+  'ro.build.version.sdk': '34',
+  'ro.build.id': 'VIRT.240101.001',
+};
+
+// Smallest valid PNG (1×1, transparent) — what `screencap -p` returns here.
+const PLACEHOLDER_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+const NETWORK_HANDLE_BASE = 100;
+
+/**
+ * Fill a scenario spec out to a full device state.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function buildVirtualDevice(spec: VirtualDeviceSpec, now: number = Date.now()): VirtualDeviceState {
+  return {
+    serial: spec.serial,
+    state: spec.state ?? 'device',
+    props: { ...DEFAULT_PROPS, ...spec.props },
+    wifiEnabled: spec.wifiEnabled ?? true,
+    accessPoints: spec.accessPoints ?? [],
+    saved: spec.saved ?? [],
+    nextNetworkId: spec.nextNetworkId ?? Math.max(-1, ...(spec.saved ?? []).map(n => n.networkId)) + 1,
+    connectedId: spec.connectedId ?? null,
+    connectedBssid: spec.connectedBssid ?? null,
+    connectedMac: spec.connectedMac ?? null,
+    lastConnectedId: spec.lastConnectedId ?? null,
+    pendingSupplicantStates: spec.pendingSupplicantStates ?? [],
+    ipAddress: spec.ipAddress ?? '192.168.50.23',
+    gateway: spec.gateway ?? '192.168.50.1',
+    settings: {
+      system: { ...spec.settings?.system },
+      secure: { ...spec.settings?.secure },
+      global: { captive_portal_mode: '1', ...spec.settings?.global },
+    },
+    sms: (spec.sms ?? []).map(m => ({
+      address: m.address,
+      body: m.body,
+      date: now - (m.ageSeconds ?? 0) * 1000,
+    })),
+    packages: spec.packages ?? ['com.android.settings', 'com.android.chrome'],
+    files: spec.files ?? {},
+    lastScanAt: spec.lastScanAt ?? now,
+    softAp: spec.softAp ?? null,
+    softApClients: spec.softApClients ?? [],
+  };
+}
+
+/**
+ * Split a device shell command line into argv the way `sh` would for the
+ * simple commands our command builders emit: whitespace-separated words,
+ * single quotes (incl. the `'\''` idiom), double quotes and backslash escapes.
+ * Stops at the first unquoted `|` — the virtual device answers the left-hand
+ * command and ignores grep/head filters, whose output is a superset anyway.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function tokenizeShell(command: string): string[] {
+  const out: string[] = [];
+  let cur = '';
+  let inWord = false;
+  let i = 0;
+  while (i < command.length) {
+    const c = command[i];
+    if (c === "'") {
+      const end = command.indexOf("'", i + 1);
+      const stop = end < 0 ? command.length : end;
+      cur += command.slice(i + 1, stop);
+      inWord = true;
+      i = stop + 1;
+    } else if (c === '"') {
+      i++;
+      while (i < command.length && command[i] !== '"') {
+        if (command[i] === '\\' && i + 1 < command.length) i++;
+        cur += command[i++];
+      }
+      inWord = true;
+      i++;
+    } else if (c === '\\' && i + 1 < command.length) {
+      cur += command[i + 1];
+      inWord = true;
+      i += 2;
+    } else if (c === '|') {
+      break;
+    } else if (/\s/.test(c)) {
+      if (inWord) out.push(cur);
+      cur = '';
+      inWord = false;
+      i++;
+    } else {
+      cur += c;
+      inWord = true;
+      i++;
+    }
+  }
+  if (inWord) out.push(cur);
+  return out;
+}
+
+/**
+ * Scripted, in-process stand-in for `adb` plus the phones behind it. Answers
+ * the commands this server issues — `cmd wifi`, `dumpsys wifi|connectivity`,
+ * `content query`, `settings`, `getprop`, `ping`, `ip route`, push/pull,
+ * screencap and `track-devices` — with output shaped like a real Android 14
+ * device, so every native tool, the cicd YAML suites and the device observer
+ * run end-to-end on a plain Linux box.
+ *
+ * Selected with `ADB_TRANSPORT=virtual`; devices come from the JSON scenario
+ * at `ADB_VIRTUAL_SCENARIO` (default {@link DEFAULT_VIRTUAL_SCENARIO}). Set
+ * `ADB_VIRTUAL_STATE` to persist mutations to a file across processes.
+ *
+ * The companion app is never "installed" here, so companion-backed tools
+ * report that cleanly instead of timing out.
+ */
+export class VirtualAdbTransport implements AdbTransport {
+  readonly name = 'virtual';
+  private devices: VirtualDeviceState[];
+  private trackers = new Set<InProcessTrackDevices>();
+
+  constructor(scenario: VirtualScenario = DEFAULT_VIRTUAL_SCENARIO, private readonly statePath?: string) {
+    if (statePath && existsSync(statePath)) {
+      this.devices = (JSON.parse(readFileSync(statePath, 'utf-8')) as { devices: VirtualDeviceState[] }).devices;
+    } else {
+      const now = Date.now();
+      this.devices = scenario.devices.map(d => buildVirtualDevice(d, now));
+    }
+  }
+
+  /** Live device state, keyed by serial — for tests that script or assert on it. */
+  getDevice(serial: string): VirtualDeviceState | undefined {
+    return this.devices.find(d => d.serial === serial);
+  }
+
+  /**
+   * Attach a device, change its adb state, or detach it (`null`). Live
+   * `track-devices` subscribers see the new list immediately.
+   */
+  setDeviceState(serial: string, state: Device['state'] | null, spec?: Omit<VirtualDeviceSpec, 'serial'>): void {
+    const existing = this.getDevice(serial);
+    if (state === null) {
+      this.devices = this.devices.filter(d => d.serial !== serial);
+    } else if (existing) {
+      existing.state = state;
+    } else {
+      this.devices.push(buildVirtualDevice({ ...spec, serial, state }));
+    }
+    this.persist();
+    for (const t of this.trackers) t.push(frameTrackDevicesPayload(this.trackPayload()));
+  }
+
+  /** Drop a message into a device's SMS inbox (dated now). */
+  injectSms(serial: string, address: string, body: string): void {
+    const dev = this.getDevice(serial);
+    if (!dev) throw new Error(`No virtual device ${serial}`);
+    dev.sms.push({ address, body, date: Date.now() });
+    this.persist();
+  }
+
+  /**
+   * Move a device's association to another AP of the same network — what a
+   * client-initiated or BSS-transition roam looks like from `dumpsys wifi`.
+   */
+  roam(serial: string, bssid: string): void {
+    const dev = this.getDevice(serial);
+    if (!dev) throw new Error(`No virtual device ${serial}`);
+    const current = connectedAp(dev);
+    if (!current) throw new Error(`Virtual device ${serial} is not connected`);
+    const target = dev.accessPoints.find(ap => ap.bssid === bssid.toLowerCase());
+    if (!target || target.ssid !== current.ssid) throw new Error(`No AP ${bssid} for ${current.ssid} on ${serial}`);
+    dev.connectedBssid = target.bssid;
+    this.persist();
+  }
+
+  async exec(args: string[], _timeout: number): Promise<AdbResult> {
+    const result = this.dispatch(args);
+    this.persist();
+    return result;
+  }
+
+  async execBinary(args: string[], _timeout: number): Promise<Buffer> {
+    const { device, rest, error } = this.resolveTarget(args);
+    if (error) throw new Error(`adb exited with code 1: ${error}`);
+    if (rest[0] === 'exec-out' && rest[1] === 'screencap') return PLACEHOLDER_PNG;
+    const result = this.runShell(device!, rest.slice(1).join(' '));
+    if (!result.success) throw new Error(`adb exited with code ${result.exitCode}: ${result.stderr}`);
+    return Buffer.from(result.stdout);
+  }
+
+  trackDevices(): TrackDevicesProcess {
+    const tracker = new InProcessTrackDevices(() => this.trackers.delete(tracker));
+    this.trackers.add(tracker);
+    const frame = frameTrackDevicesPayload(this.trackPayload());
+    setImmediate(() => tracker.push(frame));
+    return tracker;
+  }
+
+  private trackPayload(): string {
+    return this.devices.map(d => `${d.serial}\t${d.state}\n`).join('');
+  }
+
+  private persist(): void {
+    if (!this.statePath) return;
+    writeFileSync(this.statePath, JSON.stringify({ devices: this.devices }, null, 2));
+  }
+
+  /** Resolve `-s <serial>` (or the implicit single device) the way adb does. */
+  private resolveTarget(args: string[]): { device?: VirtualDeviceState; rest: string[]; error?: string } {
+    if (args[0] === '-s') {
+      const device = this.getDevice(args[1]);
+      if (!device) return { rest: args.slice(2), error: `adb: device '${args[1]}' not found` };
+      if (device.state !== 'device') return { rest: args.slice(2), error: `adb: device ${device.state}` };
+      return { device, rest: args.slice(2) };
+    }
+    const online = this.devices.filter(d => d.state === 'device');
+    if (online.length === 0) return { rest: args, error: 'adb: no devices/emulators found' };
+    if (online.length > 1) return { rest: args, error: 'adb: more than one device/emulator' };
+    return { device: online[0], rest: args };
+  }
+
+  private dispatch(args: string[]): AdbResult {
+    // Host-side commands that don't need a target device.
+    const hostArgs = args[0] === '-s' ? args.slice(2) : args;
+    switch (hostArgs[0]) {
+      case 'version':
+        return ok('Android Debug Bridge version 1.0.41\nVersion 35.0.0-virtual');
+      case 'devices':
+        return ok(
+          ['List of devices attached', ...this.devices.map(d =>
+            d.state === 'device'
+              ? `${d.serial}\tdevice product:virtual model:${d.props['ro.product.model'].replace(/\s+/g, '_')} device:virtual transport_id:1`
+              : `${d.serial}\t${d.state}`
+          )].join('\n')
+        );
+      case 'wait-for-device':
+        return this.devices.some(d => d.state === 'device') ? ok('') : fail('adb: no devices/emulators found');
+    }
+
+    const { device, rest, error } = this.resolveTarget(args);
+    if (error || !device) return fail(error ?? 'adb: no devices/emulators found');
+
+    switch (rest[0]) {
+      case 'shell':
+        return this.runShell(device, rest.slice(1).join(' '));
+      case 'forward':
+      case 'reverse':
+        return ok('');
+      case 'push': {
+        if (!existsSync(rest[1])) return fail(`adb: error: cannot stat '${rest[1]}': No such file or directory`);
+        device.files[rest[2]] = readFileSync(rest[1]).toString('base64');
+        return { success: true, stdout: '', stderr: `${rest[1]}: 1 file pushed, 0 skipped.`, exitCode: 0 };
+      }
+      case 'pull': {
+        const content = device.files[rest[1]];
+        if (content === undefined) {
+          return fail(`adb: error: failed to stat remote object '${rest[1]}': No such file or directory`);
+        }
+        writeFileSync(rest[2], Buffer.from(content, 'base64'));
+        return { success: true, stdout: '', stderr: `${rest[1]}: 1 file pulled, 0 skipped.`, exitCode: 0 };
+      }
+      default:
+        return fail(`adb: unknown command ${rest[0]}`);
+    }
+  }
+
+  private runShell(dev: VirtualDeviceState, command: string): AdbResult {
+    const argv = tokenizeShell(command);
+    const [cmd, sub] = argv;
+
+    if (cmd === 'getprop') return ok(dev.props[argv[1]] ?? '');
+    if (cmd === 'cmd' && sub === 'wifi') return this.cmdWifi(dev, argv.slice(2));
+    // Piped (grep'd) reads are connection-status probes; only a full dump
+    // carries the per-BSS scan records, as on devices whose grep drops them.
+    if (cmd === 'dumpsys' && sub === 'wifi') return ok(dumpsysWifi(dev, !command.includes('|')));
+    if (cmd === 'dumpsys' && sub === 'wifip2p') return ok(dumpsysWifiP2p(dev));
+    if (cmd === 'dumpsys' && sub === 'connectivity') return ok(dumpsysConnectivity(dev));
+    if (cmd === 'cmd' && sub === 'connectivity' && argv[2] === 'airplane-mode') return airplaneMode(dev, argv[3]);
+    if (cmd === 'ip' && sub === '-4' && argv[2] === 'neigh') return ok(softApNeighbours(dev));
+    if (cmd === 'ip' && sub === 'route') {
+      if (!connectedAp(dev)) return { success: false, stdout: '', stderr: 'RTNETLINK answers: Network is unreachable', exitCode: 2 };
+      return ok(`${argv[3] ?? '8.8.8.8'} via ${dev.gateway} dev wlan0 table 1021 src ${dev.ipAddress} uid 2000 \n    cache `);
+    }
+    if (cmd === 'ping') return ping(dev, argv);
+    if (cmd === 'settings') return settings(dev, argv);
+    if (cmd === 'content' && argv.includes('content://sms/inbox')) return smsQuery(dev);
+    if (cmd === 'pm' && sub === 'list') return ok(dev.packages.map(p => `package:${p}`).join('\n'));
+    if (cmd === 'run-as') return fail(`run-as: unknown package: ${argv[1]}`);
+    if (cmd === 'am') return ok('Broadcasting: Intent { }\nBroadcast completed: result=0');
+    return { success: false, stdout: '', stderr: `/system/bin/sh: ${cmd}: inaccessible or not found`, exitCode: 127 };
+  }
+
+  private cmdWifi(dev: VirtualDeviceState, argv: string[]): AdbResult {
+    switch (argv[0]) {
+      case 'status':
+        return ok(
+          dev.wifiEnabled
+            ? `Wifi is enabled\nWifi scanning is always available\n${connectedAp(dev) ? `Wifi is connected to "${connectedAp(dev)!.ssid}"` : 'Wifi is not connected'}`
+            : 'Wifi is disabled\nWifi scanning is only available when wifi is enabled'
+        );
+      case 'set-wifi-enabled': {
+        const enable = argv[1] === 'enabled';
+        dev.wifiEnabled = enable;
+        if (!enable) {
+          dev.connectedId = null;
+          dev.connectedBssid = null;
+        } else {
+          autoJoin(dev);
+        }
+        return ok('');
+      }
+      case 'start-scan':
+        if (!dev.wifiEnabled) return fail('Wifi is disabled');
+        dev.lastScanAt = Date.now();
+        return ok('');
+      case 'list-scan-results':
+        return ok(scanResults(dev));
+      case 'list-networks':
+        return ok(
+          [
+            'Network Id      SSID                         Security type',
+            ...dev.saved.map(n => `${String(n.networkId).padEnd(13)}${n.ssid.padEnd(33)}${n.security}`),
+          ].join('\n')
+        );
+      case 'forget-network': {
+        const id = parseInt(argv[1], 10);
+        const before = dev.saved.length;
+        dev.saved = dev.saved.filter(n => n.networkId !== id);
+        if (dev.saved.length === before) return ok('Forget failed');
+        if (dev.connectedId === id) {
+          dev.connectedId = null;
+          dev.connectedBssid = null;
+        }
+        if (dev.lastConnectedId === id) dev.lastConnectedId = null;
+        return ok('Forget successful');
+      }
+      case 'reconnect':
+        autoJoin(dev);
+        return ok('');
+      case 'connect-network':
+        return connectNetwork(dev, parseConnectNetworkArgs(argv.slice(1)));
+      case 'start-softap':
+        return startSoftAp(dev, argv.slice(1));
+      case 'stop-softap':
+        dev.softAp = null;
+        return ok('Soft AP stopped successfully');
+      default:
+        return fail(`Unknown command: ${argv[0]}`);
+    }
+  }
+}
+
+function connectedNetwork(dev: VirtualDeviceState): VirtualSavedNetwork | undefined {
+  return dev.connectedId === null ? undefined : dev.saved.find(n => n.networkId === dev.connectedId);
+}
+
+function connectedAp(dev: VirtualDeviceState): VirtualAccessPoint | undefined {
+  if (!dev.wifiEnabled || dev.connectedId === null) return undefined;
+  const net = dev.saved.find(n => n.networkId === dev.connectedId);
+  if (!net) return undefined;
+  if (dev.connectedBssid) return dev.accessPoints.find(ap => ap.bssid === dev.connectedBssid && ap.ssid === net.ssid);
+  return strongestAp(dev, net.ssid);
+}
+
+function strongestAp(dev: VirtualDeviceState, ssid: string): VirtualAccessPoint | undefined {
+  return dev.accessPoints
+    .filter(ap => ap.ssid === ssid)
+    .reduce<VirtualAccessPoint | undefined>((best, ap) => (!best || ap.rssi > best.rssi ? ap : best), undefined);
+}
+
+/**
+ * Rejoin the last network when it is still saved and in range, otherwise the
+ * strongest saved network in range — as the framework's network selection
+ * does. Networks with auto-join off or selection disabled are never picked.
+ */
+function autoJoin(dev: VirtualDeviceState): void {
+  if (!dev.wifiEnabled || dev.connectedId !== null) return;
+  const inRange = (net: VirtualSavedNetwork) =>
+    dev.accessPoints.find(ap => ap.ssid === net.ssid && (!ap.hidden || net.hidden));
+  const candidates = dev.saved.filter(n => n.autoJoin !== false && !n.disabled && inRange(n));
+  const net =
+    candidates.find(n => n.networkId === dev.lastConnectedId) ??
+    candidates.sort((a, b) => strongestAp(dev, b.ssid)!.rssi - strongestAp(dev, a.ssid)!.rssi)[0];
+  if (net) {
+    dev.connectedId = net.networkId;
+    dev.connectedMac = associationMac(dev, net);
+    dev.lastConnectedId = net.networkId;
+    net.lastConnectedAt = Date.now();
+  }
+}
+
+/**
+ * MAC for a new association: the factory MAC with randomization off, a
+ * stable per-SSID locally-administered MAC for `persistent`/`auto`, and a
+ * fresh one per connection for `non_persistent`.
+ */
+function associationMac(dev: VirtualDeviceState, net: VirtualSavedNetwork): string {
+  const toMac = (bytes: Buffer) => [...bytes.subarray(0, 6)].map(b => b.toString(16).padStart(2, '0')).join(':');
+  if (net.macRandomization === 'none') {
+    return toMac(Buffer.concat([Buffer.from([0x3c, 0x5a, 0xb4]), createHash('sha256').update(dev.serial).digest()]));
+  }
+  const bytes = net.macRandomization === 'non_persistent'
+    ? randomBytes(6)
+    : createHash('sha256').update(`${dev.serial}/${net.ssid}`).digest();
+  bytes[0] = (bytes[0] & 0xfc) | 0x02; // locally administered, unicast
+  return toMac(bytes);
+}
+
+const SAVED_SECURITY: Record<string, string> = {
+  open: 'open',
+  owe: 'owe',
+  wpa2: 'wpa2-psk',
+  wpa3: 'wpa3-sae',
+};
+
+interface ConnectNetworkArgs {
+  ssid: string;
+  security: string;
+  password?: string;
+  /** Single-letter option → value (`''` for bare switches like `-m`). */
+  options: Record<string, string>;
+}
+
+// connect-network options that take a value; the rest are bare switches.
+const CONNECT_NETWORK_VALUED = new Set(['-b', '-r']);
+
+function parseConnectNetworkArgs(argv: string[]): ConnectNetworkArgs {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (/^-[a-z]$/.test(arg)) {
+      options[arg.slice(1)] = CONNECT_NETWORK_VALUED.has(arg) ? argv[++i] ?? '' : '';
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { ssid: positional[0], security: positional[1], password: positional[2], options };
+}
+
+function connectNetwork(dev: VirtualDeviceState, { ssid, security, password, options }: ConnectNetworkArgs): AdbResult {
+  if (!ssid || !SAVED_SECURITY[security]) {
+    return ok(`Invalid argument: connect-network <ssid> open|owe|wpa2|wpa3 [<passphrase>]`);
+  }
+  if (!dev.wifiEnabled) return ok('Error: Wifi is disabled');
+
+  let net = dev.saved.find(n => n.ssid === ssid);
+  if (!net) {
+    net = { networkId: dev.nextNetworkId++, ssid, security: SAVED_SECURITY[security] };
+    dev.saved.push(net);
+  }
+  if ('h' in options) net.hidden = true;
+  if ('m' in options) net.metered = true;
+  if (options.r) net.macRandomization = options.r;
+  if ('d' in options) net.autoJoin = false;
+  const pinned = options.b?.toLowerCase();
+  let ap = pinned ? dev.accessPoints.find(a => a.ssid === ssid && a.bssid === pinned) : strongestAp(dev, ssid);
+  // A hidden AP only answers directed probes.
+  if (ap?.hidden && !net.hidden) ap = undefined;
+  dev.connectedId = null;
+  dev.connectedBssid = null;
+  if (!ap) {
+    // Saved but out of range — the supplicant just sits scanning.
+    dev.pendingSupplicantStates = ['SCANNING'];
+  } else if (ap.password !== undefined && ap.password !== password) {
+    dev.pendingSupplicantStates = ['ASSOCIATING', 'FOUR_WAY_HANDSHAKE', 'DISCONNECTED'];
+  } else {
+    dev.pendingSupplicantStates = ['ASSOCIATING'];
+    dev.connectedId = net.networkId;
+    dev.connectedBssid = pinned ?? null;
+    dev.connectedMac = associationMac(dev, net);
+    dev.lastConnectedId = net.networkId;
+    net.lastConnectedAt = Date.now();
+  }
+  return ok(`Connection initiated`);
+}
+
+// SoftApConfiguration.SECURITY_TYPE_* codes.
+const SOFTAP_SECURITY_CODES: Record<string, number> = { open: 0, wpa2: 1, wpa3_transition: 2, wpa3: 3, owe_transition: 4, owe: 5 };
+
+// start-softap `-b` value → SoftApConfiguration.BAND_* bits per AP instance.
+const SOFTAP_BAND_CHANNELS: Record<string, string> = { '2': '{1=0}', '5': '{2=0}', '6': '{4=0}', any: '{7=0}', bridged: '{1=0, 2=0}' };
+
+/** `cmd wifi start-softap <ssid> <security> [<passphrase>] [-b band]`. */
+function startSoftAp(dev: VirtualDeviceState, argv: string[]): AdbResult {
+  const bIdx = argv.indexOf('-b');
+  const band = bIdx >= 0 ? argv[bIdx + 1] : undefined;
+  const [ssid, security, passphrase] = bIdx >= 0 ? argv.slice(0, bIdx) : argv;
+  if (!ssid || SOFTAP_SECURITY_CODES[security] === undefined || (band !== undefined && !SOFTAP_BAND_CHANNELS[band])) {
+    return ok('Invalid argument: start-softap <ssid> open|owe|wpa2|wpa3|wpa3_transition|owe_transition [<passphrase>] [-b 2|5|6|any|bridged]');
+  }
+  dev.softAp = { ssid, security, ...(passphrase !== undefined && { passphrase }), ...(band !== undefined && { band }) };
+  return ok('Soft AP started successfully');
+}
+
+/** SoftApManager's dump; absent entirely while the hotspot is off. */
+function softApManager(dev: VirtualDeviceState): string {
+  const ap = dev.softAp;
+  if (!ap) return '';
+  const frequency = ap.band === '5' ? 5745 : ap.band === '6' ? 5975 : 2437;
+  const bssid = associationMac(dev, { networkId: -1, ssid: 'softap', security: 'open' });
+  const clients = dev.softApClients.map(c => `    WifiClient{mMacAddress=${c.macAddress}mApInstanceIdentifier=wlan1mDisconnectReason=0}`);
+  return [
+    'Dump of SoftApManager id=1',
+    'current StateMachine mode: StartedState',
+    'mRole: ROLE_SOFTAP_TETHERED',
+    'mApInterfaceName: wlan1',
+    'mIfaceIsUp: true',
+    `mCurrentSoftApConfiguration: ssid = "${ap.ssid}"`,
+    ` Passphrase = ${ap.passphrase ? '<non-empty>' : '<empty>'}`,
+    ' HiddenSsid = false',
+    ` Channels = ${SOFTAP_BAND_CHANNELS[ap.band ?? '2']}`,
+    ` SecurityType = ${SOFTAP_SECURITY_CODES[ap.security]}`,
+    ' MaxClient = 0',
+    `mConnectedClientWithApInfoMap.size(): ${dev.softApClients.length}`,
+    ...clients,
+    `mCurrentSoftApInfoMap: {wlan1=SoftApInfo{bandwidth= 2, frequency= ${frequency}, bssid=${bssid}, wifiStandard= 6, mApInstanceIdentifier= wlan1, mIdleShutdownTimeoutMillis= 600000}}`,
+  ].join('\n');
+}
+
+/** `ip -4 neigh show dev wlan1` while clients are associated. */
+function softApNeighbours(dev: VirtualDeviceState): string {
+  if (!dev.softAp) return '';
+  return dev.softApClients.map(c => `${c.ipAddress} lladdr ${c.macAddress} REACHABLE`).join('\n');
+}
+
+function scanResults(dev: VirtualDeviceState): string {
+  const age = ((Date.now() - dev.lastScanAt) / 1000).toFixed(3);
+  const rows = dev.wifiEnabled
+    ? dev.accessPoints.map(ap =>
+        `  ${ap.bssid}   ${String(ap.frequency).padEnd(8)} ${String(ap.rssi).padEnd(8)} ${age.padEnd(10)} ${(ap.hidden ? '' : ap.ssid).padEnd(32)} ${ap.flags}`
+      )
+    : [];
+  return ['    BSSID              Frequency      RSSI           Age(sec)     SSID                                 Flags', ...rows].join('\n');
+}
+
+// ScanResult.CHANNEL_WIDTH_* codes.
+const CHANNEL_WIDTH_CODES: Record<number, number> = { 20: 0, 40: 1, 80: 2, 160: 3, 320: 5 };
+
+// WifiConfiguration.RANDOMIZATION_* codes.
+const MAC_RANDOMIZATION_CODES: Record<string, number> = { none: 0, persistent: 1, non_persistent: 2, auto: 3 };
+
+function dumpsysWifi(dev: VirtualDeviceState, full = false): string {
+  const dump = dumpsysWifiInfo(dev);
+  if (!full) return dump;
+  const softAp = softApManager(dev);
+  const configured = `${dump}\n\n${configuredNetworks(dev)}${softAp && `\n\n${softAp}`}`;
+  if (!dev.wifiEnabled) return configured;
+  const records = dev.accessPoints.map(ap =>
+    `  SSID: "${ap.ssid}", BSSID: ${ap.bssid}, capabilities: ${ap.flags}, level: ${ap.rssi}, frequency: ${ap.frequency}, ` +
+    `timestamp: 0, distance: ?(cm), distanceSd: ?(cm), passpoint: no, ChannelBandwidth: ${CHANNEL_WIDTH_CODES[ap.channelWidth ?? 20] ?? 0}, ` +
+    `centerFreq0: ${ap.frequency}, centerFreq1: 0, standard: ${ap.standard ?? 'legacy'}`
+  );
+  return `${configured}\n\nLatest scan results:\n${records.join('\n')}`;
+}
+
+/** WifiConfigManager's dump: one WifiConfiguration.toString() per saved network. */
+function configuredNetworks(dev: VirtualDeviceState): string {
+  const records = dev.saved.map(n => {
+    const prefix = n.networkId === dev.connectedId ? '* ' : n.disabled ? '- DSBLE ' : '';
+    const lines = [
+      `${prefix}ID: ${n.networkId} SSID: "${n.ssid}" PROVIDER-NAME: null BSSID: null FQDN: null HOME-PROVIDER-NETWORK: false ` +
+        `PRIO: ${n.priority ?? 0} HIDDEN: ${!!n.hidden} PMF: false CarrierId: -1 SubscriptionId: -1`,
+      ` NetworkSelectionStatus ${n.disabled ? 'NETWORK_SELECTION_PERMANENTLY_DISABLED' : 'NETWORK_SELECTION_ENABLED'}`,
+      ` macRandomizationSetting: ${MAC_RANDOMIZATION_CODES[n.macRandomization ?? 'auto'] ?? 3}`,
+      ` KeyMgmt: ${n.security === 'open' ? 'NONE' : n.security === 'owe' ? 'OWE' : n.security === 'wpa3-sae' ? 'SAE' : 'WPA_PSK'}`,
+      ` cuid=2000 cname=${n.creator ?? 'com.android.shell'}${n.fromSuggestion ? ' fromWifiNetworkSuggestion' : ''}`,
+      ` meteredHint: ${!!n.metered} meteredOverride: 0`,
+      ` allowAutojoin=${n.autoJoin !== false}`,
+    ];
+    if (n.lastConnectedAt) lines.push(` lastConnected: ${logTimeOfDay(n.lastConnectedAt)}`);
+    return lines.join('\n');
+  });
+  return ['WifiConfigManager - Configured networks Begin', ...records, 'WifiConfigManager - Configured networks End'].join('\n');
+}
+
+/** `MM-dd HH:mm:ss.SSS`, as WifiConfiguration prints timestamps (UTC here). */
+function logTimeOfDay(ms: number): string {
+  return new Date(ms).toISOString().slice(5, 23).replace('T', ' ');
+}
+
+function dumpsysWifiInfo(dev: VirtualDeviceState): string {
+  if (!dev.wifiEnabled) {
+    return 'Wi-Fi is disabled\nmWifiInfo SSID: <unknown ssid>, BSSID: <none>, Supplicant state: INTERFACE_DISABLED, RSSI: -127, Link speed: -1Mbps, Frequency: -1MHz, Net ID: -1';
+  }
+  // Serve queued transitional states first, one per read.
+  const queued = dev.pendingSupplicantStates.length > 0 ? dev.pendingSupplicantStates.shift() : undefined;
+  const ap = connectedAp(dev);
+  if (ap && (queued === undefined || queued === 'ASSOCIATING')) {
+    if (queued === 'ASSOCIATING') {
+      return `Wi-Fi is enabled\nmWifiInfo SSID: <unknown ssid>, BSSID: ${ap.bssid}, Supplicant state: ASSOCIATING, RSSI: -127, Link speed: -1Mbps, Frequency: ${ap.frequency}MHz, Net ID: -1`;
+    }
+    return (
+      `Wi-Fi is enabled\n` +
+      `mWifiInfo SSID: "${ap.ssid}", BSSID: ${ap.bssid}, MAC: ${dev.connectedMac ?? '02:00:00:00:00:00'}, IP: ${dev.ipAddress}, ` +
+      `Security type: 2, Supplicant state: COMPLETED, Wi-Fi standard: 11ax, RSSI: ${ap.rssi}, ` +
+      `Link speed: 866Mbps, Tx Link speed: 866Mbps, Rx Link speed: 780Mbps, Frequency: ${ap.frequency}MHz, ` +
+      `Net ID: ${dev.connectedId}, Metered hint: ${!!connectedNetwork(dev)?.metered}`
+    );
+  }
+  const state = queued ?? 'DISCONNECTED';
+  return `Wi-Fi is enabled\nmWifiInfo SSID: <unknown ssid>, BSSID: <none>, Supplicant state: ${state}, RSSI: -127, Link speed: -1Mbps, Frequency: -1MHz, Net ID: -1`;
+}
+
+/** P2P comes up with Wi-Fi; no peers nearby and never in a group. */
+function dumpsysWifiP2p(dev: VirtualDeviceState): string {
+  const address = associationMac(dev, { networkId: -1, ssid: 'p2p0', security: 'open' });
+  return [
+    'WifiP2pStateMachine:',
+    `curState=${dev.wifiEnabled ? 'InactiveState' : 'P2pDisabledState'}`,
+    'mWifiP2pInfo groupFormed: false isGroupOwner: false groupOwnerAddress: null',
+    'mGroup null',
+    'mSavedPeerConfig null',
+    `mThisDevice Device: ${dev.props['ro.product.model']}`,
+    ` deviceAddress: ${address}`,
+    ' primary type: 10-0050F204-5',
+    ' status: 3',
+    'mPeers ',
+  ].join('\n');
+}
+
+function dumpsysConnectivity(dev: VirtualDeviceState): string {
+  const ap = connectedAp(dev);
+  if (!ap) return 'NetworkProvider info:\n\nActive default network: none\n\nCurrent Networks:\n';
+  const handle = NETWORK_HANDLE_BASE + (dev.connectedId ?? 0);
+  const baseCaps = ap.captive
+    ? 'INTERNET&NOT_RESTRICTED&TRUSTED&NOT_VPN&CAPTIVE_PORTAL&NOT_ROAMING&FOREGROUND&NOT_CONGESTED'
+    : 'NOT_METERED&INTERNET&NOT_RESTRICTED&TRUSTED&NOT_VPN&VALIDATED&NOT_ROAMING&FOREGROUND&NOT_CONGESTED';
+  const caps = connectedNetwork(dev)?.metered ? baseCaps.replace('NOT_METERED&', '') : baseCaps;
+  const portal = ap.captive && ap.portalUrl ? ` CaptivePortalData{ userPortalUrl=${ap.portalUrl} isCaptive=true }` : '';
+  return (
+    `NetworkProvider info:\n\nActive default network: ${handle}\n\nCurrent Networks:\n` +
+    `  NetworkAgentInfo{network{${handle}}  handle{${handle}0000000}  ni{WIFI CONNECTED extra: }  ` +
+    `nc{[ Transports: WIFI Capabilities: ${caps} LinkUpBandwidth>=50000Kbps LinkDnBandwidth>=50000Kbps SignalStrength: ${ap.rssi} SSID: "${ap.ssid}"]}  ` +
+    `lp{{InterfaceName: wlan0 LinkAddresses: [ fe80::ff:fe00:0/64,${dev.ipAddress}/24 ] DnsAddresses: [ /${dev.gateway} ] Domains: lan MTU: 0 ` +
+    `ServerAddress: /${dev.gateway} Routes: [ 0.0.0.0/0 -> ${dev.gateway} wlan0 mtu 0 ]}}${portal} }`
+  );
+}
+
+/** `cmd connectivity airplane-mode [enable|disable]`; enabling takes Wi-Fi down with it. */
+function airplaneMode(dev: VirtualDeviceState, verb: string | undefined): AdbResult {
+  if (verb === undefined) return ok(dev.settings.global.airplane_mode_on === '1' ? 'enabled' : 'disabled');
+  if (verb !== 'enable' && verb !== 'disable') return fail(`Invalid argument: ${verb}`);
+  dev.settings.global.airplane_mode_on = verb === 'enable' ? '1' : '0';
+  if (verb === 'enable') {
+    dev.wifiEnabled = false;
+    dev.connectedId = null;
+    dev.connectedBssid = null;
+  }
+  return ok('');
+}
+
+/** Router between the gateway and every off-link destination, as a traceroute hop. */
+const VIRTUAL_UPSTREAM_HOP = '100.64.0.1';
+const VIRTUAL_LINK_MTU = 1500;
+
+/**
+ * `ping [-c N] [-t TTL] [-M do] [-s SIZE] host`. Off-link hosts sit behind
+ * the gateway and {@link VIRTUAL_UPSTREAM_HOP}, so a small TTL draws "Time to
+ * live exceeded" from them; with DF set, packets over the link MTU fail
+ * locally and ones over the AP's `pathMtu` draw "Frag needed".
+ */
+function ping(dev: VirtualDeviceState, argv: string[]): AdbResult {
+  const host = argv[argv.length - 1];
+  const option = (flag: string): string | undefined => {
+    const i = argv.indexOf(flag);
+    return i >= 0 ? argv[i + 1] : undefined;
+  };
+  const count = parseInt(option('-c') ?? '4', 10) || 1;
+  const ttl = parseInt(option('-t') ?? '64', 10) || 64;
+  const size = parseInt(option('-s') ?? '56', 10);
+  const dontFragment = option('-M') === 'do';
+  const ap = connectedAp(dev);
+  if (!ap) return { success: false, stdout: '', stderr: 'connect: Network is unreachable', exitCode: 2 };
+
+  const ip = /^\d{1,3}(\.\d{1,3}){3}$/.test(host) ? host : fakeAddress(host);
+  const head = `PING ${host} (${ip}) ${size}(${size + 28}) bytes of data.`;
+  const noReply = (lines: string[]): AdbResult => ({
+    success: false,
+    stdout: `${head}\n${lines.map(l => `${l}\n`).join('')}\n--- ${host} ping statistics ---\n${count} packets transmitted, 0 received, ${lines.length ? `+${count} errors, ` : ''}100% packet loss, time ${count * 1000}ms`,
+    stderr: '',
+    exitCode: 1,
+  });
+  if (dontFragment && size + 28 > VIRTUAL_LINK_MTU) {
+    return { success: false, stdout: head, stderr: `ping: local error: message too long, mtu=${VIRTUAL_LINK_MTU}`, exitCode: 1 };
+  }
+  const path = ip === dev.gateway ? [ip] : [dev.gateway, VIRTUAL_UPSTREAM_HOP, ip];
+  if (ttl < path.length) {
+    return noReply(Array.from({ length: count }, (_, i) => `From ${path[ttl - 1]} icmp_seq=${i + 1} Time to live exceeded`));
+  }
+  if (ap.captive && ip !== dev.gateway) return noReply([]);
+  if (dontFragment && ap.pathMtu && ip !== dev.gateway && size + 28 > ap.pathMtu) {
+    return noReply(Array.from({ length: count }, (_, i) => `From ${VIRTUAL_UPSTREAM_HOP} icmp_seq=${i + 1} Frag needed and DF set (mtu = ${ap.pathMtu})`));
+  }
+  const lines = Array.from({ length: count }, (_, i) => `${size + 8} bytes from ${ip}: icmp_seq=${i + 1} ttl=117 time=12.${i} ms`);
+  return ok(
+    `${head}\n${lines.join('\n')}\n\n--- ${host} ping statistics ---\n` +
+    `${count} packets transmitted, ${count} received, 0% packet loss, time ${count * 1000}ms\n` +
+    `rtt min/avg/max/mdev = 12.000/12.${Math.floor((count - 1) / 2)}00/12.${count - 1}00/0.300 ms`
+  );
+}
+
+/** Deterministic documentation-range address for a hostname. */
+function fakeAddress(host: string): string {
+  let h = 0;
+  for (const ch of host) h = (h * 31 + ch.charCodeAt(0)) >>> 0;
+  return `203.0.113.${(h % 253) + 1}`;
+}
+
+function settings(dev: VirtualDeviceState, argv: string[]): AdbResult {
+  const [, verb, ns, key, value] = argv;
+  if (ns !== 'system' && ns !== 'secure' && ns !== 'global') {
+    return fail(`Invalid namespace '${ns}'`);
+  }
+  const table = dev.settings[ns];
+  switch (verb) {
+    case 'get':
+      return ok(table[key] ?? 'null');
+    case 'put':
+      table[key] = value ?? '';
+      return ok('');
+    case 'delete': {
+      const existed = key in table;
+      delete table[key];
+      return ok(`Deleted ${existed ? 1 : 0} rows`);
+    }
+    default:
+      return fail(`Invalid command: ${verb}`);
+  }
+}
+
+function smsQuery(dev: VirtualDeviceState): AdbResult {
+  if (dev.sms.length === 0) return ok('No result found.');
+  const rows = [...dev.sms]
+    .sort((a, b) => b.date - a.date)
+    .map((m, i) => `Row: ${i} address=${m.address}, body=${m.body}, date=${m.date}`);
+  return ok(rows.join('\n'));
+}
+
+function ok(stdout: string): AdbResult {
+  return { success: true, stdout, stderr: '', exitCode: 0 };
+}
+
+function fail(stderr: string): AdbResult {
+  return { success: false, stdout: '', stderr, exitCode: 1 };
+}
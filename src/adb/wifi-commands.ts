@@ -3,16 +3,85 @@ import { parseRouteGet } from '../network/network-check.js';
 import {
   ScanResult,
   SavedNetwork,
+  SavedNetworkOrigin,
+  SavedNetworkUpdate,
   WifiStatus,
   WifiConnectionResult,
   SecurityType,
+  RoamSample,
+  RoamEvent,
+  RoamDisconnect,
+  RoamMonitorResult,
+  WifiBand,
+  MacRandomizationMode,
+  StaticIpConfig,
+  ProxyConfig,
 } from '../types.js';
+import { CompanionAppBridge, COMPANION_PACKAGE } from './companion-bridge.js';
+
+const BSSID_PATTERN = /^([0-9a-f]{2}:){5}[0-9a-f]{2}$/i;
+
+export interface ConnectOptions {
+  /**
+   * Associate with this AP only (`connect-network -b`, Android 12+). For
+   * testing one AP of a multi-AP ESS; success then also requires the
+   * reported BSSID to match.
+   */
+  bssid?: string;
+  /** Probe for the SSID even though the AP doesn't broadcast it (`-h`). */
+  hidden?: boolean;
+  /** Mark the network metered (`-m`). */
+  metered?: boolean;
+  /** MAC used on this network (`-r`): randomized per network, per connection, or the factory MAC. */
+  macRandomization?: MacRandomizationMode;
+  /**
+   * Static IPv4 instead of DHCP. Shell can't set this, so the network is
+   * added through the companion app (device owner required on Android 10+).
+   */
+  staticIp?: StaticIpConfig;
+  /** HTTP proxy for this network. Companion app, like staticIp. */
+  proxy?: ProxyConfig;
+}
+
+export interface ScanOptions {
+  /**
+   * Also read `dumpsys wifi` for channel width and Wi-Fi standard, which
+   * `cmd wifi list-scan-results` doesn't print. One extra (large) dump.
+   */
+  radioDetails?: boolean;
+}
+
+export type ScanSortKey = 'rssi' | 'ssid' | 'channel' | 'seen';
+
+export interface ScanFilter {
+  /** Case-insensitive regex matched against the SSID. */
+  ssidPattern?: RegExp;
+  minRssi?: number;
+  bands?: WifiBand[];
+}
+
+export interface ScanPassOptions extends ScanOptions {
+  /** Scans to run and merge (default 1). */
+  passes?: number;
+  /** Spread the passes over this many ms; each pass takes ~2s regardless. */
+  windowMs?: number;
+}
+
+export interface RoamMonitorOptions {
+  durationMs: number;
+  intervalMs?: number;
+  includeSamples?: boolean;
+  /** Runs each poll — e.g. under the device lock, so other calls interleave between polls. */
+  exclusive?: <T>(poll: () => Promise<T>) => Promise<T>;
+}
 
 export class WifiCommands {
   private adb: AdbClient;
+  private bridge: CompanionAppBridge;
 
   constructor(adb: AdbClient) {
     this.adb = adb;
+    this.bridge = new CompanionAppBridge(adb, { resultTimeoutMs: 15_000, pollIntervalMs: 300 });
   }
 
   /**
@@ -23,12 +92,7 @@ export class WifiCommands {
     if (!result.success) {
       throw new Error(`Failed to get WiFi status: ${result.stderr}`);
     }
-    // Check "disabled" first: when off, the status reads "Wifi is disabled\n
-    // Wifi scanning is only available when wifi is enabled" — that second line
-    // contains "wifi is enabled", so a bare includes() false-positives as on.
-    const out = result.stdout.toLowerCase();
-    if (out.includes('wifi is disabled')) return false;
-    return out.includes('wifi is enabled');
+    return statusSaysEnabled(result.stdout);
   }
 
   /**
@@ -71,103 +135,62 @@ export class WifiCommands {
   /**
    * Get scan results
    */
-  async getScanResults(): Promise<ScanResult[]> {
+  async getScanResults(options: ScanOptions = {}): Promise<ScanResult[]> {
     const result = await this.adb.shell('cmd wifi list-scan-results');
     if (!result.success) {
       throw new Error(`Failed to get scan results: ${result.stderr}`);
     }
 
-    return this.parseScanResults(result.stdout);
+    const results = parseScanResults(result.stdout);
+    if (options.radioDetails) {
+      const dumpsys = await this.adb.shell('dumpsys wifi');
+      const details = parseScanRadioDetails(dumpsys.stdout);
+      for (const r of results) {
+        const d = details.get(r.bssid.toLowerCase());
+        if (!d) continue;
+        if (d.channelWidth !== undefined) r.channelWidth = d.channelWidth;
+        if (d.wifiStandard !== undefined) {
+          r.wifiStandard = d.wifiStandard;
+          r.wifiGeneration = wifiGeneration(d.wifiStandard, r.band);
+        }
+      }
+    }
+    return results;
   }
 
   /**
    * Scan for networks (start scan + get results)
    */
-  async scan(): Promise<ScanResult[]> {
+  async scan(options: ScanOptions = {}): Promise<ScanResult[]> {
     await this.startScan();
     // Wait a bit for scan to complete
     await new Promise(resolve => setTimeout(resolve, 2000));
-    return this.getScanResults();
+    return this.getScanResults(options);
   }
 
   /**
-   * Parse scan results from cmd wifi output
-   * Format: BSSID  Frequency  RSSI  Age(sec)  SSID  [Flags]
-   * Example: 84:18:3a:06:be:58  2412  -51  17.210  Wednesday  [WPA2-PSK-CCMP][RSN-PSK-CCMP][ESS]
+   * Run `passes` scans spread across `windowMs` and merge them per BSSID, so
+   * APs that miss a beacon in one pass still show up and RSSI comes with its
+   * min/avg/max. Android throttles scan requests; a throttled pass just
+   * re-reads the cached results (their `ageSeconds` grows), and those
+   * re-reads don't count toward `seenCount` or the RSSI spread.
    */
-  private parseScanResults(output: string): ScanResult[] {
-    const results: ScanResult[] = [];
-    const lines = output.split('\n');
+  async scanPasses(options: ScanPassOptions = {}): Promise<ScanResult[]> {
+    const passes = Math.max(1, options.passes ?? 1);
+    if (passes === 1) return this.scan(options);
 
-    // Skip header line if present
-    const startIndex = lines[0]?.includes('BSSID') ? 1 : 0;
-
-    for (let i = startIndex; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
-      const bssidPattern = /^([0-9a-f]{2}:){5}[0-9a-f]{2}$/i;
-      let bssid = '';
-      let frequency = 0;
-      let rssi = 0;
-      let security = 'Open';
-      let ssid = '';
-
-      // Find the first bracket to separate SSID from flags
-      const firstBracketIndex = line.indexOf('[');
-      const mainPart = firstBracketIndex !== -1 ? line.substring(0, firstBracketIndex) : line;
-      const flagsPart = firstBracketIndex !== -1 ? line.substring(firstBracketIndex) : '';
-
-      // Parse the main part: BSSID  Frequency  RSSI  Age  SSID
-      const parts = mainPart.trim().split(/\s+/);
-      if (parts.length < 3) continue;
-
-      // First part should be BSSID
-      if (bssidPattern.test(parts[0])) {
-        bssid = parts[0];
-      } else {
-        continue;
-      }
-
-      // Second part is frequency
-      if (/^\d{4,5}$/.test(parts[1])) {
-        frequency = parseInt(parts[1], 10);
-      }
-
-      // Third part is RSSI
-      if (/^-?\d{1,3}$/.test(parts[2])) {
-        rssi = parseInt(parts[2], 10);
-      }
-
-      // Fourth part is Age (skip it), fifth+ parts are SSID
-      // SSID starts at index 4 (after BSSID, Freq, RSSI, Age)
-      if (parts.length > 4) {
-        ssid = parts.slice(4).join(' ').trim();
-      }
-
-      // Parse security from flags
-      if (flagsPart) {
-        if (flagsPart.includes('SAE')) security = 'SAE';
-        else if (flagsPart.includes('WPA3')) security = 'WPA3';
-        else if (flagsPart.includes('WPA2')) security = 'WPA2';
-        else if (flagsPart.includes('WPA')) security = 'WPA';
-        else if (flagsPart.includes('WEP')) security = 'WEP';
-        else if (flagsPart.includes('OWE')) security = 'OWE';
-        else security = 'Open';
-      }
-
-      if (bssid) {
-        results.push({
-          ssid: ssid || '<hidden>',
-          bssid,
-          frequency,
-          rssi,
-          security,
-        });
-      }
+    const spacing = (options.windowMs ?? 0) / (passes - 1);
+    const start = Date.now();
+    const results: ScanResult[][] = [];
+    const readAt: number[] = [];
+    for (let i = 0; i < passes; i++) {
+      const wait = start + i * spacing - Date.now();
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+      // Width/standard don't change between passes; read them once.
+      results.push(await this.scan({ radioDetails: options.radioDetails && i === passes - 1 }));
+      readAt.push(Date.now());
     }
-
-    return results;
+    return mergeScanPasses(results, readAt);
   }
 
   /**
@@ -176,19 +199,23 @@ export class WifiCommands {
   async connect(
     ssid: string,
     security: SecurityType,
-    password?: string
+    password?: string,
+    options: ConnectOptions = {}
   ): Promise<WifiConnectionResult> {
-    // Single-quote for the device shell only. `cmd wifi connect-network`
-    // takes the bare SSID; the framework adds wpa_supplicant's on-disk
-    // quoting itself. Wrapping with literal `"..."` here would persist
-    // those characters as part of the SSID and break association.
-    const sq = (s: string) => `'${s.replace(/'/g, `'\\''`)}'`;
-    let command = `cmd wifi connect-network ${sq(ssid)} ${security}`;
-    if (password && security !== 'open') {
-      command += ` ${sq(password)}`;
+    const { bssid } = options;
+    const optionsError = connectOptionsError(options);
+    if (optionsError) {
+      return { success: false, ssid, ...(bssid && { bssid }), error: optionsError };
     }
 
-    const result = await this.adb.shell(command);
+    if (options.staticIp || options.proxy) {
+      const configured = await this.configureViaCompanion(ssid, security, password, options);
+      if (configured) return { success: false, ssid, ...(bssid && { bssid }), via: 'companion', error: configured };
+      const verified = await this.awaitAssociation(ssid, bssid);
+      return { ...verified, via: 'companion' };
+    }
+
+    const result = await this.adb.shell(buildConnectNetworkCommand(ssid, security, password, options));
 
     // Check for explicit WiFi error messages in stdout only
     // (stderr may contain generic "Command failed" from non-zero exit code which is normal)
@@ -197,10 +224,54 @@ export class WifiCommands {
       return {
         success: false,
         ssid,
+        ...(bssid && { bssid }),
         error: result.stdout || 'Connection failed',
       };
     }
 
+    return this.awaitAssociation(ssid, bssid);
+  }
+
+  /**
+   * Add and enable the network through the companion app's
+   * CONFIGURE_NETWORK receiver, for the WifiConfiguration fields
+   * `cmd wifi connect-network` has no flags for. Returns an error string, or
+   * undefined once the app reports the network enabled.
+   */
+  private async configureViaCompanion(
+    ssid: string,
+    security: SecurityType,
+    password: string | undefined,
+    options: ConnectOptions
+  ): Promise<string | undefined> {
+    return this.sendToCompanion('CONFIGURE_NETWORK', 'static IP and proxy', {
+      action: 'configure_network',
+      timestamp: Date.now(),
+      ssid,
+      security,
+      ...(password && security !== 'open' && { password }),
+      ...options,
+    });
+  }
+
+  /** Broadcast `action` to the companion app; returns an error message, or undefined on success. */
+  private async sendToCompanion(action: string, purpose: string, payload: object): Promise<string | undefined> {
+    const installed = await this.adb.shell(`pm list packages | grep ${COMPANION_PACKAGE}`);
+    if (!installed.stdout.includes(COMPANION_PACKAGE)) {
+      return `The companion app (${COMPANION_PACKAGE}) is required for ${purpose} but is not installed`;
+    }
+    const { raw, broadcastError } = await this.bridge.sendBroadcastAndWait(action, payload);
+    if (broadcastError) return `Failed to send broadcast: ${broadcastError}`;
+    if (!raw) return `Timeout waiting for the companion app (${purpose})`;
+    if (!raw.success) return String(raw.message ?? `Companion app failed (${purpose})`);
+    return undefined;
+  }
+
+  /**
+   * Wait for L2 association to `ssid` (and `bssid`, when pinned) after a
+   * connect request.
+   */
+  private async awaitAssociation(ssid: string, bssid?: string): Promise<WifiConnectionResult> {
     // Poll for L2 association. `cmd wifi connect-network` returns before
     // the supplicant has converged, so a single fixed sleep + check
     // false-negatived on slow associations. See #65.
@@ -220,11 +291,16 @@ export class WifiCommands {
 
     let sawActive = false;
     let terminalStreak = 0;
+    // With a pinned BSSID, being on the SSID via another AP isn't success;
+    // remember it so the timeout error says where the device went instead.
+    let wrongBssid: string | undefined;
 
     while (true) {
       const status = await this.getStatus();
       if (status.connected && status.ssid === ssid) {
-        return { success: true, ssid };
+        if (!bssid) return { success: true, ssid };
+        if (status.bssid?.toLowerCase() === bssid.toLowerCase()) return { success: true, ssid, bssid };
+        wrongBssid = status.bssid;
       }
 
       const s = status.supplicantState;
@@ -236,6 +312,7 @@ export class WifiCommands {
               return {
                 success: false,
                 ssid,
+                ...(bssid && { bssid }),
                 error: `Connection failed (supplicant state: ${s})`,
               };
             }
@@ -250,7 +327,10 @@ export class WifiCommands {
         return {
           success: false,
           ssid,
-          error: 'Failed to verify connection',
+          ...(bssid && { bssid }),
+          error: wrongBssid
+            ? `Associated to ${ssid} via ${wrongBssid}, not the pinned BSSID ${bssid}`
+            : 'Failed to verify connection',
         };
       }
       await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
@@ -297,15 +377,21 @@ export class WifiCommands {
   }
 
   /**
-   * List saved networks
+   * List saved networks, with auto-join, priority, metered, MAC
+   * randomization, last-connected and origin where `dumpsys wifi` prints its
+   * configured-networks section (builds that omit it give id/ssid/security).
    */
   async listSavedNetworks(): Promise<SavedNetwork[]> {
     const result = await this.adb.shell('cmd wifi list-networks');
     if (!result.success) {
       throw new Error(`Failed to list networks: ${result.stderr}`);
     }
+    const networks = this.parseSavedNetworks(result.stdout);
+    if (networks.length === 0) return networks;
 
-    return this.parseSavedNetworks(result.stdout);
+    const dumpsys = await this.adb.shell('dumpsys wifi');
+    const details = new Map(parseConfiguredNetworks(dumpsys.stdout).map(n => [n.networkId, n]));
+    return networks.map(n => ({ ...details.get(n.networkId), ...n }));
   }
 
   /**
@@ -315,9 +401,8 @@ export class WifiCommands {
    *         3            Wednesday - SAE                  wpa3-sae^
    */
   private parseSavedNetworks(output: string): SavedNetwork[] {
-    const networks: SavedNetwork[] = [];
+    const networks = new Map<number, SavedNetwork>();
     const lines = output.split('\n');
-    const seen = new Set<number>();
 
     for (const line of lines) {
       const trimmed = line.trim();
@@ -328,17 +413,19 @@ export class WifiCommands {
       const match = trimmed.match(/^(\d+)\s+(.+?)\s+(open|owe|wpa\d?-\S+|wep)(\^?)$/i);
       if (match) {
         const networkId = parseInt(match[1], 10);
-        const ssid = match[2].trim();
+        const security = match[3].toLowerCase();
 
-        // Each network appears twice (once per security type), only add once
-        if (!seen.has(networkId)) {
-          seen.add(networkId);
-          networks.push({ networkId, ssid });
+        // A transition network appears once per security type; keep one entry listing both
+        const existing = networks.get(networkId);
+        if (existing) {
+          if (!existing.security!.split('/').includes(security)) existing.security += `/${security}`;
+        } else {
+          networks.set(networkId, { networkId, ssid: match[2].trim(), security });
         }
       }
     }
 
-    return networks;
+    return [...networks.values()];
   }
 
   /**
@@ -351,6 +438,46 @@ export class WifiCommands {
     }
   }
 
+  /**
+   * Forget every saved network whose SSID matches `ssidPattern`, optionally
+   * only those from some origins. Returns the networks forgotten (or, with
+   * `dryRun`, the ones that would be).
+   */
+  async forgetMatching(
+    ssidPattern: RegExp,
+    options: { origins?: SavedNetworkOrigin[]; dryRun?: boolean } = {}
+  ): Promise<SavedNetwork[]> {
+    const matching = (await this.listSavedNetworks()).filter(
+      n => ssidPattern.test(n.ssid) && (!options.origins || (n.origin !== undefined && options.origins.includes(n.origin)))
+    );
+    if (!options.dryRun) {
+      for (const n of matching) await this.forgetNetwork(n.networkId);
+    }
+    return matching;
+  }
+
+  /**
+   * Toggle auto-join and/or set the priority of a saved network. No shell
+   * command changes an existing network, so this goes through the companion
+   * app (device owner, as for static IP).
+   */
+  async updateNetwork(networkId: number, update: SavedNetworkUpdate): Promise<SavedNetwork> {
+    const saved = (await this.listSavedNetworks()).find(n => n.networkId === networkId);
+    if (!saved) {
+      throw new Error(`No saved network with ID ${networkId}`);
+    }
+    const error = await this.sendToCompanion('UPDATE_NETWORK', 'changing auto-join or priority', {
+      action: 'update_network',
+      timestamp: Date.now(),
+      networkId,
+      ...update,
+    });
+    if (error) {
+      throw new Error(error);
+    }
+    return { ...saved, ...update };
+  }
+
   /**
    * Get current WiFi status
    */
@@ -362,7 +489,7 @@ export class WifiCommands {
     const dumpsysResult = await this.adb.shell('dumpsys wifi | grep -E "mWifiInfo|Wi-Fi is|current SSID|IP address|Link speed|Frequency|RSSI"');
 
     const status: WifiStatus = {
-      enabled: statusResult.stdout.toLowerCase().includes('wifi is enabled'),
+      enabled: statusSaysEnabled(statusResult.stdout),
       connected: false,
     };
 
@@ -419,6 +546,17 @@ export class WifiCommands {
       status.supplicantState = suppMatch[1];
     }
 
+    // MAC in use on this network (randomized or factory) and the metered
+    // hint, both on the mWifiInfo line.
+    const macMatch = dumpsys.match(/\bMAC:\s*([0-9a-f]{2}(?::[0-9a-f]{2}){5})/i);
+    if (macMatch) {
+      status.macAddress = macMatch[1].toLowerCase();
+    }
+    const meteredMatch = dumpsys.match(/Metered hint:\s*(true|false)/i);
+    if (meteredMatch) {
+      status.meteredHint = meteredMatch[1].toLowerCase() === 'true';
+    }
+
     // L2 association requires more than the radio reporting CONNECTED.
     // Demand a real SSID and a non-sentinel RSSI so the unassociated
     // post-toggle state (ssid=<unknown ssid>, rssi=-127) is reported
@@ -429,6 +567,50 @@ export class WifiCommands {
     return status;
   }
 
+  /**
+   * Watch the association for `durationMs`, polling getStatus() every
+   * `intervalMs`, and report BSSID changes (roams) and drop-outs. Timing
+   * resolution is the poll interval plus one status round trip (~100-200ms
+   * over USB), so `gapMs` is an upper bound on how long a roam took — enough
+   * to tell a fast (802.11r FT) transition from a full re-association.
+   */
+  async monitorRoaming(options: RoamMonitorOptions): Promise<RoamMonitorResult> {
+    const intervalMs = options.intervalMs ?? 1000;
+    const exclusive = options.exclusive ?? (<T>(poll: () => Promise<T>) => poll());
+    const start = Date.now();
+    const deadline = start + options.durationMs;
+    const samples: RoamSample[] = [];
+    let ssid: string | undefined;
+
+    while (true) {
+      const status = await exclusive(() => this.getStatus());
+      samples.push({
+        offsetMs: Date.now() - start,
+        connected: status.connected,
+        ...(status.connected && {
+          bssid: status.bssid?.toLowerCase(),
+          rssi: status.rssi,
+          frequency: status.frequency,
+        }),
+      });
+      if (status.connected && status.ssid) ssid ??= status.ssid;
+      if (Date.now() + intervalMs > deadline) break;
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+
+    const { roams, disconnects } = detectRoamEvents(samples);
+    return {
+      ssid,
+      durationMs: Date.now() - start,
+      intervalMs,
+      sampleCount: samples.length,
+      roams,
+      disconnects,
+      bssids: summarizeBssids(samples),
+      ...(options.includeSamples && { samples }),
+    };
+  }
+
   /**
    * Get the device's current IPv4 address via the routing table, derived from
    * the active interface rather than a hardcoded `wlan0` (devices vary —
@@ -443,3 +625,508 @@ export class WifiCommands {
     return parseRouteGet(result.stdout).ipAddress ?? null;
   }
 }
+
+const IPV4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+function isIpv4(value: string): boolean {
+  const m = IPV4.exec(value);
+  return !!m && m.slice(1).every(o => parseInt(o, 10) <= 255);
+}
+
+/**
+ * Reason the connect options can't be applied, or undefined when they can.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function connectOptionsError(options: ConnectOptions): string | undefined {
+  if (options.bssid !== undefined && !BSSID_PATTERN.test(options.bssid)) {
+    return `Invalid BSSID '${options.bssid}' (expected aa:bb:cc:dd:ee:ff)`;
+  }
+  const { staticIp, proxy } = options;
+  if (staticIp) {
+    const [address, prefix, ...rest] = staticIp.address.split('/');
+    const prefixLength = Number(prefix);
+    if (rest.length || !isIpv4(address) || !Number.isInteger(prefixLength) || prefixLength < 1 || prefixLength > 32) {
+      return `Invalid staticIp.address '${staticIp.address}' (expected IPv4 CIDR, e.g. 192.168.1.50/24)`;
+    }
+    if (staticIp.gateway !== undefined && !isIpv4(staticIp.gateway)) {
+      return `Invalid staticIp.gateway '${staticIp.gateway}'`;
+    }
+    const badDns = staticIp.dns?.find(server => !isIpv4(server));
+    if (badDns !== undefined) return `Invalid staticIp.dns entry '${badDns}'`;
+  }
+  if (proxy) {
+    if (proxy.pacUrl !== undefined) {
+      if (proxy.host !== undefined || proxy.port !== undefined) return 'Give either proxy.pacUrl or proxy.host/port, not both';
+      if (!/^https?:\/\//.test(proxy.pacUrl)) return `Invalid proxy.pacUrl '${proxy.pacUrl}'`;
+    } else if (!proxy.host || proxy.port === undefined || proxy.port < 1 || proxy.port > 65535) {
+      return 'A manual proxy needs proxy.host and proxy.port (1-65535)';
+    }
+  }
+  return undefined;
+}
+
+/**
+ * `cmd wifi connect-network` line for the shell-settable options. The SSID
+ * and passphrase are single-quoted for the device shell only — the framework
+ * adds wpa_supplicant's on-disk quoting itself, so wrapping with literal
+ * `"..."` here would persist those characters as part of the SSID and break
+ * association.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function buildConnectNetworkCommand(
+  ssid: string,
+  security: SecurityType,
+  password: string | undefined,
+  options: ConnectOptions = {}
+): string {
+  const sq = (s: string) => `'${s.replace(/'/g, `'\\''`)}'`;
+  let command = `cmd wifi connect-network ${sq(ssid)} ${security}`;
+  if (password && security !== 'open') command += ` ${sq(password)}`;
+  if (options.bssid) command += ` -b ${options.bssid.toLowerCase()}`;
+  if (options.hidden) command += ' -h';
+  if (options.metered) command += ' -m';
+  if (options.macRandomization) command += ` -r ${options.macRandomization}`;
+  return command;
+}
+
+/**
+ * Turn a series of status polls into roam events (BSSID changed between two
+ * associated samples, with or without a drop-out in between) and drop-outs
+ * (runs of unassociated samples). Reconnecting to the same BSSID after a
+ * drop-out is a disconnect, not a roam.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function detectRoamEvents(samples: RoamSample[]): { roams: RoamEvent[]; disconnects: RoamDisconnect[] } {
+  const roams: RoamEvent[] = [];
+  const disconnects: RoamDisconnect[] = [];
+  let last: RoamSample | undefined; // last associated sample
+  let down: RoamDisconnect | undefined;
+
+  for (const sample of samples) {
+    if (!sample.connected || !sample.bssid) {
+      if (!down) {
+        down = { offsetMs: sample.offsetMs, durationMs: null };
+        disconnects.push(down);
+      }
+      continue;
+    }
+    const wasDown = down !== undefined;
+    if (down) {
+      down.durationMs = sample.offsetMs - down.offsetMs;
+      down = undefined;
+    }
+    if (last?.bssid && last.bssid !== sample.bssid) {
+      roams.push({
+        offsetMs: sample.offsetMs,
+        fromBssid: last.bssid,
+        toBssid: sample.bssid,
+        fromFrequency: last.frequency,
+        toFrequency: sample.frequency,
+        fromRssi: last.rssi,
+        toRssi: sample.rssi,
+        bandChange: frequencyToBand(last.frequency) !== frequencyToBand(sample.frequency),
+        gapMs: sample.offsetMs - last.offsetMs,
+        disconnected: wasDown,
+      });
+    }
+    last = sample;
+  }
+  return { roams, disconnects };
+}
+
+function summarizeBssids(samples: RoamSample[]): RoamMonitorResult['bssids'] {
+  const byBssid = new Map<string, RoamMonitorResult['bssids'][number]>();
+  for (const s of samples) {
+    if (!s.connected || !s.bssid) continue;
+    const entry = byBssid.get(s.bssid) ?? { bssid: s.bssid, frequency: s.frequency, samples: 0 };
+    entry.samples++;
+    if (s.rssi !== undefined) {
+      entry.minRssi = Math.min(entry.minRssi ?? s.rssi, s.rssi);
+      entry.maxRssi = Math.max(entry.maxRssi ?? s.rssi, s.rssi);
+    }
+    byBssid.set(s.bssid, entry);
+  }
+  return [...byBssid.values()];
+}
+
+/**
+ * Parse scan results from cmd wifi output
+ * Format: BSSID  Frequency  RSSI  Age(sec)  SSID  [Flags]
+ * Example: 84:18:3a:06:be:58  2412  -51  17.210  Wednesday  [WPA2-PSK-CCMP][RSN-PSK-CCMP][ESS]
+ *
+ * Pure function — exported for unit testing.
+ */
+export function parseScanResults(output: string): ScanResult[] {
+  const results: ScanResult[] = [];
+  const lines = output.split('\n');
+
+  // Skip header line if present
+  const startIndex = lines[0]?.includes('BSSID') ? 1 : 0;
+
+  for (let i = startIndex; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    let bssid = '';
+    let frequency = 0;
+    let rssi = 0;
+    let ageSeconds: number | undefined;
+    let security = 'Open';
+    let ssid = '';
+
+    // Find the first bracket to separate SSID from flags
+    const firstBracketIndex = line.indexOf('[');
+    const mainPart = firstBracketIndex !== -1 ? line.substring(0, firstBracketIndex) : line;
+    const flagsPart = firstBracketIndex !== -1 ? line.substring(firstBracketIndex) : '';
+
+    // Parse the main part: BSSID  Frequency  RSSI  Age  SSID
+    const parts = mainPart.trim().split(/\s+/);
+    if (parts.length < 3) continue;
+
+    // First part should be BSSID
+    if (BSSID_PATTERN.test(parts[0])) {
+      bssid = parts[0];
+    } else {
+      continue;
+    }
+
+    // Second part is frequency
+    if (/^\d{4,5}$/.test(parts[1])) {
+      frequency = parseInt(parts[1], 10);
+    }
+
+    // Third part is RSSI
+    if (/^-?\d{1,3}$/.test(parts[2])) {
+      rssi = parseInt(parts[2], 10);
+    }
+
+    // Fourth part is Age, fifth+ parts are SSID
+    if (/^\d+(\.\d+)?$/.test(parts[3] ?? '')) {
+      ageSeconds = parseFloat(parts[3]);
+    }
+    // SSID starts at index 4 (after BSSID, Freq, RSSI, Age)
+    if (parts.length > 4) {
+      ssid = parts.slice(4).join(' ').trim();
+    }
+
+    // Parse security from flags
+    if (flagsPart) {
+      if (flagsPart.includes('SAE')) security = 'SAE';
+      else if (flagsPart.includes('WPA3')) security = 'WPA3';
+      else if (flagsPart.includes('WPA2')) security = 'WPA2';
+      else if (flagsPart.includes('WPA')) security = 'WPA';
+      else if (flagsPart.includes('WEP')) security = 'WEP';
+      else if (flagsPart.includes('OWE')) security = 'OWE';
+      else security = 'Open';
+    }
+
+    const band = frequencyToBand(frequency || undefined);
+    results.push({
+      ssid: ssid || '<hidden>',
+      bssid,
+      frequency,
+      rssi,
+      security,
+      ...(flagsPart && { capabilities: flagsPart.trim() }),
+      ...(band && { band, channel: frequencyToChannel(frequency) }),
+      ...(ageSeconds !== undefined && { ageSeconds }),
+      ...parseScanFlags(flagsPart),
+    });
+  }
+
+  return results;
+}
+
+/** Slack for `ageSeconds` rounding and shell latency when matching re-reads. */
+const CACHED_SIGHTING_TOLERANCE_MS = 1000;
+
+/**
+ * Merge several scans per BSSID. Each network keeps its most recent sighting
+ * (so `rssi`/`ageSeconds` are the latest) plus `seenCount` and RSSI
+ * min/avg/max across the passes that saw it. Radio details found in any pass
+ * are kept.
+ *
+ * With `readAt` (when each pass was read, epoch ms) a result whose sighting
+ * time — read time minus `ageSeconds` — hasn't moved since the last counted
+ * pass is a cached re-read of a throttled scan, not a new sighting, and is
+ * left out of `seenCount` and the RSSI spread.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function mergeScanPasses(passes: ScanResult[][], readAt?: number[]): ScanResult[] {
+  const merged = new Map<string, { latest: ScanResult; rssis: number[]; details: Partial<ScanResult>; seenAt?: number }>();
+  passes.forEach((pass, i) => {
+    for (const r of pass) {
+      const key = r.bssid.toLowerCase();
+      const entry = merged.get(key) ?? { latest: r, rssis: [], details: {} };
+      entry.latest = r;
+      const seenAt = readAt?.[i] !== undefined && r.ageSeconds !== undefined ? readAt[i] - r.ageSeconds * 1000 : undefined;
+      const cached = seenAt !== undefined && entry.seenAt !== undefined && seenAt - entry.seenAt < CACHED_SIGHTING_TOLERANCE_MS;
+      if (!cached) {
+        entry.rssis.push(r.rssi);
+        if (seenAt !== undefined) entry.seenAt = seenAt;
+      }
+      if (r.channelWidth !== undefined) entry.details.channelWidth = r.channelWidth;
+      if (r.wifiStandard !== undefined) {
+        entry.details.wifiStandard = r.wifiStandard;
+        entry.details.wifiGeneration = r.wifiGeneration;
+      }
+      merged.set(key, entry);
+    }
+  });
+  return [...merged.values()].map(({ latest, rssis, details }) => ({
+    ...latest,
+    ...details,
+    seenCount: rssis.length,
+    rssiMin: Math.min(...rssis),
+    rssiAvg: Math.round((rssis.reduce((a, b) => a + b, 0) / rssis.length) * 10) / 10,
+    rssiMax: Math.max(...rssis),
+  }));
+}
+
+/**
+ * Keep the networks matching every given criterion. `minRssi` is checked
+ * against `rssiAvg` for merged multi-pass results, so one lucky beacon
+ * doesn't let a marginal AP through.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function filterScanResults(results: ScanResult[], filter: ScanFilter): ScanResult[] {
+  return results.filter(r => {
+    if (filter.ssidPattern && !filter.ssidPattern.test(r.ssid)) return false;
+    if (filter.minRssi !== undefined && (r.rssiAvg ?? r.rssi) < filter.minRssi) return false;
+    if (filter.bands?.length && (!r.band || !filter.bands.includes(r.band))) return false;
+    return true;
+  });
+}
+
+/**
+ * Order scan results: `rssi` strongest first, `ssid` alphabetical, `channel`
+ * ascending (band, then channel), `seen` most-seen first. Ties fall back to
+ * signal strength. Returns a new array.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function sortScanResults(results: ScanResult[], sortBy: ScanSortKey = 'rssi'): ScanResult[] {
+  const strength = (r: ScanResult) => r.rssiAvg ?? r.rssi;
+  const byStrength = (a: ScanResult, b: ScanResult) => strength(b) - strength(a);
+  const compare: Record<ScanSortKey, (a: ScanResult, b: ScanResult) => number> = {
+    rssi: byStrength,
+    ssid: (a, b) => a.ssid.localeCompare(b.ssid),
+    channel: (a, b) => a.frequency - b.frequency,
+    seen: (a, b) => (b.seenCount ?? 1) - (a.seenCount ?? 1),
+  };
+  return [...results].sort((a, b) => compare[sortBy](a, b) || byStrength(a, b));
+}
+
+const KNOWN_CIPHERS = new Set(['CCMP', 'CCMP-256', 'GCMP', 'GCMP-128', 'GCMP-256', 'TKIP', 'SMS4', 'WEP40', 'WEP104', 'NONE']);
+const PSK_AKMS = new Set(['PSK', 'FT-PSK', 'PSK-SHA256']);
+const SAE_AKMS = new Set(['SAE', 'FT-SAE', 'SAE-EXT-KEY', 'FT-SAE-EXT-KEY']);
+// WPA2-Enterprise AKMs, and the ones only WPA3-Enterprise uses (FT-EAP is
+// plain 802.1X with fast transition, so it does not make a network WPA3).
+const WPA2_EAP_AKMS = new Set(['EAP', 'FT-EAP']);
+const WPA3_EAP_AKMS = new Set(['EAP-SHA256', 'FT-EAP-SHA384', 'EAP-SUITE-B-192']);
+
+/**
+ * Break a scan capabilities string into AKMs, pairwise ciphers, PMF, WPS and
+ * transition modes. Each security element is `[<proto>-<akm>[+<akm>]-<cipher>[+<cipher>]]`,
+ * where AKMs and ciphers may themselves contain dashes (`PSK-SHA256`,
+ * `GCMP-256`), so the cipher suffix is found by matching known cipher names.
+ * Android prints the same suite once per protocol (`[WPA2-PSK-CCMP][RSN-PSK-CCMP]`);
+ * duplicates are folded.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function parseScanFlags(
+  flags: string
+): Pick<ScanResult, 'akms' | 'ciphers' | 'transitionModes' | 'pmf' | 'wps'> {
+  const akms = new Set<string>();
+  const ciphers = new Set<string>();
+  const protocols = new Set<string>();
+  const transitionModes: string[] = [];
+  let pmf: ScanResult['pmf'];
+  let wps = false;
+
+  for (const [, element] of flags.matchAll(/\[([^\]]*)\]/g)) {
+    if (element === 'WPS') wps = true;
+    else if (element === 'MFPR') pmf = 'required';
+    else if (element === 'MFPC') pmf ??= 'capable';
+    else if (element === 'OWE_TRANSITION') transitionModes.push('Open/OWE');
+    else if (element === 'WEP') ciphers.add('WEP');
+    else {
+      const m = /^(WPA2|WPA|RSN|OSEN|WAPI)-(.+)$/.exec(element);
+      if (!m) continue;
+      protocols.add(m[1] === 'WPA2' ? 'RSN' : m[1]);
+      const body = m[2].replace(/-preauth$/i, '');
+      let akmPart = body;
+      for (let i = body.indexOf('-'); i !== -1; i = body.indexOf('-', i + 1)) {
+        const suffix = body.slice(i + 1).split('+');
+        if (suffix.every(c => KNOWN_CIPHERS.has(c))) {
+          akmPart = body.slice(0, i);
+          suffix.forEach(c => ciphers.add(c));
+          break;
+        }
+      }
+      for (const akm of akmPart.split('+')) {
+        if (akm && akm !== '?') akms.add(normalizeAkm(akm));
+      }
+    }
+  }
+
+  const akmList = [...akms];
+  if (akmList.some(a => PSK_AKMS.has(a)) && akmList.some(a => SAE_AKMS.has(a))) {
+    transitionModes.unshift('WPA2/WPA3-Personal');
+  }
+  if (akmList.some(a => WPA2_EAP_AKMS.has(a)) && akmList.some(a => WPA3_EAP_AKMS.has(a))) {
+    transitionModes.unshift('WPA2/WPA3-Enterprise');
+  }
+  if (protocols.has('WPA') && protocols.has('RSN')) transitionModes.unshift('WPA/WPA2');
+
+  return { akms: akmList, ciphers: [...ciphers], transitionModes, ...(pmf && { pmf }), wps };
+}
+
+// EAP/SHA1 is plain 802.1X; the rest just swap '/' and '_' for '-'
+// (FT/PSK → FT-PSK, EAP_SUITE_B_192 → EAP-SUITE-B-192).
+function normalizeAkm(akm: string): string {
+  const upper = akm.toUpperCase();
+  if (upper === 'EAP/SHA1') return 'EAP';
+  return upper.replace(/[/_]/g, '-');
+}
+
+/** Band of a centre frequency in MHz. */
+export function frequencyToBand(frequency?: number): WifiBand | undefined {
+  if (!frequency || frequency <= 0) return undefined;
+  if (frequency >= 5925) return '6GHz';
+  if (frequency >= 4900) return '5GHz';
+  return '2.4GHz';
+}
+
+/** 802.11 channel number of a centre frequency in MHz. */
+export function frequencyToChannel(frequency: number): number | undefined {
+  if (frequency === 2484) return 14;
+  if (frequency >= 2412 && frequency < 2484) return (frequency - 2407) / 5;
+  if (frequency === 5935) return 2;
+  if (frequency > 5950) return (frequency - 5950) / 5;
+  if (frequency >= 5000) return (frequency - 5000) / 5;
+  return undefined;
+}
+
+// android.net.wifi.ScanResult.CHANNEL_WIDTH_* → MHz (80+80 reported as 160).
+const CHANNEL_WIDTH_MHZ: Record<string, number> = { '0': 20, '1': 40, '2': 80, '3': 160, '4': 160, '5': 320 };
+
+/**
+ * Channel width and Wi-Fi standard per BSSID, from the `ScanResult.toString()`
+ * records some builds include in `dumpsys wifi` (`BSSID: …, ChannelBandwidth: 2,
+ * … standard: 11ax`). Lines without either field are ignored, so the
+ * connected-AP `mWifiInfo` line only contributes its standard.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function parseScanRadioDetails(dumpsys: string): Map<string, { channelWidth?: number; wifiStandard?: string }> {
+  const details = new Map<string, { channelWidth?: number; wifiStandard?: string }>();
+  for (const line of dumpsys.split('\n')) {
+    const bssid = line.match(/BSSID:\s*([0-9a-f]{2}(?::[0-9a-f]{2}){5})/i)?.[1].toLowerCase();
+    if (!bssid) continue;
+    const width = line.match(/ChannelBandwidth:\s*(\d)/)?.[1];
+    const standard = line.match(/[Ss]tandard:\s*(11[a-z]+|legacy)/)?.[1];
+    if (width === undefined && standard === undefined) continue;
+    const entry = details.get(bssid) ?? {};
+    if (width !== undefined && CHANNEL_WIDTH_MHZ[width]) entry.channelWidth = CHANNEL_WIDTH_MHZ[width];
+    if (standard !== undefined) entry.wifiStandard = standard;
+    details.set(bssid, entry);
+  }
+  return details;
+}
+
+function wifiGeneration(standard: string, band?: WifiBand): string | undefined {
+  switch (standard) {
+    case '11n': return 'Wi-Fi 4';
+    case '11ac': return 'Wi-Fi 5';
+    case '11ax': return band === '6GHz' ? 'Wi-Fi 6E' : 'Wi-Fi 6';
+    case '11be': return 'Wi-Fi 7';
+    default: return undefined;
+  }
+}
+
+function statusSaysEnabled(statusOutput: string): boolean {
+  // Check "disabled" first: when off, the status reads "Wifi is disabled\n
+  // Wifi scanning is only available when wifi is enabled" — that second line
+  // contains "wifi is enabled", so a bare includes() false-positives as on.
+  const out = statusOutput.toLowerCase();
+  if (out.includes('wifi is disabled')) return false;
+  return out.includes('wifi is enabled');
+}
+
+// WifiConfiguration.RANDOMIZATION_* in value order.
+const MAC_RANDOMIZATION_SETTINGS: MacRandomizationMode[] = ['none', 'persistent', 'non_persistent', 'auto'];
+
+/**
+ * Parse the "WifiConfigManager - Configured networks" section of
+ * `dumpsys wifi` — one WifiConfiguration.toString() record per saved network:
+ *
+ *   ID: 0 SSID: "Office" PROVIDER-NAME: null BSSID: null ... PRIO: 0 HIDDEN: false ...
+ *    macRandomizationSetting: 1
+ *    cuid=2000 cname=com.android.shell
+ *    meteredHint: false meteredOverride: 0
+ *    allowAutojoin=true
+ *    lastConnected: 10-18 09:12:44.501
+ *
+ * Field spellings drift between releases (`=` vs `: `, bare flags printed only
+ * when set), so each is matched loosely and left unset when absent.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function parseConfiguredNetworks(output: string): SavedNetwork[] {
+  const begin = output.indexOf('Configured networks Begin');
+  const end = output.indexOf('Configured networks End');
+  const section = begin >= 0 ? output.slice(begin, end > begin ? end : undefined) : output;
+
+  // toString() prefixes the current network with `* ` and a disabled one with `- DSBLE `.
+  const starts = [...section.matchAll(/^\s*(?:\*\s+|-\s*DSBLE\s+)?ID:\s*(\d+)\s+SSID:\s*(.*?)\s+PROVIDER-NAME:/gm)];
+  return starts.map((start, i) => {
+    const record = section.slice(start.index, starts[i + 1]?.index);
+    const network: SavedNetwork = {
+      networkId: parseInt(start[1], 10),
+      ssid: start[2].replace(/^"(.*)"$/, '$1'),
+    };
+
+    const flag = (name: string): boolean | undefined => {
+      const m = record.match(new RegExp(`\\b${name}\\b(?:[=:\\s]+(true|false)\\b)?`));
+      return m ? m[1] !== 'false' : undefined;
+    };
+    const number = (pattern: RegExp): number | undefined => {
+      const m = record.match(pattern);
+      return m ? parseInt(m[1], 10) : undefined;
+    };
+
+    const autoJoin = flag('allowAutojoin');
+    if (autoJoin !== undefined) network.autoJoin = autoJoin;
+    const priority = number(/\bPRIO:\s*(-?\d+)/);
+    if (priority !== undefined) network.priority = priority;
+    const hidden = record.match(/\bHIDDEN:\s*(true|false)/);
+    if (hidden) network.hidden = hidden[1] === 'true';
+
+    // meteredOverride: 0 = follow the hint, 1 = metered, 2 = not metered.
+    const override = number(/\bmeteredOverride[=:\s]+(\d)/);
+    const hint = flag('meteredHint');
+    if (override === 1 || override === 2) network.metered = override === 1;
+    else if (hint !== undefined || override !== undefined) network.metered = hint ?? false;
+
+    const mac = number(/\bmacRandomizationSetting[=:\s]+(\d)/);
+    if (mac !== undefined && MAC_RANDOMIZATION_SETTINGS[mac]) network.macRandomization = MAC_RANDOMIZATION_SETTINGS[mac];
+
+    const lastConnected = record.match(/\blastConnected:\s*([^\n]+)/);
+    if (lastConnected) network.lastConnected = lastConnected[1].trim();
+
+    const creator = record.match(/\b(?:cname=|creatorName:\s*)(\S+)/)?.[1];
+    network.origin = flag('fromWifiNetworkSuggestion')
+      ? 'suggestion'
+      : creator?.includes(COMPANION_PACKAGE)
+        ? 'companion'
+        : 'user';
+    return network;
+  });
+}
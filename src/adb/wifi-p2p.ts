@@ -0,0 +1,254 @@
+import { AdbClient } from './adb-client.js';
+import { CompanionAppBridge, COMPANION_PACKAGE } from './companion-bridge.js';
+import {
+  P2pPeer,
+  P2pPeerStatus,
+  P2pGroup,
+  P2pStatus,
+  P2pDiscoveryResult,
+  P2pConnectResult,
+} from '../types.js';
+
+const DEVICE_ADDRESS_PATTERN = /^([0-9a-f]{2}:){5}[0-9a-f]{2}$/i;
+
+// Time the companion needs beyond the discovery window to answer.
+const DISCOVERY_RESULT_MARGIN_MS = 15_000;
+const DEFAULT_CONNECT_TIMEOUT_MS = 30_000;
+const POLL_INTERVAL_MS = 1000;
+
+// WifiP2pDevice.CONNECTED … UNAVAILABLE.
+const PEER_STATUSES: P2pPeerStatus[] = ['connected', 'invited', 'failed', 'available', 'unavailable'];
+
+export interface P2pConnectOptions {
+  /** 0 (prefer client) … 15 (insist on being group owner). */
+  groupOwnerIntent?: number;
+  /** WPS method; `display`/`keypad` take a PIN. Default push-button. */
+  wps?: 'pbc' | 'display' | 'keypad';
+  pin?: string;
+  /** How long to wait for the group to form (default 30 s). */
+  timeoutMs?: number;
+}
+
+/**
+ * Wi-Fi Direct. Status is read from `dumpsys wifip2p` plus `ip addr` on the
+ * group interface; discovery, connect and group removal need a
+ * WifiP2pManager channel, so they go through the companion app.
+ */
+export class WifiP2pCommands {
+  private adb: AdbClient;
+
+  constructor(adb: AdbClient) {
+    this.adb = adb;
+  }
+
+  async getStatus(): Promise<P2pStatus> {
+    const result = await this.adb.shell('dumpsys wifip2p');
+    if (!result.success) {
+      throw new Error(`Failed to read Wi-Fi Direct state: ${result.stderr}`);
+    }
+    const status = parseP2pDumpsys(result.stdout);
+    const iface = status.group?.interface;
+    if (status.groupFormed && iface && /^[\w.-]+$/.test(iface)) {
+      const addr = await this.adb.shell(`ip -4 addr show dev ${iface}`);
+      const ip = addr.stdout.match(/inet\s+(\d+\.\d+\.\d+\.\d+)/)?.[1];
+      if (ip) status.ipAddress = ip;
+    }
+    return status;
+  }
+
+  /** Discover peers for `durationMs` (companion app). */
+  async discover(durationMs: number): Promise<P2pDiscoveryResult> {
+    const installed = await this.companionError();
+    if (installed) return { success: false, peers: [], error: installed };
+
+    const bridge = new CompanionAppBridge(this.adb, {
+      resultTimeoutMs: durationMs + DISCOVERY_RESULT_MARGIN_MS,
+      pollIntervalMs: 500,
+    });
+    const { raw, broadcastError } = await bridge.sendBroadcastAndWait('P2P_DISCOVER', {
+      action: 'p2p_discover',
+      timestamp: Date.now(),
+      durationMs,
+    });
+    if (broadcastError) return { success: false, peers: [], error: `Failed to send broadcast: ${broadcastError}` };
+    if (!raw) return { success: false, peers: [], error: 'Timeout waiting for peer discovery' };
+    if (!raw.success) return { success: false, peers: [], error: String(raw.message ?? 'Peer discovery failed') };
+
+    const peers = Array.isArray(raw.peers) ? (raw.peers as Array<Record<string, unknown>>).map(companionPeer) : [];
+    return { success: true, peers };
+  }
+
+  /**
+   * Invite a peer (companion app), then wait until `dumpsys wifip2p` shows a
+   * group with it as GO or client.
+   */
+  async connect(deviceAddress: string, options: P2pConnectOptions = {}): Promise<P2pConnectResult> {
+    if (!DEVICE_ADDRESS_PATTERN.test(deviceAddress)) {
+      return { success: false, deviceAddress, error: `Invalid device address "${deviceAddress}" (expected xx:xx:xx:xx:xx:xx)` };
+    }
+    if ((options.wps === 'display' || options.wps === 'keypad') && !options.pin) {
+      return { success: false, deviceAddress, error: `wps "${options.wps}" needs a pin` };
+    }
+    const installed = await this.companionError();
+    if (installed) return { success: false, deviceAddress, error: installed };
+
+    const bridge = new CompanionAppBridge(this.adb, { resultTimeoutMs: 20_000, pollIntervalMs: 300 });
+    const { raw, broadcastError } = await bridge.sendBroadcastAndWait('P2P_CONNECT', {
+      action: 'p2p_connect',
+      timestamp: Date.now(),
+      deviceAddress: deviceAddress.toLowerCase(),
+      ...(options.groupOwnerIntent !== undefined && { groupOwnerIntent: options.groupOwnerIntent }),
+      wps: options.wps ?? 'pbc',
+      ...(options.pin && { pin: options.pin }),
+    });
+    if (broadcastError) return { success: false, deviceAddress, error: `Failed to send broadcast: ${broadcastError}` };
+    if (!raw) return { success: false, deviceAddress, error: 'Timeout waiting for the companion app to send the invitation' };
+    if (!raw.success) return { success: false, deviceAddress, error: String(raw.message ?? 'Connect failed') };
+
+    const wanted = deviceAddress.toLowerCase();
+    const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS);
+    for (;;) {
+      const status = await this.getStatus();
+      const members = [status.group?.groupOwner, ...(status.group?.clients ?? [])];
+      if (status.groupFormed && members.some(p => p?.deviceAddress === wanted)) {
+        return { success: true, deviceAddress, status };
+      }
+      if (Date.now() >= deadline) {
+        return { success: false, deviceAddress, status, error: 'Invitation sent but no group formed (the peer may need to accept)' };
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+
+  /** Leave or tear down the current group (companion app). */
+  async removeGroup(): Promise<{ success: boolean; error?: string }> {
+    const installed = await this.companionError();
+    if (installed) return { success: false, error: installed };
+
+    const bridge = new CompanionAppBridge(this.adb, { resultTimeoutMs: 15_000, pollIntervalMs: 300 });
+    const { raw, broadcastError } = await bridge.sendBroadcastAndWait('P2P_REMOVE_GROUP', {
+      action: 'p2p_remove_group',
+      timestamp: Date.now(),
+    });
+    if (broadcastError) return { success: false, error: `Failed to send broadcast: ${broadcastError}` };
+    if (!raw) return { success: false, error: 'Timeout waiting for group removal' };
+    return raw.success ? { success: true } : { success: false, error: String(raw.message ?? 'removeGroup failed') };
+  }
+
+  private async companionError(): Promise<string | undefined> {
+    const result = await this.adb.shell(`pm list packages | grep ${COMPANION_PACKAGE}`);
+    return result.stdout.includes(COMPANION_PACKAGE)
+      ? undefined
+      : `Companion app not installed. Please install ${COMPANION_PACKAGE}`;
+  }
+}
+
+function companionPeer(raw: Record<string, unknown>): P2pPeer {
+  return {
+    deviceName: String(raw.deviceName ?? ''),
+    deviceAddress: String(raw.deviceAddress ?? '').toLowerCase(),
+    ...(raw.primaryDeviceType ? { primaryDeviceType: String(raw.primaryDeviceType) } : {}),
+    status: PEER_STATUSES[Number(raw.status)] ?? 'unavailable',
+    ...(typeof raw.isGroupOwner === 'boolean' && { isGroupOwner: raw.isGroupOwner }),
+  };
+}
+
+/**
+ * Parse `dumpsys wifip2p`. The fields of interest are top-level `mXxx`
+ * lines, several holding multi-line toString()s:
+ *
+ *   curState=GroupCreatedState
+ *   mWifiP2pInfo groupFormed: true isGroupOwner: false groupOwnerAddress: /192.168.49.1
+ *   mGroup network: DIRECT-Ab-Pixel
+ *    isGO: false
+ *    GO: Device: Pixel
+ *    deviceAddress: 9a:2c:bc:11:22:33
+ *    ...
+ *    Client: Device: Camera
+ *    deviceAddress: 02:11:22:33:44:55
+ *    ...
+ *    interface: p2p-wlan0-0
+ *    frequency: 2437
+ *   mThisDevice Device: Camera
+ *    deviceAddress: 02:11:22:33:44:55
+ *   mPeers
+ *   Device: Pixel
+ *    deviceAddress: 9a:2c:bc:11:22:33
+ *    status: 0
+ *
+ * Pure function — exported for unit testing.
+ */
+export function parseP2pDumpsys(output: string): P2pStatus {
+  const section = (name: string): string | undefined => {
+    const start = output.search(new RegExp(`^${name}\\b`, 'm'));
+    if (start < 0) return undefined;
+    const rest = output.slice(start + name.length);
+    const end = rest.search(/\n(?=m[A-Z]\w*\b)/);
+    return end < 0 ? rest : rest.slice(0, end);
+  };
+
+  const state = output.match(/curState=(\w+)/)?.[1];
+  const status: P2pStatus = {
+    enabled: output.trim() !== '' && !/^P2p(Disabled|NotSupported)State$/.test(state ?? ''),
+    groupFormed: false,
+    peers: [],
+  };
+
+  const info = section('mWifiP2pInfo');
+  if (info) {
+    status.groupFormed = /groupFormed:\s*true/.test(info);
+    status.isGroupOwner = /isGroupOwner:\s*true/.test(info);
+    const owner = info.match(/groupOwnerAddress:\s*\/?(\d+\.\d+\.\d+\.\d+)/)?.[1];
+    if (owner) status.groupOwnerAddress = owner;
+  }
+
+  const group = section('mGroup');
+  if (group && !/^\s*null\s*$/.test(group)) {
+    const parsed = parseP2pGroup(group);
+    if (parsed) status.group = parsed;
+  }
+
+  const thisDevice = section('mThisDevice');
+  const self = thisDevice ? parseP2pDevices(thisDevice)[0] : undefined;
+  if (self) status.thisDevice = { deviceName: self.deviceName, deviceAddress: self.deviceAddress };
+
+  const peers = section('mPeers');
+  if (peers) status.peers = parseP2pDevices(peers);
+  return status;
+}
+
+function parseP2pGroup(text: string): P2pGroup | undefined {
+  const networkName = text.match(/network:\s*(\S+)/)?.[1];
+  if (!networkName) return undefined;
+  const [head, ...clientParts] = text.split(/\n\s*Client:\s*/);
+  const goStart = head.indexOf('GO: ');
+  const group: P2pGroup = {
+    networkName,
+    isGroupOwner: /isGO:\s*true/.test(head),
+    clients: clientParts.flatMap(parseP2pDevices),
+  };
+  const groupOwner = goStart >= 0 ? parseP2pDevices(head.slice(goStart))[0] : undefined;
+  if (groupOwner) group.groupOwner = groupOwner;
+  const iface = text.match(/^\s*interface:\s*(\S+)/m)?.[1];
+  if (iface) group.interface = iface;
+  const frequency = text.match(/^\s*frequency:\s*(\d+)/m)?.[1];
+  if (frequency) group.frequency = parseInt(frequency, 10);
+  return group;
+}
+
+/** WifiP2pDevice.toString() records ("Device: <name>\n deviceAddress: …\n … status: N"). */
+function parseP2pDevices(text: string): P2pPeer[] {
+  return text.split(/(?=Device: )/).flatMap(segment => {
+    if (!segment.startsWith('Device: ')) return [];
+    const deviceAddress = segment.match(/deviceAddress:\s*([0-9a-f]{2}(?::[0-9a-f]{2}){5})/i)?.[1];
+    if (!deviceAddress) return [];
+    const peer: P2pPeer = {
+      deviceName: segment.slice('Device: '.length).split('\n')[0].trim(),
+      deviceAddress: deviceAddress.toLowerCase(),
+      status: PEER_STATUSES[Number(segment.match(/^\s*status:\s*(\d)/m)?.[1])] ?? 'unavailable',
+    };
+    const type = segment.match(/primary type:\s*(\S+)/)?.[1];
+    if (type && type !== 'null') peer.primaryDeviceType = type;
+    return [peer];
+  });
+}
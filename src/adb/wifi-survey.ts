@@ -0,0 +1,279 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { logger } from '../log/logger.js';
+import { recordSurveySamples, type SurveySampleRecord } from '../db/writer.js';
+import type { DeviceContext } from './device-context.js';
+import type { WifiBand } from '../types.js';
+
+const log = logger.child({ component: 'wifi-survey' });
+
+export const DEFAULT_SURVEY_INTERVAL_MS = 10_000;
+export const DEFAULT_SURVEY_MAX_DURATION_MS = 2 * 60 * 60 * 1000;
+// Time between `cmd wifi start-scan` and reading results, as in WifiCommands.scan().
+const SCAN_SETTLE_MS = 2000;
+
+/** One BSSID seen in one survey scan. */
+export interface SurveySample {
+  at: Date;
+  /** Location label in effect when the scan ran. */
+  label: string | null;
+  /** 1-based scan number within the survey. */
+  scan: number;
+  bssid: string;
+  ssid: string;
+  frequency: number;
+  channel?: number;
+  band?: WifiBand;
+  rssi: number;
+  security: string;
+}
+
+/** Per-BSSID time series, the JSON export's main body. */
+export interface SurveySeries {
+  bssid: string;
+  ssid: string;
+  frequency: number;
+  channel?: number;
+  band?: WifiBand;
+  security: string;
+  rssiMin: number;
+  rssiMax: number;
+  points: Array<{ at: string; label: string | null; scan: number; rssi: number }>;
+}
+
+export interface SurveyOptions {
+  intervalMs?: number;
+  label?: string | null;
+  maxDurationMs?: number;
+  /** Delay between start-scan and reading results. Tests shorten it. */
+  settleMs?: number;
+  recorder?: (samples: SurveySampleRecord[]) => Promise<void>;
+}
+
+export interface SurveySummary {
+  surveyId: string;
+  serial: string;
+  running: boolean;
+  label: string | null;
+  startedAt: string;
+  stoppedAt?: string;
+  stopReason?: string;
+  intervalMs: number;
+  scans: number;
+  failedScans: number;
+  samples: number;
+  bssids: number;
+  labels: string[];
+}
+
+/**
+ * Background RF survey on one device: every `intervalMs` it runs a scan
+ * (startScan + getScanResults, each under the device lock so tool calls
+ * interleave between them rather than with them) and keeps every BSSID
+ * sighting tagged with the current location label. Samples stay in memory
+ * for the host-side CSV/JSON export on stop, and are written to
+ * `wifi_survey_samples` as they arrive when DATABASE_URL is set.
+ *
+ * A survey stops on {@link stop}, after `maxDurationMs`, or never outlives
+ * the process — the timer is unref'd.
+ */
+export class WifiSurvey {
+  readonly id = randomUUID();
+  readonly startedAt = new Date();
+  stoppedAt: Date | null = null;
+  stopReason: string | null = null;
+  private label: string | null = null;
+  private readonly labels = new Set<string>();
+  private readonly samples: SurveySample[] = [];
+  private scans = 0;
+  private failedScans = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly intervalMs: number;
+  private readonly maxDurationMs: number;
+  private readonly settleMs: number;
+  private readonly recorder: (samples: SurveySampleRecord[]) => Promise<void>;
+
+  constructor(private readonly device: DeviceContext, options: SurveyOptions = {}) {
+    this.intervalMs = options.intervalMs ?? DEFAULT_SURVEY_INTERVAL_MS;
+    this.maxDurationMs = options.maxDurationMs ?? DEFAULT_SURVEY_MAX_DURATION_MS;
+    this.settleMs = Math.min(options.settleMs ?? SCAN_SETTLE_MS, this.intervalMs);
+    this.recorder = options.recorder ?? recordSurveySamples;
+    this.setLabel(options.label ?? null);
+  }
+
+  get running(): boolean {
+    return this.stoppedAt === null;
+  }
+
+  /** Start scanning. The first scan runs immediately. */
+  start(): void {
+    log.info({ survey: this.id, serial: this.device.serial, intervalMs: this.intervalMs }, 'survey started');
+    this.schedule(0);
+  }
+
+  /** Tag subsequent samples with a new location label. */
+  setLabel(label: string | null): void {
+    this.label = label;
+    if (label) this.labels.add(label);
+  }
+
+  /**
+   * Stop scanning. Doesn't wait for an in-flight scan (the caller may be
+   * holding the device lock that scan is queued on); its results are dropped.
+   */
+  stop(reason = 'stopped'): void {
+    if (!this.running) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.stoppedAt = new Date();
+    this.stopReason = reason;
+    log.info({ survey: this.id, serial: this.device.serial, scans: this.scans, reason }, 'survey stopped');
+  }
+
+  getSamples(): SurveySample[] {
+    return this.samples;
+  }
+
+  summary(): SurveySummary {
+    return {
+      surveyId: this.id,
+      serial: this.device.serial,
+      running: this.running,
+      label: this.label,
+      startedAt: this.startedAt.toISOString(),
+      ...(this.stoppedAt && { stoppedAt: this.stoppedAt.toISOString(), stopReason: this.stopReason ?? undefined }),
+      intervalMs: this.intervalMs,
+      scans: this.scans,
+      failedScans: this.failedScans,
+      samples: this.samples.length,
+      bssids: new Set(this.samples.map(s => s.bssid)).size,
+      labels: [...this.labels],
+    };
+  }
+
+  /** Write `survey-<id>.csv` and `survey-<id>.json` under `dir` on the host. */
+  async export(dir: string): Promise<{ csvPath: string; jsonPath: string }> {
+    await mkdir(dir, { recursive: true });
+    const csvPath = join(dir, `survey-${this.id}.csv`);
+    const jsonPath = join(dir, `survey-${this.id}.json`);
+    await writeFile(csvPath, surveySamplesToCsv(this.samples));
+    await writeFile(
+      jsonPath,
+      JSON.stringify({ ...this.summary(), series: buildSurveySeries(this.samples) }, null, 2)
+    );
+    return { csvPath, jsonPath };
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => void this.tick(), delayMs);
+    this.timer.unref();
+  }
+
+  private async tick(): Promise<void> {
+    if (!this.running) return;
+    if (Date.now() - this.startedAt.getTime() >= this.maxDurationMs) {
+      this.stop('max duration reached');
+      return;
+    }
+    const began = Date.now();
+    try {
+      const wifi = this.device.getWifiCommands();
+      await this.device.exclusive(() => wifi.startScan());
+      await new Promise(resolve => setTimeout(resolve, this.settleMs));
+      const results = await this.device.exclusive(() => wifi.getScanResults());
+      if (!this.running) return;
+      this.scans++;
+      const at = new Date();
+      const batch: SurveySample[] = results.map(r => ({
+        at,
+        label: this.label,
+        scan: this.scans,
+        bssid: r.bssid.toLowerCase(),
+        ssid: r.ssid,
+        frequency: r.frequency,
+        channel: r.channel,
+        band: r.band,
+        rssi: r.rssi,
+        security: r.security,
+      }));
+      this.samples.push(...batch);
+      void this.recorder(batch.map(s => toRecord(this.id, this.device.serial, s))).catch(err =>
+        log.warn({ err, survey: this.id }, 'survey recorder threw')
+      );
+    } catch (err) {
+      this.failedScans++;
+      log.warn({ err, survey: this.id, serial: this.device.serial }, 'survey scan failed');
+    }
+    if (this.running) this.schedule(Math.max(0, this.intervalMs - (Date.now() - began)));
+  }
+}
+
+function toRecord(surveyId: string, serial: string, s: SurveySample): SurveySampleRecord {
+  return {
+    survey_id: surveyId,
+    serial,
+    label: s.label,
+    scan: s.scan,
+    bssid: s.bssid,
+    ssid: s.ssid,
+    frequency: s.frequency,
+    channel: s.channel ?? null,
+    band: s.band ?? null,
+    rssi: s.rssi,
+    security: s.security,
+    sampled_at: s.at,
+  };
+}
+
+/**
+ * Group samples into one RSSI time series per BSSID, strongest first.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function buildSurveySeries(samples: SurveySample[]): SurveySeries[] {
+  const byBssid = new Map<string, SurveySeries>();
+  for (const s of samples) {
+    let series = byBssid.get(s.bssid);
+    if (!series) {
+      series = {
+        bssid: s.bssid,
+        ssid: s.ssid,
+        frequency: s.frequency,
+        channel: s.channel,
+        band: s.band,
+        security: s.security,
+        rssiMin: s.rssi,
+        rssiMax: s.rssi,
+        points: [],
+      };
+      byBssid.set(s.bssid, series);
+    }
+    series.rssiMin = Math.min(series.rssiMin, s.rssi);
+    series.rssiMax = Math.max(series.rssiMax, s.rssi);
+    series.points.push({ at: s.at.toISOString(), label: s.label, scan: s.scan, rssi: s.rssi });
+  }
+  return [...byBssid.values()].sort((a, b) => b.rssiMax - a.rssiMax);
+}
+
+const CSV_COLUMNS = ['timestamp', 'scan', 'label', 'bssid', 'ssid', 'frequency', 'channel', 'band', 'rssi', 'security'];
+
+/**
+ * One CSV row per sighting, in scan order — the long format spreadsheet and
+ * heat-map tools import directly.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function surveySamplesToCsv(samples: SurveySample[]): string {
+  const rows = samples.map(s =>
+    [s.at.toISOString(), s.scan, s.label ?? '', s.bssid, s.ssid, s.frequency, s.channel ?? '', s.band ?? '', s.rssi, s.security]
+      .map(csvField)
+      .join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -57,6 +57,21 @@ export interface SessionRecord {
   upstream_ctx_map?: unknown;
 }
 
+export interface SurveySampleRecord {
+  survey_id: string;
+  serial: string;
+  label: string | null;
+  scan: number;
+  bssid: string;
+  ssid: string;
+  frequency: number;
+  channel: number | null;
+  band: string | null;
+  rssi: number;
+  security: string;
+  sampled_at: Date;
+}
+
 const TOOL_CALLS_INSERT = `
   INSERT INTO tool_calls (
     call_id, trace_id, parent_call_id, session_id, connection_id, client_info,
@@ -137,3 +152,27 @@ export async function recordSession(session: SessionRecord): Promise<void> {
     log.warn({ err, session: session.session_id }, 'recordSession failed');
   }
 }
+
+const SURVEY_SAMPLE_COLUMNS = [
+  'survey_id', 'serial', 'label', 'scan', 'bssid', 'ssid',
+  'frequency', 'channel', 'band', 'rssi', 'security', 'sampled_at',
+] as const;
+
+/** Insert one survey scan's samples in a single multi-row INSERT. */
+export async function recordSurveySamples(samples: SurveySampleRecord[]): Promise<void> {
+  if (samples.length === 0) return;
+  const pool = getPool();
+  if (!pool) return;
+  const width = SURVEY_SAMPLE_COLUMNS.length;
+  const values = samples.map(
+    (_, row) => `(${SURVEY_SAMPLE_COLUMNS.map((_, col) => `$${row * width + col + 1}`).join(', ')})`
+  );
+  try {
+    await pool.query(
+      `INSERT INTO wifi_survey_samples (${SURVEY_SAMPLE_COLUMNS.join(', ')}) VALUES ${values.join(', ')}`,
+      samples.flatMap((s) => SURVEY_SAMPLE_COLUMNS.map((c) => s[c]))
+    );
+  } catch (err) {
+    log.warn({ err, survey: samples[0].survey_id }, 'recordSurveySamples failed');
+  }
+}
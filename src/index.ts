@@ -1,10 +1,13 @@
 import 'dotenv/config'; // load .env before anything reads process.env (e.g. DATABASE_URL)
 import express from 'express';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { DeviceManager } from './adb/device-manager.js';
 import { DeviceObserver } from './adb/device-observer.js';
+import { createTransportFromEnv } from './adb/transport.js';
 import { createMcpServer } from './server.js';
 import { UpstreamProxy, parseUpstreamConfig } from './mcp/upstream-proxy.js';
+import { SessionManager, parseSessionIdleMs } from './mcp/session-manager.js';
 import { logger } from './log/logger.js';
 import { installCallRecording } from './log/middleware.js';
 import { runWithTraceContext, establishTraceContext } from './log/trace-context.js';
@@ -12,14 +15,34 @@ import { closePool } from './db/pool.js';
 
 const log = logger.child({ component: 'server' });
 
-const deviceManager = new DeviceManager();
-const deviceObserver = new DeviceObserver(process.env.ADB_PATH);
+// One transport for every adb consumer: the real binary by default, or the
+// scripted virtual device with ADB_TRANSPORT=virtual (no phone needed).
+const adbTransport = createTransportFromEnv();
+const deviceManager = new DeviceManager(process.env.ADB_PATH, adbTransport);
+const deviceObserver = new DeviceObserver(adbTransport);
 deviceManager.setObserver(deviceObserver);
 const upstreamProxy = new UpstreamProxy();
+// Shared server for stateless requests (no Mcp-Session-Id, not an
+// initialize) — device_select on it is process-wide, as before sessions.
 const { server: mcpServer, nativeToolNames } = createMcpServer(deviceManager, upstreamProxy);
 
+// Stateful sessions: one McpServer per session, each with its own selected
+// device, wired the same way as the shared server.
+const sessionManager = new SessionManager(
+  (session) => {
+    const { server } = createMcpServer(deviceManager, upstreamProxy, session);
+    if (upstreamProxy.getStatus().length > 0) {
+      upstreamProxy.attach(server, (upstream, tool) => session.noteUpstreamCall(upstream, tool));
+    }
+    installCallRecording(server, upstreamProxy, deviceObserver);
+    return server;
+  },
+  { idleMs: parseSessionIdleMs(process.env.MCP_SESSION_IDLE_MS) }
+);
+
 const shutdown = async () => {
   log.info('shutting down');
+  await sessionManager.closeAll().catch(() => {});
   await deviceObserver.stop().catch(() => {});
   await upstreamProxy.closeAll().catch(() => {});
   await closePool();
@@ -32,7 +55,7 @@ process.on('SIGINT', shutdown);
 async function initDevice(): Promise<void> {
   try {
     await deviceManager.initialize();
-    log.info('adb initialized');
+    log.info({ transport: adbTransport.name }, 'adb initialized');
 
     const devices = await deviceManager.listDevices();
     const connectedDevices = devices.filter(d => d.state === 'device');
@@ -63,15 +86,43 @@ async function start(): Promise<void> {
     // incoming `X-Caller-Session-Id` header as a client-provided session
     // label (one tag per logical caller — multiple Claude Code windows,
     // separate QA harnesses, etc). Custom header avoids collision with the
-    // MCP spec's `Mcp-Session-Id`, which is server-issued in stateful mode.
-    // We stay stateless because the SDK's Server class is
-    // single-transport-per-instance, so true server-managed sessions would
-    // need one McpServer per session — a heavier refactor that's deferred
-    // until per-session state isolation is actually needed.
+    // MCP spec's `Mcp-Session-Id`, which is server-issued.
+    //
+    // Three routes:
+    //   • `Mcp-Session-Id` → that session's transport (404 if unknown/expired).
+    //   • `initialize` without one → open a new server-managed session.
+    //   • anything else → the shared stateless server, as before sessions.
+    // Within a session, tool_calls.session_id is the Mcp-Session-Id so rows
+    // join the `sessions` table; the caller label lives in its client_info.
     const ctx = establishTraceContext(req);
+    const sessionId = req.header('mcp-session-id');
+
+    try {
+      if (sessionId) {
+        const session = sessionManager.get(sessionId);
+        if (!session) {
+          res.status(404).json({
+            jsonrpc: '2.0',
+            error: { code: -32001, message: 'Session not found' },
+            id: null,
+          });
+          return;
+        }
+        await runWithTraceContext({ ...ctx, session_id: session.id }, () =>
+          session.transport.handleRequest(req, res, req.body)
+        );
+        return;
+      }
+
+      if (isInitializeRequest(req.body)) {
+        const session = await sessionManager.open(ctx.session_id);
+        await runWithTraceContext({ ...ctx, session_id: session.id }, () =>
+          session.transport.handleRequest(req, res, req.body)
+        );
+        return;
+      }
 
-    await runWithTraceContext(ctx, async () => {
-      try {
+      await runWithTraceContext(ctx, async () => {
         const transport = new StreamableHTTPServerTransport({
           sessionIdGenerator: undefined,
         });
@@ -82,15 +133,38 @@ async function start(): Promise<void> {
 
         await mcpServer.connect(transport);
         await transport.handleRequest(req, res, req.body);
-      } catch (error) {
-        log.error({ err: error }, 'MCP request error');
-        if (!res.headersSent) {
-          res.status(500).json({ error: 'Internal server error' });
-        }
+      });
+    } catch (error) {
+      log.error({ err: error }, 'MCP request error');
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Internal server error' });
       }
-    });
+    }
   });
 
+  // Server-to-client SSE stream (GET) and explicit termination (DELETE) only
+  // exist for server-managed sessions.
+  const sessionRequest = async (req: express.Request, res: express.Response) => {
+    const sessionId = req.header('mcp-session-id');
+    const session = sessionId ? sessionManager.get(sessionId) : undefined;
+    if (!session) {
+      res.status(sessionId ? 404 : 400).json({
+        jsonrpc: '2.0',
+        error: { code: -32000, message: sessionId ? 'Session not found' : 'Mcp-Session-Id header required' },
+        id: null,
+      });
+      return;
+    }
+    try {
+      await session.transport.handleRequest(req, res);
+    } catch (error) {
+      log.error({ err: error }, 'MCP session request error');
+      if (!res.headersSent) res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+  app.get('/mcp', sessionRequest);
+  app.delete('/mcp', sessionRequest);
+
   app.get('/health', async (_req, res) => {
     const adbAvailable = await deviceManager.getAdbClient().checkAdb();
     let deviceCount = 0;
@@ -107,7 +181,10 @@ async function start(): Promise<void> {
       server: 'android-wifi-mcp',
       version: '1.0.0',
       adb: adbAvailable,
+      adbTransport: adbTransport.name,
       connectedDevices: deviceCount,
+      sessions: sessionManager.size(),
+      leases: deviceManager.getLeases().list(),
       upstreams: upstreamProxy.getStatus(),
     });
   });
@@ -116,6 +193,7 @@ async function start(): Promise<void> {
   deviceObserver.start();
   await initUpstreamProxy();
   installCallRecording(mcpServer, upstreamProxy, deviceObserver);
+  sessionManager.startReaper();
 
   const PORT = process.env.PORT ?? '3000';
   const HOST = process.env.HOST || '0.0.0.0';
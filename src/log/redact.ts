@@ -3,10 +3,16 @@
  * (case-insensitive) against the keys used by tools that take secrets today:
  *
  *   - password, privateKeyPassword           (WPA / EAP / EAP-TLS keystore)
+ *   - passphrase                             (hotspot WPA2/WPA3)
  *   - privateKey                             (EAP-TLS, base64 PEM)
  *   - caCertificate, clientCertificate       (EAP-TLS, base64 PEM blobs —
  *     redacted because they bloat the row, not because they're secret)
  *   - certificate                            (wifi_install_certificate)
+ *   - pkcs12, clientPkcs12 (+ …Password)    (EAP-TLS PKCS#12 bundles)
+ *   - headers, body                          (network_http_request: portal
+ *     logins and auth headers)
+ *   - variables                              (captive_portal_login: vouchers,
+ *     portal credentials)
  *
  * If a future tool adds a new secret-bearing key, add it here. A heuristic
  * match (e.g. /password|secret/i) was rejected to avoid false positives like
@@ -15,11 +21,19 @@
 
 const SENSITIVE_KEYS = new Set([
   'password',
+  'passphrase',
   'privatekey',
   'privatekeypassword',
   'cacertificate',
   'clientcertificate',
   'certificate',
+  'pkcs12',
+  'pkcs12password',
+  'clientpkcs12',
+  'clientpkcs12password',
+  'headers',
+  'body',
+  'variables',
 ]);
 
 const REDACTED = '***';
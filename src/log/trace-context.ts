@@ -28,13 +28,19 @@ export interface TraceContext {
    */
   sampled: boolean;
   /**
-   * Client-provided logical caller id (Phase 2a). Populated by the express
-   * layer from the `X-Caller-Session-Id` request header. null when the
-   * client doesn't send it. NOT the MCP spec's `Mcp-Session-Id` — that's
-   * server-issued and we're stateless. This is purely a label for grouping
-   * tool_calls rows by caller (e.g. two parallel Claude Code windows).
+   * Session the request belongs to, for grouping tool_calls rows by caller
+   * (e.g. two parallel Claude Code windows). Populated by the express layer:
+   * the server-issued `Mcp-Session-Id` for requests inside a stateful MCP
+   * session (so rows join the `sessions` table), otherwise the client-provided
+   * `X-Caller-Session-Id` label (Phase 2a). null when neither applies.
    */
   session_id: string | null;
+  /**
+   * The raw `X-Caller-Session-Id` label, kept even when `session_id` is the
+   * MCP session id. Device leases use it as the owner name. Optional so
+   * contexts built before it existed stay valid.
+   */
+  caller_id?: string | null;
 }
 
 const als = new AsyncLocalStorage<TraceContext>();
@@ -56,6 +62,11 @@ export function getSessionId(): string | null {
   return als.getStore()?.session_id ?? null;
 }
 
+/** Returns the X-Caller-Session-Id label of the active request, or null. */
+export function getCallerId(): string | null {
+  return als.getStore()?.caller_id ?? null;
+}
+
 /**
  * Build a fresh trace context — used when no traceparent header is present.
  * trace_id is 32 hex chars (W3C format, also accepted by Postgres uuid type).
@@ -99,11 +110,9 @@ function readSessionHeader(raw: string | undefined): string | null {
  *  - `X-Caller-Session-Id` (Phase 2a) as a client-provided session label
  *    for grouping tool_calls rows by logical caller. Custom header chosen
  *    deliberately to avoid colliding with the MCP HTTP spec's
- *    `Mcp-Session-Id`, which is server-issued in stateful mode — we're
- *    stateless (the SDK Server is single-transport-per-instance, so true
- *    server-managed sessions would need one McpServer per session,
- *    deferred). Empty / whitespace-only / oversized values are normalized
- *    to null or truncated.
+ *    `Mcp-Session-Id`, which is server-issued (src/index.ts swaps that in
+ *    for requests inside a stateful session). Empty / whitespace-only /
+ *    oversized values are normalized to null or truncated.
  *
  * Exported (rather than living inline in src/index.ts) so the express → ALS
  * wiring has a unit-testable seam.
@@ -113,7 +122,7 @@ export function establishTraceContext(req: { header(name: string): string | unde
   const parsed = parseTraceparent(tp);
   const session_id = readSessionHeader(req.header('x-caller-session-id'));
   if (!parsed) {
-    return { ...newTraceContext(), session_id };
+    return { ...newTraceContext(), session_id, caller_id: session_id };
   }
   return {
     trace_id: parsed.trace_id,
@@ -121,5 +130,6 @@ export function establishTraceContext(req: { header(name: string): string | unde
     trace_flags: parsed.trace_flags,
     sampled: parsed.sampled,
     session_id,
+    caller_id: session_id,
   };
 }
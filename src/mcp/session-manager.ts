@@ -0,0 +1,199 @@
+import { randomUUID } from 'node:crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { recordSession, type SessionRecord } from '../db/writer.js';
+import { logger } from '../log/logger.js';
+import type { DeviceSelection } from '../adb/device-manager.js';
+
+const log = logger.child({ component: 'sessions' });
+
+/** Sessions idle longer than this are closed (override: `MCP_SESSION_IDLE_MS`). */
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+// Touching a session re-upserts its row at most this often, so an active
+// session's `last_active_at` stays fresh without a write per request.
+const TOUCH_PERSIST_INTERVAL_MS = 60 * 1000;
+
+/** What a session has done through one upstream MCP (stored in `upstream_ctx_map`). */
+export interface UpstreamUsage {
+  calls: number;
+  lastTool: string;
+  lastUsedAt: string;
+}
+
+/**
+ * One server-managed MCP session (`Mcp-Session-Id`): its own McpServer +
+ * transport pair, its own selected device, and a record of the upstream MCPs
+ * it has used. Upstream subprocesses themselves stay shared across sessions.
+ */
+export class McpSession implements DeviceSelection {
+  readonly createdAt = new Date();
+  lastActiveAt = new Date();
+  server!: McpServer;
+  transport!: StreamableHTTPServerTransport;
+  private selectedSerial: string | null = null;
+  private upstreamCtx: Record<string, UpstreamUsage> = {};
+  private lastPersistAt = 0;
+
+  constructor(
+    readonly id: string,
+    /** X-Caller-Session-Id of the initializing request, kept in client_info. */
+    readonly callerLabel: string | null,
+    private readonly persist: (session: McpSession) => void
+  ) {}
+
+  getSelectedDevice(): string | null {
+    return this.selectedSerial;
+  }
+
+  selectDevice(serial: string | null): void {
+    if (serial === this.selectedSerial) return;
+    this.selectedSerial = serial;
+    this.save();
+  }
+
+  noteUpstreamCall(upstream: string, tool: string): void {
+    const prev = this.upstreamCtx[upstream];
+    this.upstreamCtx[upstream] = {
+      calls: (prev?.calls ?? 0) + 1,
+      lastTool: tool,
+      lastUsedAt: new Date().toISOString(),
+    };
+    this.save();
+  }
+
+  touch(now: number = Date.now()): void {
+    this.lastActiveAt = new Date(now);
+    if (now - this.lastPersistAt >= TOUCH_PERSIST_INTERVAL_MS) this.save();
+  }
+
+  toRecord(): SessionRecord {
+    return {
+      session_id: this.id,
+      client_info: {
+        ...(this.server?.server.getClientVersion() ?? {}),
+        caller_session_id: this.callerLabel,
+      },
+      selected_serial: this.selectedSerial,
+      upstream_ctx_map: this.upstreamCtx,
+    };
+  }
+
+  /** Persist now. Called on initialize, selection change and upstream use. */
+  save(): void {
+    this.lastPersistAt = Date.now();
+    this.persist(this);
+  }
+}
+
+/**
+ * `MCP_SESSION_IDLE_MS`: unset or blank means the default; anything but a
+ * positive number is a startup error rather than a reaper that never reaps.
+ */
+export function parseSessionIdleMs(raw: string | undefined): number {
+  if (raw === undefined || !raw.trim()) return DEFAULT_SESSION_IDLE_MS;
+  const idleMs = Number(raw);
+  if (!Number.isFinite(idleMs) || idleMs <= 0) {
+    throw new Error(`MCP_SESSION_IDLE_MS must be a positive number of milliseconds, got "${raw}"`);
+  }
+  return idleMs;
+}
+
+export interface SessionManagerOptions {
+  idleMs?: number;
+  recorder?: (session: SessionRecord) => Promise<void>;
+}
+
+/**
+ * Owns the live MCP sessions. The SDK's Server is single-transport, so each
+ * session gets its own McpServer from `buildServer`; everything device-side
+ * (DeviceManager, per-device locks, the observer) stays shared.
+ *
+ * Lifecycle: created by an `initialize` request without a session id,
+ * closed by `DELETE /mcp`, by the transport closing, or after `idleMs`
+ * without a request. Each session is upserted into the `sessions` table
+ * (no-op without DATABASE_URL).
+ */
+export class SessionManager {
+  private sessions = new Map<string, McpSession>();
+  private reaper: NodeJS.Timeout | null = null;
+  private readonly idleMs: number;
+  private readonly recorder: (session: SessionRecord) => Promise<void>;
+
+  constructor(
+    private readonly buildServer: (session: McpSession) => McpServer,
+    options: SessionManagerOptions = {}
+  ) {
+    this.idleMs = options.idleMs ?? DEFAULT_SESSION_IDLE_MS;
+    this.recorder = options.recorder ?? recordSession;
+  }
+
+  /**
+   * Create a session and connect its server. The id is minted here rather
+   * than by the transport so the server (which needs the session as its
+   * device selection) can be built before connect. The session is only
+   * registered once the transport accepts the initialize request.
+   */
+  async open(callerLabel: string | null): Promise<McpSession> {
+    const id = randomUUID();
+    const session = new McpSession(id, callerLabel, (s) => {
+      void this.recorder(s.toRecord()).catch((err) => log.warn({ err }, 'session recorder threw'));
+    });
+    session.transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => id,
+      onsessioninitialized: () => {
+        this.sessions.set(id, session);
+        log.info({ session: id, caller: callerLabel }, 'session opened');
+      },
+    });
+    session.transport.onclose = () => {
+      if (this.sessions.delete(id)) log.info({ session: id }, 'session closed');
+    };
+    session.server = this.buildServer(session);
+    session.server.server.oninitialized = () => session.save();
+    await session.server.connect(session.transport);
+    return session;
+  }
+
+  /** Look up a live session and mark it active. */
+  get(id: string): McpSession | undefined {
+    const session = this.sessions.get(id);
+    session?.touch();
+    return session;
+  }
+
+  size(): number {
+    return this.sessions.size;
+  }
+
+  async close(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    this.sessions.delete(id);
+    await session.server.close().catch((err) => log.warn({ err, session: id }, 'session close failed'));
+  }
+
+  /** Close sessions idle for longer than `idleMs`. Returns the ids closed. */
+  async reapIdle(now: number = Date.now()): Promise<string[]> {
+    const idle = [...this.sessions.values()]
+      .filter((s) => now - s.lastActiveAt.getTime() > this.idleMs)
+      .map((s) => s.id);
+    for (const id of idle) {
+      log.info({ session: id }, 'closing idle session');
+      await this.close(id);
+    }
+    return idle;
+  }
+
+  startReaper(): void {
+    if (this.reaper) return;
+    this.reaper = setInterval(() => void this.reapIdle(), Math.min(this.idleMs, 60_000));
+    this.reaper.unref();
+  }
+
+  async closeAll(): Promise<void> {
+    if (this.reaper) clearInterval(this.reaper);
+    this.reaper = null;
+    await Promise.all([...this.sessions.keys()].map((id) => this.close(id)));
+  }
+}
@@ -236,10 +236,13 @@ export class UpstreamProxy {
    * tools/call request handlers. The original handlers are preserved and
    * called for native tools.
    *
+   * `onUpstreamCall` fires before each forwarded call with the upstream's
+   * name — MCP sessions use it to track which upstreams they have touched.
+   *
    * This reaches into the SDK's private `_requestHandlers` Map. If the SDK
    * changes that surface, this method needs an update.
    */
-  attach(mcpServer: McpServer): void {
+  attach(mcpServer: McpServer, onUpstreamCall?: (upstream: string, tool: string) => void): void {
     /* eslint-disable @typescript-eslint/no-explicit-any */
     const server = mcpServer.server;
     const handlers = (server as any)._requestHandlers as Map<
@@ -263,6 +266,7 @@ export class UpstreamProxy {
     server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const name = request.params.name;
       if (this.hasTool(name)) {
+        onUpstreamCall?.(this.toolToUpstream.get(name)!, name);
         return (await this.callTool(
           name,
           (request.params.arguments as Record<string, unknown>) ?? {}
@@ -0,0 +1,528 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { load as loadYaml } from 'js-yaml';
+import { z } from 'zod';
+import { AdbClient } from '../adb/adb-client.js';
+import { WifiCommands } from '../adb/wifi-commands.js';
+import { SmsCommands } from '../adb/sms-commands.js';
+import { NotificationCommands } from '../adb/notifications-commands.js';
+import { NetworkCheck } from './network-check.js';
+import {
+  HttpProbeMethod,
+  HttpProbeResult,
+  PortalLoginResult,
+  PortalOpenStep,
+  PortalOtpStep,
+  PortalRecipe,
+  PortalRequestStep,
+  PortalStep,
+  PortalStepResult,
+  PortalValidationStep,
+} from '../types.js';
+
+const DEFAULT_PROBE_URL = 'http://connectivitycheck.gstatic.com/generate_204';
+const DEFAULT_PORTAL_BODY_BYTES = 65_536;
+const DEFAULT_OTP_TIMEOUT_MS = 60_000;
+const DEFAULT_VALIDATION_TIMEOUT_MS = 60_000;
+const DEFAULT_VALIDATION_POLL_MS = 3_000;
+const MAX_PORTAL_REDIRECTS = 10;
+// Slack on the default OTP look-back so a message that lands as the run starts still counts.
+const OTP_LOOKBACK_MARGIN_S = 5;
+const VARIABLE = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+const stepBase = {
+  name: z.string().optional().describe('Label shown in the step report'),
+  optional: z.boolean().optional().describe('Report a failure but keep going'),
+};
+
+export const portalStepSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('open'),
+    ...stepBase,
+    url: z.string().optional().describe(`Probe URL the portal intercepts (default ${DEFAULT_PROBE_URL}); sets {{portalUrl}}`),
+  }).strict(),
+  z.object({
+    type: z.literal('request'),
+    ...stepBase,
+    url: z.string().optional().describe('URL, relative to the last page (default {{portalUrl}})'),
+    method: z.enum(['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']).optional().describe('Default POST with form/body, else GET'),
+    headers: z.record(z.string()).optional(),
+    form: z.record(z.string()).optional().describe('Fields sent as application/x-www-form-urlencoded'),
+    body: z.string().optional(),
+    expectStatus: z.array(z.number().int()).optional().describe('Accepted final status codes (default any 2xx)'),
+    expectBody: z.string().optional().describe('Regex the final body must match'),
+    extract: z
+      .record(z.union([z.string(), z.object({ pattern: z.string(), from: z.enum(['body', 'url']).optional() }).strict()]))
+      .optional()
+      .describe('Variables to capture: name → regex (group 1) against the body, or { pattern, from: "url" }'),
+    maxBodyBytes: z.number().int().min(0).max(1_048_576).optional(),
+  }).strict(),
+  z.object({
+    type: z.literal('wait_for_otp'),
+    ...stepBase,
+    source: z.enum(['sms', 'notification']),
+    senderFilter: z.string().optional(),
+    packageFilter: z.string().optional(),
+    bodyRegex: z.string().optional(),
+    sinceSeconds: z.number().optional().describe('Look-back window (default: since the run started)'),
+    timeoutMs: z.number().int().min(0).optional(),
+    variable: z.string().optional().describe('Variable the OTP is stored in (default otp)'),
+  }).strict(),
+  z.object({
+    type: z.literal('check_validation'),
+    ...stepBase,
+    timeoutMs: z.number().int().min(0).optional(),
+    pollIntervalMs: z.number().int().min(100).optional(),
+  }).strict(),
+  z.object({
+    type: z.literal('wait'),
+    ...stepBase,
+    ms: z.number().int().min(0),
+  }).strict(),
+]);
+
+export const portalRecipeSchema: z.ZodType<PortalRecipe> = z
+  .object({
+    name: z.string().optional(),
+    ssid: z.string().optional().describe('SSID the recipe is for; the run stops if the phone is elsewhere'),
+    variables: z.record(z.string()).optional().describe('Default variable values'),
+    steps: z.array(portalStepSchema).min(1),
+  })
+  .strict();
+
+export interface PortalLoginOptions {
+  /** Inline recipe; wins over `recipePath`. */
+  recipe?: unknown;
+  /** JSON or YAML recipe file on the host. */
+  recipePath?: string;
+  /** `{{name}}` values — vouchers, credentials — over the recipe's defaults. */
+  variables?: Record<string, string>;
+}
+
+/** What a `PORTAL_RECIPES_DIR` lookup found, and the files it had to pass over. */
+export interface PortalRecipeLookup {
+  recipe?: PortalRecipe;
+  path?: string;
+  /** The read or validation error of each file passed over. */
+  skipped: string[];
+}
+
+interface PortalRun {
+  variables: Record<string, string>;
+  cookies: Array<{ domain: string; name: string; value: string }>;
+  startedAt: number;
+  lastUrl?: string;
+  alreadyOnline: boolean;
+}
+
+type StepOutcome = Omit<PortalStepResult, 'index' | 'type' | 'name' | 'durationMs'>;
+
+/**
+ * Runs a declarative captive-portal login: a recipe of steps (open the
+ * portal, submit forms, wait for an OTP, re-check validation) executed
+ * against the phone's Wi-Fi network and reported step by step, so a guest
+ * portal can be regression-tested without anyone driving a browser.
+ *
+ * HTTP steps go through the companion app's HTTP_REQUEST (see
+ * {@link NetworkCheck.httpRequest}) one hop at a time, so cookies set on a
+ * redirect are kept for the next request, as a browser would.
+ */
+export class CaptivePortalLogin {
+  private wifi: WifiCommands;
+  private sms: SmsCommands;
+  private notifications: NotificationCommands;
+  private networkCheck: NetworkCheck;
+
+  constructor(adb: AdbClient, wifi: WifiCommands, sms: SmsCommands, notifications: NotificationCommands) {
+    this.wifi = wifi;
+    this.sms = sms;
+    this.notifications = notifications;
+    this.networkCheck = new NetworkCheck(adb);
+  }
+
+  /**
+   * Resolve the recipe — inline, from `recipePath`, or the one in
+   * `PORTAL_RECIPES_DIR` for the connected SSID — and run it.
+   */
+  async login(options: PortalLoginOptions = {}): Promise<PortalLoginResult> {
+    const startedAt = Date.now();
+    const status = await this.wifi.getStatus();
+    const ssid = status.connected ? status.ssid : undefined;
+    const fail = (error: string, recipe?: string): PortalLoginResult => ({
+      success: false,
+      ...(recipe && { recipe }),
+      ...(ssid && { ssid }),
+      steps: [],
+      durationMs: Date.now() - startedAt,
+      error,
+    });
+
+    let recipe: PortalRecipe;
+    let source: string;
+    let skipped: string[] = [];
+    try {
+      if (options.recipe !== undefined) {
+        recipe = parsePortalRecipe(options.recipe);
+        source = recipe.name ?? 'inline recipe';
+      } else if (options.recipePath) {
+        recipe = loadPortalRecipe(options.recipePath);
+        source = recipe.name ?? options.recipePath;
+      } else {
+        if (!ssid) return fail('Not connected to Wi-Fi: pass a recipe or recipePath');
+        const found = findPortalRecipe(ssid);
+        skipped = found?.skipped ?? [];
+        if (!found?.recipe || !found.path) {
+          const why = skipped.length ? ` (skipped ${skipped.join('; ')})` : '';
+          return fail(`No portal recipe for "${ssid}" in PORTAL_RECIPES_DIR${why}`);
+        }
+        recipe = found.recipe;
+        source = recipe.name ?? found.path;
+      }
+    } catch (err) {
+      return fail(err instanceof Error ? err.message : String(err));
+    }
+
+    if (recipe.ssid && recipe.ssid !== ssid) {
+      return fail(`Recipe is for "${recipe.ssid}" but the phone is ${ssid ? `on "${ssid}"` : 'not connected to Wi-Fi'}`, source);
+    }
+    const result = await this.run(recipe, options.variables ?? {}, ssid, startedAt);
+    return { ...result, recipe: source, ...(skipped.length > 0 && { skippedRecipes: skipped }) };
+  }
+
+  /** Run `recipe` step by step, stopping at the first non-optional failure. */
+  async run(
+    recipe: PortalRecipe,
+    variables: Record<string, string> = {},
+    ssid?: string,
+    startedAt: number = Date.now()
+  ): Promise<PortalLoginResult> {
+    const run: PortalRun = {
+      variables: { ...recipe.variables, ...variables, ...(ssid && { ssid }) },
+      cookies: [],
+      startedAt,
+      alreadyOnline: false,
+    };
+    const steps: PortalStepResult[] = [];
+    let error: string | undefined;
+
+    for (const [index, step] of recipe.steps.entries()) {
+      const head = { index, type: step.type, ...(step.name && { name: step.name }) };
+      const skip = run.alreadyOnline && step.type !== 'check_validation';
+      if (error || skip) {
+        steps.push({ ...head, success: skip, skipped: true, durationMs: 0 });
+        continue;
+      }
+
+      const stepStart = Date.now();
+      let outcome: StepOutcome;
+      try {
+        outcome = await this.runStep(step, run);
+      } catch (err) {
+        outcome = { success: false, error: err instanceof Error ? err.message : String(err) };
+      }
+      steps.push({ ...head, ...outcome, durationMs: Date.now() - stepStart });
+      if (!outcome.success && !step.optional) {
+        error = `Step ${index + 1}${step.name ? ` (${step.name})` : ''} failed: ${outcome.error}`;
+      }
+    }
+
+    return {
+      success: !error,
+      ...(ssid && { ssid }),
+      ...(run.alreadyOnline && { alreadyOnline: true }),
+      steps,
+      durationMs: Date.now() - startedAt,
+      ...(error && { error }),
+    };
+  }
+
+  private runStep(step: PortalStep, run: PortalRun): Promise<StepOutcome> {
+    switch (step.type) {
+      case 'open':
+        return this.open(step, run);
+      case 'request':
+        return this.request(step, run);
+      case 'wait_for_otp':
+        return this.waitForOtp(step, run);
+      case 'check_validation':
+        return this.checkValidation(step);
+      case 'wait':
+        return sleep(step.ms).then(() => ({ success: true, detail: `Waited ${step.ms} ms` }));
+    }
+  }
+
+  private async open(step: PortalOpenStep, run: PortalRun): Promise<StepOutcome> {
+    const url = resolveUrl(renderTemplate(step.url ?? DEFAULT_PROBE_URL, run.variables));
+    const page = await this.fetch(run, { url, method: 'GET' }, DEFAULT_PORTAL_BODY_BYTES);
+    if (!page.success) return { success: false, url, error: page.error };
+
+    const finalUrl = page.finalUrl ?? url;
+    if (page.status === 204) {
+      run.alreadyOnline = true;
+      return { success: true, url: finalUrl, status: 204, detail: 'Probe returned 204: no portal, the network is already open' };
+    }
+    run.variables.portalUrl = finalUrl;
+    run.lastUrl = finalUrl;
+    return { success: true, url: finalUrl, status: page.status, detail: `Portal page ${finalUrl}${hops(page)}` };
+  }
+
+  private async request(step: PortalRequestStep, run: PortalRun): Promise<StepOutcome> {
+    const url = resolveUrl(renderTemplate(step.url ?? '{{portalUrl}}', run.variables), run.lastUrl);
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(step.headers ?? {})) headers[name] = renderTemplate(value, run.variables);
+    let body = step.body === undefined ? undefined : renderTemplate(step.body, run.variables);
+    if (step.form) {
+      body = new URLSearchParams(
+        Object.entries(step.form).map(([name, value]) => [name, renderTemplate(value, run.variables)])
+      ).toString();
+      if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+        headers['Content-Type'] = 'application/x-www-form-urlencoded';
+      }
+    }
+    const method = step.method ?? (body === undefined ? 'GET' : 'POST');
+
+    const page = await this.fetch(run, { url, method, headers, body }, step.maxBodyBytes ?? DEFAULT_PORTAL_BODY_BYTES);
+    if (!page.success) return { success: false, url, error: page.error };
+    const finalUrl = page.finalUrl ?? url;
+    run.lastUrl = finalUrl;
+    const seen = { url: finalUrl, status: page.status };
+
+    const status = page.status ?? 0;
+    const statusOk = step.expectStatus ? step.expectStatus.includes(status) : status >= 200 && status < 300;
+    if (!statusOk) {
+      const expected = step.expectStatus ? ` (expected ${step.expectStatus.join(' or ')})` : '';
+      return { ...seen, success: false, error: `Unexpected status ${status}${expected}` };
+    }
+    if (step.expectBody && !new RegExp(step.expectBody).test(page.body ?? '')) {
+      return { ...seen, success: false, error: `Body does not match /${step.expectBody}/` };
+    }
+
+    const extracted: string[] = [];
+    for (const [name, spec] of Object.entries(step.extract ?? {})) {
+      const { pattern, from = 'body' } = typeof spec === 'string' ? { pattern: spec } : spec;
+      const match = (from === 'url' ? finalUrl : page.body ?? '').match(new RegExp(pattern));
+      if (!match) return { ...seen, success: false, error: `Extract ${name}: /${pattern}/ did not match the ${from}` };
+      run.variables[name] = match[1] ?? match[0];
+      extracted.push(name);
+    }
+    const captured = extracted.length > 0 ? `; extracted ${extracted.join(', ')}` : '';
+    return { ...seen, success: true, detail: `${method} → HTTP ${status}${hops(page)}${captured}` };
+  }
+
+  private async waitForOtp(step: PortalOtpStep, run: PortalRun): Promise<StepOutcome> {
+    const timeoutMs = step.timeoutMs ?? DEFAULT_OTP_TIMEOUT_MS;
+    const sinceSeconds = step.sinceSeconds ?? Math.ceil((Date.now() - run.startedAt) / 1000) + OTP_LOOKBACK_MARGIN_S;
+    let otp: string | undefined;
+    let from: string | undefined;
+    let warning: string | undefined;
+    if (step.source === 'sms') {
+      const r = await this.sms.waitForOtp({ senderFilter: step.senderFilter, bodyRegex: step.bodyRegex, sinceSeconds, timeoutMs });
+      if (r.found) ({ otp, sender: from } = r);
+      warning = r.warning;
+    } else {
+      const r = await this.notifications.waitForOtp({ packageFilter: step.packageFilter, bodyRegex: step.bodyRegex, sinceSeconds, timeoutMs });
+      if (r.found) ({ otp, packageName: from } = r);
+      warning = r.warning;
+    }
+    if (!otp) {
+      const what = step.source === 'sms' ? 'SMS' : 'notification';
+      return { success: false, error: `No OTP ${what} within ${timeoutMs} ms${warning ? ` (${warning})` : ''}` };
+    }
+    run.variables[step.variable ?? 'otp'] = otp;
+    return { success: true, detail: `OTP ${otp}${from ? ` from ${from}` : ''}` };
+  }
+
+  /** Poll Android's own verdict until it calls the network validated. */
+  private async checkValidation(step: PortalValidationStep): Promise<StepOutcome> {
+    const timeoutMs = step.timeoutMs ?? DEFAULT_VALIDATION_TIMEOUT_MS;
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const verdict = await this.networkCheck.checkCaptivePortal();
+      if (verdict.status === 'open') return { success: true, detail: 'Android reports the network as validated' };
+      if (Date.now() >= deadline) {
+        const why = verdict.error ? ` — ${verdict.error}` : '';
+        return { success: false, error: `Not validated after ${timeoutMs} ms (last verdict: ${verdict.status}${why})` };
+      }
+      await sleep(step.pollIntervalMs ?? DEFAULT_VALIDATION_POLL_MS);
+    }
+  }
+
+  /**
+   * One logical request, following redirects here rather than on the phone
+   * so every hop's Set-Cookie reaches the jar. 303, and 301/302 after a POST,
+   * continue as GET — the same rule the companion applies.
+   */
+  private async fetch(
+    run: PortalRun,
+    request: { url: string; method: HttpProbeMethod; headers?: Record<string, string>; body?: string },
+    maxBodyBytes: number
+  ): Promise<HttpProbeResult> {
+    let { url, method, headers, body } = request;
+    const redirects: HttpProbeResult['redirects'] = [];
+    for (;;) {
+      const cookie = cookieHeader(run.cookies, url);
+      const page = await this.networkCheck.httpRequest({
+        url,
+        method,
+        headers: cookie ? { ...headers, Cookie: cookie } : headers,
+        body,
+        followRedirects: false,
+        maxBodyBytes,
+      });
+      if (!page.success) return { ...page, redirects };
+      storeCookies(run.cookies, url, page.headers?.['set-cookie']);
+
+      const location = page.headers?.location;
+      const status = page.status ?? 0;
+      if (status < 300 || status > 399 || !location) return { ...page, url: request.url, finalUrl: url, redirects };
+      if (redirects.length >= MAX_PORTAL_REDIRECTS) {
+        return { success: false, url: request.url, redirects, error: `More than ${MAX_PORTAL_REDIRECTS} redirects` };
+      }
+      const next = new URL(location, url).toString();
+      redirects.push({ url, status, location: next });
+      if (status === 303 || ((status === 301 || status === 302) && method === 'POST')) {
+        method = 'GET';
+        body = undefined;
+        headers = Object.fromEntries(Object.entries(headers ?? {}).filter(([name]) => name.toLowerCase() !== 'content-type'));
+      }
+      url = next;
+    }
+  }
+}
+
+/**
+ * Validate a recipe (already parsed from JSON), including that its regexes
+ * compile. Throws with the path of the first problem, e.g.
+ * `steps.2.url: Required`.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function parsePortalRecipe(value: unknown, source: string = 'recipe'): PortalRecipe {
+  const parsed = portalRecipeSchema.safeParse(value);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid portal recipe (${source}): ${issue.path.join('.') || 'recipe'}: ${issue.message}`);
+  }
+  const recipe = parsed.data;
+  for (const [index, step] of recipe.steps.entries()) {
+    const patterns: Array<[string, string | undefined]> = [];
+    if (step.type === 'request') {
+      patterns.push(['expectBody', step.expectBody]);
+      for (const [name, spec] of Object.entries(step.extract ?? {})) {
+        patterns.push([`extract.${name}`, typeof spec === 'string' ? spec : spec.pattern]);
+      }
+    } else if (step.type === 'wait_for_otp') {
+      patterns.push(['senderFilter', step.senderFilter], ['packageFilter', step.packageFilter], ['bodyRegex', step.bodyRegex]);
+    }
+    for (const [field, pattern] of patterns) {
+      if (pattern === undefined) continue;
+      try {
+        new RegExp(pattern);
+      } catch (err) {
+        throw new Error(`Invalid portal recipe (${source}): steps.${index}.${field}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+  return recipe;
+}
+
+const YAML_FILE = /\.ya?ml$/i;
+
+/** Read and validate a recipe file: YAML for `.yml`/`.yaml`, JSON otherwise. */
+export function loadPortalRecipe(path: string): PortalRecipe {
+  let data: unknown;
+  try {
+    const text = readFileSync(path, 'utf-8');
+    data = YAML_FILE.test(path) ? loadYaml(text) : JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Cannot read portal recipe ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return parsePortalRecipe(data, path);
+}
+
+/**
+ * The recipe for `ssid` among the `*.json`, `*.yml` and `*.yaml` files in
+ * `dir` (default `PORTAL_RECIPES_DIR`); undefined without a directory. A
+ * file that doesn't load or validate is skipped and listed, so one broken
+ * recipe doesn't take down the lookup for every other SSID.
+ */
+export function findPortalRecipe(
+  ssid: string,
+  dir: string | undefined = process.env.PORTAL_RECIPES_DIR
+): PortalRecipeLookup | undefined {
+  if (!dir) return undefined;
+  const skipped: string[] = [];
+  const files = readdirSync(dir)
+    .filter(file => /\.json$/i.test(file) || YAML_FILE.test(file))
+    .sort();
+  for (const file of files) {
+    const path = join(dir, file);
+    let recipe: PortalRecipe;
+    try {
+      recipe = loadPortalRecipe(path);
+    } catch (err) {
+      skipped.push(err instanceof Error ? err.message : String(err));
+      continue;
+    }
+    if (recipe.ssid === ssid) return { recipe, path, skipped };
+  }
+  return { skipped };
+}
+
+/**
+ * Substitute `{{name}}` placeholders. An unknown name throws rather than
+ * sending a literal `{{voucher}}` to the portal.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(VARIABLE, (_match, name: string) => {
+    const value = variables[name];
+    if (value === undefined) throw new Error(`Unknown variable {{${name}}} (pass it in variables)`);
+    return value;
+  });
+}
+
+function resolveUrl(url: string, base?: string): string {
+  try {
+    return new URL(url, base).toString();
+  } catch {
+    throw new Error(`Invalid URL "${url}"${base ? '' : ' (relative URLs need an earlier open or request step)'}`);
+  }
+}
+
+function hops(page: HttpProbeResult): string {
+  const n = page.redirects.length;
+  return n > 0 ? ` after ${n} redirect${n === 1 ? '' : 's'}` : '';
+}
+
+/**
+ * The companion joins repeated headers with ", ", which also appears inside
+ * `Expires=Wed, 21 Oct …`; split only where a new `name=` follows.
+ */
+function storeCookies(jar: PortalRun['cookies'], url: string, header: string | undefined): void {
+  if (!header) return;
+  const host = new URL(url).hostname;
+  for (const cookie of header.split(/,\s*(?=[^;,\s=]+=)/)) {
+    const [pair, ...attributes] = cookie.split(';');
+    const eq = pair.indexOf('=');
+    if (eq <= 0) continue;
+    const name = pair.slice(0, eq).trim();
+    const value = pair.slice(eq + 1).trim();
+    const domainAttr = attributes.map(a => a.trim()).find(a => /^domain=/i.test(a));
+    const domain = domainAttr ? domainAttr.slice(7).replace(/^\./, '').toLowerCase() : host;
+    const existing = jar.findIndex(c => c.domain === domain && c.name === name);
+    if (existing >= 0) jar.splice(existing, 1);
+    jar.push({ domain, name, value });
+  }
+}
+
+function cookieHeader(jar: PortalRun['cookies'], url: string): string | undefined {
+  const host = new URL(url).hostname;
+  const cookies = jar.filter(c => host === c.domain || host.endsWith(`.${c.domain}`));
+  return cookies.length > 0 ? cookies.map(c => `${c.name}=${c.value}`).join('; ') : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
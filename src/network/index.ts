@@ -1 +1,3 @@
 export { NetworkCheck } from './network-check.js';
+export { CaptivePortalLogin } from './captive-portal-login.js';
+export { ThroughputTest } from './throughput.js';
@@ -1,11 +1,56 @@
 import { AdbClient } from '../adb/adb-client.js';
+import { CompanionAppBridge, COMPANION_PACKAGE } from '../adb/companion-bridge.js';
+import { inspectCertificates } from '../adb/certificates.js';
 import {
   PingResult,
   DnsResult,
   ConnectivityResult,
   CaptivePortalResult,
+  CertificateInfo,
+  HttpProbeRequest,
+  HttpProbeResult,
+  HttpProbeTiming,
+  MtuProbe,
+  MtuProbeResult,
+  PathReport,
+  TracerouteHop,
+  TracerouteResult,
+  ValidationSample,
+  ValidationState,
+  ValidationTransition,
+  ValidationWatchResult,
 } from '../types.js';
 
+const HTTP_PROBE_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+const DEFAULT_HTTP_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_REDIRECTS = 5;
+// The companion gives up on a request, redirects included, after this long
+// (HttpProbe.BUDGET_MS), so its answer lands inside the broadcast window.
+const HTTP_BUDGET_MS = 50_000;
+// Time the companion needs beyond the request's own timeouts to answer.
+const HTTP_RESULT_MARGIN_MS = 10_000;
+const VALIDATION_CAPABILITIES = ['CAPTIVE_PORTAL', 'PARTIAL_CONNECTIVITY', 'VALIDATED'];
+// Give up on a ping traceroute after this many hops in a row stay silent.
+const TRACEROUTE_MAX_SILENT_HOPS = 5;
+// `traceroute -q 1 -w 2` waits up to 2 s per hop; the margin covers DNS and adb.
+const TRACEROUTE_HOP_WAIT_MS = 2_000;
+const TRACEROUTE_MARGIN_MS = 10_000;
+// IPv4 header + ICMP echo header: ping -s N sends an N + 28 byte packet.
+const ICMP_OVERHEAD_BYTES = 28;
+// Smallest MTU every IPv4 path must carry (RFC 791).
+const MIN_IPV4_MTU = 576;
+const STANDARD_MTU = 1500;
+
+export interface ValidationWatchOptions {
+  durationMs: number;
+  intervalMs?: number;
+  /** End the window at the first transition into VALIDATED. */
+  untilValidated?: boolean;
+  includeSamples?: boolean;
+  /** Runs each poll — e.g. under the device lock, so other calls interleave between polls. */
+  exclusive?: <T>(poll: () => Promise<T>) => Promise<T>;
+}
+
 export class NetworkCheck {
   private adb: AdbClient;
 
@@ -72,6 +117,167 @@ export class NetworkCheck {
     return dnsResult;
   }
 
+  /**
+   * Trace the route to `host`. Uses the device's `traceroute` when it has
+   * one; stock Android doesn't, so the fallback steps `ping -t` from TTL 1
+   * up, reading each "Time to live exceeded" sender as a hop, then pings
+   * each hop directly for its round-trip time. A binary run that times out
+   * or never reaches the destination keeps the hops it printed and says so
+   * in `error`.
+   */
+  async traceroute(host: string, maxHops: number = 20): Promise<TracerouteResult> {
+    const binary = await this.adb.shell('command -v traceroute');
+    if (binary.success && binary.stdout.trim()) {
+      const result = await this.adb.shell(
+        `traceroute -n -q 1 -w 2 -m ${maxHops} ${shQuote(host)}`,
+        maxHops * TRACEROUTE_HOP_WAIT_MS + TRACEROUTE_MARGIN_MS
+      );
+      if (result.stdout.trim()) {
+        const parsed = parseTracerouteOutput(result.stdout);
+        const error = parsed.reached
+          ? undefined
+          : !result.success && result.stderr
+            ? `Incomplete after ${parsed.hops.length} hops: ${result.stderr}`
+            : `Did not reach ${host} within ${maxHops} hops`;
+        return { host, method: 'traceroute', ...parsed, ...(error && { error }) };
+      }
+    }
+
+    const hops: TracerouteHop[] = [];
+    let address: string | undefined;
+    let reached = false;
+    let error: string | undefined;
+    let silent = 0;
+    for (let ttl = 1; ttl <= maxHops; ttl++) {
+      const result = await this.adb.shell(`ping -n -c 1 -W 2 -t ${ttl} ${shQuote(host)}`);
+      const probe = parsePingProbe(`${result.stdout}\n${result.stderr}`);
+      address ??= probe.target;
+      if (!address) {
+        error = result.stderr.trim() || result.stdout.trim() || `Cannot ping ${host}`;
+        break;
+      }
+      if (probe.replyFrom) {
+        hops.push({ ttl, address: probe.replyFrom, ...(probe.rttMs !== undefined && { rttMs: probe.rttMs }) });
+        reached = true;
+        break;
+      }
+      hops.push({ ttl, ...(probe.exceededFrom && { address: probe.exceededFrom }) });
+      silent = probe.exceededFrom ? 0 : silent + 1;
+      if (silent >= TRACEROUTE_MAX_SILENT_HOPS) {
+        error = `Stopped after ${silent} hops in a row without a reply`;
+        break;
+      }
+    }
+
+    for (const hop of hops) {
+      if (!hop.address || hop.rttMs !== undefined) continue;
+      const result = await this.adb.shell(`ping -n -c 1 -W 1 ${shQuote(hop.address)}`);
+      const rttMs = parsePingProbe(result.stdout).rttMs;
+      if (rttMs !== undefined) hop.rttMs = rttMs;
+    }
+
+    return { host, ...(address && { address }), method: 'ping', reached, hops, ...(error && { error }) };
+  }
+
+  /**
+   * Find the path MTU to `host` by bisecting the size of don't-fragment
+   * pings between the IPv4 minimum and `maxMtu`. A "Frag needed" or local
+   * "message too long" reply names the MTU, which is tried first.
+   */
+  async mtuProbe(host: string, maxMtu: number = STANDARD_MTU): Promise<MtuProbeResult> {
+    const probes: MtuProbe[] = [];
+    let localMtu: number | undefined;
+    const probe = async (size: number): Promise<MtuProbe> => {
+      const result = await this.adb.shell(`ping -n -c 1 -W 2 -M do -s ${size} ${shQuote(host)}`);
+      const parsed = parsePingProbe(`${result.stdout}\n${result.stderr}`);
+      if (parsed.localMtu) localMtu = parsed.localMtu;
+      const entry: MtuProbe = { size, ok: !!parsed.replyFrom, ...(parsed.mtu && { mtuHint: parsed.mtu }) };
+      probes.push(entry);
+      return entry;
+    };
+    const done = (pathMtu?: number, error?: string): MtuProbeResult => ({
+      host,
+      ...(pathMtu && { pathMtu }),
+      ...(localMtu && { localMtu }),
+      probes,
+      ...(error && { error }),
+    });
+
+    // lo: largest payload known to pass; hi: smallest known to fail.
+    let lo = MIN_IPV4_MTU - ICMP_OVERHEAD_BYTES;
+    let hi = maxMtu - ICMP_OVERHEAD_BYTES;
+    if (!(await probe(lo)).ok) return done(undefined, `No reply from ${host} to a ${MIN_IPV4_MTU}-byte don't-fragment ping`);
+    const top = await probe(hi);
+    if (top.ok) return done(maxMtu);
+    if (top.mtuHint) {
+      // Whoever refused the packet named its MTU: anything larger fails there too.
+      const hinted = top.mtuHint - ICMP_OVERHEAD_BYTES;
+      if (hinted > lo && hinted < hi) {
+        if ((await probe(hinted)).ok) return done(top.mtuHint);
+        hi = hinted;
+      }
+    }
+    while (hi - lo > 1) {
+      const mid = Math.floor((lo + hi) / 2);
+      if ((await probe(mid)).ok) lo = mid;
+      else hi = mid;
+    }
+    return done(lo + ICMP_OVERHEAD_BYTES);
+  }
+
+  /**
+   * One-shot path health check from the phone: gateway reachability, DNS,
+   * the first hop toward `target` and its latency, and the path MTU, with
+   * the problems found spelled out in `issues`.
+   */
+  async pathReport(target: string = '8.8.8.8', hostname: string = 'connectivitycheck.gstatic.com'): Promise<PathReport> {
+    const info = await this.getInterfaceInfo();
+    const issues: string[] = [];
+
+    let gateway: PathReport['gateway'];
+    if (info.gateway) {
+      const ping = await this.ping(info.gateway, 3);
+      gateway = {
+        address: info.gateway,
+        alive: ping.alive,
+        ...(ping.time !== undefined && { rttMs: ping.time }),
+        ...(ping.packetLoss !== undefined && { packetLoss: ping.packetLoss }),
+      };
+      if (!ping.alive) issues.push(`Gateway ${info.gateway} does not answer ping`);
+      else if (ping.packetLoss) issues.push(`${ping.packetLoss}% packet loss to the gateway`);
+    } else {
+      issues.push('No default gateway (not connected?)');
+    }
+
+    const dns = await this.dnsLookup(hostname);
+    if (dns.error) {
+      const servers = info.dns?.length ? ` via ${info.dns.join(', ')}` : '';
+      issues.push(`DNS lookup of ${hostname} failed${servers}`);
+    }
+
+    const trace = await this.traceroute(target, 1);
+    const firstHop = trace.hops[0];
+    if (firstHop && !firstHop.address) issues.push(`First hop toward ${target} did not answer`);
+
+    const mtu = await this.mtuProbe(target);
+    if (mtu.error) issues.push(mtu.error);
+    else if (mtu.pathMtu && mtu.pathMtu < STANDARD_MTU) {
+      issues.push(`Path MTU to ${target} is ${mtu.pathMtu}, below ${STANDARD_MTU}: large packets need fragmentation or working PMTU discovery`);
+    }
+
+    return {
+      target,
+      interface: info.interface,
+      ...(info.ipAddress && { ipAddress: info.ipAddress }),
+      ...(info.dns && { dnsServers: info.dns }),
+      ...(gateway && { gateway }),
+      dns,
+      ...(firstHop && { firstHop }),
+      mtu,
+      issues,
+    };
+  }
+
   /**
    * Check internet connectivity.
    *
@@ -162,6 +368,88 @@ export class NetworkCheck {
     };
   }
 
+  /**
+   * Make an HTTP(S) request from the phone over its Wi-Fi network (companion
+   * app), even when that network is captive or unvalidated and the default
+   * route is cellular. Redirects are followed hop by hop and reported, and
+   * the TLS chain the server presented is parsed here.
+   */
+  async httpRequest(request: HttpProbeRequest): Promise<HttpProbeResult> {
+    const invalid = httpProbeRequestError(request);
+    if (invalid) return { success: false, url: request.url, redirects: [], error: invalid };
+
+    const installed = await this.adb.shell(`pm list packages | grep ${COMPANION_PACKAGE}`);
+    if (!installed.stdout.includes(COMPANION_PACKAGE)) {
+      return { success: false, url: request.url, redirects: [], error: `Companion app not installed. Please install ${COMPANION_PACKAGE}` };
+    }
+
+    const hops = (request.followRedirects === false ? 0 : request.maxRedirects ?? DEFAULT_MAX_REDIRECTS) + 1;
+    const bridge = new CompanionAppBridge(this.adb, {
+      resultTimeoutMs: Math.min(hops * (request.timeoutMs ?? DEFAULT_HTTP_TIMEOUT_MS), HTTP_BUDGET_MS) + HTTP_RESULT_MARGIN_MS,
+      pollIntervalMs: 300,
+    });
+    const { raw, broadcastError } = await bridge.sendBroadcastAndWait('HTTP_REQUEST', {
+      action: 'http_request',
+      timestamp: Date.now(),
+      ...request,
+    });
+    if (broadcastError) return { success: false, url: request.url, redirects: [], error: `Failed to send broadcast: ${broadcastError}` };
+    if (!raw) return { success: false, url: request.url, redirects: [], error: 'Timeout waiting for the HTTP request result' };
+    return parseHttpProbeResult(raw, request.url);
+  }
+
+  /**
+   * Watch the Wi-Fi network's validation state for `durationMs`, reading
+   * `dumpsys connectivity` every `intervalMs`, and report each transition
+   * between CONNECTED, CAPTIVE_PORTAL, PARTIAL_CONNECTIVITY and VALIDATED
+   * with its timestamp — association to portal detection to validation
+   * after login. Timing resolution is the poll interval plus one dumpsys
+   * round trip, plus any time a poll waits behind other calls on the device.
+   */
+  async watchValidation(options: ValidationWatchOptions): Promise<ValidationWatchResult> {
+    const intervalMs = options.intervalMs ?? 1000;
+    const exclusive = options.exclusive ?? (<T>(poll: () => Promise<T>) => poll());
+    const start = Date.now();
+    const deadline = start + options.durationMs;
+    const samples: ValidationSample[] = [];
+    let failedPolls = 0;
+
+    while (true) {
+      const dump = await exclusive(() => this.adb.shell('dumpsys connectivity'));
+      if (dump.success) {
+        const sample = parseValidationSample(dump.stdout, Date.now() - start);
+        const previous = samples.at(-1);
+        samples.push(sample);
+        if (
+          options.untilValidated &&
+          previous &&
+          validationState(sample) === 'VALIDATED' &&
+          (validationState(previous) !== 'VALIDATED' || previous.netId !== sample.netId)
+        ) {
+          break;
+        }
+      } else {
+        failedPolls++;
+      }
+      if (Date.now() + intervalMs > deadline) break;
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+
+    const transitions = detectValidationTransitions(samples, start);
+    const last = samples.at(-1);
+    return {
+      startedAt: new Date(start).toISOString(),
+      durationMs: Date.now() - start,
+      intervalMs,
+      sampleCount: samples.length,
+      failedPolls,
+      finalState: last ? validationState(last) : 'DISCONNECTED',
+      transitions,
+      ...validationTimings(transitions),
+      ...(options.includeSamples && { samples }),
+    };
+  }
+
   /**
    * Get network interface information.
    *
@@ -217,14 +505,192 @@ export class NetworkCheck {
   }
 }
 
+/**
+ * Why `request` can't be sent, or undefined: an http(s) URL, a known method,
+ * and a body only on methods that carry one.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function httpProbeRequestError(request: HttpProbeRequest): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(request.url);
+  } catch {
+    return `Invalid URL "${request.url}"`;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return `Unsupported scheme ${url.protocol} (http or https only)`;
+  const method = request.method ?? 'GET';
+  if (!HTTP_PROBE_METHODS.includes(method)) return `Unsupported method ${method}`;
+  if (request.body !== undefined && !['POST', 'PUT', 'PATCH'].includes(method)) return `${method} takes no body`;
+  const badHeader = Object.entries(request.headers ?? {}).find(([name, value]) => !/^[!#$%&'*+.^_`|~\w-]+$/.test(name) || /[\r\n]/.test(value));
+  if (badHeader) return `Invalid header "${badHeader[0]}"`;
+  return undefined;
+}
+
+/**
+ * Translate the companion's HTTP_REQUEST result, decoding the presented TLS
+ * chain (base64 DER, leaf first) into certificate details.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function parseHttpProbeResult(raw: Record<string, unknown>, url: string): HttpProbeResult {
+  const result: HttpProbeResult = {
+    success: !!raw.success,
+    url,
+    redirects: Array.isArray(raw.redirects)
+      ? (raw.redirects as Array<Record<string, unknown>>).map(r => ({
+          url: String(r.url ?? ''),
+          status: Number(r.status),
+          location: String(r.location ?? ''),
+        }))
+      : [],
+  };
+  if (typeof raw.finalUrl === 'string') result.finalUrl = raw.finalUrl;
+  if (typeof raw.status === 'number') result.status = raw.status;
+  if (typeof raw.statusText === 'string') result.statusText = raw.statusText;
+  if (raw.headers && typeof raw.headers === 'object') {
+    result.headers = Object.fromEntries(Object.entries(raw.headers as Record<string, unknown>).map(([k, v]) => [k, String(v)]));
+  }
+  if (typeof raw.remoteAddress === 'string') result.remoteAddress = raw.remoteAddress;
+  if (raw.timing && typeof raw.timing === 'object') {
+    const timing: HttpProbeTiming = {};
+    for (const [k, v] of Object.entries(raw.timing as Record<string, unknown>)) {
+      if (typeof v === 'number') timing[k as keyof HttpProbeTiming] = v;
+    }
+    result.timing = timing;
+  }
+  if (raw.tls && typeof raw.tls === 'object') {
+    const tls = raw.tls as Record<string, unknown>;
+    const certificates: CertificateInfo[] = [];
+    for (const der of Array.isArray(tls.peerCertificates) ? tls.peerCertificates : []) {
+      try {
+        certificates.push(...inspectCertificates(String(der)));
+      } catch {
+        // A certificate Node can't parse is left out rather than failing the probe.
+      }
+    }
+    result.tls = {
+      ...(typeof tls.protocol === 'string' && { protocol: tls.protocol }),
+      ...(typeof tls.cipherSuite === 'string' && { cipherSuite: tls.cipherSuite }),
+      ...(typeof tls.hostnameVerified === 'boolean' && { hostnameVerified: tls.hostnameVerified }),
+      certificates,
+    };
+  }
+  if (typeof raw.body === 'string') result.body = raw.body;
+  if (typeof raw.bodyBytes === 'number') result.bodyBytes = raw.bodyBytes;
+  if (typeof raw.bodyTruncated === 'boolean') result.bodyTruncated = raw.bodyTruncated;
+  if (raw.network && typeof raw.network === 'object') {
+    const n = raw.network as Record<string, unknown>;
+    result.network = {
+      ...(typeof n.netId === 'string' && { netId: n.netId }),
+      ...(typeof n.interface === 'string' && { interface: n.interface }),
+      ...(typeof n.validated === 'boolean' && { validated: n.validated }),
+      ...(typeof n.captivePortal === 'boolean' && { captivePortal: n.captivePortal }),
+    };
+  }
+  if (!result.success) result.error = String(raw.message ?? 'HTTP request failed');
+  return result;
+}
+
 /**
  * Single-quote a string for safe interpolation into a device `adb shell`
  * command (the host side uses execFile, but the device runs the string in sh).
  */
-function shQuote(s: string): string {
+export function shQuote(s: string): string {
   return `'${s.replace(/'/g, "'\\''")}'`;
 }
 
+/**
+ * One watch sample from a `dumpsys connectivity` dump: the connected Wi-Fi
+ * network's id and which of the tracked capabilities it has.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function parseValidationSample(dump: string, offsetMs: number): ValidationSample {
+  const agentLine = findActiveWifiAgentLine(dump);
+  if (agentLine === null) return { offsetMs, capabilities: [] };
+  const capabilities = parseCapabilities(agentLine).filter(cap => VALIDATION_CAPABILITIES.includes(cap));
+  const portalUrl = capabilities.includes('CAPTIVE_PORTAL') ? extractPortalUrl(agentLine) : undefined;
+  return {
+    offsetMs,
+    netId: agentLine.match(/NetworkAgentInfo\{network\{(\d+)\}/)?.[1] ?? 'unknown',
+    capabilities,
+    ...(portalUrl && { portalUrl }),
+  };
+}
+
+/**
+ * The state a sample is in: its most advanced capability, CONNECTED with
+ * none, DISCONNECTED without a Wi-Fi network.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function validationState(sample: ValidationSample): ValidationState {
+  if (sample.netId === undefined) return 'DISCONNECTED';
+  for (const cap of ['VALIDATED', 'PARTIAL_CONNECTIVITY', 'CAPTIVE_PORTAL'] as const) {
+    if (sample.capabilities.includes(cap)) return cap;
+  }
+  return 'CONNECTED';
+}
+
+/**
+ * Collapse a sample series into state transitions. The first sample gives
+ * the starting state (`from: null`); after that a transition is a change of
+ * state or of network — a reconnect that lands straight back in the same
+ * state still shows up.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function detectValidationTransitions(samples: ValidationSample[], startedAt: number): ValidationTransition[] {
+  const transitions: ValidationTransition[] = [];
+  let previous: ValidationSample | undefined;
+  for (const sample of samples) {
+    const state = validationState(sample);
+    const from = previous ? validationState(previous) : null;
+    if (!previous || state !== from || sample.netId !== previous.netId) {
+      transitions.push({
+        offsetMs: sample.offsetMs,
+        at: new Date(startedAt + sample.offsetMs).toISOString(),
+        state,
+        from,
+        ...(sample.netId !== undefined && { netId: sample.netId }),
+        ...(sample.portalUrl && { portalUrl: sample.portalUrl }),
+      });
+    }
+    previous = sample;
+  }
+  return transitions;
+}
+
+/**
+ * Lifecycle timings from the transitions seen during the window (the
+ * starting state doesn't count — it wasn't observed happening): the first
+ * connection, the first portal detection after it, and the first validation
+ * after that.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function validationTimings(
+  transitions: ValidationTransition[]
+): Pick<ValidationWatchResult, 'connectToPortalMs' | 'portalToValidatedMs' | 'connectToValidatedMs'> {
+  const observed = transitions.filter(t => t.from !== null);
+  const connected = observed.find(t => t.state !== 'DISCONNECTED' && (t.from === 'DISCONNECTED' || isNewNetwork(t, transitions)));
+  const portal = observed.find(t => t.state === 'CAPTIVE_PORTAL' && t.offsetMs >= (connected?.offsetMs ?? 0));
+  const validated = observed.find(
+    t => t.state === 'VALIDATED' && t.offsetMs >= (portal?.offsetMs ?? connected?.offsetMs ?? 0)
+  );
+  const timings: Pick<ValidationWatchResult, 'connectToPortalMs' | 'portalToValidatedMs' | 'connectToValidatedMs'> = {};
+  if (connected && portal) timings.connectToPortalMs = portal.offsetMs - connected.offsetMs;
+  if (portal && validated) timings.portalToValidatedMs = validated.offsetMs - portal.offsetMs;
+  if (connected && validated) timings.connectToValidatedMs = validated.offsetMs - connected.offsetMs;
+  return timings;
+}
+
+function isNewNetwork(transition: ValidationTransition, transitions: ValidationTransition[]): boolean {
+  const before = transitions[transitions.indexOf(transition) - 1];
+  return before !== undefined && before.netId !== undefined && before.netId !== transition.netId;
+}
+
 /**
  * Find the `NetworkAgentInfo` line for the device's Wi-Fi network in
  * `dumpsys connectivity` output (each agent prints on one line). Prefers the
@@ -338,6 +804,62 @@ export function parseGateway(agentLine: string): string | undefined {
   return m ? m[1] : undefined;
 }
 
+/**
+ * Parse one `ping -c 1` exchange (stdout and stderr): the resolved target,
+ * an echo reply and its time, a "Time to live exceeded" sender, or the MTU
+ * named by "Frag needed" / a local "message too long".
+ *
+ * Pure function — exported for unit testing.
+ */
+export function parsePingProbe(output: string): {
+  target?: string;
+  replyFrom?: string;
+  rttMs?: number;
+  exceededFrom?: string;
+  mtu?: number;
+  localMtu?: number;
+} {
+  const res: ReturnType<typeof parsePingProbe> = {};
+  const target = output.match(/^PING \S+ \(([^)]+)\)/m);
+  if (target) res.target = target[1];
+  const reply = output.match(/bytes from (?:[^\s(]+ \()?([0-9a-fA-F.:]+?)\)?: .*?time[=<]\s*([\d.]+)/);
+  if (reply) {
+    res.replyFrom = reply[1];
+    res.rttMs = parseFloat(reply[2]);
+  }
+  const exceeded = output.match(/From (?:[^\s(]+ \()?([0-9a-fA-F.:]+?)\)?:? icmp_seq=\d+ Time to live exceeded/i);
+  if (exceeded) res.exceededFrom = exceeded[1];
+  const frag = output.match(/Frag(?:mentation)? needed.*?mtu\s*=\s*(\d+)/i);
+  if (frag) res.mtu = parseInt(frag[1], 10);
+  const local = output.match(/message too long, mtu\s*=\s*(\d+)/i);
+  if (local) res.mtu = res.localMtu = parseInt(local[1], 10);
+  return res;
+}
+
+/**
+ * Parse `traceroute -n -q 1` output: one line per hop, `*` for a hop that
+ * didn't answer. `reached` when the last hop is the destination from the
+ * header line.
+ *
+ * Pure function — exported for unit testing.
+ */
+export function parseTracerouteOutput(output: string): Pick<TracerouteResult, 'address' | 'reached' | 'hops'> {
+  const address = output.match(/^traceroute to \S+ \(([^)]+)\)/m)?.[1];
+  const hops: TracerouteHop[] = [];
+  for (const line of output.split('\n')) {
+    const m = line.match(/^\s*(\d+)\s+(.*)$/);
+    if (!m) continue;
+    const hop: TracerouteHop = { ttl: parseInt(m[1], 10) };
+    const addr = m[2].match(/^([0-9a-fA-F.:]+)\s/);
+    if (addr) hop.address = addr[1];
+    const rtt = m[2].match(/([\d.]+)\s*ms/);
+    if (hop.address && rtt) hop.rttMs = parseFloat(rtt[1]);
+    hops.push(hop);
+  }
+  const last = hops.at(-1);
+  return { ...(address && { address }), reached: !!address && last?.address === address, hops };
+}
+
 /**
  * Parse `ip route get 8.8.8.8` output, e.g.
  * `8.8.8.8 via 192.168.6.1 dev wlan1 table 1048 src 192.168.6.133 uid 2000`.
@@ -0,0 +1,492 @@
+import { createServer, isIPv4, type AddressInfo, type Server, type Socket } from 'net';
+import { createSocket, type RemoteInfo, type Socket as UdpSocket } from 'dgram';
+import { networkInterfaces, type NetworkInterfaceInfo } from 'os';
+import { AdbClient } from '../adb/adb-client.js';
+import { CompanionAppBridge, COMPANION_PACKAGE } from '../adb/companion-bridge.js';
+import { NetworkCheck, shQuote } from './network-check.js';
+import {
+  AdbResult,
+  ThroughputDirection,
+  ThroughputPath,
+  ThroughputResult,
+  ThroughputRun,
+  ThroughputTestOptions,
+} from '../types.js';
+
+const DEFAULT_DURATION_S = 10;
+const DEFAULT_UDP_BITRATE_MBPS = 50;
+const DEFAULT_UDP_PACKET_SIZE = 1200;
+// The companion answers from a goAsync() broadcast, which gets about a
+// minute: a download run also spends up to 5 s on hellos and 3 s of slack.
+const MAX_UDP_DURATION_S = 45;
+const TCP_CHUNK = Buffer.alloc(64 * 1024);
+// How long the phone gets to dial in, and to wind down once a run is over.
+const CONNECT_TIMEOUT_MS = 10_000;
+const RUN_MARGIN_MS = 15_000;
+// Wait for the socket to close after the phone's nc exits.
+const CLOSE_GRACE_MS = 2_000;
+// UDP datagrams: type (1) + reserved (3) + sequence (4) + sender clock in ns (8), then padding.
+const UDP_HEADER_BYTES = 16;
+const UDP_DATA = 1;
+const UDP_HELLO = 2;
+const UDP_END = 3;
+// End markers carry the packet count; a few copies so one loss doesn't hide it.
+const UDP_END_REPEATS = 3;
+const UDP_TICK_MS = 5;
+// RFC 3550 jitter gain.
+const JITTER_GAIN = 16;
+
+/** One UDP datagram as the receiver saw it. Clocks are sender/receiver-local ms. */
+export interface UdpArrival {
+  seq: number;
+  sentMs: number;
+  arrivalMs: number;
+  bytes: number;
+}
+
+type UdpStats = Pick<
+  ThroughputRun,
+  'bytes' | 'durationMs' | 'mbps' | 'packetsSent' | 'packetsReceived' | 'lossPercent' | 'jitterMs' | 'outOfOrder'
+>;
+
+/**
+ * Wi-Fi throughput between the phone and this host, iperf-style: the host
+ * runs a short-lived TCP or UDP server and the phone drives transfers to
+ * and from it, so AP firmware or channel changes can be A/B tested with a
+ * number instead of a feeling.
+ *
+ * TCP runs on the phone's own toybox `nc` (no companion app needed): upload
+ * streams /dev/zero for the duration and is timed here as it arrives;
+ * download is timed here from first write to close and sized by `wc -c` on
+ * the phone. UDP needs the companion app's THROUGHPUT_UDP, which paces
+ * sequence-numbered datagrams over the Wi-Fi network (or receives ours) so
+ * loss and RFC 3550 jitter can be reported.
+ *
+ * The phone reaches the server over Wi-Fi at the host's LAN address by
+ * default. `path: 'adb'` goes through `adb reverse` instead, which works
+ * behind NAT and firewalls but measures the adb link, not the Wi-Fi.
+ */
+export class ThroughputTest {
+  private adb: AdbClient;
+  private networkCheck: NetworkCheck;
+
+  constructor(adb: AdbClient) {
+    this.adb = adb;
+    this.networkCheck = new NetworkCheck(adb);
+  }
+
+  async run(options: ThroughputTestOptions = {}): Promise<ThroughputResult> {
+    const protocol = options.protocol ?? 'tcp';
+    const path: ThroughputPath = options.path ?? 'wifi';
+    const directions = options.directions ?? ['up', 'down'];
+    const durationMs = (options.durationSeconds ?? DEFAULT_DURATION_S) * 1000;
+
+    const info = await this.networkCheck.getInterfaceInfo();
+    const base = { protocol, path, ...(info.ipAddress && { deviceAddress: info.ipAddress }) };
+    const fail = (error: string, host: string = ''): ThroughputResult => ({ success: false, ...base, host, runs: [], error });
+
+    let listenAddress: string;
+    let dialAddress: string;
+    if (path === 'adb') {
+      if (protocol === 'udp') return fail('adb reverse forwards TCP only: UDP needs path "wifi"');
+      listenAddress = dialAddress = '127.0.0.1';
+    } else if (options.hostAddress) {
+      if (!isIPv4(options.hostAddress)) return fail(`hostAddress must be an IPv4 address, got "${options.hostAddress}"`);
+      // May be a NAT'd or forwarded address rather than one of ours.
+      listenAddress = '0.0.0.0';
+      dialAddress = options.hostAddress;
+    } else {
+      if (!info.ipAddress) return fail('The phone has no Wi-Fi address: connect to Wi-Fi first');
+      const picked = pickHostAddress(info.ipAddress, networkInterfaces());
+      if (!picked) return fail(`No host interface is on the phone's subnet (${info.ipAddress}): pass hostAddress`);
+      listenAddress = dialAddress = picked;
+    }
+
+    if (protocol === 'udp') {
+      if (durationMs > MAX_UDP_DURATION_S * 1000) return fail(`UDP runs are limited to ${MAX_UDP_DURATION_S} s each`);
+      const installed = await this.adb.shell(`pm list packages | grep ${COMPANION_PACKAGE}`);
+      if (!installed.stdout.includes(COMPANION_PACKAGE)) {
+        return fail(`Companion app not installed. Please install ${COMPANION_PACKAGE}`);
+      }
+    }
+
+    const runs: ThroughputRun[] = [];
+    let host = '';
+    try {
+      if (protocol === 'tcp') {
+        const server = createServer({ allowHalfOpen: true });
+        const port = await listenTcp(server, options.port ?? 0, listenAddress);
+        host = `${dialAddress}:${port}`;
+        try {
+          if (path === 'adb') await this.adb.reverse(port, port);
+          for (const direction of directions) {
+            runs.push(
+              direction === 'up'
+                ? await this.tcpUpload(server, dialAddress, port, durationMs)
+                : await this.tcpDownload(server, dialAddress, port, durationMs)
+            );
+          }
+        } finally {
+          if (path === 'adb') await this.adb.removeReverse(port);
+          server.close();
+        }
+      } else {
+        const socket = createSocket('udp4');
+        const port = await bindUdp(socket, options.port ?? 0, listenAddress);
+        host = `${dialAddress}:${port}`;
+        const bitrateMbps = options.bitrateMbps ?? DEFAULT_UDP_BITRATE_MBPS;
+        const packetSize = options.packetSize ?? DEFAULT_UDP_PACKET_SIZE;
+        try {
+          for (const direction of directions) {
+            runs.push(await this.udpRun(socket, direction, dialAddress, port, durationMs, bitrateMbps, packetSize));
+          }
+        } finally {
+          socket.close();
+        }
+      }
+    } catch (err) {
+      return { ...fail(err instanceof Error ? err.message : String(err), host), runs };
+    }
+
+    const up = runs.find(r => r.direction === 'up' && r.success);
+    const down = runs.find(r => r.direction === 'down' && r.success);
+    const failed = runs.find(r => !r.success);
+    return {
+      success: !failed,
+      ...base,
+      host,
+      ...(up && { upMbps: up.mbps }),
+      ...(down && { downMbps: down.mbps }),
+      runs,
+      ...(path === 'adb' && { warning: 'adb reverse carries the traffic over the adb link (USB), so this measures that link, not the Wi-Fi' }),
+      ...(failed && { error: `${failed.direction === 'up' ? 'Upload' : 'Download'} failed: ${failed.error}` }),
+    };
+  }
+
+  /** Phone → host: the phone streams /dev/zero for the duration; bytes are timed as they land here. */
+  private async tcpUpload(server: Server, address: string, port: number, durationMs: number): Promise<ThroughputRun> {
+    const seconds = Math.ceil(durationMs / 1000);
+    const connection = nextConnection(server, CONNECT_TIMEOUT_MS);
+    const shell = this.adb.shell(`timeout ${seconds} toybox nc ${shQuote(address)} ${port} < /dev/zero`, durationMs + RUN_MARGIN_MS);
+    const socket = await dialled(connection, shell);
+    if (!socket) return failedRun('up', noConnection(address, port, await shell));
+
+    let bytes = 0;
+    let firstAt: number | undefined;
+    let lastAt: number | undefined;
+    socket.on('data', (chunk: Buffer) => {
+      lastAt = Date.now();
+      firstAt ??= lastAt;
+      bytes += chunk.length;
+    });
+    socket.on('end', () => socket.end());
+    socket.on('error', () => {});
+    const closed = new Promise(resolve => socket.once('close', resolve));
+
+    await shell;
+    await Promise.race([closed, sleep(CLOSE_GRACE_MS)]);
+    socket.destroy();
+    if (!bytes || firstAt === undefined || lastAt === undefined) return failedRun('up', 'No data arrived from the phone');
+    return tcpRun('up', bytes, lastAt - firstAt);
+  }
+
+  /** Host → phone: we write for the duration and time it to close; the phone counts what it read. */
+  private async tcpDownload(server: Server, address: string, port: number, durationMs: number): Promise<ThroughputRun> {
+    const seconds = Math.ceil((durationMs + CONNECT_TIMEOUT_MS) / 1000);
+    const connection = nextConnection(server, CONNECT_TIMEOUT_MS);
+    const shell = this.adb.shell(
+      `timeout ${seconds} toybox nc ${shQuote(address)} ${port} < /dev/null | wc -c`,
+      durationMs + CONNECT_TIMEOUT_MS + RUN_MARGIN_MS
+    );
+    const socket = await dialled(connection, shell);
+    if (!socket) return failedRun('down', noConnection(address, port, await shell));
+
+    const started = Date.now();
+    await sendFor(socket, durationMs);
+    const elapsed = Date.now() - started;
+    const counted = await shell;
+    const bytes = parseInt(counted.stdout.trim(), 10);
+    if (!(bytes > 0)) return failedRun('down', `The phone read no data${counted.stderr ? `: ${counted.stderr.trim()}` : ''}`);
+    return tcpRun('down', bytes, elapsed);
+  }
+
+  /**
+   * One UDP direction through the companion app. Upload: the companion
+   * sends and we receive. Download: the companion says hello, we answer
+   * with the paced stream, and it reports what arrived.
+   */
+  private async udpRun(
+    socket: UdpSocket,
+    direction: ThroughputDirection,
+    address: string,
+    port: number,
+    durationMs: number,
+    bitrateMbps: number,
+    packetSize: number
+  ): Promise<ThroughputRun> {
+    const arrivals: UdpArrival[] = [];
+    let endCount: number | undefined;
+    let sender: Promise<number> | undefined;
+    let stopped = false;
+    socket.on('message', (msg: Buffer, from: RemoteInfo) => {
+      const packet = parseUdpPacket(msg);
+      if (!packet) return;
+      if (direction === 'down') {
+        if (packet.type === UDP_HELLO) sender ??= sendPaced(socket, from, durationMs, bitrateMbps, packetSize, () => stopped);
+      } else if (packet.type === UDP_DATA) {
+        arrivals.push({ seq: packet.seq, sentMs: packet.sentMs, arrivalMs: performance.now(), bytes: msg.length });
+      } else if (packet.type === UDP_END) {
+        endCount = packet.seq;
+      }
+    });
+
+    const bridge = new CompanionAppBridge(this.adb, {
+      resultTimeoutMs: durationMs + CONNECT_TIMEOUT_MS + RUN_MARGIN_MS,
+      pollIntervalMs: 500,
+    });
+    try {
+      const { raw, broadcastError } = await bridge.sendBroadcastAndWait('THROUGHPUT_UDP', {
+        action: 'throughput_udp',
+        timestamp: Date.now(),
+        host: address,
+        port,
+        direction,
+        durationMs,
+        bitrateMbps,
+        packetSize,
+      });
+      const sent = await sender;
+      if (broadcastError) return failedRun(direction, `Failed to send broadcast: ${broadcastError}`);
+      if (!raw) return failedRun(direction, 'Timeout waiting for the throughput result');
+      if (raw.success !== true) return failedRun(direction, String(raw.message ?? 'Unknown error'));
+
+      if (direction === 'up') {
+        const packetsSent = typeof raw.packetsSent === 'number' ? raw.packetsSent : endCount;
+        const stats = summarizeUdpStream(arrivals, packetsSent);
+        if (!stats.packetsReceived) return failedRun('up', `No datagrams arrived from the phone at ${address}:${port}`);
+        return { direction, success: true, ...stats };
+      }
+      if (sent === undefined) return failedRun('down', `The phone's hello never reached ${address}:${port}`);
+      return { direction, success: true, ...parseUdpReport(raw, sent) };
+    } finally {
+      // The stream must be done before the caller closes the socket under it.
+      stopped = true;
+      await sender?.catch(() => undefined);
+      socket.removeAllListeners('message');
+    }
+  }
+}
+
+/**
+ * The host's IPv4 address on the same subnet as the phone, from
+ * `os.networkInterfaces()`. Pure function — exported for unit testing.
+ */
+export function pickHostAddress(
+  deviceAddress: string,
+  interfaces: NodeJS.Dict<NetworkInterfaceInfo[]>
+): string | undefined {
+  const device = ipv4ToInt(deviceAddress);
+  if (device === undefined) return undefined;
+  for (const info of Object.values(interfaces).flat()) {
+    if (!info || info.family !== 'IPv4' || info.internal) continue;
+    const address = ipv4ToInt(info.address);
+    const mask = ipv4ToInt(info.netmask);
+    if (address === undefined || mask === undefined) continue;
+    if (((address ^ device) & mask) === 0) return info.address;
+  }
+  return undefined;
+}
+
+/**
+ * Throughput, loss, reordering and RFC 3550 interarrival jitter of a
+ * received UDP stream. `packetsSent` comes from the sender's end marker or
+ * report; without it, the highest sequence number seen stands in.
+ * Pure function — exported for unit testing.
+ */
+export function summarizeUdpStream(arrivals: UdpArrival[], packetsSent?: number): UdpStats {
+  const seen = new Set<number>();
+  let bytes = 0;
+  let outOfOrder = 0;
+  let maxSeq = -1;
+  let jitter = 0;
+  let previous: UdpArrival | undefined;
+  for (const arrival of arrivals) {
+    if (seen.has(arrival.seq)) continue;
+    seen.add(arrival.seq);
+    bytes += arrival.bytes;
+    if (arrival.seq < maxSeq) outOfOrder++;
+    maxSeq = Math.max(maxSeq, arrival.seq);
+    if (previous) {
+      const transitChange = arrival.arrivalMs - previous.arrivalMs - (arrival.sentMs - previous.sentMs);
+      jitter += (Math.abs(transitChange) - jitter) / JITTER_GAIN;
+    }
+    previous = arrival;
+  }
+
+  const received = seen.size;
+  const sent = Math.max(packetsSent ?? maxSeq + 1, received);
+  const durationMs = arrivals.length > 1 ? arrivals[arrivals.length - 1].arrivalMs - arrivals[0].arrivalMs : 0;
+  return {
+    bytes,
+    durationMs: round2(durationMs),
+    mbps: mbps(bytes, durationMs),
+    packetsSent: sent,
+    packetsReceived: received,
+    lossPercent: sent ? round2(((sent - received) / sent) * 100) : 0,
+    jitterMs: round2(jitter),
+    outOfOrder,
+  };
+}
+
+/** A download report from the companion: what it received of our `sent` packets. */
+function parseUdpReport(raw: Record<string, unknown>, sent: number): UdpStats {
+  const number = (key: string) => (typeof raw[key] === 'number' ? (raw[key] as number) : 0);
+  const received = number('packetsReceived');
+  const durationMs = round2(number('durationMs'));
+  return {
+    bytes: number('bytes'),
+    durationMs,
+    mbps: mbps(number('bytes'), durationMs),
+    packetsSent: sent,
+    packetsReceived: received,
+    lossPercent: sent ? round2((Math.max(sent - received, 0) / sent) * 100) : 0,
+    jitterMs: round2(number('jitterMs')),
+    outOfOrder: number('outOfOrder'),
+  };
+}
+
+function parseUdpPacket(msg: Buffer): { type: number; seq: number; sentMs: number } | undefined {
+  if (msg.length < UDP_HEADER_BYTES) return undefined;
+  return { type: msg[0], seq: msg.readUInt32BE(4), sentMs: Number(msg.readBigUInt64BE(8)) / 1e6 };
+}
+
+function udpPacket(type: number, seq: number, size: number): Buffer {
+  const packet = Buffer.alloc(Math.max(size, UDP_HEADER_BYTES));
+  packet[0] = type;
+  packet.writeUInt32BE(seq, 4);
+  packet.writeBigUInt64BE(process.hrtime.bigint(), 8);
+  return packet;
+}
+
+/**
+ * Send data datagrams to `to` at `bitrateMbps` for `durationMs`, then the
+ * end markers. Resolves to the count sent; stops early, without end markers,
+ * once `stopped()` says the run is over.
+ */
+async function sendPaced(
+  socket: UdpSocket,
+  to: RemoteInfo,
+  durationMs: number,
+  bitrateMbps: number,
+  packetSize: number,
+  stopped: () => boolean
+): Promise<number> {
+  const packetsPerMs = (bitrateMbps * 1000) / 8 / packetSize;
+  const start = performance.now();
+  let seq = 0;
+  for (let elapsed = 0; elapsed < durationMs; elapsed = performance.now() - start) {
+    if (stopped()) return seq;
+    const due = Math.floor(elapsed * packetsPerMs);
+    while (seq < due) socket.send(udpPacket(UDP_DATA, seq++, packetSize), to.port, to.address);
+    await sleep(UDP_TICK_MS);
+  }
+  if (stopped()) return seq;
+  for (let i = 0; i < UDP_END_REPEATS; i++) socket.send(udpPacket(UDP_END, seq, UDP_HEADER_BYTES), to.port, to.address);
+  return seq;
+}
+
+/** Write to `socket` for `durationMs`, then end it; resolves once it closes. */
+function sendFor(socket: Socket, durationMs: number): Promise<void> {
+  return new Promise(resolve => {
+    const deadline = Date.now() + durationMs;
+    const guard = setTimeout(() => socket.destroy(), durationMs + RUN_MARGIN_MS);
+    socket.on('error', () => {});
+    socket.once('close', () => {
+      clearTimeout(guard);
+      resolve();
+    });
+    const pump = () => {
+      while (Date.now() < deadline && !socket.destroyed) {
+        if (!socket.write(TCP_CHUNK)) {
+          socket.once('drain', pump);
+          return;
+        }
+      }
+      socket.end();
+    };
+    pump();
+  });
+}
+
+function nextConnection(server: Server, timeoutMs: number): Promise<Socket | undefined> {
+  return new Promise(resolve => {
+    const onConnection = (socket: Socket) => {
+      clearTimeout(timer);
+      resolve(socket);
+    };
+    const timer = setTimeout(() => {
+      server.off('connection', onConnection);
+      resolve(undefined);
+    }, timeoutMs);
+    server.once('connection', onConnection);
+  });
+}
+
+/** The phone's connection, or undefined once its command has exited without one. */
+function dialled(connection: Promise<Socket | undefined>, shell: Promise<AdbResult>): Promise<Socket | undefined> {
+  return Promise.race([connection, shell.then(() => sleep(CLOSE_GRACE_MS)).then(() => undefined)]);
+}
+
+function listenTcp(server: Server, port: number, address: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, address, () => {
+      server.off('error', reject);
+      resolve((server.address() as AddressInfo).port);
+    });
+  });
+}
+
+function bindUdp(socket: UdpSocket, port: number, address: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    socket.once('error', reject);
+    socket.bind(port, address, () => {
+      socket.off('error', reject);
+      // Failed sends (an unreachable phone, a full buffer) show up as loss;
+      // without a listener they would take the server down.
+      socket.on('error', () => {});
+      resolve(socket.address().port);
+    });
+  });
+}
+
+function noConnection(address: string, port: number, shell: AdbResult): string {
+  const reason = shell.stderr.trim();
+  return `The phone never connected to ${address}:${port}${reason ? `: ${reason}` : ' (check the host firewall and hostAddress)'}`;
+}
+
+function tcpRun(direction: ThroughputDirection, bytes: number, durationMs: number): ThroughputRun {
+  return { direction, success: true, bytes, durationMs, mbps: mbps(bytes, durationMs) };
+}
+
+function failedRun(direction: ThroughputDirection, error: string): ThroughputRun {
+  return { direction, success: false, bytes: 0, durationMs: 0, mbps: 0, error };
+}
+
+function mbps(bytes: number, durationMs: number): number {
+  return durationMs > 0 ? round2((bytes * 8) / durationMs / 1000) : 0;
+}
+
+function ipv4ToInt(address: string): number | undefined {
+  const parts = address.split('.').map(Number);
+  if (parts.length !== 4 || parts.some(p => !Number.isInteger(p) || p < 0 || p > 255)) return undefined;
+  return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
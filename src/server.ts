@@ -1,10 +1,23 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ShapeOutput, ZodRawShapeCompat } from '@modelcontextprotocol/sdk/server/zod-compat.js';
 import { z } from 'zod';
-import { DeviceManager } from './adb/device-manager.js';
+import { DeviceManager, type DeviceSelection } from './adb/device-manager.js';
+import type { DeviceContext } from './adb/device-context.js';
 import { NetworkCheck } from './network/network-check.js';
+import { CaptivePortalLogin, portalRecipeSchema } from './network/captive-portal-login.js';
+import { ThroughputTest } from './network/throughput.js';
 import { EnterpriseWifiCommands } from './adb/enterprise-wifi.js';
+import { inspectCertificates, certificateExpiryWarnings } from './adb/certificates.js';
+import { filterScanResults, sortScanResults } from './adb/wifi-commands.js';
+import { WifiSurvey, DEFAULT_SURVEY_INTERVAL_MS } from './adb/wifi-survey.js';
+import { WifiP2pCommands } from './adb/wifi-p2p.js';
 import { UpstreamProxy } from './mcp/upstream-proxy.js';
 import { runQuery, KNOWN_CLASSIFICATIONS } from './log/query.js';
+import { getCallerId, getSessionId } from './log/trace-context.js';
+import { DEFAULT_LEASE_TTL_SECONDS, MAX_LEASE_TTL_SECONDS } from './adb/device-leases.js';
 import { SecurityType, EapMethod, Phase2Method } from './types.js';
 
 export interface CreateServerResult {
@@ -12,9 +25,16 @@ export interface CreateServerResult {
   nativeToolNames: string[];
 }
 
+/**
+ * Build the MCP server and register the native tools. `selection` is where
+ * `device_select` writes and where tools without a `serial` look: the
+ * process-wide selection for the shared stateless server, or the MCP
+ * session's own for a per-session server.
+ */
 export function createMcpServer(
   deviceManager: DeviceManager,
-  upstreamProxy?: UpstreamProxy
+  upstreamProxy?: UpstreamProxy,
+  selection: DeviceSelection = deviceManager
 ): CreateServerResult {
   const mcpServer = new McpServer({
     name: 'android-wifi-mcp',
@@ -31,8 +51,86 @@ export function createMcpServer(
     return originalTool(name, ...rest);
   }) as typeof mcpServer.tool;
 
-  async function ensureDevice(): Promise<void> {
-    await deviceManager.ensureDeviceSelected();
+  const serialArg = z
+    .string()
+    .optional()
+    .describe(
+      'Device serial to run against (default: the device picked with device_select, or the only one connected). Calls for different devices run concurrently; calls for the same device run one at a time, except that tools which mostly wait let others run between their adb calls.'
+    );
+
+  interface DeviceToolOptions<Args extends ZodRawShapeCompat> {
+    /**
+     * Take the device lock per adb call instead of for the whole handler
+     * (see {@link DeviceContext.stepwise}), for tools that mostly wait — OTP
+     * polls, scan windows, timed runs — so other tools on the same phone
+     * aren't queued behind the wait. A function decides per call.
+     */
+    stepwise?: boolean | ((args: ShapeOutput<Args>) => boolean);
+  }
+
+  /**
+   * Register a tool that drives a device. Adds the optional `serial` arg,
+   * resolves it to that device's command context, and runs the handler under
+   * the device's lock — so one server can run a roaming test on phone A while
+   * phone B waits for an OTP.
+   */
+  function deviceTool<Args extends ZodRawShapeCompat>(
+    name: string,
+    description: string,
+    paramsSchema: Args,
+    handler: (args: ShapeOutput<Args>, device: DeviceContext) => Promise<CallToolResult>,
+    options: DeviceToolOptions<Args> = {}
+  ): void {
+    const schema: ZodRawShapeCompat = { ...paramsSchema, serial: serialArg };
+    mcpServer.tool(name, description, schema, async (args) => {
+      const serial = args.serial as string | undefined;
+      const toolArgs = args as ShapeOutput<Args>;
+      const stepwise = typeof options.stepwise === 'function' ? options.stepwise(toolArgs) : options.stepwise;
+      if (stepwise) {
+        const target = serial ?? (await deviceManager.ensureDeviceSelected(selection));
+        return handler(toolArgs, deviceManager.getDeviceContext(target).stepwise());
+      }
+      return deviceManager.withDevice(serial, (device) => handler(toolArgs, device), selection);
+    });
+  }
+
+  /** Who a device lease belongs to: the X-Caller-Session-Id label, else the MCP session. */
+  function leaseOwner(): string | null {
+    return getCallerId() ?? getSessionId();
+  }
+
+  /**
+   * {@link deviceTool} for tools that change device state. While someone
+   * else holds a lease on the target device the call is refused before the
+   * handler runs (checked under the device lock, so it can't race a
+   * release/acquire).
+   */
+  function mutatingDeviceTool<Args extends ZodRawShapeCompat>(
+    name: string,
+    description: string,
+    paramsSchema: Args,
+    handler: (args: ShapeOutput<Args>, device: DeviceContext) => Promise<CallToolResult>,
+    options: DeviceToolOptions<Args> = {}
+  ): void {
+    deviceTool(
+      name,
+      description,
+      paramsSchema,
+      async (args, device) => {
+        const check = async () => deviceManager.getLeases().checkAccess(device.serial, leaseOwner());
+        // A stepwise handler runs outside the lock, so take it for the check.
+        const stepwise = typeof options.stepwise === 'function' ? options.stepwise(args) : options.stepwise;
+        const denied = stepwise ? await device.exclusive(check) : await check();
+        if (denied) {
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ success: false, error: denied }, null, 2) }],
+            isError: true,
+          };
+        }
+        return handler(args, device);
+      },
+      options
+    );
   }
 
   // ============ Device Tools ============
@@ -43,7 +141,7 @@ export function createMcpServer(
     {},
     async () => {
       const devices = await deviceManager.listDevices();
-      const selectedDevice = deviceManager.getSelectedDevice();
+      const selectedDevice = selection.getSelectedDevice();
 
       return {
         content: [
@@ -70,13 +168,13 @@ export function createMcpServer(
 
   mcpServer.tool(
     'device_select',
-    'Select an Android device for operations',
+    'Select the default Android device for this session (tools without a serial argument use it)',
     {
       serial: z.string().describe('Device serial number'),
     },
     async ({ serial }) => {
-      deviceManager.selectDevice(serial);
-      const info = await deviceManager.getSelectedDeviceInfo();
+      selection.selectDevice(serial);
+      const info = await deviceManager.withDevice(serial, (device) => device.getAdbClient().getDeviceInfo());
 
       return {
         content: [
@@ -94,7 +192,7 @@ export function createMcpServer(
     'Query the structured-logging tables (tool_calls + device_events) without raw SQL — server validates filters and parameterizes everything. Use this for post-mortems: pull every call for a trace_id, filter by tool_name or surface, narrow to errors_only, or pivot on a Phase 4 attribution classification (physical_disconnect, rsa_revoked, adb_server_confusion, unknown_disconnect). Returns a note when DATABASE_URL is unset.',
     {
       trace_id: z.string().optional().describe('Filter to a single trace_id (W3C 32-hex or UUID-dashed)'),
-      session_id: z.string().optional().describe('Filter to a single session_id (Phase 2 — currently always null in tool_calls)'),
+      session_id: z.string().optional().describe('Filter to a single session_id (the Mcp-Session-Id of a stateful session, else the X-Caller-Session-Id label)'),
       tool_name: z.string().optional().describe('Exact match on tool_name, e.g. "wifi_connect"'),
       surface: z.string().optional().describe('Exact match on surface, e.g. "native" or "proxy:playwright"'),
       since: z.string().optional().describe('ISO timestamp; only rows with started_at >= since'),
@@ -135,14 +233,93 @@ export function createMcpServer(
     }
   );
 
+  // ============ Device Leases (shared labs) ============
+
+  const NO_LEASE_OWNER = 'Leases need a caller identity: send an X-Caller-Session-Id header or use an MCP session';
+
+  mcpServer.tool(
+    'device_lease_acquire',
+    "Reserve a device so other callers can't change it: while the lease is live, mutating tools (wifi_connect, wifi_disconnect, settings writes, file push, ...) from anyone but the holder are rejected. The owner is the X-Caller-Session-Id header (or the MCP session). Calling again as the holder renews the TTL. Leases expire on their own.",
+    {
+      serial: z.string().optional().describe('Device to lease (default: the selected device, or the only one connected)'),
+      ttlSeconds: z.number().int().min(1).max(MAX_LEASE_TTL_SECONDS).optional().default(DEFAULT_LEASE_TTL_SECONDS).describe('Lease duration in seconds (default 900, max 86400)'),
+      note: z.string().optional().describe('Free-text purpose shown to other callers, e.g. "roaming soak, ends 14:00"'),
+    },
+    async ({ serial, ttlSeconds, note }) => {
+      const owner = leaseOwner();
+      if (!owner) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: false, error: NO_LEASE_OWNER }, null, 2) }],
+          isError: true,
+        };
+      }
+      const target = serial ?? (await deviceManager.ensureDeviceSelected(selection));
+      const result = deviceManager.getLeases().acquire(target, owner, ttlSeconds, note);
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+  );
+
   mcpServer.tool(
+    'device_lease_release',
+    "Release your lease on a device so others can use it. Releasing a device that isn't leased succeeds as a no-op; releasing someone else's lease is refused.",
+    {
+      serial: z.string().optional().describe('Device to release (default: the selected device, or the only one connected)'),
+    },
+    async ({ serial }) => {
+      const owner = leaseOwner();
+      if (!owner) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: false, error: NO_LEASE_OWNER }, null, 2) }],
+          isError: true,
+        };
+      }
+      const target = serial ?? (await deviceManager.ensureDeviceSelected(selection));
+      const result = deviceManager.getLeases().release(target, owner);
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+  );
+
+  mcpServer.tool(
+    'device_lease_list',
+    'List live device leases: holder, note, and time left. Devices not listed are free.',
+    {},
+    async () => {
+      const owner = leaseOwner();
+      const now = Date.now();
+      const leases = deviceManager.getLeases().list().map(l => ({
+        ...l,
+        remainingSeconds: Math.max(0, Math.round((l.expiresAt.getTime() - now) / 1000)),
+        mine: l.owner === owner,
+      }));
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ count: leases.length, leases }, null, 2) }],
+      };
+    }
+  );
+
+  deviceTool(
     'device_info',
     'Get detailed information about the selected Android device',
     {},
-    async () => {
-      await ensureDevice();
-      const info = await deviceManager.getSelectedDeviceInfo();
-      const versionCheck = await deviceManager.checkAndroidVersion();
+    async (_args, device) => {
+      const info = await device.getAdbClient().getDeviceInfo();
+      const versionCheck = await deviceManager.checkAndroidVersion(device.getAdbClient());
 
       return {
         content: [
@@ -164,16 +341,15 @@ export function createMcpServer(
 
   // ============ Device Settings (system / secure / global) ============
 
-  mcpServer.tool(
+  deviceTool(
     'device_settings_get',
     'Read a value from the Android settings provider via `adb shell settings get`. Namespaces: system (user prefs), secure (auth/lockscreen/IME), global (airplane_mode_on, mobile_data, private_dns_*, captive_portal_server, etc).',
     {
       namespace: z.enum(['system', 'secure', 'global']).describe('Settings namespace'),
       key: z.string().describe('Setting key, e.g. "airplane_mode_on" or "default_input_method"'),
     },
-    async ({ namespace, key }) => {
-      await ensureDevice();
-      const settings = deviceManager.getSettingsCommands();
+    async ({ namespace, key }, device) => {
+      const settings = device.getSettingsCommands();
       const result = await settings.get(namespace, key);
       if (result.error) {
         return {
@@ -187,7 +363,7 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  mutatingDeviceTool(
     'device_settings_put',
     'Write a value to the Android settings provider via `adb shell settings put`. Requires WRITE_SECURE_SETTINGS, which the ADB shell user holds by default on dev/userdebug builds.',
     {
@@ -195,9 +371,8 @@ export function createMcpServer(
       key: z.string().describe('Setting key'),
       value: z.string().describe('New value (always written as a string; the settings provider preserves it as text)'),
     },
-    async ({ namespace, key, value }) => {
-      await ensureDevice();
-      const settings = deviceManager.getSettingsCommands();
+    async ({ namespace, key, value }, device) => {
+      const settings = device.getSettingsCommands();
       const result = await settings.put(namespace, key, value);
       if (result.success) {
         return {
@@ -221,16 +396,15 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  mutatingDeviceTool(
     'device_settings_delete',
     'Delete a key from the Android settings provider via `adb shell settings delete`. Subsequent gets return value: null. Same permission rules as device_settings_put. Idempotent — calling on a missing key still returns success: true.',
     {
       namespace: z.enum(['system', 'secure', 'global']).describe('Settings namespace'),
       key: z.string().describe('Setting key to delete'),
     },
-    async ({ namespace, key }) => {
-      await ensureDevice();
-      const settings = deviceManager.getSettingsCommands();
+    async ({ namespace, key }, device) => {
+      const settings = device.getSettingsCommands();
       const result = await settings.delete(namespace, key);
       if (result.success) {
         return {
@@ -244,18 +418,61 @@ export function createMcpServer(
     }
   );
 
+  // ============ Device State Snapshot ============
+
+  deviceTool(
+    'device_state_snapshot',
+    'Capture the device state a Wi-Fi test may change: Wi-Fi on/off, saved networks, the current connection, private DNS / captive portal / airplane mode settings and companion-app certificates. Pass the returned snapshotId to device_state_restore afterwards.',
+    {},
+    async (_args, device) => {
+      const snapshot = await device.getDeviceStateCommands().snapshot(device.serial);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(snapshot, null, 2) }],
+      };
+    }
+  );
+
+  mutatingDeviceTool(
+    'device_state_restore',
+    'Put the device back to a device_state_snapshot: settings, Wi-Fi on/off, forget networks added since, remove CA and user certificates the companion app installed since, and rejoin the original network. Idempotent. Anything that cannot be undone (a forgotten network, a removed certificate) is listed under warnings.',
+    {
+      snapshotId: z.string().optional().describe('Snapshot to restore (default: the latest snapshot of this device)'),
+    },
+    async ({ snapshotId }, device) => {
+      const deviceState = device.getDeviceStateCommands();
+      const snapshot = deviceState.getSnapshot(snapshotId);
+      if (!snapshot) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: snapshotId
+                ? `Error: No snapshot ${snapshotId} for ${device.serial}`
+                : `Error: No snapshot taken for ${device.serial}; call device_state_snapshot first`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const result = await deviceState.restore(snapshot);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
   // ============ Device File Transfer ============
 
-  mcpServer.tool(
+  mutatingDeviceTool(
     'device_push_file',
     'Push a file from the host to the device via `adb push`. Useful for staging certs, profiles, PCAPs. Targets like `/data/local/tmp/` work; `/data/data/<pkg>/` requires `run-as` (use the companion-app bridge instead).',
     {
       localPath: z.string().describe('Absolute path on the host machine'),
       remotePath: z.string().describe('Destination path on the device'),
     },
-    async ({ localPath, remotePath }) => {
-      await ensureDevice();
-      const files = deviceManager.getFileCommands();
+    async ({ localPath, remotePath }, device) => {
+      const files = device.getFileCommands();
       const result = await files.push(localPath, remotePath);
       if (result.success) {
         return {
@@ -269,16 +486,15 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  deviceTool(
     'device_pull_file',
     'Pull a file from the device to the host via `adb pull`. Useful for capturing downloaded files, app-private dumps for assertions, log files. Source must be readable by the adb shell user.',
     {
       remotePath: z.string().describe('Source path on the device'),
       localPath: z.string().describe('Absolute destination path on the host machine'),
     },
-    async ({ remotePath, localPath }) => {
-      await ensureDevice();
-      const files = deviceManager.getFileCommands();
+    async ({ remotePath, localPath }, device) => {
+      const files = device.getFileCommands();
       const result = await files.pull(remotePath, localPath);
       if (result.success) {
         return {
@@ -294,14 +510,57 @@ export function createMcpServer(
 
   // ============ WiFi Tools ============
 
-  mcpServer.tool(
+  deviceTool(
     'wifi_scan',
-    'Scan for available WiFi networks',
-    {},
-    async () => {
-      await ensureDevice();
-      const wifi = deviceManager.getWifiCommands();
-      const networks = await wifi.scan();
+    'Scan for available WiFi networks. Each result has band, channel, every advertised AKM and cipher (e.g. a WPA2/WPA3 transition SSID lists both PSK and SAE), PMF, WPS and age. Filter, sort and merge several passes for a stable view of a busy RF environment',
+    {
+      radioDetails: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Also read channel width and Wi-Fi standard/generation from dumpsys wifi, where the build reports them'),
+      ssidPattern: z.string().optional().describe('Case-insensitive regex the SSID must match'),
+      minRssi: z.number().int().optional().describe('Drop networks weaker than this (dBm; average RSSI for multi-pass)'),
+      bands: z.array(z.enum(['2.4GHz', '5GHz', '6GHz'])).optional().describe('Only these bands'),
+      sortBy: z
+        .enum(['rssi', 'ssid', 'channel', 'seen'])
+        .optional()
+        .default('rssi')
+        .describe('Order: strongest first (default), SSID, channel, or most often seen'),
+      passes: z
+        .number()
+        .int()
+        .min(1)
+        .max(10)
+        .optional()
+        .default(1)
+        .describe('Scans to merge per BSSID (adds seenCount and rssiMin/Avg/Max). Each pass takes ~2s'),
+      windowSeconds: z
+        .number()
+        .min(0)
+        .max(300)
+        .optional()
+        .default(0)
+        .describe('Spread the passes over this window instead of running them back to back'),
+      limit: z.number().int().min(1).optional().describe('Return at most this many networks after sorting'),
+    },
+    async ({ radioDetails, ssidPattern, minRssi, bands, sortBy, passes, windowSeconds, limit }, device) => {
+      let pattern: RegExp | undefined;
+      if (ssidPattern !== undefined) {
+        try {
+          pattern = new RegExp(ssidPattern, 'i');
+        } catch (err) {
+          return {
+            content: [{ type: 'text', text: `Error: Invalid ssidPattern: ${(err as Error).message}` }],
+            isError: true,
+          };
+        }
+      }
+
+      const wifi = device.getWifiCommands();
+      const scanned = await wifi.scanPasses({ radioDetails, passes, windowMs: windowSeconds * 1000 });
+      const matching = sortScanResults(filterScanResults(scanned, { ssidPattern: pattern, minRssi, bands }), sortBy);
+      const networks = limit !== undefined ? matching.slice(0, limit) : matching;
 
       return {
         content: [
@@ -310,7 +569,9 @@ export function createMcpServer(
             text: JSON.stringify(
               {
                 count: networks.length,
-                networks: networks.sort((a, b) => b.rssi - a.rssi),
+                ...(networks.length < scanned.length && { totalSeen: scanned.length }),
+                ...(passes > 1 && { passes }),
+                networks,
               },
               null,
               2
@@ -318,20 +579,47 @@ export function createMcpServer(
           },
         ],
       };
-    }
+    },
+    { stepwise: ({ windowSeconds }) => windowSeconds > 0 }
   );
 
-  mcpServer.tool(
+  mutatingDeviceTool(
     'wifi_connect',
-    'Connect to a WiFi network (WPA2/WPA3/Open/OWE)',
+    'Connect to a WiFi network (WPA2/WPA3/Open/OWE). Optional hidden-SSID, metered and MAC randomization settings go through `cmd wifi`; static IP and HTTP proxy go through the companion app',
     {
       ssid: z.string().describe('Network SSID'),
       security: z.enum(['open', 'owe', 'wpa2', 'wpa3']).describe('Security type'),
       password: z.string().optional().describe('Network password (required for WPA2/WPA3)'),
+      bssid: z
+        .string()
+        .optional()
+        .describe('Pin the association to one AP (aa:bb:cc:dd:ee:ff) of a multi-AP network. Android 12+'),
+      hidden: z.boolean().optional().describe('The SSID is not broadcast; probe for it directly'),
+      metered: z.boolean().optional().describe('Mark the network as metered'),
+      macRandomization: z
+        .enum(['auto', 'none', 'persistent', 'non_persistent'])
+        .optional()
+        .describe('MAC to use: "none" = factory MAC, "persistent" = stable randomized per network, "non_persistent" = new randomized MAC per connection'),
+      staticIp: z
+        .object({
+          address: z.string().describe('IPv4 CIDR, e.g. 192.168.1.50/24'),
+          gateway: z.string().optional(),
+          dns: z.array(z.string()).optional(),
+        })
+        .optional()
+        .describe('Static IPv4 instead of DHCP. Needs the companion app as device owner on Android 10+'),
+      proxy: z
+        .object({
+          host: z.string().optional(),
+          port: z.number().int().optional(),
+          exclusionList: z.array(z.string()).optional().describe('Hosts that bypass the proxy'),
+          pacUrl: z.string().optional().describe('PAC file URL (instead of host/port)'),
+        })
+        .optional()
+        .describe('HTTP proxy for this network. Needs the companion app as device owner on Android 10+'),
     },
-    async ({ ssid, security, password }) => {
-      await ensureDevice();
-      const wifi = deviceManager.getWifiCommands();
+    async ({ ssid, security, password, bssid, hidden, metered, macRandomization, staticIp, proxy }, device) => {
+      const wifi = device.getWifiCommands();
 
       if ((security === 'wpa2' || security === 'wpa3') && !password) {
         return {
@@ -345,7 +633,14 @@ export function createMcpServer(
         };
       }
 
-      const result = await wifi.connect(ssid, security as SecurityType, password);
+      const result = await wifi.connect(ssid, security as SecurityType, password, {
+        bssid,
+        hidden,
+        metered,
+        macRandomization,
+        staticIp,
+        proxy,
+      });
 
       if (result.success) {
         const status = await wifi.getStatus();
@@ -357,6 +652,8 @@ export function createMcpServer(
                 {
                   success: true,
                   ssid: result.ssid,
+                  ...(result.bssid && { bssid: result.bssid }),
+                  ...(result.via && { via: result.via }),
                   status,
                 },
                 null,
@@ -374,6 +671,8 @@ export function createMcpServer(
                 {
                   success: false,
                   ssid: result.ssid,
+                  ...(result.bssid && { bssid: result.bssid }),
+                  ...(result.via && { via: result.via }),
                   error: result.error,
                 },
                 null,
@@ -387,7 +686,7 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  mutatingDeviceTool(
     'wifi_disconnect',
     'Disconnect from the current WiFi network',
     {
@@ -399,9 +698,8 @@ export function createMcpServer(
           'Disconnect mode: "toggle" (disable/enable WiFi, keeps saved network) or "forget" (removes saved network)'
         ),
     },
-    async ({ mode }) => {
-      await ensureDevice();
-      const wifi = deviceManager.getWifiCommands();
+    async ({ mode }, device) => {
+      const wifi = device.getWifiCommands();
       await wifi.disconnect(mode);
 
       const message =
@@ -420,13 +718,12 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  deviceTool(
     'wifi_status',
     'Get current WiFi connection status',
     {},
-    async () => {
-      await ensureDevice();
-      const wifi = deviceManager.getWifiCommands();
+    async (_args, device) => {
+      const wifi = device.getWifiCommands();
       const status = await wifi.getStatus();
 
       return {
@@ -440,13 +737,104 @@ export function createMcpServer(
     }
   );
 
+  // Like network_watch_validation: takes the device lock per poll, not for
+  // the whole window, so a roam can be triggered on the same phone
+  // (wifi_connect with a BSSID, a BSS transition) while it watches.
   mcpServer.tool(
+    'wifi_roam_monitor',
+    'Watch the WiFi association for a window and report roams (BSSID changes with timing, RSSI and band) and disconnects. Walk the device between APs, or trigger a BSS transition on the same phone, while this runs (those calls interleave with the polls)',
+    {
+      durationSeconds: z.number().int().min(1).max(600).optional().default(60).describe('How long to watch (default 60, max 600)'),
+      intervalMs: z.number().int().min(200).max(10000).optional().default(1000).describe('Poll interval; bounds roam timing resolution (default 1000)'),
+      includeSamples: z.boolean().optional().default(false).describe('Include every raw sample in the result'),
+      serial: serialArg,
+    },
+    async ({ durationSeconds, intervalMs, includeSamples, serial }) => {
+      const target = serial ?? (await deviceManager.ensureDeviceSelected(selection));
+      const device = deviceManager.getDeviceContext(target);
+      const result = await device.getWifiCommands().monitorRoaming({
+        durationMs: durationSeconds * 1000,
+        intervalMs,
+        includeSamples,
+        exclusive: poll => device.exclusive(poll),
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  mutatingDeviceTool(
+    'wifi_survey_start',
+    'Start a background RF site survey: scan every intervalSeconds and record each BSSID\'s RSSI tagged with a location label. Call again while it runs to change the label as you move (e.g. "2F-east"). Samples go to the wifi_survey_samples table when DATABASE_URL is set; wifi_survey_stop writes CSV/JSON time series on the host',
+    {
+      label: z.string().optional().describe('Location label for the samples that follow'),
+      intervalSeconds: z
+        .number()
+        .min(3)
+        .max(600)
+        .optional()
+        .default(DEFAULT_SURVEY_INTERVAL_MS / 1000)
+        .describe('Seconds between scans (default 10). Android may throttle faster scanning to cached results'),
+      maxDurationMinutes: z.number().min(1).max(24 * 60).optional().default(120).describe('Stop automatically after this long (default 120)'),
+    },
+    async ({ label, intervalSeconds, maxDurationMinutes }, device) => {
+      const current = device.getSurvey();
+      if (current?.running) {
+        current.setLabel(label ?? null);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, relabeled: true, survey: current.summary() }, null, 2) }],
+        };
+      }
+      const survey = new WifiSurvey(device, {
+        label: label ?? null,
+        intervalMs: intervalSeconds * 1000,
+        maxDurationMs: maxDurationMinutes * 60 * 1000,
+      });
+      device.setSurvey(survey);
+      survey.start();
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ success: true, survey: survey.summary() }, null, 2) }],
+      };
+    }
+  );
+
+  mutatingDeviceTool(
+    'wifi_survey_stop',
+    'Stop the RF survey on a device and export it to the host: a CSV with one row per BSSID sighting and a JSON per-BSSID RSSI time series. Also exports a survey that already stopped on its own',
+    {
+      outputDir: z
+        .string()
+        .optional()
+        .describe('Absolute host directory for survey-<id>.csv/.json (default: <tmpdir>/android-wifi-surveys)'),
+    },
+    async ({ outputDir }, device) => {
+      const survey = device.getSurvey();
+      if (!survey) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: false, error: 'No survey on this device. Start one with wifi_survey_start.' }, null, 2) }],
+          isError: true,
+        };
+      }
+      survey.stop();
+      const files = await survey.export(outputDir ?? join(tmpdir(), 'android-wifi-surveys'));
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ success: true, survey: survey.summary(), ...files }, null, 2) }],
+      };
+    }
+  );
+
+  mutatingDeviceTool(
     'wifi_enable',
     'Enable WiFi on the device',
     {},
-    async () => {
-      await ensureDevice();
-      const wifi = deviceManager.getWifiCommands();
+    async (_args, device) => {
+      const wifi = device.getWifiCommands();
       await wifi.setEnabled(true);
 
       const enabled = await wifi.waitForEnabled(true);
@@ -462,13 +850,12 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  mutatingDeviceTool(
     'wifi_disable',
     'Disable WiFi on the device',
     {},
-    async () => {
-      await ensureDevice();
-      const wifi = deviceManager.getWifiCommands();
+    async (_args, device) => {
+      const wifi = device.getWifiCommands();
       await wifi.setEnabled(false);
 
       const disabled = await wifi.waitForEnabled(false);
@@ -484,13 +871,12 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  deviceTool(
     'wifi_list_networks',
-    'List saved WiFi networks on the device',
+    'List saved WiFi networks on the device, with security type, auto-join, priority, metered, MAC randomization, last-connected time and origin (user, suggestion or companion) where the build reports them',
     {},
-    async () => {
-      await ensureDevice();
-      const wifi = deviceManager.getWifiCommands();
+    async (_args, device) => {
+      const wifi = device.getWifiCommands();
       const networks = await wifi.listSavedNetworks();
 
       return {
@@ -511,15 +897,14 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  mutatingDeviceTool(
     'wifi_forget',
     'Forget a saved WiFi network',
     {
       networkId: z.number().describe('Network ID to forget (from wifi_list_networks)'),
     },
-    async ({ networkId }) => {
-      await ensureDevice();
-      const wifi = deviceManager.getWifiCommands();
+    async ({ networkId }, device) => {
+      const wifi = device.getWifiCommands();
       await wifi.forgetNetwork(networkId);
 
       return {
@@ -533,33 +918,117 @@ export function createMcpServer(
     }
   );
 
+  mutatingDeviceTool(
+    'wifi_forget_matching',
+    'Forget every saved WiFi network whose SSID matches a pattern, e.g. to tear down only the networks a test added',
+    {
+      ssidPattern: z.string().describe('Case-insensitive regex the SSID must match (use ^...$ for an exact name)'),
+      origins: z
+        .array(z.enum(['user', 'suggestion', 'companion']))
+        .optional()
+        .describe('Only networks added this way (default: any origin)'),
+      dryRun: z.boolean().optional().default(false).describe('List what would be forgotten without forgetting it'),
+    },
+    async ({ ssidPattern, origins, dryRun }, device) => {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(ssidPattern, 'i');
+      } catch (err) {
+        return {
+          content: [{ type: 'text', text: `Error: Invalid ssidPattern: ${(err as Error).message}` }],
+          isError: true,
+        };
+      }
+
+      const wifi = device.getWifiCommands();
+      const networks = await wifi.forgetMatching(pattern, { origins, dryRun });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                ...(dryRun && { dryRun }),
+                [dryRun ? 'wouldForget' : 'forgotten']: networks.length,
+                networks: networks.map(n => ({ networkId: n.networkId, ssid: n.ssid, origin: n.origin })),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  mutatingDeviceTool(
+    'wifi_update_network',
+    'Toggle auto-join and/or set the priority of a saved WiFi network. Requires the companion app as device owner.',
+    {
+      networkId: z.number().describe('Network ID to change (from wifi_list_networks)'),
+      autoJoin: z.boolean().optional().describe('Whether the device may join this network on its own'),
+      priority: z.number().int().optional().describe('Selection priority; higher is preferred on builds that still honour it'),
+    },
+    async ({ networkId, autoJoin, priority }, device) => {
+      if (autoJoin === undefined && priority === undefined) {
+        return {
+          content: [{ type: 'text', text: 'Error: Pass autoJoin and/or priority' }],
+          isError: true,
+        };
+      }
+
+      const wifi = device.getWifiCommands();
+      const network = await wifi.updateNetwork(networkId, {
+        ...(autoJoin !== undefined && { autoJoin }),
+        ...(priority !== undefined && { priority }),
+      });
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ success: true, network }, null, 2) }],
+      };
+    }
+  );
+
   // ============ Enterprise WiFi Tools (802.1X/EAP) ============
 
-  mcpServer.tool(
+  mutatingDeviceTool(
     'wifi_connect_enterprise',
-    'Connect to 802.1X enterprise WiFi (EAP-PEAP/TTLS/TLS). Requires companion app.',
+    'Connect to 802.1X enterprise WiFi (EAP-PEAP/TTLS/TLS/PWD, or EAP-SIM/AKA/AKA\' for carrier Wi-Fi calling networks). Requires companion app; the SIM methods also need it to be device owner. When the device does not associate, the result carries a diagnosis (server_cert_rejected, wrong_credentials, eap_method_mismatch, timeout or disabled_by_framework) from logcat and dumpsys wifi. Certificates that are expired or expire within 30 days come back as warnings.',
     {
       ssid: z.string().describe('Network SSID'),
-      eapMethod: z.enum(['peap', 'ttls', 'tls']).describe('EAP method'),
-      identity: z.string().describe('Username or email for authentication'),
+      eapMethod: z.enum(['peap', 'ttls', 'tls', 'pwd', 'sim', 'aka', 'aka_prime']).describe('EAP method'),
+      identity: z.string().optional().describe('Username or email for authentication (required except for sim/aka/aka_prime, which default to the SIM identity)'),
       domainSuffixMatch: z.string().optional().describe('RADIUS server domain to match (e.g. radius.corp.com). Optional when caCertificate is set.'),
       phase2Method: z
         .enum(['mschapv2', 'pap', 'gtc', 'none'])
         .optional()
         .default('mschapv2')
         .describe('Phase 2 authentication method (for PEAP/TTLS)'),
-      password: z.string().optional().describe('Password (required for PEAP/TTLS)'),
+      password: z.string().optional().describe('Password (required for PEAP/TTLS/PWD)'),
       anonymousIdentity: z.string().optional().describe('Anonymous outer identity'),
       caCertificate: z.string().optional().describe('CA certificate, PEM. May be a full chain (intermediates + a self-signed root) — needed when the RADIUS uses a public cert and presents only leaf + intermediate.'),
       clientCertificate: z.string().optional().describe('Client certificate for EAP-TLS, PEM'),
       privateKey: z.string().optional().describe('Private key for EAP-TLS, PEM (PKCS#8)'),
       privateKeyPassword: z.string().optional().describe('Private key password (if encrypted)'),
+      clientPkcs12: z.string().optional().describe('EAP-TLS client certificate + key as a base64 PKCS#12 (.p12/.pfx) bundle, instead of clientCertificate/privateKey'),
+      clientPkcs12Password: z.string().optional().describe('Password of clientPkcs12'),
+      simSlot: z.number().int().min(0).optional().describe('SIM slot (0-based) for sim/aka/aka_prime on dual-SIM phones'),
+      subscriptionId: z.number().int().optional().describe('Subscription id for sim/aka/aka_prime, instead of simSlot'),
+      securityMode: z
+        .enum(['wpa2', 'wpa3', 'wpa3_192bit'])
+        .optional()
+        .describe('WPA2-Enterprise (default), WPA3-Enterprise, or WPA3-Enterprise 192-bit / Suite-B (EAP-TLS only, Android 12+)'),
+      tlsMinVersion: z.enum(['1.0', '1.1', '1.2', '1.3']).optional().describe('Minimum TLS version for PEAP/TTLS/TLS (Android 13+)'),
+      ocsp: z
+        .enum(['none', 'request', 'require', 'require_all'])
+        .optional()
+        .describe('OCSP check of the server certificate (request/require the leaf status, or require_all for every non-trusted cert); needs caCertificate'),
       verify: z.boolean().optional().default(true).describe('Poll for actual association after the suggestion is accepted; a success then means the device is on the SSID, not just that the config was accepted. Set false for the old fire-and-forget behaviour.'),
       verifyTimeoutMs: z.number().int().optional().default(30000).describe('How long to wait for association when verify is true (ms, default 30000)'),
     },
-    async (params) => {
-      await ensureDevice();
-      const enterpriseWifi = new EnterpriseWifiCommands(deviceManager.getAdbClient());
+    async (params, device) => {
+      const enterpriseWifi = new EnterpriseWifiCommands(device.getAdbClient());
 
       const result = await enterpriseWifi.connectEnterprise({
         ssid: params.ssid,
@@ -573,6 +1042,13 @@ export function createMcpServer(
         clientCertificate: params.clientCertificate,
         privateKey: params.privateKey,
         privateKeyPassword: params.privateKeyPassword,
+        clientPkcs12: params.clientPkcs12,
+        clientPkcs12Password: params.clientPkcs12Password,
+        simSlot: params.simSlot,
+        subscriptionId: params.subscriptionId,
+        securityMode: params.securityMode,
+        tlsMinVersion: params.tlsMinVersion,
+        ocsp: params.ocsp,
         verify: params.verify,
         verifyTimeoutMs: params.verifyTimeoutMs,
       });
@@ -588,6 +1064,7 @@ export function createMcpServer(
                   ssid: result.ssid,
                   eapMethod: result.eapMethod,
                   message: 'Connected to enterprise WiFi successfully',
+                  warnings: result.warnings,
                 },
                 null,
                 2
@@ -606,6 +1083,9 @@ export function createMcpServer(
                   ssid: result.ssid,
                   eapMethod: result.eapMethod,
                   error: result.error,
+                  associated: result.associated,
+                  diagnosis: result.diagnosis,
+                  warnings: result.warnings,
                 },
                 null,
                 2
@@ -618,15 +1098,14 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  mutatingDeviceTool(
     'wifi_disconnect_enterprise',
     "Forget enterprise WiFi: remove the companion's network suggestion(s) so the device stops auto-joining and no stale suggestion competes next time. Android removes the app's suggestions as a set, so this clears the companion's enterprise network. Requires companion app.",
     {
       ssid: z.string().describe('Network SSID being forgotten (for intent/logging; the companion clears its enterprise suggestion set)'),
     },
-    async ({ ssid }) => {
-      await ensureDevice();
-      const enterpriseWifi = new EnterpriseWifiCommands(deviceManager.getAdbClient());
+    async ({ ssid }, device) => {
+      const enterpriseWifi = new EnterpriseWifiCommands(device.getAdbClient());
 
       const result = await enterpriseWifi.disconnectEnterprise(ssid);
 
@@ -656,19 +1135,29 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  mutatingDeviceTool(
     'wifi_install_certificate',
-    'Install a CA or client certificate for enterprise WiFi. Requires companion app.',
+    'Install a CA or client certificate for enterprise WiFi. A client certificate can come as a PKCS#12 (.p12/.pfx) bundle, unpacked host-side. Requires companion app.',
     {
-      certificate: z.string().describe('Certificate content (base64-encoded PEM or DER)'),
+      certificate: z.string().optional().describe('Certificate content (base64-encoded PEM or DER); omit when pkcs12 is given'),
+      pkcs12: z.string().optional().describe('Client certificate + private key as a base64 PKCS#12 (.p12/.pfx) bundle (type client)'),
+      pkcs12Password: z.string().optional().describe('Password of the PKCS#12 bundle'),
       alias: z.string().describe('Friendly name for the certificate'),
       type: z.enum(['ca', 'client']).describe('Certificate type'),
     },
-    async ({ certificate, alias, type }) => {
-      await ensureDevice();
-      const enterpriseWifi = new EnterpriseWifiCommands(deviceManager.getAdbClient());
-
-      const result = await enterpriseWifi.installCertificate(certificate, alias, type);
+    async ({ certificate, pkcs12, pkcs12Password, alias, type }, device) => {
+      const enterpriseWifi = new EnterpriseWifiCommands(device.getAdbClient());
+
+      let result;
+      if (pkcs12 && (certificate || type !== 'client')) {
+        result = { success: false, alias, type, error: 'pkcs12 installs a client certificate on its own; omit certificate and use type "client"' };
+      } else if (pkcs12) {
+        result = await enterpriseWifi.installPkcs12(pkcs12, pkcs12Password ?? '', alias);
+      } else if (certificate) {
+        result = await enterpriseWifi.installCertificate(certificate, alias, type);
+      } else {
+        result = { success: false, alias, type, error: 'Either certificate or pkcs12 is required' };
+      }
 
       if (result.success) {
         return {
@@ -681,6 +1170,7 @@ export function createMcpServer(
                   alias: result.alias,
                   type: result.type,
                   message: `Certificate "${alias}" installed successfully`,
+                  warnings: result.warnings,
                 },
                 null,
                 2
@@ -712,16 +1202,58 @@ export function createMcpServer(
   );
 
   mcpServer.tool(
+    'wifi_certificate_inspect',
+    'Parse a certificate (or chain) host-side: subject, issuer, SANs, validity, days until expiry, CA flag and SHA-256 fingerprint. Use it to check a RADIUS CA or client certificate before wifi_install_certificate / wifi_connect_enterprise. No device needed.',
+    {
+      certificate: z.string().describe('PEM text (one or more CERTIFICATE blocks), or base64 of a PEM file or a DER certificate'),
+    },
+    async ({ certificate }) => {
+      try {
+        const certificates = inspectCertificates(certificate);
+        const warnings = certificateExpiryWarnings({ certificate });
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: true, certificates, ...(warnings.length > 0 && { warnings }) }, null, 2) }],
+        };
+      } catch (err) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ success: false, error: err instanceof Error ? err.message : String(err) }, null, 2) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  mutatingDeviceTool(
+    'wifi_certificate_remove',
+    "Remove a certificate installed with wifi_install_certificate from the companion app's keystore, by alias. Networks already configured keep their own copy. Requires companion app.",
+    {
+      alias: z.string().describe('Alias the certificate was installed under'),
+    },
+    async ({ alias }, device) => {
+      const enterpriseWifi = new EnterpriseWifiCommands(device.getAdbClient());
+      const result = await enterpriseWifi.removeCertificate(alias);
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ ...result, message: `Certificate "${alias}" removed` }, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+  );
+
+  deviceTool(
     'wifi_check_companion_app',
     'Check if the enterprise WiFi companion app is installed',
     {},
-    async () => {
-      await ensureDevice();
-      const enterpriseWifi = new EnterpriseWifiCommands(deviceManager.getAdbClient());
+    async (_args, device) => {
+      const enterpriseWifi = new EnterpriseWifiCommands(device.getAdbClient());
       const installed = await enterpriseWifi.isCompanionAppInstalled();
 
       const notifStatus = installed
-        ? await deviceManager.getNotificationCommands().getStatus().catch(() => null)
+        ? await device.getNotificationCommands().getStatus().catch(() => null)
         : null;
 
       return {
@@ -749,18 +1281,244 @@ export function createMcpServer(
     }
   );
 
+  // ============ Passpoint (Hotspot 2.0) Tools ============
+
+  mutatingDeviceTool(
+    'wifi_passpoint_install',
+    'Install a Passpoint (Hotspot 2.0) profile: home SP FQDN, realm, roaming consortium OIs and one credential (user = EAP-TTLS username/password, certificate = EAP-TLS, sim = EAP-SIM/AKA/AKA\'). Installing the same FQDN again replaces it. Requires companion app.',
+    {
+      fqdn: z.string().describe('Home SP FQDN, e.g. "hotspot.example.com"'),
+      friendlyName: z.string().describe('Home SP friendly name'),
+      realm: z.string().describe('NAI realm of the credential'),
+      roamingConsortiumOis: z.array(z.string()).optional().describe('Roaming consortium OIs as hex, e.g. ["5a03ba0000"]'),
+      credentialType: z.enum(['user', 'certificate', 'sim']).describe('Credential type'),
+      username: z.string().optional().describe('Username (user credential)'),
+      password: z.string().optional().describe('Password (user credential)'),
+      caCertificate: z.string().optional().describe('PEM CA certificate of the AAA server (user/certificate credentials)'),
+      clientCertificate: z.string().optional().describe('PEM client certificate (certificate credential)'),
+      privateKey: z.string().optional().describe('PEM PKCS#8 private key (certificate credential)'),
+      imsi: z.string().optional().describe('IMSI or MCC+MNC prefix ending in "*" (sim credential)'),
+      simEapMethod: z.enum(['sim', 'aka', 'aka_prime']).optional().describe('EAP method for a sim credential (default aka)'),
+    },
+    async (args, device) => {
+      const enterpriseWifi = new EnterpriseWifiCommands(device.getAdbClient());
+      const result = await enterpriseWifi.installPasspoint(args);
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+  );
+
+  deviceTool(
+    'wifi_passpoint_list',
+    'List Passpoint profiles installed by the companion app, and which one (if any) the current connection matched. Requires companion app.',
+    {},
+    async (_args, device) => {
+      const enterpriseWifi = new EnterpriseWifiCommands(device.getAdbClient());
+      const result = await enterpriseWifi.listPasspoint();
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ ...result, count: result.profiles.length }, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+  );
+
+  mutatingDeviceTool(
+    'wifi_passpoint_remove',
+    'Remove an installed Passpoint profile by home SP FQDN. Requires companion app.',
+    {
+      fqdn: z.string().describe('Home SP FQDN of the profile'),
+    },
+    async ({ fqdn }, device) => {
+      const enterpriseWifi = new EnterpriseWifiCommands(device.getAdbClient());
+      const result = await enterpriseWifi.removePasspoint(fqdn);
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+  );
+
+  // ============ Wi-Fi Direct (P2P) Tools ============
+
+  deviceTool(
+    'wifi_p2p_status',
+    'Wi-Fi Direct state: whether P2P is up, the current group (name, group owner, clients, interface, frequency), group owner and own IP addresses, and the peers the framework last saw',
+    {},
+    async (_args, device) => {
+      const p2p = new WifiP2pCommands(device.getAdbClient());
+      const status = await p2p.getStatus();
+      return {
+        content: [{ type: 'text', text: JSON.stringify(status, null, 2) }],
+      };
+    }
+  );
+
+  deviceTool(
+    'wifi_p2p_discover',
+    'Discover nearby Wi-Fi Direct peers. Requires companion app (with NEARBY_WIFI_DEVICES granted on Android 13+).',
+    {
+      durationSeconds: z.number().int().min(1).max(45).optional().default(10).describe('How long to run discovery'),
+    },
+    async ({ durationSeconds }, device) => {
+      const p2p = new WifiP2pCommands(device.getAdbClient());
+      const result = await p2p.discover(durationSeconds * 1000);
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ ...result, count: result.peers.length }, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ ...result, count: result.peers.length }, null, 2) }],
+        isError: true,
+      };
+    },
+    { stepwise: true }
+  );
+
+  mutatingDeviceTool(
+    'wifi_p2p_connect',
+    'Connect to a Wi-Fi Direct peer and wait for the group to form. Requires companion app. Returns group owner info and assigned IPs.',
+    {
+      deviceAddress: z.string().describe('Peer P2P device address (from wifi_p2p_discover)'),
+      groupOwnerIntent: z.number().int().min(0).max(15).optional().describe('0 = prefer to be a client, 15 = insist on being group owner'),
+      wps: z.enum(['pbc', 'display', 'keypad']).optional().default('pbc').describe('WPS method (display/keypad need pin)'),
+      pin: z.string().optional().describe('WPS PIN for display/keypad'),
+      timeoutSeconds: z.number().int().min(1).max(120).optional().default(30).describe('How long to wait for the group to form'),
+    },
+    async ({ deviceAddress, groupOwnerIntent, wps, pin, timeoutSeconds }, device) => {
+      const p2p = new WifiP2pCommands(device.getAdbClient());
+      const result = await p2p.connect(deviceAddress, { groupOwnerIntent, wps, pin, timeoutMs: timeoutSeconds * 1000 });
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+  );
+
+  mutatingDeviceTool(
+    'wifi_p2p_remove_group',
+    'Leave or tear down the current Wi-Fi Direct group. Requires companion app.',
+    {},
+    async (_args, device) => {
+      const p2p = new WifiP2pCommands(device.getAdbClient());
+      const result = await p2p.removeGroup();
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+  );
+
+  // ============ Hotspot (SoftAP) Tools ============
+
+  mutatingDeviceTool(
+    'wifi_hotspot_start',
+    'Start the mobile hotspot (SoftAP) with the given SSID, security and band, and wait until it is up. Uses `cmd wifi start-softap` (Android 11+); internet sharing depends on the build and carrier.',
+    {
+      ssid: z.string().describe('Hotspot SSID (1-32 bytes)'),
+      security: z
+        .enum(['open', 'wpa2', 'wpa3_transition', 'wpa3', 'owe_transition', 'owe'])
+        .optional()
+        .default('wpa2')
+        .describe('Security type'),
+      passphrase: z.string().optional().describe('Passphrase (8-63 characters) for wpa2/wpa3'),
+      band: z.enum(['2.4GHz', '5GHz', '6GHz', 'any', 'bridged']).optional().describe('Band; bridged runs 2.4 and 5 GHz at once where supported'),
+    },
+    async ({ ssid, security, passphrase, band }, device) => {
+      const result = await device.getHotspotCommands().start({ ssid, security, passphrase, band });
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+  );
+
+  mutatingDeviceTool(
+    'wifi_hotspot_stop',
+    'Stop the mobile hotspot',
+    {},
+    async (_args, device) => {
+      const hotspot = device.getHotspotCommands();
+      await hotspot.stop();
+      const status = await hotspot.getStatus();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: status.enabled ? 'Hotspot stop command sent (verify with wifi_hotspot_status)' : 'Hotspot stopped',
+          },
+        ],
+      };
+    }
+  );
+
+  deviceTool(
+    'wifi_hotspot_status',
+    'Mobile hotspot state: whether it is up, SSID, security, bands, interface, frequency, BSSID and the number of associated clients. Never returns the passphrase.',
+    {},
+    async (_args, device) => {
+      const status = await device.getHotspotCommands().getStatus();
+      return {
+        content: [{ type: 'text', text: JSON.stringify(status, null, 2) }],
+      };
+    }
+  );
+
+  deviceTool(
+    'wifi_hotspot_clients',
+    'List stations associated with the mobile hotspot, with the IP address each was given where the neighbour table has it',
+    {},
+    async (_args, device) => {
+      const clients = await device.getHotspotCommands().listClients();
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ count: clients.length, clients }, null, 2) }],
+      };
+    }
+  );
+
   // ============ Network Diagnostics Tools ============
 
-  mcpServer.tool(
+  deviceTool(
     'network_ping',
     'Ping a host from the device',
     {
       host: z.string().describe('Host to ping (IP address or hostname)'),
       count: z.number().optional().default(4).describe('Number of ping packets'),
     },
-    async ({ host, count }) => {
-      await ensureDevice();
-      const networkCheck = new NetworkCheck(deviceManager.getAdbClient());
+    async ({ host, count }, device) => {
+      const networkCheck = new NetworkCheck(device.getAdbClient());
       const result = await networkCheck.ping(host, count);
 
       return {
@@ -774,15 +1532,14 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  deviceTool(
     'network_dns_lookup',
     'Perform DNS lookup from the device',
     {
       hostname: z.string().describe('Hostname to resolve'),
     },
-    async ({ hostname }) => {
-      await ensureDevice();
-      const networkCheck = new NetworkCheck(deviceManager.getAdbClient());
+    async ({ hostname }, device) => {
+      const networkCheck = new NetworkCheck(device.getAdbClient());
       const result = await networkCheck.dnsLookup(hostname);
 
       return {
@@ -796,13 +1553,60 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  deviceTool(
+    'network_traceroute',
+    "Trace the route from the phone to a host: each hop's address and round-trip time. Uses the device's traceroute when present, else TTL-stepped pings (stock Android has no traceroute)",
+    {
+      host: z.string().describe('Host to trace (IP address or hostname)'),
+      maxHops: z.number().int().min(1).max(64).optional().default(20).describe('Give up after this many hops (default 20)'),
+    },
+    async ({ host, maxHops }, device) => {
+      const networkCheck = new NetworkCheck(device.getAdbClient());
+      const result = await networkCheck.traceroute(host, maxHops);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  deviceTool(
+    'network_mtu_probe',
+    "Find the path MTU from the phone to a host by bisecting don't-fragment ping sizes. Reports every probe and any MTU a router or the interface named",
+    {
+      host: z.string().describe('Host to probe (IP address or hostname)'),
+      maxMtu: z.number().int().min(576).max(9000).optional().default(1500).describe('Largest MTU to try (default 1500; raise for jumbo frames)'),
+    },
+    async ({ host, maxMtu }, device) => {
+      const networkCheck = new NetworkCheck(device.getAdbClient());
+      const result = await networkCheck.mtuProbe(host, maxMtu);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  deviceTool(
+    'network_path_report',
+    "Diagnose the phone's network path in one call: gateway reachability and latency, DNS resolution, the first hop toward a target and its latency, and the path MTU, with any problems listed in `issues`",
+    {
+      target: z.string().optional().default('8.8.8.8').describe('Host to trace and probe the MTU to (default 8.8.8.8)'),
+      hostname: z.string().optional().default('connectivitycheck.gstatic.com').describe('Hostname to resolve for the DNS check'),
+    },
+    async ({ target, hostname }, device) => {
+      const networkCheck = new NetworkCheck(device.getAdbClient());
+      const result = await networkCheck.pathReport(target, hostname);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  deviceTool(
     'network_check_internet',
     'Check internet connectivity from the device',
     {},
-    async () => {
-      await ensureDevice();
-      const networkCheck = new NetworkCheck(deviceManager.getAdbClient());
+    async (_args, device) => {
+      const networkCheck = new NetworkCheck(device.getAdbClient());
       const result = await networkCheck.checkInternet();
 
       return {
@@ -816,13 +1620,12 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  deviceTool(
     'network_check_captive',
     "Detect captive portal via Android's connectivity verdict (open/captive/unknown)",
     {},
-    async () => {
-      await ensureDevice();
-      const networkCheck = new NetworkCheck(deviceManager.getAdbClient());
+    async (_args, device) => {
+      const networkCheck = new NetworkCheck(device.getAdbClient());
       const result = await networkCheck.checkCaptivePortal();
 
       return {
@@ -836,13 +1639,42 @@ export function createMcpServer(
     }
   );
 
+  // Not a deviceTool: the watch takes the device lock per poll rather than
+  // for the whole window, so wifi_connect / captive_portal_login on the same
+  // phone can run while it records.
   mcpServer.tool(
+    'network_watch_validation',
+    "Record the Wi-Fi network's validation lifecycle for a window: polls Android's connectivity state and returns a timeline of transitions between DISCONNECTED, CONNECTED, CAPTIVE_PORTAL, PARTIAL_CONNECTIVITY and VALIDATED with timestamps, plus connect→portal, portal→validated and connect→validated times. Start it, then connect and log in to the portal on the same phone while it runs (those calls interleave with the polls)",
+    {
+      durationSeconds: z.number().int().min(1).max(600).optional().default(120).describe('How long to watch (default 120, max 600)'),
+      intervalMs: z.number().int().min(200).max(10000).optional().default(500).describe('Poll interval; bounds timing resolution (default 500)'),
+      untilValidated: z.boolean().optional().default(false).describe('Stop at the first transition into VALIDATED instead of running the full window'),
+      includeSamples: z.boolean().optional().default(false).describe('Include every raw sample in the result'),
+      serial: serialArg,
+    },
+    async ({ durationSeconds, intervalMs, untilValidated, includeSamples, serial }) => {
+      const target = serial ?? (await deviceManager.ensureDeviceSelected(selection));
+      const device = deviceManager.getDeviceContext(target);
+      const networkCheck = new NetworkCheck(device.getAdbClient());
+      const result = await networkCheck.watchValidation({
+        durationMs: durationSeconds * 1000,
+        intervalMs,
+        untilValidated,
+        includeSamples,
+        exclusive: poll => device.exclusive(poll),
+      });
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  deviceTool(
     'network_interface_info',
     'Get network interface information (IP, gateway, DNS)',
     {},
-    async () => {
-      await ensureDevice();
-      const networkCheck = new NetworkCheck(deviceManager.getAdbClient());
+    async (_args, device) => {
+      const networkCheck = new NetworkCheck(device.getAdbClient());
       const result = await networkCheck.getInterfaceInfo();
 
       return {
@@ -856,6 +1688,93 @@ export function createMcpServer(
     }
   );
 
+  deviceTool(
+    'network_http_request',
+    "Make an HTTP(S) request from the phone over its Wi-Fi network (even a captive or unvalidated one), via the companion app. Returns status, headers, each redirect hop, a DNS/connect/TLS/first-byte timing breakdown, the server's TLS chain (subject, issuer, validity, fingerprint) and the first maxBodyBytes of the body — for checking walled-garden rules and portal redirects from the phone's real network path. Requires companion app.",
+    {
+      url: z.string().describe('http:// or https:// URL'),
+      method: z.enum(['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']).optional().describe('HTTP method (default GET)'),
+      headers: z.record(z.string()).optional().describe('Extra request headers'),
+      body: z.string().optional().describe('Request body (POST/PUT/PATCH)'),
+      followRedirects: z.boolean().optional().describe('Follow 3xx redirects (default true); each hop is reported'),
+      maxRedirects: z.number().int().min(0).max(20).optional().describe('Redirect hops to follow (default 5)'),
+      timeoutMs: z.number().int().min(1000).max(50_000).optional().describe('Connect/read timeout per hop (default 15000); the whole request, redirects included, stops after 50 s'),
+      maxBodyBytes: z.number().int().min(0).max(1_048_576).optional().describe('How much of the body to return (default 4096)'),
+      insecure: z.boolean().optional().describe('Skip TLS certificate validation — e.g. to see the certificate a portal intercepts HTTPS with'),
+    },
+    async (params, device) => {
+      const networkCheck = new NetworkCheck(device.getAdbClient());
+      const result = await networkCheck.httpRequest(params);
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+  );
+
+  mutatingDeviceTool(
+    'network_throughput_test',
+    "Measure Wi-Fi throughput between the phone and this host, iperf-style: the host runs a short-lived TCP or UDP server and the phone drives transfers to and from it. Reports upload/download Mbps per run; UDP also reports packet loss, reordering and jitter at the offered bitrate. TCP uses the phone's toybox nc; UDP requires companion app. By default the phone dials the host's LAN address over Wi-Fi (the host must share the phone's subnet, or pass hostAddress); path 'adb' goes through adb reverse instead and measures the adb link, not the Wi-Fi.",
+    {
+      protocol: z.enum(['tcp', 'udp']).optional().default('tcp').describe('tcp (bulk throughput) or udp (paced stream with loss and jitter; needs the companion app)'),
+      direction: z.enum(['up', 'down', 'both']).optional().default('both').describe('up = phone → host, down = host → phone, both = up then down'),
+      durationSeconds: z.number().int().min(1).max(60).optional().default(10).describe('Length of each run (UDP: at most 45)'),
+      path: z.enum(['wifi', 'adb']).optional().default('wifi').describe("wifi: phone dials the host's LAN address; adb: through adb reverse (TCP only, measures the adb link)"),
+      hostAddress: z.string().ip({ version: 'v4' }).optional().describe("Host IPv4 address as the phone reaches it (default: the host interface on the phone's subnet)"),
+      port: z.number().int().min(1024).max(65535).optional().describe('Host port to listen on (default: a free one)'),
+      bitrateMbps: z.number().min(0.1).max(2000).optional().describe('UDP offered load (default 50)'),
+      packetSize: z.number().int().min(64).max(1472).optional().describe('UDP payload bytes (default 1200)'),
+    },
+    async ({ direction, ...params }, device) => {
+      const throughput = new ThroughputTest(device.getAdbClient());
+      const result = await throughput.run({ ...params, directions: direction === 'both' ? ['up', 'down'] : [direction] });
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    },
+    { stepwise: true }
+  );
+
+  mutatingDeviceTool(
+    'captive_portal_login',
+    'Log in to a captive portal by running a declarative JSON or YAML recipe: open the portal, submit forms (accept terms, voucher, credentials), wait for an OTP by SMS or notification, then poll until Android validates the network. Reports each step (status, final URL, timing, error) and stops at the first failure. The recipe comes from `recipe`, `recipePath`, or the file in PORTAL_RECIPES_DIR whose `ssid` matches the connected network. Requires companion app for the HTTP steps.',
+    {
+      recipe: portalRecipeSchema.optional().describe('Inline recipe: { name?, ssid?, variables?, steps: [...] }'),
+      recipePath: z.string().optional().describe('Path to a JSON or YAML (.yml/.yaml) recipe file on the server host'),
+      variables: z.record(z.string()).optional().describe('Values for {{name}} placeholders (voucher, email, …); override the recipe defaults'),
+    },
+    async ({ recipe, recipePath, variables }, device) => {
+      const portal = new CaptivePortalLogin(
+        device.getAdbClient(),
+        device.getWifiCommands(),
+        device.getSmsCommands(),
+        device.getNotificationCommands()
+      );
+      const result = await portal.login({ recipe, recipePath, variables });
+      if (result.success) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    },
+    { stepwise: true }
+  );
+
   // ============ Device Screenshot ============
   //
   // Generic UI automation (taps, swipes, key events, type, app launch, URL
@@ -865,15 +1784,14 @@ export function createMcpServer(
   // stays here because it's a cheap verification primitive used internally by
   // our WiFi/network/OTP flows.
 
-  mcpServer.tool(
+  deviceTool(
     'device_screenshot',
     'Capture a PNG screenshot. Returns image content with base64 data, or saves to a host path if `outputPath` is given.',
     {
       outputPath: z.string().optional().describe('Optional host filesystem path to save the PNG. If omitted, returns base64 image content.'),
     },
-    async ({ outputPath }) => {
-      await ensureDevice();
-      const screenshot = deviceManager.getScreenshotCommands();
+    async ({ outputPath }, device) => {
+      const screenshot = device.getScreenshotCommands();
       const result = await screenshot.screenshot(outputPath);
 
       if ('outputPath' in result) {
@@ -902,7 +1820,7 @@ export function createMcpServer(
 
   // ============ SMS / OTP Tools ============
 
-  mcpServer.tool(
+  deviceTool(
     'sms_read_recent',
     'Read recent SMS messages from the device inbox. Optionally filter by sender substring/regex, body regex (with capture group for OTP), or recency. Note: some Samsung/OEM devices restrict content://sms/inbox even via adb shell — the response includes a warning when no rows are returned. Use the companion app notification listener (#3) for those devices.',
     {
@@ -911,9 +1829,8 @@ export function createMcpServer(
       bodyRegex: z.string().optional().describe('Regex match against body. If it has a capture group, the captured text becomes the OTP'),
       sinceSeconds: z.number().optional().describe('Only return messages received within the last N seconds'),
     },
-    async ({ limit, senderFilter, bodyRegex, sinceSeconds }) => {
-      await ensureDevice();
-      const sms = deviceManager.getSmsCommands();
+    async ({ limit, senderFilter, bodyRegex, sinceSeconds }, device) => {
+      const sms = device.getSmsCommands();
       const result = await sms.readRecent({ limit, senderFilter, bodyRegex, sinceSeconds });
       return {
         content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
@@ -921,7 +1838,7 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  deviceTool(
     'sms_wait_for_otp',
     'Poll the SMS inbox until a matching message arrives or timeout elapses. Returns the extracted OTP string when found. Default timeout 60s, default poll 2s.',
     {
@@ -931,19 +1848,19 @@ export function createMcpServer(
       timeoutMs: z.number().optional().default(60000).describe('Max time to wait in milliseconds (default 60000)'),
       pollIntervalMs: z.number().optional().default(2000).describe('Poll interval in milliseconds (default 2000)'),
     },
-    async ({ senderFilter, bodyRegex, sinceSeconds, timeoutMs, pollIntervalMs }) => {
-      await ensureDevice();
-      const sms = deviceManager.getSmsCommands();
+    async ({ senderFilter, bodyRegex, sinceSeconds, timeoutMs, pollIntervalMs }, device) => {
+      const sms = device.getSmsCommands();
       const result = await sms.waitForOtp({ senderFilter, bodyRegex, sinceSeconds, timeoutMs, pollIntervalMs });
       return {
         content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
       };
-    }
+    },
+    { stepwise: true }
   );
 
   // ============ Notification / OTP Tools (companion app) ============
 
-  mcpServer.tool(
+  deviceTool(
     'notifications_list_recent',
     'List recent notifications captured by the companion app (WhatsApp, email, banking apps, etc). Useful for OTPs that do not arrive via SMS. Requires the companion app installed and notification access granted (see wifi_check_companion_app).',
     {
@@ -952,9 +1869,8 @@ export function createMcpServer(
       sinceSeconds: z.number().optional().describe('Only return notifications received within the last N seconds'),
       limit: z.number().optional().default(50).describe('Max notifications to return (default 50)'),
     },
-    async ({ packageFilter, bodyRegex, sinceSeconds, limit }) => {
-      await ensureDevice();
-      const notif = deviceManager.getNotificationCommands();
+    async ({ packageFilter, bodyRegex, sinceSeconds, limit }, device) => {
+      const notif = device.getNotificationCommands();
       const result = await notif.listRecent({ packageFilter, bodyRegex, sinceSeconds, limit });
       return {
         content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
@@ -962,7 +1878,7 @@ export function createMcpServer(
     }
   );
 
-  mcpServer.tool(
+  deviceTool(
     'notifications_wait_for_otp',
     'Poll captured notifications until a matching OTP arrives or timeout elapses. Default timeout 60s, default poll 2s. Use packageFilter (e.g. "com.whatsapp") to scope.',
     {
@@ -972,14 +1888,14 @@ export function createMcpServer(
       timeoutMs: z.number().optional().default(60000).describe('Max time to wait in milliseconds (default 60000)'),
       pollIntervalMs: z.number().optional().default(2000).describe('Poll interval in milliseconds (default 2000)'),
     },
-    async ({ packageFilter, bodyRegex, sinceSeconds, timeoutMs, pollIntervalMs }) => {
-      await ensureDevice();
-      const notif = deviceManager.getNotificationCommands();
+    async ({ packageFilter, bodyRegex, sinceSeconds, timeoutMs, pollIntervalMs }, device) => {
+      const notif = device.getNotificationCommands();
       const result = await notif.waitForOtp({ packageFilter, bodyRegex, sinceSeconds, timeoutMs, pollIntervalMs });
       return {
         content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
       };
-    }
+    },
+    { stepwise: true }
   );
 
   // ============ Proxy Lifecycle ============
@@ -21,6 +21,8 @@ export interface DeviceInfo {
 // WiFi Types
 export type SecurityType = 'open' | 'owe' | 'wpa2' | 'wpa3';
 
+export type WifiBand = '2.4GHz' | '5GHz' | '6GHz';
+
 export interface ScanResult {
   ssid: string;
   bssid: string;
@@ -28,11 +30,44 @@ export interface ScanResult {
   rssi: number;           // Signal strength in dBm
   security: string;       // e.g., "WPA2-PSK", "WPA3-SAE", "Open"
   capabilities?: string;  // Raw capability string
+  band?: WifiBand;
+  channel?: number;
+  ageSeconds?: number;
+  akms: string[];         // Every advertised AKM, e.g. ["PSK", "SAE"] for WPA2/WPA3 transition
+  ciphers: string[];      // Pairwise ciphers, e.g. ["CCMP", "GCMP-256"]
+  transitionModes: string[]; // e.g. ["WPA2/WPA3-Personal"]
+  pmf?: 'capable' | 'required';
+  wps: boolean;
+  channelWidth?: number;  // MHz; only when dumpsys wifi reports it
+  wifiStandard?: string;  // e.g. "11ax"; only when dumpsys wifi reports it
+  wifiGeneration?: string; // e.g. "Wi-Fi 6E"
+  // Multi-pass scans only: how many passes saw this BSSID and its RSSI spread.
+  seenCount?: number;
+  rssiMin?: number;
+  rssiAvg?: number;
+  rssiMax?: number;
 }
 
+/** Who added a saved network: the user/shell, an app's network suggestion, or the companion app. */
+export type SavedNetworkOrigin = 'user' | 'suggestion' | 'companion';
+
 export interface SavedNetwork {
   networkId: number;
   ssid: string;
+  security?: string;      // list-networks column, e.g. "wpa2-psk"; transition networks list both ("wpa2-psk/wpa3-sae")
+  // From the configured-networks section of dumpsys wifi, where the build prints it.
+  autoJoin?: boolean;
+  priority?: number;
+  hidden?: boolean;
+  metered?: boolean;
+  macRandomization?: MacRandomizationMode;
+  lastConnected?: string; // as dumpsys prints it (device-local time of day)
+  origin?: SavedNetworkOrigin;
+}
+
+export interface SavedNetworkUpdate {
+  autoJoin?: boolean;
+  priority?: number;
 }
 
 export interface WifiStatus {
@@ -46,40 +81,126 @@ export interface WifiStatus {
   frequency?: number;
   networkId?: number;
   supplicantState?: string;
-  macAddress?: string;
+  macAddress?: string;    // MAC the device is using on this network (randomized or factory)
+  meteredHint?: boolean;
 }
 
 export interface WifiConnectionResult {
   success: boolean;
   ssid: string;
+  bssid?: string;         // Pinned BSSID, when the connect asked for one
+  via?: 'cmd' | 'companion'; // companion when static IP / proxy needed WifiConfiguration
   error?: string;
 }
 
+/** `cmd wifi connect-network -r` values. */
+export type MacRandomizationMode = 'auto' | 'none' | 'persistent' | 'non_persistent';
+
+export interface StaticIpConfig {
+  address: string;        // IPv4 CIDR, e.g. "192.168.1.50/24"
+  gateway?: string;
+  dns?: string[];
+}
+
+/** Manual proxy (host + port) or PAC URL. */
+export interface ProxyConfig {
+  host?: string;
+  port?: number;
+  exclusionList?: string[];
+  pacUrl?: string;
+}
+
+// Roaming (wifi_roam_monitor)
+export interface RoamSample {
+  offsetMs: number;       // ms since the monitor started
+  connected: boolean;
+  bssid?: string;
+  rssi?: number;
+  frequency?: number;
+}
+
+export interface RoamEvent {
+  offsetMs: number;       // first sample on the new BSSID
+  fromBssid: string;
+  toBssid: string;
+  fromFrequency?: number;
+  toFrequency?: number;
+  fromRssi?: number;      // last reading on the old AP
+  toRssi?: number;        // first reading on the new AP
+  bandChange: boolean;
+  gapMs: number;          // last sample on old → first on new (upper bound on the roam time)
+  disconnected: boolean;  // an unassociated sample was seen in between
+}
+
+export interface RoamDisconnect {
+  offsetMs: number;       // first unassociated sample
+  durationMs: number | null; // null if still down when the window ended
+}
+
+export interface RoamMonitorResult {
+  ssid?: string;
+  durationMs: number;
+  intervalMs: number;
+  sampleCount: number;
+  roams: RoamEvent[];
+  disconnects: RoamDisconnect[];
+  bssids: Array<{ bssid: string; frequency?: number; samples: number; minRssi?: number; maxRssi?: number }>;
+  samples?: RoamSample[];
+}
+
 // EAP Types (for 802.1X enterprise WiFi via companion app)
-export type EapMethod = 'peap' | 'ttls' | 'tls';
+export type SimEapMethod = 'sim' | 'aka' | 'aka_prime';
+export type EapMethod = 'peap' | 'ttls' | 'tls' | 'pwd' | SimEapMethod;
 export type Phase2Method = 'mschapv2' | 'pap' | 'gtc' | 'none';
+export type EnterpriseSecurityMode = 'wpa2' | 'wpa3' | 'wpa3_192bit';
+export type TlsVersion = '1.0' | '1.1' | '1.2' | '1.3';
+export type OcspMode = 'none' | 'request' | 'require' | 'require_all';
 
 export interface EapConfig {
   ssid: string;
   eapMethod: EapMethod;
   phase2Method?: Phase2Method;       // Required for PEAP/TTLS
-  identity: string;                  // Username/email
-  password?: string;                 // For PEAP/TTLS
+  identity?: string;                 // Username/email; SIM methods default to the SIM's permanent identity
+  password?: string;                 // For PEAP/TTLS/PWD
   anonymousIdentity?: string;        // Outer identity (optional)
   domainSuffixMatch?: string;        // Server domain to match; optional when caCertificate is set
   caCertificate?: string;            // PEM CA cert(s): a single cert, or a full chain (intermediates + self-signed root) for a public RADIUS cert
   clientCertificate?: string;        // PEM (for EAP-TLS)
   privateKey?: string;               // PEM, PKCS#8 (for EAP-TLS)
   privateKeyPassword?: string;       // If private key is encrypted
+  clientPkcs12?: string;             // EAP-TLS: base64 .p12/.pfx, instead of clientCertificate + privateKey
+  clientPkcs12Password?: string;     // Password of clientPkcs12
+  simSlot?: number;                  // SIM methods: 0-based SIM slot to authenticate with (dual-SIM phones)
+  subscriptionId?: number;           // SIM methods: subscription to authenticate with, instead of simSlot
+  securityMode?: EnterpriseSecurityMode; // Default wpa2; wpa3_192bit (Suite-B) is EAP-TLS only
+  tlsMinVersion?: TlsVersion;        // PEAP/TTLS/TLS: minimum TLS version (Android 13+)
+  ocsp?: OcspMode;                   // PEAP/TTLS/TLS: server certificate status check; needs caCertificate
   verify?: boolean;                  // Poll for actual association after the suggestion is accepted (default true)
   verifyTimeoutMs?: number;          // How long to wait for association (default 30000)
 }
 
+export type EapFailureReason =
+  | 'server_cert_rejected'
+  | 'wrong_credentials'
+  | 'eap_method_mismatch'
+  | 'timeout'
+  | 'disabled_by_framework';
+
+export interface EapFailureDiagnosis {
+  reason: EapFailureReason;
+  detail: string;
+  evidence: string[];                // The logcat lines the verdict rests on (last few)
+  networkSelectionStatus?: string;   // e.g. NETWORK_SELECTION_TEMPORARY_DISABLED
+  disableReason?: string;            // e.g. NETWORK_SELECTION_DISABLED_AUTHENTICATION_FAILURE
+}
+
 export interface EnterpriseConnectionResult {
   success: boolean;
   ssid: string;
   eapMethod: EapMethod;
   associated?: boolean;              // Set when verify ran: true = on the SSID, false = accepted but did not associate
+  diagnosis?: EapFailureDiagnosis;   // Set when associated is false: why, from logcat and dumpsys wifi
+  warnings?: string[];               // Referenced certificates that are expired or expire soon
   error?: string;
 }
 
@@ -87,6 +208,78 @@ export interface CertificateInstallResult {
   success: boolean;
   alias: string;
   type: 'ca' | 'client';
+  warnings?: string[];               // The certificate is expired or expires soon
+  error?: string;
+}
+
+export interface CertificateRemoveResult {
+  success: boolean;
+  alias: string;
+  error?: string;
+}
+
+// One X.509 certificate, parsed host-side from PEM
+export interface CertificateInfo {
+  subject: string;                   // "C=US, O=Example Corp, CN=radius.example.com"
+  issuer: string;
+  subjectAltNames: string[];         // "DNS:radius.example.com", "IP Address:10.0.0.5", ...
+  serialNumber: string;              // Hex
+  notBefore: string;                 // ISO
+  notAfter: string;                  // ISO
+  daysUntilExpiry: number;           // Whole days; negative once expired
+  expired: boolean;
+  notYetValid: boolean;
+  isCa: boolean;
+  selfSigned: boolean;
+  fingerprintSha256: string;         // Colon-separated hex
+  publicKey?: string;                // "rsa 2048", "ec prime256v1"
+}
+
+// Passpoint (Hotspot 2.0) profiles, installed as companion-app suggestions
+export type PasspointCredentialType = 'user' | 'certificate' | 'sim';
+
+export interface PasspointConfig {
+  fqdn: string;                      // Home SP FQDN
+  friendlyName: string;              // Home SP friendly name
+  realm: string;                     // NAI realm of the credential
+  roamingConsortiumOis?: string[];   // Hex OIs (3 or 5 octets), e.g. "5a03ba0000"
+  credentialType: PasspointCredentialType;
+  username?: string;                 // user: EAP-TTLS/MSCHAPv2
+  password?: string;                 // user
+  caCertificate?: string;            // PEM; AAA server trust root for user/certificate credentials
+  clientCertificate?: string;        // certificate: PEM (EAP-TLS)
+  privateKey?: string;               // certificate: PEM, PKCS#8
+  imsi?: string;                     // sim: full IMSI or prefix ending in "*", e.g. "310260*"
+  simEapMethod?: SimEapMethod;       // sim: default aka
+}
+
+export interface PasspointProfile {
+  fqdn: string;
+  friendlyName: string;
+  realm?: string;
+  credentialType?: PasspointCredentialType;
+  roamingConsortiumOis?: string[];
+  matched: boolean;                  // The current connection is a Passpoint network of this profile
+}
+
+export interface PasspointMatch {
+  fqdn: string;
+  friendlyName?: string;
+  ssid?: string;
+  bssid?: string;
+}
+
+export interface PasspointListResult {
+  success: boolean;
+  profiles: PasspointProfile[];
+  matched?: PasspointMatch;          // Set while associated to a Passpoint network
+  error?: string;
+}
+
+export interface PasspointResult {
+  success: boolean;
+  fqdn: string;
+  warnings?: string[];               // Referenced certificates that are expired or expire soon
   error?: string;
 }
 
@@ -105,6 +298,177 @@ export interface DnsResult {
   error?: string;
 }
 
+export interface TracerouteHop {
+  ttl: number;
+  address?: string;       // Unset: no reply within the timeout (*)
+  rttMs?: number;
+}
+
+export interface TracerouteResult {
+  host: string;
+  address?: string;       // Resolved destination
+  method: 'traceroute' | 'ping'; // traceroute binary, or TTL-stepped ping
+  reached: boolean;
+  hops: TracerouteHop[];
+  error?: string;
+}
+
+export interface MtuProbe {
+  size: number;           // ICMP payload bytes (packet = size + 28)
+  ok: boolean;
+  mtuHint?: number;       // MTU reported by "Frag needed" or a local "message too long"
+}
+
+export interface MtuProbeResult {
+  host: string;
+  pathMtu?: number;       // Largest packet that crossed with DF set
+  localMtu?: number;      // Interface MTU, when ping reported it
+  probes: MtuProbe[];
+  error?: string;
+}
+
+export interface PathReport {
+  target: string;
+  interface: string;
+  ipAddress?: string;
+  dnsServers?: string[];
+  gateway?: { address: string; alive: boolean; rttMs?: number; packetLoss?: number };
+  dns: DnsResult;
+  firstHop?: TracerouteHop;
+  mtu: MtuProbeResult;
+  issues: string[];       // Plain-language findings; empty when the path looks healthy
+}
+
+// Throughput test (phone ↔ host)
+export type ThroughputProtocol = 'tcp' | 'udp';
+export type ThroughputDirection = 'up' | 'down';
+/**
+ * How the phone reaches the host's server: over Wi-Fi to the host's LAN
+ * address, or through `adb reverse` — which rides the adb link (USB), so it
+ * measures that link rather than the Wi-Fi.
+ */
+export type ThroughputPath = 'wifi' | 'adb';
+
+export interface ThroughputTestOptions {
+  protocol?: ThroughputProtocol;          // Default tcp
+  directions?: ThroughputDirection[];     // Default both, upload first
+  durationSeconds?: number;               // Per direction; default 10
+  path?: ThroughputPath;                  // Default wifi
+  hostAddress?: string;                   // Host IP the phone dials; default: the host interface on the phone's subnet
+  port?: number;                          // Host port; default a free one
+  bitrateMbps?: number;                   // UDP offered load; default 50
+  packetSize?: number;                    // UDP payload bytes; default 1200
+}
+
+export interface ThroughputRun {
+  direction: ThroughputDirection;
+  success: boolean;
+  bytes: number;                          // Payload bytes that arrived
+  durationMs: number;
+  mbps: number;
+  packetsSent?: number;                   // UDP only, from here down
+  packetsReceived?: number;
+  lossPercent?: number;
+  jitterMs?: number;                      // RFC 3550 interarrival jitter
+  outOfOrder?: number;
+  error?: string;
+}
+
+export interface ThroughputResult {
+  success: boolean;
+  protocol: ThroughputProtocol;
+  path: ThroughputPath;
+  host: string;                           // Address:port the phone connected to
+  deviceAddress?: string;
+  upMbps?: number;
+  downMbps?: number;
+  runs: ThroughputRun[];
+  warning?: string;
+  error?: string;
+}
+
+// Mobile hotspot (SoftAP)
+/** `cmd wifi start-softap` security names. */
+export type SoftApSecurity = 'open' | 'wpa2' | 'wpa3' | 'wpa3_transition' | 'owe' | 'owe_transition';
+
+export interface SoftApConfig {
+  ssid: string;
+  security: SoftApSecurity;
+  passphrase?: string;          // Required unless open/owe
+  band?: WifiBand | 'any' | 'bridged';
+}
+
+export interface SoftApClient {
+  macAddress: string;
+  ipAddress?: string;           // From the neighbour table; absent until the client talks
+  neighborState?: string;       // e.g. REACHABLE, STALE
+}
+
+export interface SoftApStatus {
+  enabled: boolean;
+  state?: string;               // SoftApManager state machine mode
+  ssid?: string;
+  security?: SoftApSecurity;
+  bands?: WifiBand[];
+  hidden?: boolean;
+  passphraseSet?: boolean;      // dumpsys never prints the passphrase itself
+  maxClients?: number;          // 0 = device default
+  interface?: string;           // e.g. wlan1
+  frequency?: number;
+  bssid?: string;
+  clientCount: number;
+}
+
+export interface SoftApStartResult {
+  success: boolean;
+  status?: SoftApStatus;
+  error?: string;
+}
+
+// Wi-Fi Direct (P2P)
+export type P2pPeerStatus = 'connected' | 'invited' | 'failed' | 'available' | 'unavailable';
+
+export interface P2pPeer {
+  deviceName: string;
+  deviceAddress: string;
+  primaryDeviceType?: string;   // WPS type, e.g. "10-0050F204-5" (phone)
+  status: P2pPeerStatus;
+  isGroupOwner?: boolean;
+}
+
+export interface P2pGroup {
+  networkName: string;          // DIRECT-xy-...
+  isGroupOwner: boolean;        // Whether this device is the GO
+  groupOwner?: P2pPeer;
+  clients: P2pPeer[];
+  interface?: string;           // e.g. p2p-wlan0-0
+  frequency?: number;
+}
+
+export interface P2pStatus {
+  enabled: boolean;
+  thisDevice?: { deviceName: string; deviceAddress: string };
+  groupFormed: boolean;
+  isGroupOwner?: boolean;
+  groupOwnerAddress?: string;   // GO's IP on the group interface
+  ipAddress?: string;           // This device's IP on the group interface
+  group?: P2pGroup;
+  peers: P2pPeer[];             // Last discovery results the framework holds
+}
+
+export interface P2pDiscoveryResult {
+  success: boolean;
+  peers: P2pPeer[];
+  error?: string;
+}
+
+export interface P2pConnectResult {
+  success: boolean;
+  deviceAddress: string;
+  status?: P2pStatus;
+  error?: string;
+}
+
 export interface ConnectivityResult {
   hasInternet: boolean;
   latency?: number;
@@ -125,6 +489,170 @@ export interface CaptivePortalResult {
   error?: string;
 }
 
+// Validation timeline (network_watch_validation)
+/** Wi-Fi network state by its most advanced capability: VALIDATED > PARTIAL_CONNECTIVITY > CAPTIVE_PORTAL > CONNECTED. */
+export type ValidationState = 'DISCONNECTED' | 'CONNECTED' | 'CAPTIVE_PORTAL' | 'PARTIAL_CONNECTIVITY' | 'VALIDATED';
+
+export interface ValidationSample {
+  offsetMs: number;       // ms since the watch started
+  netId?: string;         // Connected Wi-Fi network; unset when there is none
+  capabilities: string[]; // The tracked ones present: CAPTIVE_PORTAL, PARTIAL_CONNECTIVITY, VALIDATED
+  portalUrl?: string;
+}
+
+export interface ValidationTransition {
+  offsetMs: number;       // first sample in the new state
+  at: string;             // ISO timestamp of that sample
+  state: ValidationState;
+  from: ValidationState | null; // null for the state at the start of the watch
+  netId?: string;
+  portalUrl?: string;
+}
+
+export interface ValidationWatchResult {
+  startedAt: string;
+  durationMs: number;
+  intervalMs: number;
+  sampleCount: number;
+  failedPolls: number;    // dumpsys connectivity calls that failed
+  finalState: ValidationState;
+  transitions: ValidationTransition[];
+  /** Lifecycle timings, set when both ends fell inside the window. */
+  connectToPortalMs?: number;   // CONNECTED → CAPTIVE_PORTAL
+  portalToValidatedMs?: number; // CAPTIVE_PORTAL → VALIDATED (login to validation)
+  connectToValidatedMs?: number;
+  samples?: ValidationSample[];
+}
+
+// On-device HTTP(S) request over the Wi-Fi network (companion app)
+export type HttpProbeMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS';
+
+export interface HttpProbeRequest {
+  url: string;                       // http:// or https://
+  method?: HttpProbeMethod;          // Default GET
+  headers?: Record<string, string>;
+  body?: string;                     // POST/PUT/PATCH
+  followRedirects?: boolean;         // Default true
+  maxRedirects?: number;             // Default 5
+  timeoutMs?: number;                // Per connect/read, default 15000
+  maxBodyBytes?: number;             // Body kept in the result, default 4096
+  insecure?: boolean;                // Skip TLS validation (the chain is still reported)
+}
+
+export interface HttpProbeTiming {
+  dnsMs?: number;
+  connectMs?: number;
+  tlsMs?: number;
+  firstByteMs?: number;              // Request sent → status line
+  downloadMs?: number;
+  totalMs?: number;                  // Across all redirect hops
+}
+
+export interface HttpProbeTls {
+  protocol?: string;                 // e.g. TLSv1.3
+  cipherSuite?: string;
+  hostnameVerified?: boolean;
+  certificates: CertificateInfo[];   // Presented chain, leaf first
+}
+
+export interface HttpProbeResult {
+  success: boolean;
+  url: string;
+  finalUrl?: string;                 // After redirects
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;  // Lower-case names; repeats joined with ", "
+  redirects: Array<{ url: string; status: number; location: string }>;
+  remoteAddress?: string;            // ip:port of the final hop
+  timing?: HttpProbeTiming;
+  tls?: HttpProbeTls;
+  body?: string;
+  bodyBytes?: number;
+  bodyTruncated?: boolean;
+  network?: { netId?: string; interface?: string; validated?: boolean; captivePortal?: boolean };
+  error?: string;
+}
+
+// Captive-portal login recipes (captive_portal_login). Strings in URLs,
+// headers, form fields and bodies may use {{variable}} placeholders.
+interface PortalStepBase {
+  name?: string;
+  optional?: boolean;                // A failure is reported but doesn't stop the run
+}
+
+export interface PortalOpenStep extends PortalStepBase {
+  type: 'open';
+  url?: string;                      // Probe URL, default http://connectivitycheck.gstatic.com/generate_204
+}
+
+export interface PortalRequestStep extends PortalStepBase {
+  type: 'request';
+  url?: string;                      // Relative to the last page; default {{portalUrl}}
+  method?: HttpProbeMethod;          // Default POST with form/body, else GET
+  headers?: Record<string, string>;
+  form?: Record<string, string>;     // Sent as application/x-www-form-urlencoded
+  body?: string;
+  expectStatus?: number[];           // Default any 2xx after redirects
+  expectBody?: string;               // Regex the final body must match
+  extract?: Record<string, string | { pattern: string; from?: 'body' | 'url' }>; // Capture group 1 → variable
+  maxBodyBytes?: number;             // Default 65536
+}
+
+export interface PortalOtpStep extends PortalStepBase {
+  type: 'wait_for_otp';
+  source: 'sms' | 'notification';
+  senderFilter?: string;             // sms
+  packageFilter?: string;            // notification
+  bodyRegex?: string;
+  sinceSeconds?: number;             // Default: since the run started
+  timeoutMs?: number;                // Default 60000
+  variable?: string;                 // Default otp
+}
+
+export interface PortalValidationStep extends PortalStepBase {
+  type: 'check_validation';
+  timeoutMs?: number;                // Default 60000
+  pollIntervalMs?: number;           // Default 3000
+}
+
+export interface PortalWaitStep extends PortalStepBase {
+  type: 'wait';
+  ms: number;
+}
+
+export type PortalStep = PortalOpenStep | PortalRequestStep | PortalOtpStep | PortalValidationStep | PortalWaitStep;
+
+export interface PortalRecipe {
+  name?: string;
+  ssid?: string;                     // Recipe applies to this SSID (looked up by it)
+  variables?: Record<string, string>; // Defaults; the caller's variables win
+  steps: PortalStep[];
+}
+
+export interface PortalStepResult {
+  index: number;
+  type: PortalStep['type'];
+  name?: string;
+  success: boolean;
+  skipped?: boolean;                 // Not run: an earlier step failed or the network was already open
+  durationMs: number;
+  url?: string;                      // Final URL of an open/request step
+  status?: number;
+  detail?: string;
+  error?: string;
+}
+
+export interface PortalLoginResult {
+  success: boolean;
+  recipe?: string;                   // Name, or where it was loaded from
+  ssid?: string;
+  alreadyOnline?: boolean;           // The open step got 204: no portal to log in to
+  steps: PortalStepResult[];
+  durationMs: number;
+  skippedRecipes?: string[];         // PORTAL_RECIPES_DIR files that failed to load
+  error?: string;
+}
+
 // ADB Command Result
 export interface AdbResult {
   success: boolean;
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for adb session record/replay.
+ *
+ * A fixture captured with ADB_TRANSPORT=record replays through the real
+ * command classes, so an OEM-specific output reported from the field becomes
+ * a regression test for parseScanResults / findActiveWifiAgentLine /
+ * parseContentQuery without a phone. Recording is exercised against the
+ * virtual device; the OEM fixture below is the shape a recording produces.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AdbClient } from '../../dist/adb/adb-client.js';
+import { WifiCommands } from '../../dist/adb/wifi-commands.js';
+import { SmsCommands } from '../../dist/adb/sms-commands.js';
+import { DeviceObserver } from '../../dist/adb/device-observer.js';
+import { NetworkCheck } from '../../dist/network/network-check.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+import { createTransportFromEnv } from '../../dist/adb/transport.js';
+import {
+  RecordingTransport,
+  ReplayTransport,
+  redactAdbArgs,
+  loadAdbFixture,
+} from '../../dist/adb/recording.js';
+
+function fixturePath() {
+  return join(mkdtempSync(join(tmpdir(), 'adb-fixture-')), 'session.json');
+}
+
+function ok(stdout) {
+  return { success: true, stdout, stderr: '', exitCode: 0 };
+}
+
+function fixture(entries) {
+  return {
+    version: 1,
+    recordedAt: '2026-01-01T00:00:00.000Z',
+    source: 'adb',
+    entries: entries.map(([args, result]) => ({ args, at: 0, durationMs: 5, result })),
+    trackDevices: [],
+  };
+}
+
+// --- redaction ---
+
+test('redactAdbArgs: masks the connect-network passphrase, keeps the SSID', () => {
+  assert.deepEqual(
+    redactAdbArgs(['-s', 'X', 'shell', `cmd wifi connect-network 'Bob'\\''s Net' wpa2 'hunter2 2'`]),
+    ['-s', 'X', 'shell', `cmd wifi connect-network 'Bob'\\''s Net' wpa2 '***'`]
+  );
+  assert.deepEqual(
+    redactAdbArgs(['shell', `cmd wifi connect-network 'Cafe' open`]),
+    ['shell', `cmd wifi connect-network 'Cafe' open`]
+  );
+});
+
+test('redactAdbArgs: masks the start-softap passphrase, keeps SSID and band', () => {
+  assert.deepEqual(
+    redactAdbArgs(['shell', `cmd wifi start-softap 'Lab AP' wpa3_transition 'hunter2!!' -b bridged`]),
+    ['shell', `cmd wifi start-softap 'Lab AP' wpa3_transition '***' -b bridged`]
+  );
+  assert.deepEqual(
+    redactAdbArgs(['shell', `cmd wifi start-softap 'Lab AP' open -b 5`]),
+    ['shell', `cmd wifi start-softap 'Lab AP' open -b 5`]
+  );
+});
+
+test('redactAdbArgs: redacts secret keys inside companion command payloads', () => {
+  const payload = { ssid: 'Corp', identity: 'alice', password: 's3cret' };
+  const b64 = Buffer.from(JSON.stringify(payload)).toString('base64');
+  const [cmd] = redactAdbArgs([`run-as com.example sh -c 'echo ${b64} | base64 -d > files/cmd.json'`]);
+  const out = JSON.parse(Buffer.from(cmd.match(/echo (\S+) \|/)[1], 'base64').toString());
+  assert.deepEqual(out, { ssid: 'Corp', identity: 'alice', password: '***' });
+});
+
+// --- transport selection ---
+
+test('createTransportFromEnv: record/replay require ADB_FIXTURE', () => {
+  assert.throws(() => createTransportFromEnv({ ADB_TRANSPORT: 'replay' }), /requires ADB_FIXTURE/);
+  const path = fixturePath();
+  assert.equal(createTransportFromEnv({ ADB_TRANSPORT: 'record', ADB_FIXTURE: path }).name, 'record(adb)');
+  assert.equal(createTransportFromEnv({ ADB_TRANSPORT: 'replay', ADB_FIXTURE: path }).name, 'replay');
+});
+
+// --- record → replay round trip ---
+
+test('a recorded session replays to the same parsed results, without the password on disk', async () => {
+  const path = fixturePath();
+  const recorder = new RecordingTransport(new VirtualAdbTransport(), path);
+  const live = new WifiCommands(new AdbClient('adb', recorder));
+  const scanned = await live.getScanResults();
+  assert.equal((await live.connect('Virtual-WPA2', 'wpa2', 'virtualpass')).success, true);
+  const status = await live.getStatus();
+
+  const raw = readFileSync(path, 'utf-8');
+  assert.doesNotMatch(raw, /virtualpass/);
+  const saved = loadAdbFixture(path);
+  assert.ok(saved.entries.every(e => e.result.exitCode === 0 && e.durationMs >= 0));
+
+  // Different password on replay: matching is done on redacted args.
+  const replayed = new WifiCommands(new AdbClient('adb', new ReplayTransport(saved)));
+  assert.deepEqual(await replayed.getScanResults(), scanned);
+  assert.equal((await replayed.connect('Virtual-WPA2', 'wpa2', 'other')).success, true);
+  assert.deepEqual(await replayed.getStatus(), status);
+});
+
+test('replay matches regardless of -s selection and fails unrecorded commands like adb', async () => {
+  const adb = new AdbClient('adb', new ReplayTransport(fixture([
+    [['-s', 'R5CR12ATMCB', 'shell', 'getprop ro.build.id'], ok('UP1A.231005.007')],
+  ])));
+  assert.equal((await adb.shell('getprop ro.build.id')).stdout, 'UP1A.231005.007');
+  adb.selectDevice('OTHER');
+  assert.equal((await adb.shell('getprop ro.build.id')).stdout, 'UP1A.231005.007');
+  const miss = await adb.shell('getprop ro.product.model');
+  assert.equal(miss.success, false);
+  assert.match(miss.stderr, /no recorded response/);
+});
+
+test('repeated commands replay in order, then hold the last response', async () => {
+  const adb = new AdbClient('adb', new ReplayTransport(fixture([
+    [['shell', 'cmd wifi status'], ok('Wifi is disabled')],
+    [['shell', 'cmd wifi status'], ok('Wifi is enabled')],
+  ])));
+  const wifi = new WifiCommands(adb);
+  assert.equal(await wifi.isEnabled(), false);
+  assert.equal(await wifi.isEnabled(), true);
+  assert.equal(await wifi.isEnabled(), true);
+});
+
+// --- OEM field fixture (Samsung One UI 6 shapes) ---
+
+const SAMSUNG_FIXTURE = fixture([
+  [['-s', 'R5CR12ATMCB', 'shell', 'cmd wifi list-scan-results'], ok([
+    '    BSSID              Frequency      RSSI           Age(sec)     SSID                                 Flags',
+    '  a4:2b:b0:11:22:33   5745     -52      1.204      Office 5G                        [WPA2-PSK-CCMP][RSN-PSK-CCMP][ESS][WPS]',
+    '  a4:2b:b0:11:22:34   2412     -70      1.204      Office                           [WPA3-SAE-CCMP][RSN-SAE-CCMP][ESS]',
+  ].join('\n'))],
+  [['-s', 'R5CR12ATMCB', 'shell', 'dumpsys connectivity'], ok([
+    'Active default network: 412',
+    '',
+    'Current Networks:',
+    '  NetworkAgentInfo{network{411}  handle{1765932433421}  ni{MOBILE[LTE] CONNECTED extra: internet}  nc{[ Transports: CELLULAR Capabilities: INTERNET&NOT_RESTRICTED&VALIDATED ]}}',
+    '  NetworkAgentInfo{network{409}  handle{1765932433409}  ni{WIFI CONNECTED extra: }  nc{[ Transports: WIFI Capabilities: INTERNET&NOT_RESTRICTED&CAPTIVE_PORTAL ]}}',
+    '  NetworkAgentInfo{network{412}  handle{1765932433437}  ni{WIFI CONNECTED extra: }  nc{[ Transports: WIFI Capabilities: INTERNET&NOT_RESTRICTED&TRUSTED&VALIDATED SSID: "Office 5G"]}}',
+  ].join('\n'))],
+  [['-s', 'R5CR12ATMCB', 'shell', 'content query --uri content://sms/inbox --projection address,body,date'], ok([
+    'Row: 0 address=+15550100, body=[Web발신] Your code is 604211, date=1767225600000',
+  ].join('\n'))],
+]);
+
+test('Samsung fixture: scan, handover agent pick and inbox parse from replay', async () => {
+  const adb = new AdbClient('adb', new ReplayTransport(SAMSUNG_FIXTURE));
+  adb.selectDevice('R5CR12ATMCB');
+
+  const scan = await new WifiCommands(adb).getScanResults();
+  assert.deepEqual(scan.map(s => [s.ssid, s.frequency]), [['Office 5G', 5745], ['Office', 2412]]);
+
+  assert.equal((await new NetworkCheck(adb).checkCaptivePortal()).status, 'open');
+
+  const sms = await new SmsCommands(adb).readRecent();
+  assert.equal(sms.messages[0].otp, '604211');
+});
+
+test('track-devices frames replay to the device observer', async () => {
+  const transport = new ReplayTransport({
+    ...fixture([]),
+    trackDevices: [
+      { at: 0, data: '0013R5CR12ATMCB\tdevice\n' },
+      { at: 800, data: '0000' },
+    ],
+  });
+  const observer = new DeviceObserver(transport);
+  const seen = [];
+  observer.onTransition(t => seen.push([t.serial, t.prev_state, t.new_state]));
+  observer.start();
+  await new Promise(r => setTimeout(r, 20));
+  await observer.stop();
+  assert.deepEqual(seen, [
+    ['R5CR12ATMCB', null, 'device'],
+    ['R5CR12ATMCB', 'device', null],
+  ]);
+});
@@ -0,0 +1,226 @@
+/**
+ * Unit tests for captive_portal_login, the declarative portal-login runner.
+ *
+ * A JSON recipe lists the steps (open the portal, submit forms, wait for an
+ * OTP, re-check validation); the runner sends HTTP steps one hop at a time
+ * through the companion's HTTP_REQUEST so cookies survive redirects, and
+ * reports every step. Driven against a fake AdbClient playing a scripted
+ * portal, and against the virtual device for the OTP/validation steps.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  CaptivePortalLogin,
+  parsePortalRecipe,
+  findPortalRecipe,
+  renderTemplate,
+} from '../../dist/network/captive-portal-login.js';
+import { AdbClient } from '../../dist/adb/adb-client.js';
+import { WifiCommands } from '../../dist/adb/wifi-commands.js';
+import { SmsCommands } from '../../dist/adb/sms-commands.js';
+import { NotificationCommands } from '../../dist/adb/notifications-commands.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+
+const COMPANION_PACKAGE = 'com.example.wifimcpcompanion';
+const VALIDATED_WIFI =
+  '  NetworkAgentInfo{network{412}  handle{1765932433437}  ni{WIFI CONNECTED extra: }  nc{[ Transports: WIFI Capabilities: INTERNET&NOT_RESTRICTED&TRUSTED&VALIDATED SSID: "Acme-Guest"]}}';
+
+/**
+ * A guest portal: the probe redirects to /login (setting a session cookie),
+ * the terms form needs that cookie and the page's csrf token, and a good
+ * voucher is answered with 303 → /welcome.
+ */
+function portal(request) {
+  const cookie = request.headers?.Cookie ?? '';
+  const key = `${request.method ?? 'GET'} ${request.url}`;
+  switch (key) {
+    case 'GET http://connectivitycheck.gstatic.com/generate_204':
+      return page(302, '', { location: 'https://portal.acme.test/login?ap=7' });
+    case 'GET https://portal.acme.test/login?ap=7':
+      return page(200, '<form><input name="csrf" value="tok123"></form>', {
+        'set-cookie': 'sid=abc; Path=/; Expires=Wed, 21 Oct 2026 07:28:00 GMT, lang=en; Domain=.acme.test',
+      });
+    case 'POST https://portal.acme.test/accept':
+      if (cookie !== 'sid=abc; lang=en') return page(403, 'no session');
+      if (request.body !== 'csrf=tok123&voucher=GUEST+42') return page(400, 'bad form');
+      return page(303, '', { location: '/welcome' });
+    case 'GET https://portal.acme.test/welcome':
+      return page(200, 'Welcome, you are online');
+    default:
+      return { success: false, message: `Unexpected ${key}`, redirects: [] };
+  }
+}
+
+function page(status, body, headers = {}) {
+  return { success: true, message: `HTTP ${status}`, status, headers, body, redirects: [] };
+}
+
+class FakeAdbClient {
+  constructor() {
+    this.calls = [];
+    this.requests = [];
+  }
+
+  async shell(command) {
+    this.calls.push(command);
+    if (command.includes('pm list packages')) return ok(`package:${COMPANION_PACKAGE}`);
+    const write = command.match(/echo (\S+) \| base64 -d > files\/wifi_mcp_command\.json/);
+    if (write) {
+      this.requests.push(JSON.parse(Buffer.from(write[1], 'base64').toString('utf-8')));
+      return ok('');
+    }
+    if (command.includes('cat files/wifi_mcp_result.json')) return ok(JSON.stringify(portal(this.requests.at(-1))));
+    if (command === 'dumpsys connectivity') return ok(`NetworkAgentInfos:\n${VALIDATED_WIFI}\n`);
+    return ok('');
+  }
+
+  async exec() {
+    return ok('');
+  }
+}
+
+function ok(stdout) {
+  return { success: true, stdout, stderr: '', exitCode: 0 };
+}
+
+function loginFor(adb) {
+  return new CaptivePortalLogin(adb, new WifiCommands(adb), new SmsCommands(adb), new NotificationCommands(adb));
+}
+
+const GUEST_RECIPE = {
+  name: 'Acme guest',
+  variables: { voucher: 'DEFAULT' },
+  steps: [
+    { type: 'open' },
+    { type: 'request', name: 'landing', extract: { csrf: 'name="csrf" value="([^"]+)"', ap: { pattern: 'ap=(\\d+)', from: 'url' } } },
+    { type: 'request', name: 'accept', url: '/accept', form: { csrf: '{{csrf}}', voucher: '{{voucher}}' }, expectBody: 'Welcome' },
+    { type: 'check_validation', timeoutMs: 0 },
+  ],
+};
+
+test('parsePortalRecipe: step types, unknown fields and regexes are checked', () => {
+  assert.equal(parsePortalRecipe(GUEST_RECIPE).steps.length, 4);
+  assert.throws(() => parsePortalRecipe({ steps: [] }), /Invalid portal recipe \(recipe\): steps: /);
+  assert.throws(() => parsePortalRecipe({ steps: [{ type: 'click' }] }), /steps\.0\.type: Invalid discriminator/);
+  assert.throws(() => parsePortalRecipe({ steps: [{ type: 'open', ulr: 'http://x/' }] }, 'guest.json'), /\(guest\.json\): steps\.0: Unrecognized key/);
+  assert.throws(() => parsePortalRecipe({ steps: [{ type: 'wait_for_otp', source: 'sms', bodyRegex: '(' }] }), /steps\.0\.bodyRegex: /);
+  assert.throws(() => parsePortalRecipe({ steps: [{ type: 'request', extract: { csrf: '[' } }] }), /steps\.0\.extract\.csrf: /);
+});
+
+test('renderTemplate and findPortalRecipe', () => {
+  assert.equal(renderTemplate('code={{ voucher }}&otp={{otp}}', { voucher: 'V1', otp: '123456' }), 'code=V1&otp=123456');
+  assert.throws(() => renderTemplate('{{voucher}}', {}), /Unknown variable \{\{voucher\}\}/);
+
+  const dir = mkdtempSync(join(tmpdir(), 'portal-recipes-'));
+  writeFileSync(join(dir, 'a.json'), JSON.stringify({ ssid: 'Acme-Guest', steps: [{ type: 'open' }] }));
+  writeFileSync(join(dir, 'b.json'), JSON.stringify({ ssid: 'Cafe', steps: [{ type: 'wait', ms: 0 }] }));
+  writeFileSync(join(dir, 'notes.txt'), 'not a recipe');
+  assert.equal(findPortalRecipe('Cafe', dir).recipe.steps[0].type, 'wait');
+  assert.deepEqual(findPortalRecipe('Elsewhere', dir), { skipped: [] });
+  assert.equal(findPortalRecipe('Cafe', undefined), undefined);
+});
+
+test('findPortalRecipe: YAML recipes load, broken files are skipped and listed', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'portal-recipes-'));
+  writeFileSync(join(dir, 'a-broken.json'), '{ "steps": ');
+  writeFileSync(join(dir, 'b-invalid.yml'), 'ssid: Lobby\nsteps: []\n');
+  writeFileSync(join(dir, 'c-cafe.yaml'), 'name: Cafe portal\nssid: Cafe\nsteps:\n  - type: open\n  - type: request\n    form: { accept: "1" }\n');
+  writeFileSync(join(dir, 'd-guest.json'), JSON.stringify({ ssid: 'Acme-Guest', steps: [{ type: 'open' }] }));
+
+  const cafe = findPortalRecipe('Cafe', dir);
+  assert.equal(cafe.recipe.name, 'Cafe portal');
+  assert.deepEqual(cafe.recipe.steps[1].form, { accept: '1' });
+  assert.match(cafe.path, /c-cafe\.yaml$/);
+  assert.equal(cafe.skipped.length, 2);
+  assert.match(cafe.skipped[0], /^Cannot read portal recipe .*a-broken\.json/);
+  assert.match(cafe.skipped[1], /b-invalid\.yml/);
+  // A broken file ahead of it doesn't hide an unrelated SSID's recipe.
+  assert.match(findPortalRecipe('Acme-Guest', dir).path, /d-guest\.json$/);
+  assert.equal(findPortalRecipe('Lobby', dir).recipe, undefined);
+});
+
+test('login: cookies and extracted values carry across redirects and steps', async () => {
+  const adb = new FakeAdbClient();
+  const result = await loginFor(adb).login({ recipe: GUEST_RECIPE, variables: { voucher: 'GUEST 42' } });
+
+  assert.equal(result.success, true, result.error);
+  assert.equal(result.recipe, 'Acme guest');
+  assert.deepEqual(result.steps.map(s => [s.type, s.success]), [
+    ['open', true],
+    ['request', true],
+    ['request', true],
+    ['check_validation', true],
+  ]);
+  assert.equal(result.steps[0].url, 'https://portal.acme.test/login?ap=7');
+  assert.match(result.steps[0].detail, /after 1 redirect$/);
+  assert.match(result.steps[1].detail, /extracted csrf, ap$/);
+  assert.equal(result.steps[2].url, 'https://portal.acme.test/welcome');
+  assert.match(result.steps[2].detail, /^POST → HTTP 200 after 1 redirect/);
+
+  // Redirects are followed here, one companion request per hop.
+  assert.ok(adb.requests.every(r => r.followRedirects === false));
+  const accept = adb.requests.find(r => r.url === 'https://portal.acme.test/accept');
+  assert.equal(accept.headers['Content-Type'], 'application/x-www-form-urlencoded');
+  const welcome = adb.requests.find(r => r.url === 'https://portal.acme.test/welcome');
+  assert.equal(welcome.method, 'GET');
+  assert.equal(welcome.body, undefined);
+});
+
+test('login: the first failure stops the run; optional steps do not', async () => {
+  const adb = new FakeAdbClient();
+  const recipe = {
+    steps: [
+      { type: 'open' },
+      { type: 'request', name: 'missing page', url: '/nope', optional: true },
+      { type: 'request', name: 'accept', url: '/accept', form: { csrf: 'wrong', voucher: '{{voucher}}' } },
+      { type: 'check_validation' },
+    ],
+  };
+  const result = await loginFor(adb).login({ recipe, variables: { voucher: 'GUEST 42' } });
+
+  assert.equal(result.success, false);
+  assert.equal(result.recipe, 'inline recipe');
+  assert.match(result.steps[1].error, /Unexpected GET https:\/\/portal\.acme\.test\/nope/);
+  assert.equal(result.steps[2].status, 400);
+  assert.equal(result.steps[2].error, 'Unexpected status 400');
+  assert.deepEqual(result.steps[3], { index: 3, type: 'check_validation', success: false, skipped: true, durationMs: 0 });
+  assert.equal(result.error, 'Step 3 (accept) failed: Unexpected status 400');
+
+  const unknown = await loginFor(adb).login({ recipe: { steps: [{ type: 'request', url: 'http://x.test/{{voucher}}' }] } });
+  assert.match(unknown.error, /Unknown variable \{\{voucher\}\}/);
+});
+
+test('virtual device: OTP and validation steps; SSID and companion checks', async () => {
+  const adb = new AdbClient('adb', new VirtualAdbTransport());
+  adb.selectDevice('VIRTUAL0001');
+  const wifi = new WifiCommands(adb);
+  assert.equal((await wifi.connect('Virtual-Open', 'open')).success, true);
+  const login = new CaptivePortalLogin(adb, wifi, new SmsCommands(adb), new NotificationCommands(adb));
+
+  const result = await login.login({
+    recipe: {
+      ssid: 'Virtual-Open',
+      steps: [
+        { type: 'wait_for_otp', source: 'sms', senderFilter: 'VirtualBank', sinceSeconds: 120, timeoutMs: 5000 },
+        { type: 'check_validation', timeoutMs: 0 },
+      ],
+    },
+  });
+  assert.equal(result.success, true, result.error);
+  assert.equal(result.ssid, 'Virtual-Open');
+  assert.equal(result.steps[0].detail, 'OTP 482913 from VirtualBank');
+
+  const elsewhere = await login.login({ recipe: { ssid: 'Acme-Guest', steps: [{ type: 'open' }] } });
+  assert.equal(elsewhere.error, 'Recipe is for "Acme-Guest" but the phone is on "Virtual-Open"');
+  assert.deepEqual(elsewhere.steps, []);
+
+  const noCompanion = await login.login({ recipe: { steps: [{ type: 'open' }, { type: 'wait', ms: 0 }] } });
+  assert.equal(noCompanion.success, false);
+  assert.match(noCompanion.steps[0].error, /Companion app not installed/);
+  assert.equal(noCompanion.steps[1].skipped, true);
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for per-device contexts and locking in DeviceManager.
+ *
+ * Two phones on one host must not share a selection or command instances:
+ * tools pass an explicit `serial` (or fall back to the selected device) and
+ * run under that device's lock via withDevice(), or per adb call through the
+ * stepwise view for tools that wait. Driven against a two-phone
+ * virtual transport so the adb calls are real round trips.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DeviceManager } from '../../dist/adb/device-manager.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+
+const AP = { ssid: 'Lab', bssid: '02:00:00:00:09:01', frequency: 2412, rssi: -50, flags: '[ESS]' };
+
+function twoPhones() {
+  return new DeviceManager(undefined, new VirtualAdbTransport({
+    devices: [
+      { serial: 'PHONE_A', accessPoints: [AP], props: { 'ro.product.model': 'Phone A' } },
+      { serial: 'PHONE_B', accessPoints: [AP], props: { 'ro.product.model': 'Phone B' } },
+    ],
+  }));
+}
+
+function deferred() {
+  let resolve;
+  const promise = new Promise(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+test('explicit serials reach their own device without touching the global selection', async () => {
+  const dm = twoPhones();
+  const a = await dm.withDevice('PHONE_A', d => d.getAdbClient().getDeviceInfo());
+  const b = await dm.withDevice('PHONE_B', d => d.getAdbClient().getDeviceInfo());
+  assert.equal(a.model, 'Phone A');
+  assert.equal(b.model, 'Phone B');
+  assert.equal(dm.getSelectedDevice(), null);
+  assert.equal(dm.getDeviceContext('PHONE_A'), dm.getDeviceContext('PHONE_A'));
+});
+
+test('without a serial, falls back to device_select and rejects an ambiguous host', async () => {
+  const dm = twoPhones();
+  await assert.rejects(dm.withDevice(undefined, async () => {}), /Multiple devices connected/);
+  dm.selectDevice('PHONE_B');
+  assert.equal(await dm.withDevice(undefined, async d => d.serial), 'PHONE_B');
+});
+
+test('calls on the same device queue; calls on another device run alongside', async () => {
+  const dm = twoPhones();
+  const gate = deferred();
+  const order = [];
+
+  const slowA = dm.withDevice('PHONE_A', async () => {
+    order.push('A1 start');
+    await gate.promise;
+    order.push('A1 end');
+  });
+  const nextA = dm.withDevice('PHONE_A', async () => { order.push('A2'); });
+  const b = dm.withDevice('PHONE_B', async () => { order.push('B'); });
+
+  await b;
+  assert.deepEqual(order, ['A1 start', 'B']);
+  assert.equal(dm.getDeviceContext('PHONE_A').getPendingCount(), 2);
+
+  gate.resolve();
+  await Promise.all([slowA, nextA]);
+  assert.deepEqual(order, ['A1 start', 'B', 'A1 end', 'A2']);
+});
+
+test('a failing call releases the lock for the next one', async () => {
+  const dm = twoPhones();
+  await assert.rejects(dm.withDevice('PHONE_A', async () => { throw new Error('boom'); }), /boom/);
+  assert.equal(await dm.withDevice('PHONE_A', async () => 'ok'), 'ok');
+});
+
+test('Wi-Fi state is per device', async () => {
+  const dm = twoPhones();
+  await dm.withDevice('PHONE_A', d => d.getWifiCommands().connect('Lab', 'open'));
+  const a = await dm.withDevice('PHONE_A', d => d.getWifiCommands().getStatus());
+  const b = await dm.withDevice('PHONE_B', d => d.getWifiCommands().getStatus());
+  assert.equal(a.ssid, 'Lab');
+  assert.equal(b.connected, false);
+});
+
+test('a stepwise wait takes the lock per adb call, so other calls run during it', async () => {
+  const dm = twoPhones();
+  const device = dm.getDeviceContext('PHONE_A');
+  const stepwise = device.stepwise();
+  assert.equal(device.stepwise(), stepwise);
+  assert.equal(stepwise.serial, 'PHONE_A');
+
+  const gate = deferred();
+  const waiting = (async () => {
+    await stepwise.getWifiCommands().getStatus();
+    await gate.promise;
+    return stepwise.getWifiCommands().getStatus();
+  })();
+  // Runs while the wait is in progress, and the wait sees its effect.
+  await dm.withDevice('PHONE_A', d => d.getWifiCommands().connect('Lab', 'open'));
+  gate.resolve();
+  assert.equal((await waiting).ssid, 'Lab');
+
+  // Its adb calls still queue behind a holder of the device lock.
+  const held = deferred();
+  const order = [];
+  const holder = dm.withDevice('PHONE_A', async () => {
+    order.push('holder start');
+    await held.promise;
+    order.push('holder end');
+  });
+  const call = stepwise.getAdbClient().shell('getprop ro.product.model').then(() => order.push('stepwise call'));
+  await new Promise(resolve => setTimeout(resolve, 20));
+  assert.deepEqual(order, ['holder start']);
+  held.resolve();
+  await Promise.all([holder, call]);
+  assert.deepEqual(order, ['holder start', 'holder end', 'stepwise call']);
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for device leases.
+ *
+ * DeviceLeaseRegistry is driven with a fake clock for TTL/expiry; the tool
+ * wiring is exercised on a real McpServer (virtual transport), dispatching
+ * tools/call under trace contexts that carry different X-Caller-Session-Id
+ * labels, to check that mutating tools refuse non-holders and reads don't.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DeviceLeaseRegistry } from '../../dist/adb/device-leases.js';
+import { DeviceManager } from '../../dist/adb/device-manager.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+import { createMcpServer } from '../../dist/server.js';
+import { runWithTraceContext, newTraceContext } from '../../dist/log/trace-context.js';
+
+// --- registry ---
+
+function clock(start = 1_000_000) {
+  const c = { t: start, now: () => c.t };
+  return c;
+}
+
+test('acquire, renew by the holder, refuse others', () => {
+  const c = clock();
+  const leases = new DeviceLeaseRegistry(c.now);
+  const first = leases.acquire('A', 'alice', 60, 'roaming soak');
+  assert.equal(first.success, true);
+  assert.equal(first.renewed, false);
+
+  c.t += 30_000;
+  const renewed = leases.acquire('A', 'alice', 60);
+  assert.equal(renewed.renewed, true);
+  assert.equal(renewed.lease.expiresAt.getTime(), c.t + 60_000);
+  assert.equal(renewed.lease.note, 'roaming soak');
+
+  const denied = leases.acquire('A', 'bob', 60);
+  assert.equal(denied.success, false);
+  assert.match(denied.error, /leased to 'alice' \(roaming soak\)/);
+  assert.equal(leases.checkAccess('A', 'bob'), denied.error);
+  assert.equal(leases.checkAccess('A', 'alice'), null);
+  assert.equal(leases.checkAccess('B', null), null);
+});
+
+test('leases expire on their own', () => {
+  const c = clock();
+  const leases = new DeviceLeaseRegistry(c.now);
+  leases.acquire('A', 'alice', 10);
+  c.t += 10_000;
+  assert.equal(leases.get('A'), undefined);
+  assert.deepEqual(leases.list(), []);
+  assert.equal(leases.acquire('A', 'bob', 10).success, true);
+});
+
+test('release is holder-only and idempotent', () => {
+  const leases = new DeviceLeaseRegistry();
+  leases.acquire('A', 'alice', 60);
+  assert.equal(leases.release('A', 'bob').success, false);
+  assert.deepEqual(leases.release('A', 'alice'), { success: true, released: true });
+  assert.deepEqual(leases.release('A', 'alice'), { success: true, released: false });
+});
+
+// --- tool wiring ---
+
+function setup() {
+  const dm = new DeviceManager(undefined, new VirtualAdbTransport());
+  const { server } = createMcpServer(dm);
+  const handler = server.server._requestHandlers.get('tools/call');
+  const call = (caller, name, args = {}) =>
+    runWithTraceContext({ ...newTraceContext(), session_id: caller, caller_id: caller }, () =>
+      handler({ method: 'tools/call', params: { name, arguments: args } }, {})
+    );
+  return { dm, call };
+}
+
+function body(result) {
+  return JSON.parse(result.content[0].text);
+}
+
+test('mutating tools reject non-holders; reads and the holder go through', async () => {
+  const { call } = setup();
+  const acquired = await call('alice', 'device_lease_acquire', { ttlSeconds: 120, note: 'OTP flow' });
+  assert.equal(acquired.isError, undefined);
+  assert.equal(body(acquired).lease.serial, 'VIRTUAL0001');
+
+  const blocked = await call('bob', 'wifi_connect', { ssid: 'Virtual-Open', security: 'open' });
+  assert.equal(blocked.isError, true);
+  assert.match(body(blocked).error, /leased to 'alice' \(OTP flow\)/);
+
+  const anon = await call(null, 'device_settings_put', { namespace: 'global', key: 'k', value: 'v' });
+  assert.equal(anon.isError, true);
+
+  const read = await call('bob', 'wifi_status');
+  assert.equal(read.isError, undefined);
+
+  const mine = await call('alice', 'wifi_connect', { ssid: 'Virtual-Open', security: 'open' });
+  assert.equal(body(mine).success, true);
+
+  const list = body(await call('bob', 'device_lease_list'));
+  assert.equal(list.count, 1);
+  assert.equal(list.leases[0].owner, 'alice');
+  assert.equal(list.leases[0].mine, false);
+
+  assert.equal((await call('bob', 'device_lease_release')).isError, true);
+  assert.equal(body(await call('alice', 'device_lease_release')).released, true);
+  assert.equal((await call('bob', 'wifi_disconnect')).isError, undefined);
+});
+
+test('acquire without a caller identity is refused', async () => {
+  const { call } = setup();
+  const r = await call(null, 'device_lease_acquire');
+  assert.equal(r.isError, true);
+  assert.match(body(r).error, /X-Caller-Session-Id/);
+});
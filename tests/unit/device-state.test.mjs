@@ -0,0 +1,73 @@
+/**
+ * Unit tests for device_state_snapshot / device_state_restore.
+ *
+ * A snapshot records Wi-Fi on/off, saved networks, the current connection,
+ * the network-related settings keys and companion certificates; restore puts
+ * back whatever the shell can and reports the rest. Driven against the
+ * default virtual phone.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DeviceManager } from '../../dist/adb/device-manager.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+
+function virtualPhone() {
+  const dm = new DeviceManager(undefined, new VirtualAdbTransport());
+  return dm.getDeviceContext('VIRTUAL0001');
+}
+
+test('restore undoes settings, radio and network changes, and is idempotent', async () => {
+  const device = virtualPhone();
+  const wifi = device.getWifiCommands();
+  const settings = device.getSettingsCommands();
+  const adb = device.getAdbClient();
+  const state = device.getDeviceStateCommands();
+
+  assert.equal((await wifi.connect('Virtual-Open', 'open')).success, true);
+  const snapshot = await state.snapshot(device.serial);
+  assert.equal(snapshot.connectedSsid, 'Virtual-Open');
+  assert.deepEqual(snapshot.savedNetworks.map(n => n.ssid), ['Virtual-Open']);
+  assert.equal(snapshot.companionCertificates, null);
+  assert.equal(snapshot.settings.find(s => s.key === 'captive_portal_mode').value, '1');
+  assert.equal(state.getSnapshot(), snapshot);
+
+  // What a test might leave behind.
+  assert.equal((await wifi.connect('Virtual-WPA2', 'wpa2', 'virtualpass')).success, true);
+  await settings.put('global', 'private_dns_mode', 'hostname');
+  await settings.put('global', 'private_dns_specifier', 'dns.example');
+  await adb.shell('cmd connectivity airplane-mode enable');
+  assert.equal((await wifi.getStatus()).enabled, false);
+
+  const result = await state.restore(snapshot);
+  assert.deepEqual(result.warnings, []);
+  assert.equal(result.restored, true);
+  assert.equal(result.connectedSsid, 'Virtual-Open');
+  assert.ok(result.changes.includes('global/airplane_mode_on: 1 -> unset'));
+  assert.ok(result.changes.includes('global/private_dns_mode: hostname -> unset'));
+  assert.ok(result.changes.includes('Wi-Fi enabled'));
+  assert.ok(result.changes.some(c => /^Forgot network \d+ \(Virtual-WPA2\)$/.test(c)));
+  assert.equal((await settings.get('global', 'private_dns_specifier')).value, null);
+  assert.deepEqual((await wifi.listSavedNetworks()).map(n => n.ssid), ['Virtual-Open']);
+
+  const again = await state.restore(snapshot);
+  assert.deepEqual(again.changes, []);
+  assert.equal(again.restored, true);
+});
+
+test('restore reports what it cannot put back', async () => {
+  const device = virtualPhone();
+  const wifi = device.getWifiCommands();
+  const state = device.getDeviceStateCommands();
+
+  await wifi.connect('Virtual-Open', 'open');
+  const snapshot = await state.snapshot(device.serial);
+  await wifi.disconnect('forget');
+
+  const result = await state.restore(snapshot);
+  assert.equal(result.restored, false);
+  assert.match(result.warnings[0], /Network 0 \(Virtual-Open\) was forgotten since the snapshot/);
+  assert.match(result.warnings[1], /Not connected; the snapshot was on Virtual-Open/);
+  assert.equal(state.getSnapshot('no-such-id'), null);
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for enterprise connection failure diagnostics.
+ *
+ * When wifi_connect_enterprise doesn't associate, classifyEapFailure reads
+ * the wpa_supplicant / WifiClientModeImpl log lines since the attempt and the
+ * network's selection status in `dumpsys wifi`, and names the failure.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyEapFailure } from '../../dist/adb/eap-diagnostics.js';
+
+const log = (...lines) => lines.map((l, i) => `1760772000.${100 + i}  1234  1240 I wpa_supplicant: ${l}`).join('\n');
+
+// toString() prefixes a disabled network's record with `- DSBLE `.
+const configured = (status, reason) => `WifiConfigManager - Configured networks Begin
+ID: 3 SSID: "Home" PROVIDER-NAME: null BSSID: null FQDN: null HOME-PROVIDER-NETWORK: false PRIO: 0 HIDDEN: false
+ NetworkSelectionStatus NETWORK_SELECTION_ENABLED
+${/DISABLED/.test(status) ? '- DSBLE ' : ''}ID: 7 SSID: "CorpNet" PROVIDER-NAME: null BSSID: null FQDN: null HOME-PROVIDER-NETWORK: false PRIO: 0 HIDDEN: false
+ NetworkSelectionStatus ${status}
+${reason ? ` mNetworkSelectionDisableReason ${reason}\n` : ''} KeyMgmt: WPA_EAP IEEE8021X
+WifiConfigManager - Configured networks End`;
+
+test('server certificate rejection', () => {
+  const d = classifyEapFailure(
+    log(
+      'wlan0: CTRL-EVENT-EAP-STARTED EAP authentication started',
+      'wlan0: CTRL-EVENT-EAP-PROPOSED-METHOD vendor=0 method=25',
+      "wlan0: CTRL-EVENT-EAP-TLS-CERT-ERROR reason=1 depth=1 subject='/CN=Corp CA' err='unable to get local issuer certificate'",
+      'wlan0: CTRL-EVENT-EAP-FAILURE EAP authentication failed'
+    ),
+    configured('NETWORK_SELECTION_TEMPORARY_DISABLED', 'NETWORK_SELECTION_DISABLED_AUTHENTICATION_FAILURE'),
+    'CorpNet'
+  );
+  assert.equal(d.reason, 'server_cert_rejected');
+  assert.equal(d.evidence.length, 1);
+  assert.match(d.evidence[0], /CERT-ERROR/);
+  assert.equal(d.networkSelectionStatus, 'NETWORK_SELECTION_TEMPORARY_DISABLED');
+  assert.equal(d.disableReason, 'NETWORK_SELECTION_DISABLED_AUTHENTICATION_FAILURE');
+});
+
+test('EAP method NAK', () => {
+  const d = classifyEapFailure(
+    log('wlan0: CTRL-EVENT-EAP-STARTED EAP authentication started', 'wlan0: CTRL-EVENT-EAP-PROPOSED-METHOD vendor=0 method=13 -> NAK'),
+    '',
+    'CorpNet'
+  );
+  assert.equal(d.reason, 'eap_method_mismatch');
+});
+
+test('wrong credentials from the log or from the disable reason', () => {
+  const fromLog = classifyEapFailure(
+    log("EAP-MSCHAPV2: failure message: 'E=691 R=0 V=3'", 'wlan0: CTRL-EVENT-EAP-FAILURE EAP authentication failed'),
+    '',
+    'CorpNet'
+  );
+  assert.equal(fromLog.reason, 'wrong_credentials');
+  assert.equal(fromLog.evidence.length, 2);
+
+  const fromStatus = classifyEapFailure('', configured('NETWORK_SELECTION_PERMANENTLY_DISABLED', 'NETWORK_SELECTION_DISABLED_BY_WRONG_PASSWORD'), 'CorpNet');
+  assert.equal(fromStatus.reason, 'wrong_credentials');
+});
+
+test('disabled by the framework, or nothing conclusive', () => {
+  const disabled = classifyEapFailure('', configured('NETWORK_SELECTION_TEMPORARY_DISABLED', 'NETWORK_SELECTION_DISABLED_CONSECUTIVE_FAILURES'), 'CorpNet');
+  assert.equal(disabled.reason, 'disabled_by_framework');
+  assert.match(disabled.detail, /CONSECUTIVE_FAILURES/);
+
+  const neverTried = classifyEapFailure('', configured('NETWORK_SELECTION_ENABLED'), 'CorpNet');
+  assert.equal(neverTried.reason, 'timeout');
+  assert.match(neverTried.detail, /No EAP exchange/);
+  assert.equal(neverTried.networkSelectionStatus, 'NETWORK_SELECTION_ENABLED');
+
+  const stalled = classifyEapFailure(log('wlan0: CTRL-EVENT-EAP-STARTED EAP authentication started'), '', 'Other');
+  assert.equal(stalled.reason, 'timeout');
+  assert.match(stalled.detail, /EAP started/);
+  assert.equal(stalled.networkSelectionStatus, undefined);
+});
@@ -4,12 +4,17 @@
  * Android 11+ rejects an enterprise config with no server validation.
  * serverValidationError surfaces a clear, actionable error before we forward
  * such a config — and allows the valid combinations (a pinned CA, a domain, or both).
+ * EAP-PWD and the SIM methods have no server certificate, so they pass; SIM
+ * slot / subscription selection only applies to the SIM methods, and
+ * Suite-B / TLS-floor / OCSP options to the methods they make sense for.
  *
  * Run with: npm run test:unit  (after npm run build)
  */
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
-import { serverValidationError } from '../../dist/adb/enterprise-wifi.js';
+import { serverValidationError, simSelectionError, enterpriseModeError, EnterpriseWifiCommands } from '../../dist/adb/enterprise-wifi.js';
+import { AdbClient } from '../../dist/adb/adb-client.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
 
 const cfg = (over) => ({ ssid: 'Lab', eapMethod: 'peap', identity: 'u', ...over });
 
@@ -30,3 +35,39 @@ test('neither CA nor domain → actionable error', () => {
 test('empty/whitespace domain with no CA → still an error', () => {
   assert.ok(serverValidationError(cfg({ domainSuffixMatch: '   ' })));
 });
+
+test('EAP-PWD and SIM/AKA/AKA\' need no server validation', () => {
+  for (const eapMethod of ['pwd', 'sim', 'aka', 'aka_prime']) {
+    assert.equal(serverValidationError(cfg({ eapMethod })), null, eapMethod);
+  }
+});
+
+test('SIM selection: SIM methods only, slot or subscription', () => {
+  assert.equal(simSelectionError(cfg({ eapMethod: 'aka', simSlot: 1 })), null);
+  assert.equal(simSelectionError(cfg({ eapMethod: 'aka_prime', subscriptionId: 3 })), null);
+  assert.match(simSelectionError(cfg({ simSlot: 0 })), /only apply/);
+  assert.match(simSelectionError(cfg({ eapMethod: 'sim', simSlot: 0, subscriptionId: 3 })), /not both/);
+});
+
+test('security mode and TLS policy vs EAP method', () => {
+  assert.equal(enterpriseModeError(cfg({ eapMethod: 'tls', securityMode: 'wpa3_192bit', caCertificate: 'PEM', ocsp: 'require' })), null);
+  assert.equal(enterpriseModeError(cfg({ securityMode: 'wpa3', tlsMinVersion: '1.2', domainSuffixMatch: 'radius.corp.com' })), null);
+  assert.match(enterpriseModeError(cfg({ securityMode: 'wpa3_192bit' })), /requires EAP-TLS/);
+  assert.match(enterpriseModeError(cfg({ ocsp: 'require', domainSuffixMatch: 'radius.corp.com' })), /needs caCertificate/);
+  assert.equal(enterpriseModeError(cfg({ ocsp: 'none' })), null);
+  assert.match(enterpriseModeError(cfg({ eapMethod: 'aka', tlsMinVersion: '1.3' })), /only apply/);
+});
+
+test('connectEnterprise: identity optional for SIM methods, password required for PWD', async () => {
+  const adb = new AdbClient('adb', new VirtualAdbTransport());
+  adb.selectDevice('VIRTUAL0001');
+  const enterprise = new EnterpriseWifiCommands(adb);
+
+  const pwd = await enterprise.connectEnterprise({ ssid: 'Lab', eapMethod: 'pwd', identity: 'u' });
+  assert.match(pwd.error, /Password is required/);
+  const noIdentity = await enterprise.connectEnterprise({ ssid: 'Lab', eapMethod: 'tls', clientCertificate: 'C', privateKey: 'K', caCertificate: 'PEM' });
+  assert.match(noIdentity.error, /Identity is required for EAP-TLS/);
+  // Past validation, the SIM config only stops at the missing companion app.
+  const aka = await enterprise.connectEnterprise({ ssid: 'Carrier-WiFi', eapMethod: 'aka', simSlot: 1 });
+  assert.match(aka.error, /Companion app not installed/);
+});
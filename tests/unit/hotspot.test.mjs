@@ -0,0 +1,118 @@
+/**
+ * Unit tests for the mobile hotspot (SoftAP).
+ *
+ * start/stop go through `cmd wifi start-softap` / `stop-softap`; status is
+ * the SoftApManager section of `dumpsys wifi` and client IPs come from
+ * `ip neigh` on the AP interface. The virtual device simulates all three.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  HotspotCommands,
+  buildStartSoftApCommand,
+  parseIpNeigh,
+  parseSoftApStatus,
+  softApConfigError,
+} from '../../dist/adb/hotspot-commands.js';
+import { AdbClient } from '../../dist/adb/adb-client.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+
+const STARTED_DUMP = `Wi-Fi is enabled
+Dump of SoftApManager id=3
+current StateMachine mode: StartedState
+mRole: ROLE_SOFTAP_TETHERED
+mApInterfaceName: ap0
+mIfaceIsUp: true
+mSoftApCountryCode: US
+mCurrentSoftApConfiguration: ssid = "Lab AP"
+ Passphrase = <non-empty>
+ HiddenSsid = false
+ Channels = {1=0, 2=36}
+ SecurityType = 2
+ MaxClient = 8
+mConnectedClientWithApInfoMap.size(): 2
+    WifiClient{mMacAddress=AA:BB:CC:00:00:01mApInstanceIdentifier=ap0mDisconnectReason=0}
+    WifiClient{mMacAddress=aa:bb:cc:00:00:02mApInstanceIdentifier=ap1mDisconnectReason=0}
+mCurrentSoftApInfoMap: {ap0=SoftApInfo{bandwidth= 2, frequency= 2437, bssid=3A:00:00:00:00:01, wifiStandard= 4}}
+Dump of WifiConnectivityManager
+  WifiClient{mMacAddress=ff:ff:ff:ff:ff:ffmApInstanceIdentifier=x}
+`;
+
+test('parseSoftApStatus: started bridged AP', () => {
+  assert.deepEqual(parseSoftApStatus(STARTED_DUMP), {
+    enabled: true,
+    state: 'StartedState',
+    ssid: 'Lab AP',
+    security: 'wpa3_transition',
+    bands: ['2.4GHz', '5GHz'],
+    hidden: false,
+    passphraseSet: true,
+    maxClients: 8,
+    interface: 'ap0',
+    frequency: 2437,
+    bssid: '3a:00:00:00:00:01',
+    clientCount: 2,
+  });
+  assert.deepEqual(parseSoftApStatus('Wi-Fi is enabled\n'), { enabled: false, clientCount: 0 });
+  assert.deepEqual(
+    parseSoftApStatus('Dump of SoftApManager id=1\ncurrent StateMachine mode: IdleState\n'),
+    { enabled: false, state: 'IdleState', clientCount: 0 }
+  );
+});
+
+test('start-softap command building and validation', () => {
+  assert.equal(
+    buildStartSoftApCommand({ ssid: "Bob's AP", security: 'wpa2', passphrase: 'pass word', band: '5GHz' }),
+    `cmd wifi start-softap 'Bob'\\''s AP' wpa2 'pass word' -b 5`
+  );
+  assert.equal(buildStartSoftApCommand({ ssid: 'Open', security: 'open' }), `cmd wifi start-softap 'Open' open`);
+
+  assert.equal(softApConfigError({ ssid: 'x', security: 'wpa2', passphrase: 'longenough' }), undefined);
+  assert.match(softApConfigError({ ssid: 'x', security: 'wpa3', passphrase: 'short' }), /8–63/);
+  assert.match(softApConfigError({ ssid: 'x', security: 'owe', passphrase: 'longenough' }), /no passphrase/);
+  assert.match(softApConfigError({ ssid: 'x'.repeat(33), security: 'open' }), /1–32 bytes/);
+});
+
+test('parseIpNeigh: IPv4 neighbours with lladdr', () => {
+  assert.deepEqual(
+    parseIpNeigh('192.168.43.17 lladdr AA:BB:CC:00:00:01 REACHABLE\n192.168.43.20  FAILED\n192.168.43.9 lladdr aa:bb:cc:00:00:02 router STALE\n'),
+    [
+      { ip: '192.168.43.17', macAddress: 'aa:bb:cc:00:00:01', state: 'REACHABLE' },
+      { ip: '192.168.43.9', macAddress: 'aa:bb:cc:00:00:02', state: 'STALE' },
+    ]
+  );
+});
+
+test('virtual device: start, list clients, stop', async () => {
+  const transport = new VirtualAdbTransport({
+    devices: [{ serial: 'HOTSPOT1', softApClients: [{ macAddress: '0a:00:00:00:00:07', ipAddress: '192.168.43.7' }] }],
+  });
+  const adb = new AdbClient('adb', transport);
+  adb.selectDevice('HOTSPOT1');
+  const hotspot = new HotspotCommands(adb);
+
+  assert.equal((await hotspot.getStatus()).enabled, false);
+  assert.deepEqual(await hotspot.listClients(), []);
+
+  const started = await hotspot.start({ ssid: 'Lab AP', security: 'wpa2', passphrase: 'labpass123', band: '5GHz' });
+  assert.equal(started.success, true);
+  assert.equal(started.status.ssid, 'Lab AP');
+  assert.equal(started.status.security, 'wpa2');
+  assert.deepEqual(started.status.bands, ['5GHz']);
+  assert.equal(started.status.passphraseSet, true);
+  assert.equal(started.status.clientCount, 1);
+  assert.ok(!JSON.stringify(started).includes('labpass123'));
+
+  assert.deepEqual(await hotspot.listClients(), [
+    { macAddress: '0a:00:00:00:00:07', ipAddress: '192.168.43.7', neighborState: 'REACHABLE' },
+  ]);
+
+  const invalid = await hotspot.start({ ssid: 'Lab AP', security: 'wpa2', passphrase: 'short' });
+  assert.equal(invalid.success, false);
+
+  await hotspot.stop();
+  assert.equal((await hotspot.getStatus()).enabled, false);
+  assert.equal(transport.getDevice('HOTSPOT1').softAp, null);
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for network_http_request, the on-device HTTP(S) probe.
+ *
+ * The companion makes the request over the Wi-Fi Network object and reports
+ * status, headers, redirect hops, timing and the presented TLS chain (base64
+ * DER); the host validates the request and parses the chain. Driven against
+ * a fake AdbClient serving a scripted companion result.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  NetworkCheck,
+  httpProbeRequestError,
+  parseHttpProbeResult,
+} from '../../dist/network/network-check.js';
+import { AdbClient } from '../../dist/adb/adb-client.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+
+const COMPANION_PACKAGE = 'com.example.wifimcpcompanion';
+
+// "Example Root CA", DER as base64 (what the companion sends per certificate).
+const ROOT_DER = [
+  'MIIBtjCCAV2gAwIBAgIUXr3YqUWBGt63AJdL1DMj5VnQh28wCgYIKoZIzj0EAwIw',
+  'MTEVMBMGA1UECgwMRXhhbXBsZSBDb3JwMRgwFgYDVQQDDA9FeGFtcGxlIFJvb3Qg',
+  'Q0EwHhcNMjYxMDE4MjI0NDI3WhcNMzYxMDE1MjI0NDI3WjAxMRUwEwYDVQQKDAxF',
+  'eGFtcGxlIENvcnAxGDAWBgNVBAMMD0V4YW1wbGUgUm9vdCBDQTBZMBMGByqGSM49',
+  'AgEGCCqGSM49AwEHA0IABBoi7v+LNAqWU39ZzCprqsHzQrvrASZ/bqqattD31I3+',
+  'N4SDxFBTa/V9kVWVfL+i/xaId9l2eQjNNdY6c0jCiDujUzBRMB0GA1UdDgQWBBTy',
+  'Gg+FFYKxN4YRbm3v8adC60J6ezAfBgNVHSMEGDAWgBTyGg+FFYKxN4YRbm3v8adC',
+  '60J6ezAPBgNVHRMBAf8EBTADAQH/MAoGCCqGSM49BAMCA0cAMEQCIH396YNH9DGs',
+  'PXtFxJ76svS565Ebl/21OO7rvL7YPqX1AiAMRcqXFe6wASeQi3NIbiApc0og6N1M',
+  'FqEgmdGdexLV1w==',
+].join('');
+
+const PORTAL_RESULT = {
+  success: true,
+  message: 'HTTP 200',
+  action: 'http_request',
+  network: { netId: '112', interface: 'wlan0', validated: false, captivePortal: true },
+  finalUrl: 'https://portal.example.com/login?orig=http%3A%2F%2Fexample.com%2F',
+  status: 200,
+  statusText: 'OK',
+  headers: { 'content-type': 'text/html; charset=utf-8', 'set-cookie': 'a=1, b=2' },
+  redirects: [{ url: 'http://example.com/', status: 302, location: 'https://portal.example.com/login?orig=http%3A%2F%2Fexample.com%2F' }],
+  remoteAddress: '10.0.0.1:443',
+  timing: { dnsMs: 4, connectMs: 12, tlsMs: 31, firstByteMs: 20, downloadMs: 1, totalMs: 95 },
+  tls: { protocol: 'TLSv1.3', cipherSuite: 'TLS_AES_128_GCM_SHA256', hostnameVerified: true, peerCertificates: [ROOT_DER] },
+  body: '<html>Sign in</html>',
+  bodyBytes: 20,
+  bodyTruncated: false,
+};
+
+class FakeAdbClient {
+  constructor(result) {
+    this.calls = [];
+    this.result = result;
+  }
+
+  async shell(command) {
+    this.calls.push(command);
+    if (command.includes('pm list packages')) return ok(`package:${COMPANION_PACKAGE}`);
+    if (command.includes('cat files/wifi_mcp_result.json')) return ok(JSON.stringify(this.result));
+    return ok('');
+  }
+
+  async exec() {
+    return ok('');
+  }
+}
+
+function ok(stdout) {
+  return { success: true, stdout, stderr: '', exitCode: 0 };
+}
+
+test('httpProbeRequestError: scheme, method, body and header checks', () => {
+  assert.equal(httpProbeRequestError({ url: 'http://example.com/' }), undefined);
+  assert.equal(httpProbeRequestError({ url: 'https://portal.example.com/login', method: 'POST', body: 'accept=1' }), undefined);
+  assert.match(httpProbeRequestError({ url: 'example.com' }), /Invalid URL/);
+  assert.match(httpProbeRequestError({ url: 'ftp://example.com/' }), /Unsupported scheme ftp:/);
+  assert.match(httpProbeRequestError({ url: 'http://example.com/', method: 'TRACE' }), /Unsupported method/);
+  assert.match(httpProbeRequestError({ url: 'http://example.com/', body: 'x' }), /GET takes no body/);
+  assert.match(httpProbeRequestError({ url: 'http://example.com/', headers: { 'X-A': 'b\r\nInjected: 1' } }), /Invalid header "X-A"/);
+});
+
+test('parseHttpProbeResult: redirects, timing and the parsed TLS chain', () => {
+  const result = parseHttpProbeResult(PORTAL_RESULT, 'http://example.com/');
+  assert.equal(result.success, true);
+  assert.equal(result.url, 'http://example.com/');
+  assert.equal(result.status, 200);
+  assert.equal(result.redirects.length, 1);
+  assert.equal(result.redirects[0].status, 302);
+  assert.deepEqual(result.timing, PORTAL_RESULT.timing);
+  assert.equal(result.tls.protocol, 'TLSv1.3');
+  assert.equal(result.tls.certificates.length, 1);
+  assert.equal(result.tls.certificates[0].subject, 'O=Example Corp, CN=Example Root CA');
+  assert.deepEqual(result.network, PORTAL_RESULT.network);
+  assert.equal(result.error, undefined);
+
+  const failed = parseHttpProbeResult(
+    { success: false, message: 'TLS handshake failed: Trust anchor not found', timing: { dnsMs: 3, connectMs: 10 }, redirects: [] },
+    'https://intranet.example.com/'
+  );
+  assert.equal(failed.success, false);
+  assert.match(failed.error, /Trust anchor/);
+  assert.deepEqual(failed.timing, { dnsMs: 3, connectMs: 10 });
+  assert.equal(failed.tls, undefined);
+});
+
+test('httpRequest: request goes to the companion, result comes back parsed', async () => {
+  const adb = new FakeAdbClient(PORTAL_RESULT);
+  const result = await new NetworkCheck(adb).httpRequest({ url: 'http://example.com/', headers: { 'X-Test': '1' } });
+  assert.equal(result.success, true);
+  assert.equal(result.finalUrl, PORTAL_RESULT.finalUrl);
+
+  const write = adb.calls.find(c => c.includes('base64 -d > files/wifi_mcp_command.json'));
+  const payload = JSON.parse(Buffer.from(write.match(/echo (\S+) \|/)[1], 'base64').toString('utf-8'));
+  assert.equal(payload.action, 'http_request');
+  assert.equal(payload.url, 'http://example.com/');
+  assert.deepEqual(payload.headers, { 'X-Test': '1' });
+  assert.ok(adb.calls.some(c => c.includes('com.example.wifimcpcompanion.HTTP_REQUEST')));
+});
+
+test('virtual device: validation first, then companion-missing failure', async () => {
+  const adb = new AdbClient('adb', new VirtualAdbTransport());
+  adb.selectDevice('VIRTUAL0001');
+  const networkCheck = new NetworkCheck(adb);
+  assert.match((await networkCheck.httpRequest({ url: 'gopher://example.com/' })).error, /Unsupported scheme/);
+  const result = await networkCheck.httpRequest({ url: 'http://example.com/' });
+  assert.equal(result.success, false);
+  assert.deepEqual(result.redirects, []);
+  assert.match(result.error, /Companion app not installed/);
+});
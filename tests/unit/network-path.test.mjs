@@ -0,0 +1,146 @@
+/**
+ * Unit tests for the path diagnostics: traceroute, MTU probing and the
+ * combined path report.
+ *
+ * The ping/traceroute parsers are fed real iputils and traceroute output;
+ * the methods run against a fake AdbClient that has a traceroute binary and
+ * against the virtual device, whose ping answers TTL-limited and
+ * don't-fragment probes (gateway → 100.64.0.1 → destination, path MTU 1400).
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NetworkCheck, parsePingProbe, parseTracerouteOutput } from '../../dist/network/network-check.js';
+import { AdbClient } from '../../dist/adb/adb-client.js';
+import { WifiCommands } from '../../dist/adb/wifi-commands.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+
+const TRACEROUTE = [
+  'traceroute to 8.8.8.8 (8.8.8.8), 20 hops max, 60 byte packets',
+  ' 1  192.168.6.1  2.104 ms',
+  ' 2  *',
+  ' 3  10.20.0.1  9.877 ms',
+  ' 4  8.8.8.8  14.310 ms',
+].join('\n');
+
+function ok(stdout) {
+  return { success: true, stdout, stderr: '', exitCode: 0 };
+}
+
+async function virtualPhone(pathMtu) {
+  const adb = new AdbClient(
+    'adb',
+    new VirtualAdbTransport({
+      devices: [
+        {
+          serial: 'VIRTUAL0001',
+          accessPoints: [{ ssid: 'Branch', bssid: '02:00:00:00:02:01', frequency: 5180, rssi: -50, flags: '[ESS]', pathMtu }],
+        },
+      ],
+    })
+  );
+  adb.selectDevice('VIRTUAL0001');
+  assert.equal((await new WifiCommands(adb).connect('Branch', 'open')).success, true);
+  return new NetworkCheck(adb);
+}
+
+test('parsePingProbe: reply, TTL exceeded, frag needed and local MTU errors', () => {
+  assert.deepEqual(
+    parsePingProbe('PING dns.google (8.8.8.8) 56(84) bytes of data.\n64 bytes from 8.8.8.8: icmp_seq=1 ttl=117 time=13.4 ms\n'),
+    { target: '8.8.8.8', replyFrom: '8.8.8.8', rttMs: 13.4 }
+  );
+  assert.deepEqual(
+    parsePingProbe('PING 8.8.8.8 (8.8.8.8) 56(84) bytes of data.\nFrom 192.168.6.1 icmp_seq=1 Time to live exceeded\n'),
+    { target: '8.8.8.8', exceededFrom: '192.168.6.1' }
+  );
+  assert.equal(parsePingProbe('From _gateway (192.168.6.1) icmp_seq=1 Time to live exceeded').exceededFrom, '192.168.6.1');
+  assert.equal(parsePingProbe('From 10.0.0.1 icmp_seq=1 Frag needed and DF set (mtu = 1400)').mtu, 1400);
+  assert.deepEqual(parsePingProbe('ping: local error: message too long, mtu=1500'), { mtu: 1500, localMtu: 1500 });
+  assert.deepEqual(parsePingProbe('ping: unknown host nowhere.invalid'), {});
+});
+
+test('parseTracerouteOutput and traceroute: the device binary when it has one', async () => {
+  const parsed = parseTracerouteOutput(TRACEROUTE);
+  assert.equal(parsed.address, '8.8.8.8');
+  assert.equal(parsed.reached, true);
+  assert.deepEqual(parsed.hops[1], { ttl: 2 });
+  assert.deepEqual(parsed.hops[2], { ttl: 3, address: '10.20.0.1', rttMs: 9.877 });
+
+  const calls = [];
+  const adb = {
+    async shell(command, timeout) {
+      calls.push({ command, timeout });
+      if (command === 'command -v traceroute') return ok('/system/bin/traceroute\n');
+      if (command.startsWith('traceroute ')) return ok(TRACEROUTE);
+      return ok('');
+    },
+  };
+  const result = await new NetworkCheck(adb).traceroute('8.8.8.8', 20);
+  assert.equal(result.method, 'traceroute');
+  assert.equal(result.hops.length, 4);
+  assert.equal(result.error, undefined);
+  assert.deepEqual(calls[1], { command: "traceroute -n -q 1 -w 2 -m 20 '8.8.8.8'", timeout: 50_000 });
+});
+
+test('traceroute: a run that times out or falls short is marked incomplete', async () => {
+  const partial = TRACEROUTE.split('\n').slice(0, 3).join('\n');
+  const binary = run => ({
+    async shell(command) {
+      if (command === 'command -v traceroute') return ok('/system/bin/traceroute\n');
+      return run;
+    },
+  });
+  const timedOut = await new NetworkCheck(
+    binary({ success: false, stdout: partial, stderr: 'adb command timed out after 138000ms', exitCode: 1 })
+  ).traceroute('8.8.8.8', 64);
+  assert.equal(timedOut.reached, false);
+  assert.equal(timedOut.hops.length, 2);
+  assert.equal(timedOut.error, 'Incomplete after 2 hops: adb command timed out after 138000ms');
+
+  const short = await new NetworkCheck(binary(ok(partial))).traceroute('8.8.8.8', 2);
+  assert.equal(short.error, 'Did not reach 8.8.8.8 within 2 hops');
+});
+
+test('virtual device: TTL-stepped ping traceroute with per-hop RTT', async () => {
+  const net = await virtualPhone();
+  const result = await net.traceroute('example.com');
+  assert.equal(result.method, 'ping');
+  assert.equal(result.reached, true);
+  assert.match(result.address, /^203\.0\.113\.\d+$/);
+  assert.deepEqual(result.hops.map(h => h.address), ['192.168.50.1', '100.64.0.1', result.address]);
+  assert.ok(result.hops.every(h => typeof h.rttMs === 'number'));
+
+  const offline = new AdbClient('adb', new VirtualAdbTransport());
+  offline.selectDevice('VIRTUAL0001');
+  const unreachable = await new NetworkCheck(offline).traceroute('8.8.8.8');
+  assert.equal(unreachable.reached, false);
+  assert.match(unreachable.error, /Network is unreachable/);
+});
+
+test('virtual device: MTU bisection and the path report', async () => {
+  const full = await (await virtualPhone()).mtuProbe('8.8.8.8');
+  assert.equal(full.pathMtu, 1500);
+  assert.equal(full.probes.length, 2);
+
+  const net = await virtualPhone(1400);
+  const tunnel = await net.mtuProbe('8.8.8.8');
+  assert.equal(tunnel.pathMtu, 1400);
+  assert.deepEqual(tunnel.probes.map(p => [p.size, p.ok]), [[548, true], [1472, false], [1372, true]]);
+  assert.equal(tunnel.probes[1].mtuHint, 1400);
+
+  const bisected = await net.mtuProbe('8.8.8.8', 9000);
+  assert.equal(bisected.pathMtu, 1400);
+  assert.equal(bisected.localMtu, 1500);
+
+  const report = await net.pathReport();
+  assert.equal(report.interface, 'wlan0');
+  assert.equal(report.gateway.address, '192.168.50.1');
+  assert.equal(report.gateway.alive, true);
+  assert.equal(report.dns.addresses.length, 1);
+  assert.deepEqual(report.firstHop, { ttl: 1, address: '192.168.50.1', rttMs: 12 });
+  assert.equal(report.mtu.pathMtu, 1400);
+  assert.deepEqual(report.issues, [
+    'Path MTU to 8.8.8.8 is 1400, below 1500: large packets need fragmentation or working PMTU discovery',
+  ]);
+});
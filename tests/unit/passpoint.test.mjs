@@ -0,0 +1,76 @@
+/**
+ * Unit tests for Passpoint (Hotspot 2.0) profiles.
+ *
+ * Profiles are installed, listed and removed through the companion app; the
+ * host validates each credential type before forwarding and reads the
+ * matched provider off the mWifiInfo line of `dumpsys wifi`.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  EnterpriseWifiCommands,
+  parsePasspointMatch,
+  passpointConfigError,
+} from '../../dist/adb/enterprise-wifi.js';
+import { AdbClient } from '../../dist/adb/adb-client.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+
+const profile = (over) => ({
+  fqdn: 'hotspot.carrier.example',
+  friendlyName: 'Carrier Wi-Fi',
+  realm: 'carrier.example',
+  credentialType: 'user',
+  username: 'alice',
+  password: 's3cret',
+  ...over,
+});
+
+test('passpointConfigError: each credential type needs its own fields', () => {
+  assert.equal(passpointConfigError(profile()), null);
+  assert.match(passpointConfigError(profile({ password: undefined })), /username and password/);
+  assert.match(
+    passpointConfigError(profile({ credentialType: 'certificate', clientCertificate: 'PEM' })),
+    /clientCertificate and privateKey/
+  );
+  assert.equal(passpointConfigError(profile({ credentialType: 'sim', imsi: '310260*' })), null);
+  assert.equal(passpointConfigError(profile({ credentialType: 'sim', imsi: '310260123456789' })), null);
+  assert.match(passpointConfigError(profile({ credentialType: 'sim', imsi: '3102*' })), /imsi/);
+  assert.match(passpointConfigError(profile({ credentialType: 'sim' })), /imsi/);
+});
+
+test('passpointConfigError: FQDN and roaming consortium OIs', () => {
+  assert.equal(passpointConfigError(profile({ roamingConsortiumOis: ['5a03ba0000', '004096'] })), null);
+  assert.match(passpointConfigError(profile({ roamingConsortiumOis: ['5a03'] })), /OI "5a03"/);
+  assert.match(passpointConfigError(profile({ fqdn: 'localhost' })), /FQDN/);
+  assert.match(passpointConfigError(profile({ realm: '' })), /realm/);
+});
+
+test('parsePasspointMatch: provider of the current association', () => {
+  const line = (fqdn, name, state = 'COMPLETED') =>
+    `mWifiInfo SSID: "Carrier-HS20", BSSID: 02:00:00:00:0A:01, MAC: 02:00:00:00:00:01, Supplicant state: ${state}, ` +
+    `RSSI: -55, Net ID: 12, Metered hint: false, OSU AP: false, FQDN: ${fqdn}, Provider friendly name: ${name}, Requesting package name: <none>`;
+  assert.deepEqual(parsePasspointMatch(`Wi-Fi is enabled\n${line('hotspot.carrier.example', 'Carrier Wi-Fi')}`), {
+    fqdn: 'hotspot.carrier.example',
+    friendlyName: 'Carrier Wi-Fi',
+    ssid: 'Carrier-HS20',
+    bssid: '02:00:00:00:0a:01',
+  });
+  assert.equal(parsePasspointMatch(line('<none>', '<none>')), undefined);
+  assert.equal(parsePasspointMatch(line('hotspot.carrier.example', 'Carrier Wi-Fi', 'DISCONNECTED')), undefined);
+});
+
+test('virtual device: validation first, then companion-missing failures', async () => {
+  const adb = new AdbClient('adb', new VirtualAdbTransport());
+  adb.selectDevice('VIRTUAL0001');
+  const enterprise = new EnterpriseWifiCommands(adb);
+
+  const invalid = await enterprise.installPasspoint(profile({ username: undefined }));
+  assert.match(invalid.error, /username and password/);
+  assert.match((await enterprise.installPasspoint(profile())).error, /Companion app not installed/);
+  const list = await enterprise.listPasspoint();
+  assert.equal(list.success, false);
+  assert.deepEqual(list.profiles, []);
+  assert.match((await enterprise.removePasspoint('hotspot.carrier.example')).error, /Companion app not installed/);
+});
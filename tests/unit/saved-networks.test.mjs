@@ -0,0 +1,95 @@
+/**
+ * Unit tests for saved-network management.
+ *
+ * `cmd wifi list-networks` only prints id/SSID/security; the rest (auto-join,
+ * priority, metered, MAC randomization, last connected, origin) comes from
+ * the configured-networks section of `dumpsys wifi`, whose field spellings
+ * drift between releases. Bulk forget is checked end to end on the virtual
+ * device; auto-join/priority changes need the companion app.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WifiCommands, parseConfiguredNetworks } from '../../dist/adb/wifi-commands.js';
+import { AdbClient } from '../../dist/adb/adb-client.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+
+const DUMPSYS = `
+WifiConfigManager - Configured networks Begin
+* ID: 3 SSID: "Office" PROVIDER-NAME: null BSSID: null FQDN: null HOME-PROVIDER-NETWORK: false PRIO: 0 HIDDEN: false PMF: false CarrierId: -1 SubscriptionId: -1
+ NetworkSelectionStatus NETWORK_SELECTION_ENABLED
+ macRandomizationSetting: 1
+ cuid=1000 cname=android.uid.system:1000 meteredHint meteredOverride: 2
+ allowAutojoin=false
+ lastConnected: 10-17 08:41:02.118
+- DSBLE ID: 7 SSID: "Cafe Free" PROVIDER-NAME: null BSSID: null FQDN: null HOME-PROVIDER-NETWORK: false PRIO: 5 HIDDEN: true PMF: false
+ macRandomizationSetting: 2
+ cuid=10211 cname=com.example.coffee fromWifiNetworkSuggestion
+ meteredHint: true meteredOverride: 0
+ID: 9 SSID: "Lab-Static" PROVIDER-NAME: null BSSID: null FQDN: null HOME-PROVIDER-NETWORK: false PRIO: 0 HIDDEN: false PMF: false
+ cuid=10240 cname=com.example.wifimcpcompanion
+WifiConfigManager - Configured networks End
+ID: 3 SSID: "Office" PROVIDER-NAME: null BSSID: null (store copy, outside the section)
+`;
+
+test('configured-network records parse across field spellings', () => {
+  const [office, cafe, lab, ...rest] = parseConfiguredNetworks(DUMPSYS);
+  assert.equal(rest.length, 0);
+  assert.deepEqual(office, {
+    networkId: 3,
+    ssid: 'Office',
+    autoJoin: false,
+    priority: 0,
+    hidden: false,
+    metered: false, // override 2 beats the hint
+    macRandomization: 'persistent',
+    lastConnected: '10-17 08:41:02.118',
+    origin: 'user',
+  });
+  assert.equal(cafe.priority, 5);
+  assert.equal(cafe.hidden, true);
+  assert.equal(cafe.metered, true);
+  assert.equal(cafe.macRandomization, 'non_persistent');
+  assert.equal(cafe.origin, 'suggestion');
+  assert.equal(cafe.autoJoin, undefined);
+  assert.equal(lab.origin, 'companion');
+  assert.equal(lab.metered, undefined);
+});
+
+function virtualWifi(saved) {
+  const transport = new VirtualAdbTransport({
+    devices: [{
+      serial: 'PHONE',
+      accessPoints: [{ ssid: 'Home', bssid: '02:00:00:00:0c:01', frequency: 2412, rssi: -50, flags: '[ESS]' }],
+      saved,
+    }],
+  });
+  const adb = new AdbClient('adb', transport);
+  adb.selectDevice('PHONE');
+  return new WifiCommands(adb);
+}
+
+test('forgetMatching removes only matching networks of the given origin', async () => {
+  const wifi = virtualWifi([
+    { networkId: 0, ssid: 'Home', security: 'wpa2-psk' },
+    { networkId: 1, ssid: 'test-ap-1', security: 'open', disabled: true },
+    { networkId: 2, ssid: 'test-ap-2', security: 'open', fromSuggestion: true, creator: 'com.example.app' },
+    { networkId: 3, ssid: 'Test-AP-3', security: 'owe', creator: 'com.example.wifimcpcompanion' },
+  ]);
+
+  const planned = await wifi.forgetMatching(/^test-ap-/i, { dryRun: true });
+  assert.deepEqual(planned.map(n => n.networkId), [1, 2, 3]);
+  assert.equal((await wifi.listSavedNetworks()).length, 4);
+
+  const forgotten = await wifi.forgetMatching(/^test-ap-/i, { origins: ['user', 'companion'] });
+  assert.deepEqual(forgotten.map(n => n.networkId), [1, 3]);
+  const left = await wifi.listSavedNetworks();
+  assert.deepEqual(left.map(n => [n.ssid, n.origin]), [['Home', 'user'], ['test-ap-2', 'suggestion']]);
+});
+
+test('updateNetwork needs the companion app and an existing network', async () => {
+  const wifi = virtualWifi([{ networkId: 0, ssid: 'Home', security: 'wpa2-psk' }]);
+  await assert.rejects(wifi.updateNetwork(5, { autoJoin: false }), /No saved network with ID 5/);
+  await assert.rejects(wifi.updateNetwork(0, { priority: 3 }), /companion app .* not installed/);
+});
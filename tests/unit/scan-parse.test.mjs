@@ -0,0 +1,152 @@
+/**
+ * Unit tests for scan-result parsing.
+ *
+ * `cmd wifi list-scan-results` flags carry every advertised AKM and cipher
+ * per protocol; parseScanFlags must keep all of them (a WPA3-transition SSID
+ * advertises PSK and SAE together) even where names contain dashes
+ * (`PSK-SHA256`, `GCMP-256`). Width and standard come from `dumpsys wifi`.
+ * Multi-pass scans merge per BSSID before filtering and sorting.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseScanResults,
+  parseScanFlags,
+  parseScanRadioDetails,
+  frequencyToChannel,
+  mergeScanPasses,
+  filterScanResults,
+  sortScanResults,
+  WifiCommands,
+} from '../../dist/adb/wifi-commands.js';
+import { AdbClient } from '../../dist/adb/adb-client.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+
+const OUTPUT = [
+  '    BSSID              Frequency      RSSI           Age(sec)     SSID                                 Flags',
+  '  84:18:3a:06:be:58   2412     -51      17.210     Coffee Shop Guest   [WPA2-PSK-CCMP][RSN-PSK-CCMP][ESS][WPS]',
+  '  84:18:3a:06:be:59   5955     -60      0.512      Lab6E               [RSN-PSK+SAE-CCMP][ESS][MFPC]',
+].join('\n');
+
+test('parses band, channel, age and raw capabilities', () => {
+  const [guest, lab] = parseScanResults(OUTPUT);
+  assert.equal(guest.ssid, 'Coffee Shop Guest');
+  assert.equal(guest.band, '2.4GHz');
+  assert.equal(guest.channel, 1);
+  assert.equal(guest.ageSeconds, 17.21);
+  assert.equal(guest.wps, true);
+  assert.equal(guest.capabilities, '[WPA2-PSK-CCMP][RSN-PSK-CCMP][ESS][WPS]');
+  assert.deepEqual(guest.akms, ['PSK']);
+  assert.equal(lab.band, '6GHz');
+  assert.equal(lab.channel, 1);
+  assert.equal(frequencyToChannel(5180), 36);
+  assert.equal(frequencyToChannel(2484), 14);
+});
+
+test('WPA3 transition advertises both AKMs', () => {
+  const split = parseScanFlags('[WPA2-PSK-CCMP][RSN-PSK-CCMP][RSN-SAE-CCMP][ESS][MFPC]');
+  const joined = parseScanFlags('[RSN-PSK+SAE-CCMP][ESS][MFPC]');
+  for (const f of [split, joined]) {
+    assert.deepEqual(f.akms, ['PSK', 'SAE']);
+    assert.deepEqual(f.ciphers, ['CCMP']);
+    assert.deepEqual(f.transitionModes, ['WPA2/WPA3-Personal']);
+    assert.equal(f.pmf, 'capable');
+  }
+});
+
+test('dashed AKM and cipher names, enterprise and legacy suites', () => {
+  assert.deepEqual(parseScanFlags('[RSN-PSK-SHA256-CCMP][ESS]').akms, ['PSK-SHA256']);
+  const suiteB = parseScanFlags('[RSN-EAP_SUITE_B_192-GCMP-256][ESS][MFPR]');
+  assert.deepEqual(suiteB.akms, ['EAP-SUITE-B-192']);
+  assert.deepEqual(suiteB.ciphers, ['GCMP-256']);
+  assert.equal(suiteB.pmf, 'required');
+  const ent = parseScanFlags('[WPA2-EAP/SHA1+EAP/SHA256-CCMP][RSN-EAP/SHA1+EAP/SHA256-CCMP][ESS]');
+  assert.deepEqual(ent.akms, ['EAP', 'EAP-SHA256']);
+  assert.deepEqual(ent.transitionModes, ['WPA2/WPA3-Enterprise']);
+  const ft = parseScanFlags('[WPA2-EAP/SHA1+FT/EAP-CCMP][RSN-EAP/SHA1+FT/EAP-CCMP][ESS]');
+  assert.deepEqual(ft.akms, ['EAP', 'FT-EAP']);
+  assert.deepEqual(ft.transitionModes, []);
+  assert.deepEqual(parseScanFlags('[RSN-FT/EAP+FT/EAP_SHA384-GCMP-256][ESS][MFPC]').transitionModes, ['WPA2/WPA3-Enterprise']);
+  const mixed = parseScanFlags('[WPA-PSK-CCMP+TKIP][WPA2-PSK-CCMP+TKIP][ESS]');
+  assert.deepEqual(mixed.ciphers, ['CCMP', 'TKIP']);
+  assert.deepEqual(mixed.transitionModes, ['WPA/WPA2']);
+  assert.deepEqual(parseScanFlags('[ESS][OWE_TRANSITION]').transitionModes, ['Open/OWE']);
+  assert.deepEqual(parseScanFlags('[ESS]'), { akms: [], ciphers: [], transitionModes: [], wps: false });
+});
+
+test('radio details come from ScanResult records in dumpsys wifi', () => {
+  const details = parseScanRadioDetails([
+    'mWifiInfo SSID: <unknown ssid>, BSSID: <none>, Supplicant state: DISCONNECTED',
+    '  SSID: "Lab", BSSID: 84:18:3A:06:BE:59, capabilities: [ESS], level: -60, frequency: 5955, ChannelBandwidth: 3, standard: 11ax',
+    '  SSID: "Old", BSSID: 84:18:3a:06:be:60, level: -70',
+  ].join('\n'));
+  assert.deepEqual([...details.keys()], ['84:18:3a:06:be:59']);
+  assert.deepEqual(details.get('84:18:3a:06:be:59'), { channelWidth: 160, wifiStandard: '11ax' });
+});
+
+test('radioDetails fills width and generation on the virtual device', async () => {
+  const adb = new AdbClient('adb', new VirtualAdbTransport());
+  adb.selectDevice('VIRTUAL0001');
+  const wifi = new WifiCommands(adb);
+  const plain = await wifi.getScanResults();
+  assert.equal(plain.find(r => r.ssid === 'Virtual-WPA2').channelWidth, undefined);
+  const rich = (await wifi.getScanResults({ radioDetails: true })).find(r => r.ssid === 'Virtual-WPA2');
+  assert.equal(rich.channelWidth, 80);
+  assert.equal(rich.wifiStandard, '11ax');
+  assert.equal(rich.wifiGeneration, 'Wi-Fi 6');
+});
+
+// --- filtering, sorting, multi-pass ---
+
+const ap = (ssid, bssid, frequency, rssi) => ({ ...parseScanResults(`${bssid} ${frequency} ${rssi} 1.0 ${ssid} [ESS]`)[0] });
+
+test('mergeScanPasses keeps every BSSID with seen count and RSSI spread', () => {
+  const merged = mergeScanPasses([
+    [ap('Lab', '02:00:00:00:00:01', 5180, -50), ap('Far', '02:00:00:00:00:02', 2412, -85)],
+    [ap('Lab', '02:00:00:00:00:01', 5180, -56)],
+    [ap('Lab', '02:00:00:00:00:01', 5180, -53)],
+  ]);
+  const lab = merged.find(r => r.ssid === 'Lab');
+  assert.deepEqual(
+    { rssi: lab.rssi, seenCount: lab.seenCount, rssiMin: lab.rssiMin, rssiAvg: lab.rssiAvg, rssiMax: lab.rssiMax },
+    { rssi: -53, seenCount: 3, rssiMin: -56, rssiAvg: -53, rssiMax: -50 }
+  );
+  assert.equal(merged.find(r => r.ssid === 'Far').seenCount, 1);
+});
+
+test('mergeScanPasses does not count cached re-reads of a throttled scan', () => {
+  const seen = (bssid, rssi, age) => parseScanResults(`${bssid} 5180 ${rssi} ${age} Lab [ESS]`)[0];
+  // Pass 2 re-reads pass 1's results (age grew by the 2.5 s between reads);
+  // pass 3 comes from a new scan.
+  const merged = mergeScanPasses(
+    [
+      [seen('02:00:00:00:00:01', -50, '0.5')],
+      [seen('02:00:00:00:00:01', -50, '3.0')],
+      [seen('02:00:00:00:00:01', -60, '0.2')],
+    ],
+    [10_000, 12_500, 15_000]
+  );
+  assert.deepEqual(
+    { seenCount: merged[0].seenCount, rssiAvg: merged[0].rssiAvg, ageSeconds: merged[0].ageSeconds },
+    { seenCount: 2, rssiAvg: -55, ageSeconds: 0.2 }
+  );
+});
+
+test('filter by SSID regex, average RSSI and band; sort by key', () => {
+  const results = mergeScanPasses([
+    [ap('Corp-5G', '02:00:00:00:00:01', 5180, -60), ap('Corp-2G', '02:00:00:00:00:02', 2437, -40), ap('Guest', '02:00:00:00:00:03', 5745, -70)],
+    [ap('Corp-5G', '02:00:00:00:00:01', 5180, -80), ap('Corp-2G', '02:00:00:00:00:02', 2437, -42)],
+  ]);
+  const corp = filterScanResults(results, { ssidPattern: /^corp/i });
+  assert.deepEqual(corp.map(r => r.ssid).sort(), ['Corp-2G', 'Corp-5G']);
+  // Corp-5G averages -70: a single -60 sighting doesn't get it past -65.
+  assert.deepEqual(filterScanResults(results, { minRssi: -65 }).map(r => r.ssid), ['Corp-2G']);
+  assert.deepEqual(filterScanResults(results, { bands: ['5GHz'] }).map(r => r.ssid), ['Corp-5G', 'Guest']);
+
+  assert.deepEqual(sortScanResults(results).map(r => r.ssid), ['Corp-2G', 'Corp-5G', 'Guest']);
+  assert.deepEqual(sortScanResults(results, 'ssid').map(r => r.ssid), ['Corp-2G', 'Corp-5G', 'Guest']);
+  assert.deepEqual(sortScanResults(results, 'channel').map(r => r.channel), [6, 36, 149]);
+  assert.deepEqual(sortScanResults(results, 'seen').map(r => r.ssid), ['Corp-2G', 'Corp-5G', 'Guest']);
+});
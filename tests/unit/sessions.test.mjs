@@ -0,0 +1,138 @@
+/**
+ * Unit tests for server-managed MCP sessions.
+ *
+ * Each session gets its own McpServer and its own device selection, so two
+ * clients on one host can device_select different phones without clobbering
+ * each other or the process-wide selection used by stateless requests. A
+ * small http server routes requests by Mcp-Session-Id the same way
+ * src/index.ts does, and real SDK clients drive it against a two-phone
+ * virtual transport.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { DeviceManager } from '../../dist/adb/device-manager.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+import { createMcpServer } from '../../dist/server.js';
+import { SessionManager, parseSessionIdleMs, DEFAULT_SESSION_IDLE_MS } from '../../dist/mcp/session-manager.js';
+
+function twoPhones() {
+  return new DeviceManager(undefined, new VirtualAdbTransport({
+    devices: [
+      { serial: 'PHONE_A', props: { 'ro.product.model': 'Phone A' } },
+      { serial: 'PHONE_B', props: { 'ro.product.model': 'Phone B' } },
+    ],
+  }));
+}
+
+async function harness() {
+  const dm = twoPhones();
+  const records = [];
+  const sessions = new SessionManager(
+    (session) => createMcpServer(dm, undefined, session).server,
+    { recorder: async (r) => { records.push(structuredClone(r)); } }
+  );
+  const http = createServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    const json = body ? JSON.parse(body) : undefined;
+    const id = req.headers['mcp-session-id'];
+    const session = id ? sessions.get(id) : await sessions.open(req.headers['x-caller-session-id'] ?? null);
+    if (!session) {
+      res.writeHead(404).end();
+      return;
+    }
+    await session.transport.handleRequest(req, res, json);
+  });
+  await new Promise(r => http.listen(0, '127.0.0.1', r));
+  const url = new URL(`http://127.0.0.1:${http.address().port}/mcp`);
+
+  const clients = [];
+  async function connect(name, caller) {
+    const client = new Client({ name, version: '1.0.0' });
+    const headers = caller ? { 'X-Caller-Session-Id': caller } : {};
+    await client.connect(new StreamableHTTPClientTransport(url, { requestInit: { headers } }));
+    clients.push(client);
+    return client;
+  }
+  async function close() {
+    await sessions.closeAll();
+    await Promise.all(clients.map(c => c.close().catch(() => {})));
+    http.closeAllConnections();
+    await new Promise(r => http.close(r));
+  }
+  return { dm, sessions, records, connect, close };
+}
+
+function json(result) {
+  return JSON.parse(result.content[0].text);
+}
+
+test('each session keeps its own selected device', async () => {
+  const h = await harness();
+  try {
+    const a = await h.connect('qa-a');
+    const b = await h.connect('qa-b');
+    assert.equal(h.sessions.size(), 2);
+
+    await a.callTool({ name: 'device_select', arguments: { serial: 'PHONE_A' } });
+    await b.callTool({ name: 'device_select', arguments: { serial: 'PHONE_B' } });
+
+    assert.equal(json(await a.callTool({ name: 'device_info', arguments: {} })).model, 'Phone A');
+    assert.equal(json(await b.callTool({ name: 'device_info', arguments: {} })).model, 'Phone B');
+    assert.equal(json(await a.callTool({ name: 'device_list', arguments: {} })).selectedDevice, 'PHONE_A');
+    // Stateless callers still see the (untouched) process-wide selection.
+    assert.equal(h.dm.getSelectedDevice(), null);
+  } finally {
+    await h.close();
+  }
+});
+
+test('sessions are persisted with client info, caller label and selection', async () => {
+  const h = await harness();
+  try {
+    const a = await h.connect('qa-harness', 'nightly-7');
+    await a.callTool({ name: 'device_select', arguments: { serial: 'PHONE_B' } });
+    const last = h.records.at(-1);
+    assert.match(last.session_id, /^[0-9a-f-]{36}$/);
+    assert.equal(last.client_info.name, 'qa-harness');
+    assert.equal(last.client_info.caller_session_id, 'nightly-7');
+    assert.equal(last.selected_serial, 'PHONE_B');
+  } finally {
+    await h.close();
+  }
+});
+
+test('idle sessions are reaped; upstream use lands in upstream_ctx_map', async () => {
+  const h = await harness();
+  try {
+    await h.connect('qa');
+    const [id] = [...h.records.map(r => r.session_id)];
+    const session = h.sessions.get(id);
+    session.noteUpstreamCall('playwright', 'browser_navigate');
+    session.noteUpstreamCall('playwright', 'browser_snapshot');
+    assert.deepEqual(
+      { calls: h.records.at(-1).upstream_ctx_map.playwright.calls, lastTool: h.records.at(-1).upstream_ctx_map.playwright.lastTool },
+      { calls: 2, lastTool: 'browser_snapshot' }
+    );
+
+    assert.deepEqual(await h.sessions.reapIdle(Date.now() + 60 * 60 * 1000), [id]);
+    assert.equal(h.sessions.size(), 0);
+    assert.equal(h.sessions.get(id), undefined);
+  } finally {
+    await h.close();
+  }
+});
+
+test('parseSessionIdleMs: default when unset; a bad value fails at startup', () => {
+  assert.equal(parseSessionIdleMs(undefined), DEFAULT_SESSION_IDLE_MS);
+  assert.equal(parseSessionIdleMs(' '), DEFAULT_SESSION_IDLE_MS);
+  assert.equal(parseSessionIdleMs('90000'), 90_000);
+  for (const bad of ['abc', '0', '-5', 'Infinity']) {
+    assert.throws(() => parseSessionIdleMs(bad), /MCP_SESSION_IDLE_MS must be a positive number of milliseconds/);
+  }
+});
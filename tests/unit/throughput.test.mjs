@@ -0,0 +1,230 @@
+/**
+ * Unit tests for network_throughput_test, the phone ↔ host throughput run.
+ *
+ * The subnet and UDP-statistics helpers are fed hand-built inputs. The runs
+ * go over real sockets on loopback: a fake AdbClient plays the phone, doing
+ * what toybox nc (TCP) and the companion's THROUGHPUT_UDP (UDP) would do
+ * against the host server the test starts.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { connect } from 'node:net';
+import { createSocket } from 'node:dgram';
+import { ThroughputTest, pickHostAddress, summarizeUdpStream } from '../../dist/network/throughput.js';
+
+const COMPANION_PACKAGE = 'com.example.wifimcpcompanion';
+
+function ok(stdout) {
+  return { success: true, stdout, stderr: '', exitCode: 0 };
+}
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+/** toybox nc: stream zeros for `seconds` (upload) or count what arrives (download). */
+function nc(command) {
+  const [, seconds, host, port, input] = command.match(/^timeout (\d+) toybox nc '([^']+)' (\d+) < \/dev\/(zero|null)/);
+  return new Promise(resolve => {
+    const socket = connect(Number(port), host);
+    if (input === 'zero') {
+      const chunk = Buffer.alloc(16 * 1024);
+      const deadline = Date.now() + Number(seconds) * 1000;
+      const pump = () => {
+        while (Date.now() < deadline) if (!socket.write(chunk)) return void socket.once('drain', pump);
+        socket.destroy();
+        resolve({ success: false, stdout: '', stderr: '', exitCode: 124 });
+      };
+      socket.once('connect', pump);
+    } else {
+      let bytes = 0;
+      socket.end();
+      socket.on('data', data => (bytes += data.length));
+      socket.on('close', () => resolve(ok(`${bytes}\n`)));
+    }
+  });
+}
+
+/** The companion's THROUGHPUT_UDP, same packet format, on loopback. */
+async function companionUdp({ host, port, direction, durationMs, bitrateMbps, packetSize }) {
+  const socket = createSocket('udp4');
+  const packet = (type, seq, size) => {
+    const b = Buffer.alloc(size);
+    b[0] = type;
+    b.writeUInt32BE(seq, 4);
+    b.writeBigUInt64BE(process.hrtime.bigint(), 8);
+    return b;
+  };
+  try {
+    if (direction === 'up') {
+      const perMs = (bitrateMbps * 1000) / 8 / packetSize;
+      const start = Date.now();
+      let seq = 0;
+      while (Date.now() - start < durationMs) {
+        // Drop every 10th packet on the "air".
+        for (const due = Math.floor((Date.now() - start) * perMs); seq < due; seq++) {
+          if (seq % 10 !== 9) socket.send(packet(1, seq, packetSize), port, host);
+        }
+        await sleep(5);
+      }
+      for (let i = 0; i < 3; i++) socket.send(packet(3, seq, 16), port, host);
+      return { success: true, message: `Sent ${seq} packets`, packetsSent: seq };
+    }
+    const arrivals = [];
+    let packetsSent;
+    const done = new Promise(resolve => {
+      socket.on('message', msg => {
+        if (msg[0] === 3) return resolve((packetsSent = msg.readUInt32BE(4)));
+        arrivals.push({ seq: msg.readUInt32BE(4), sentMs: Number(msg.readBigUInt64BE(8)) / 1e6, arrivalMs: performance.now(), bytes: msg.length });
+      });
+    });
+    socket.send(packet(2, 1, 16), port, host);
+    await Promise.race([done, sleep(durationMs + 3000)]);
+    const stats = summarizeUdpStream(arrivals, packetsSent);
+    return { success: true, message: `Received ${stats.packetsReceived} packets`, ...stats };
+  } finally {
+    await sleep(50);
+    socket.close();
+  }
+}
+
+class FakePhone {
+  constructor({ companion = false } = {}) {
+    this.companion = companion;
+    this.reversed = [];
+  }
+
+  async shell(command) {
+    if (command.startsWith('timeout ')) {
+      if (this.noNc) return { success: false, stdout: '', stderr: 'toybox: Unknown command nc', exitCode: 1 };
+      return nc(command);
+    }
+    if (command.includes('pm list packages')) return ok(this.companion ? `package:${COMPANION_PACKAGE}` : '');
+    const write = command.match(/echo (\S+) \| base64 -d > files\/wifi_mcp_command\.json/);
+    if (write) {
+      this.command = JSON.parse(Buffer.from(write[1], 'base64').toString('utf-8'));
+      return ok('');
+    }
+    if (command.includes('am broadcast')) {
+      this.result = undefined;
+      this.broadcastAt = Date.now();
+      companionUdp(this.command).then(result => (this.result = result));
+      return ok('Broadcast completed: result=0');
+    }
+    if (command.includes('cat files/wifi_mcp_result.json')) {
+      if (this.offlineAfterMs !== undefined && Date.now() - this.broadcastAt > this.offlineAfterMs) throw new Error('device offline');
+      return ok(this.result ? JSON.stringify(this.result) : '');
+    }
+    return ok('');
+  }
+
+  async reverse(remotePort, localPort) {
+    this.reversed.push([remotePort, localPort]);
+  }
+
+  async removeReverse(remotePort) {
+    this.reversed = this.reversed.filter(([port]) => port !== remotePort);
+  }
+}
+
+test('pickHostAddress: the host interface on the phone subnet', () => {
+  const interfaces = {
+    lo: [{ address: '127.0.0.1', netmask: '255.0.0.0', family: 'IPv4', internal: true }],
+    eth0: [
+      { address: 'fe80::1', netmask: 'ffff:ffff:ffff:ffff::', family: 'IPv6', internal: false },
+      { address: '10.0.0.5', netmask: '255.255.255.0', family: 'IPv4', internal: false },
+    ],
+    wlan0: [{ address: '192.168.50.20', netmask: '255.255.254.0', family: 'IPv4', internal: false }],
+  };
+  assert.equal(pickHostAddress('192.168.51.7', interfaces), '192.168.50.20');
+  assert.equal(pickHostAddress('10.0.0.77', interfaces), '10.0.0.5');
+  assert.equal(pickHostAddress('172.16.0.2', interfaces), undefined);
+  assert.equal(pickHostAddress('not-an-ip', interfaces), undefined);
+});
+
+test('summarizeUdpStream: loss, reordering, duplicates and RFC 3550 jitter', () => {
+  const arrivals = [
+    { seq: 0, sentMs: 0, arrivalMs: 100, bytes: 1000 },
+    { seq: 1, sentMs: 10, arrivalMs: 110, bytes: 1000 },
+    { seq: 3, sentMs: 30, arrivalMs: 146, bytes: 1000 },
+    { seq: 2, sentMs: 20, arrivalMs: 150, bytes: 1000 },
+    { seq: 2, sentMs: 20, arrivalMs: 151, bytes: 1000 },
+  ];
+  const stats = summarizeUdpStream(arrivals, 5);
+  assert.equal(stats.packetsSent, 5);
+  assert.equal(stats.packetsReceived, 4);
+  assert.equal(stats.lossPercent, 20);
+  assert.equal(stats.outOfOrder, 1);
+  assert.equal(stats.bytes, 4000);
+  // |D| = 0, then 16, then 14: J = 0 → 1 → 1 + (14 - 1) / 16.
+  assert.equal(stats.jitterMs, 1.81);
+  assert.equal(stats.durationMs, 51);
+  assert.equal(stats.mbps, 0.63);
+  assert.equal(summarizeUdpStream([], undefined).packetsReceived, 0);
+});
+
+test('TCP through adb reverse: upload then download, reverse removed afterwards', async () => {
+  const phone = new FakePhone();
+  const result = await new ThroughputTest(phone).run({ path: 'adb', durationSeconds: 1 });
+
+  assert.equal(result.success, true, result.error);
+  assert.match(result.host, /^127\.0\.0\.1:\d+$/);
+  assert.deepEqual(result.runs.map(r => [r.direction, r.success]), [['up', true], ['down', true]]);
+  assert.ok(result.upMbps > 0 && result.downMbps > 0);
+  assert.ok(result.runs[1].durationMs >= 1000);
+  assert.match(result.warning, /measures that link, not the Wi-Fi/);
+  assert.deepEqual(phone.reversed, []);
+
+  phone.noNc = true;
+  const started = Date.now();
+  const missing = await new ThroughputTest(phone).run({ path: 'adb', directions: ['up'], durationSeconds: 1 });
+  assert.ok(Date.now() - started < 8000);
+  assert.equal(missing.success, false);
+  assert.match(missing.error, /^Upload failed: The phone never connected to 127\.0\.0\.1:\d+: toybox: Unknown command nc$/);
+});
+
+test('UDP through the companion: loss and jitter both ways; preconditions', async () => {
+  const phone = new FakePhone({ companion: true });
+  const result = await new ThroughputTest(phone).run({
+    protocol: 'udp',
+    hostAddress: '127.0.0.1',
+    durationSeconds: 1,
+    bitrateMbps: 4,
+    packetSize: 500,
+  });
+
+  assert.equal(result.success, true, result.error);
+  const [up, down] = result.runs;
+  assert.equal(up.direction, 'up');
+  assert.ok(up.packetsSent >= 900, `sent ${up.packetsSent}`);
+  assert.ok(up.lossPercent >= 9 && up.lossPercent <= 11, `loss ${up.lossPercent}`);
+  assert.equal(typeof up.jitterMs, 'number');
+  assert.equal(down.direction, 'down');
+  assert.ok(down.packetsSent >= 900, `sent ${down.packetsSent}`);
+  assert.equal(down.packetsReceived, down.packetsSent);
+  assert.equal(down.lossPercent, 0);
+  assert.ok(result.downMbps > 3 && result.downMbps < 5, `down ${result.downMbps}`);
+
+  const tooLong = await new ThroughputTest(phone).run({ protocol: 'udp', hostAddress: '127.0.0.1', durationSeconds: 60 });
+  assert.equal(tooLong.error, 'UDP runs are limited to 45 s each');
+  const viaAdb = await new ThroughputTest(phone).run({ protocol: 'udp', path: 'adb' });
+  assert.equal(viaAdb.error, 'adb reverse forwards TCP only: UDP needs path "wifi"');
+  const noCompanion = await new ThroughputTest(new FakePhone()).run({ protocol: 'udp', hostAddress: '127.0.0.1' });
+  assert.match(noCompanion.error, /Companion app not installed/);
+  const offline = await new ThroughputTest(new FakePhone()).run();
+  assert.equal(offline.error, 'The phone has no Wi-Fi address: connect to Wi-Fi first');
+  const injected = await new ThroughputTest(phone).run({ hostAddress: '10.0.0.1; reboot' });
+  assert.equal(injected.error, 'hostAddress must be an IPv4 address, got "10.0.0.1; reboot"');
+});
+
+test('UDP download: losing the phone mid-stream stops the sender before the socket closes', async () => {
+  const phone = new FakePhone({ companion: true });
+  phone.offlineAfterMs = 500;
+  const started = Date.now();
+  const result = await new ThroughputTest(phone).run({ protocol: 'udp', hostAddress: '127.0.0.1', directions: ['down'], durationSeconds: 3 });
+  assert.equal(result.success, false);
+  assert.equal(result.error, 'device offline');
+  assert.ok(Date.now() - started < 3000, 'the stream was cut short');
+  // A send on the closed socket would surface as an uncaught exception here.
+  await sleep(200);
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for network_watch_validation, the captive-portal lifecycle
+ * timeline.
+ *
+ * The transition and timing helpers are fed hand-built sample series; the
+ * watch itself runs against a virtual device while connects on the same
+ * device interleave with its polls through the device lock.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  NetworkCheck,
+  parseValidationSample,
+  detectValidationTransitions,
+  validationTimings,
+} from '../../dist/network/network-check.js';
+import { DeviceManager } from '../../dist/adb/device-manager.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+
+const START = Date.parse('2026-10-18T10:00:00.000Z');
+const sample = (offsetMs, netId, ...capabilities) => ({ offsetMs, ...(netId && { netId }), capabilities });
+
+test('parseValidationSample: tracked capabilities and portal URL of the Wi-Fi agent', () => {
+  const captive = parseValidationSample(
+    [
+      'Active default network: 411',
+      '  NetworkAgentInfo{network{411}  handle{1}  ni{MOBILE[LTE] CONNECTED extra: internet}  nc{[ Transports: CELLULAR Capabilities: INTERNET&VALIDATED ]}}',
+      '  NetworkAgentInfo{network{409}  handle{2}  ni{WIFI CONNECTED extra: }  nc{[ Transports: WIFI Capabilities: INTERNET&NOT_RESTRICTED&CAPTIVE_PORTAL ]} CaptivePortalData{ userPortalUrl=http://portal.test/login isCaptive=true }}',
+    ].join('\n'),
+    250
+  );
+  assert.deepEqual(captive, { offsetMs: 250, netId: '409', capabilities: ['CAPTIVE_PORTAL'], portalUrl: 'http://portal.test/login' });
+  assert.deepEqual(parseValidationSample('Active default network: none\n', 0), { offsetMs: 0, capabilities: [] });
+});
+
+test('detectValidationTransitions and validationTimings: a portal login', () => {
+  const transitions = detectValidationTransitions(
+    [
+      sample(0),
+      sample(500),
+      sample(1000, '100'),
+      sample(1500, '100', 'CAPTIVE_PORTAL'),
+      sample(2000, '100', 'CAPTIVE_PORTAL'),
+      sample(9000, '100', 'PARTIAL_CONNECTIVITY'),
+      sample(9500, '100', 'VALIDATED'),
+      sample(10000, '100', 'VALIDATED'),
+    ],
+    START
+  );
+  assert.deepEqual(
+    transitions.map(t => [t.offsetMs, t.from, t.state]),
+    [
+      [0, null, 'DISCONNECTED'],
+      [1000, 'DISCONNECTED', 'CONNECTED'],
+      [1500, 'CONNECTED', 'CAPTIVE_PORTAL'],
+      [9000, 'CAPTIVE_PORTAL', 'PARTIAL_CONNECTIVITY'],
+      [9500, 'PARTIAL_CONNECTIVITY', 'VALIDATED'],
+    ]
+  );
+  assert.equal(transitions[2].at, '2026-10-18T10:00:01.500Z');
+  assert.equal(transitions[2].netId, '100');
+  assert.deepEqual(validationTimings(transitions), { connectToPortalMs: 500, portalToValidatedMs: 8000, connectToValidatedMs: 8500 });
+});
+
+test('detectValidationTransitions: a reconnect is a transition; the starting state is not timed', () => {
+  const transitions = detectValidationTransitions(
+    [sample(0, '100', 'CAPTIVE_PORTAL'), sample(1000, '101', 'CAPTIVE_PORTAL'), sample(4000, '101', 'VALIDATED')],
+    START
+  );
+  assert.deepEqual(transitions.map(t => [t.netId, t.state]), [['100', 'CAPTIVE_PORTAL'], ['101', 'CAPTIVE_PORTAL'], ['101', 'VALIDATED']]);
+  assert.deepEqual(validationTimings(transitions), { connectToPortalMs: 0, portalToValidatedMs: 3000, connectToValidatedMs: 3000 });
+
+  const alreadyCaptive = detectValidationTransitions([sample(0, '100', 'CAPTIVE_PORTAL'), sample(2000, '100', 'VALIDATED')], START);
+  assert.deepEqual(validationTimings(alreadyCaptive), {});
+});
+
+test('virtual device: connects on the same phone interleave with the watch', async () => {
+  const manager = new DeviceManager('adb', new VirtualAdbTransport());
+  const device = manager.getDeviceContext('VIRTUAL0001');
+  const wifi = device.getWifiCommands();
+  const networkCheck = new NetworkCheck(device.getAdbClient());
+  const watch = options => networkCheck.watchValidation({ intervalMs: 200, exclusive: poll => device.exclusive(poll), ...options });
+
+  const untilValidated = watch({ durationMs: 20_000, untilValidated: true });
+  await new Promise(resolve => setTimeout(resolve, 300));
+  assert.equal((await device.exclusive(() => wifi.connect('Virtual-Open', 'open'))).success, true);
+  const validated = await untilValidated;
+  assert.ok(validated.durationMs < 20_000);
+  assert.equal(validated.finalState, 'VALIDATED');
+  assert.deepEqual(validated.transitions.map(t => t.state), ['DISCONNECTED', 'VALIDATED']);
+  assert.equal(validated.connectToValidatedMs, 0);
+  assert.equal(validated.failedPolls, 0);
+
+  const captive = watch({ durationMs: 1500, includeSamples: true });
+  assert.equal((await device.exclusive(() => wifi.connect('Virtual-Guest', 'open'))).success, true);
+  const result = await captive;
+  const last = result.transitions.at(-1);
+  assert.equal(last.state, 'CAPTIVE_PORTAL');
+  assert.equal(last.portalUrl, 'http://portal.virtual.test/login');
+  assert.equal(result.samples.length, result.sampleCount);
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for the virtual adb transport.
+ *
+ * The virtual device stands in for `adb` + a phone so the tool surface runs
+ * without hardware. These drive the real command classes (WifiCommands,
+ * NetworkCheck, SmsCommands, SettingsCommands) and the DeviceObserver through
+ * an AdbClient backed by VirtualAdbTransport, so a drift between what our
+ * parsers expect and what the virtual device prints shows up here.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AdbClient } from '../../dist/adb/adb-client.js';
+import { WifiCommands } from '../../dist/adb/wifi-commands.js';
+import { SmsCommands } from '../../dist/adb/sms-commands.js';
+import { SettingsCommands } from '../../dist/adb/settings-commands.js';
+import { DeviceObserver } from '../../dist/adb/device-observer.js';
+import { NetworkCheck } from '../../dist/network/network-check.js';
+import { createTransportFromEnv } from '../../dist/adb/transport.js';
+import { VirtualAdbTransport, tokenizeShell } from '../../dist/adb/virtual-device.js';
+
+function client(transport = new VirtualAdbTransport()) {
+  return new AdbClient('adb', transport);
+}
+
+// --- tokenizeShell ---
+
+test('tokenizeShell: handles the single-quote escape idiom our builders emit', () => {
+  assert.deepEqual(
+    tokenizeShell(`cmd wifi connect-network 'Bob'\\''s Net' wpa2 'p w'`),
+    ['cmd', 'wifi', 'connect-network', "Bob's Net", 'wpa2', 'p w']
+  );
+});
+
+test('tokenizeShell: stops at an unquoted pipe', () => {
+  assert.deepEqual(tokenizeShell('dumpsys wifi | grep -E "SSID"'), ['dumpsys', 'wifi']);
+  assert.deepEqual(tokenizeShell(`settings put global k 'a|b'`), ['settings', 'put', 'global', 'k', 'a|b']);
+});
+
+// --- transport selection ---
+
+test('createTransportFromEnv: defaults to the adb binary, virtual on request, rejects typos', () => {
+  assert.equal(createTransportFromEnv({}).name, 'adb');
+  assert.equal(createTransportFromEnv({ ADB_TRANSPORT: 'virtual' }).name, 'virtual');
+  assert.throws(() => createTransportFromEnv({ ADB_TRANSPORT: 'virutal' }), /Unknown ADB_TRANSPORT/);
+});
+
+// --- device discovery ---
+
+test('lists the scenario device and serves its props', async () => {
+  const adb = client();
+  const devices = await adb.listDevices();
+  assert.equal(devices.length, 1);
+  assert.equal(devices[0].serial, 'VIRTUAL0001');
+  assert.equal(devices[0].state, 'device');
+  const info = await adb.getDeviceInfo();
+  assert.equal(info.sdkVersion, 34);
+});
+
+test('refuses an unknown serial like adb does', async () => {
+  const adb = client();
+  adb.selectDevice('NOPE');
+  const r = await adb.shell('getprop ro.build.id');
+  assert.equal(r.success, false);
+  assert.match(r.stderr, /not found/);
+});
+
+// --- wifi ---
+
+test('scan results parse into the advertised access points', async () => {
+  const wifi = new WifiCommands(client());
+  const results = await wifi.getScanResults();
+  assert.deepEqual(results.map(r => r.ssid).sort(), ['Virtual-Guest', 'Virtual-Open', 'Virtual-WPA2']);
+  assert.equal(results.find(r => r.ssid === 'Virtual-WPA2').security, 'WPA2');
+});
+
+test('connect with the right password associates and reports status', async () => {
+  const wifi = new WifiCommands(client());
+  const r = await wifi.connect('Virtual-WPA2', 'wpa2', 'virtualpass');
+  assert.equal(r.success, true);
+  const status = await wifi.getStatus();
+  assert.equal(status.connected, true);
+  assert.equal(status.ssid, 'Virtual-WPA2');
+  assert.equal(status.bssid, '02:00:00:00:01:01');
+  assert.equal(status.frequency, 5180);
+  const saved = await wifi.listSavedNetworks();
+  assert.equal(saved.length, 1);
+  const { lastConnected, ...details } = saved[0];
+  assert.deepEqual(details, {
+    networkId: 0,
+    ssid: 'Virtual-WPA2',
+    security: 'wpa2-psk',
+    autoJoin: true,
+    priority: 0,
+    hidden: false,
+    metered: false,
+    macRandomization: 'auto',
+    origin: 'user',
+  });
+  assert.match(lastConnected, /^\d\d-\d\d \d\d:\d\d:\d\d\.\d{3}$/);
+});
+
+test('a wrong password early-bails with the terminal supplicant state', async () => {
+  const wifi = new WifiCommands(client());
+  const r = await wifi.connect('Virtual-WPA2', 'wpa2', 'nope');
+  assert.equal(r.success, false);
+  assert.match(r.error, /supplicant state: DISCONNECTED/);
+});
+
+test('radio toggle rejoins the last network', async () => {
+  const wifi = new WifiCommands(client());
+  await wifi.connect('Virtual-Open', 'open');
+  await wifi.disconnect('toggle');
+  const status = await wifi.getStatus();
+  assert.equal(status.ssid, 'Virtual-Open');
+  assert.equal(await wifi.isEnabled(), true);
+});
+
+// --- network diagnostics ---
+
+test('captive AP is reported captive with its portal URL; normal AP validates', async () => {
+  const adb = client();
+  const wifi = new WifiCommands(adb);
+  const net = new NetworkCheck(adb);
+
+  await wifi.connect('Virtual-Guest', 'open');
+  const captive = await net.checkCaptivePortal();
+  assert.equal(captive.status, 'captive');
+  assert.equal(captive.portalUrl, 'http://portal.virtual.test/login');
+
+  await wifi.connect('Virtual-Open', 'open');
+  assert.equal((await net.checkCaptivePortal()).status, 'open');
+  const iface = await net.getInterfaceInfo();
+  assert.equal(iface.interface, 'wlan0');
+  assert.equal(iface.gateway, '192.168.50.1');
+  const ping = await net.ping('example.com', 2);
+  assert.equal(ping.alive, true);
+  assert.equal(ping.packetLoss, 0);
+});
+
+// --- sms + settings ---
+
+test('SMS inbox rows parse and injected messages show up', async () => {
+  const transport = new VirtualAdbTransport();
+  const sms = new SmsCommands(client(transport));
+  const first = await sms.readRecent();
+  assert.equal(first.messages[0].otp, '482913');
+
+  transport.injectSms('VIRTUAL0001', 'Portal', 'Login code 7731, valid 5 min');
+  const r = await sms.readRecent({ senderFilter: 'portal' });
+  assert.equal(r.messages.length, 1);
+  assert.equal(r.messages[0].otp, '7731');
+});
+
+test('settings get/put/delete round-trip', async () => {
+  const settings = new SettingsCommands(client());
+  assert.equal((await settings.get('global', 'private_dns_mode')).value, null);
+  await settings.put('global', 'private_dns_mode', 'off');
+  assert.equal((await settings.get('global', 'private_dns_mode')).value, 'off');
+  await settings.delete('global', 'private_dns_mode');
+  assert.equal((await settings.get('global', 'private_dns_mode')).value, null);
+});
+
+// --- device observer ---
+
+test('DeviceObserver sees attach and detach through the virtual track-devices stream', async () => {
+  const transport = new VirtualAdbTransport();
+  const observer = new DeviceObserver(transport);
+  const seen = [];
+  observer.onTransition(t => seen.push(t));
+  observer.start();
+  await new Promise(r => setTimeout(r, 20));
+
+  transport.setDeviceState('VIRTUAL0001', null);
+  await new Promise(r => setTimeout(r, 20));
+  await observer.stop();
+
+  assert.deepEqual(
+    seen.map(t => [t.serial, t.prev_state, t.new_state]),
+    [
+      ['VIRTUAL0001', null, 'device'],
+      ['VIRTUAL0001', 'device', null],
+    ]
+  );
+  assert.equal(observer.getMostRecentDetach().serial, 'VIRTUAL0001');
+});
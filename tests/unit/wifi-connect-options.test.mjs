@@ -0,0 +1,88 @@
+/**
+ * Unit tests for wifi_connect configuration options.
+ *
+ * Hidden-SSID, metered and MAC randomization map onto `cmd wifi
+ * connect-network` flags; static IP and proxy have no shell flag and go to
+ * the companion app's CONFIGURE_NETWORK receiver instead. The virtual device
+ * honours the flags (hidden APs need -h, -m flips the metered hint, -r picks
+ * the MAC), so the shell path is checked end to end there.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  WifiCommands,
+  buildConnectNetworkCommand,
+  connectOptionsError,
+} from '../../dist/adb/wifi-commands.js';
+import { AdbClient } from '../../dist/adb/adb-client.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+
+test('shell-settable options become connect-network flags', () => {
+  assert.equal(
+    buildConnectNetworkCommand("Bob's AP", 'wpa2', 'pa ss', { hidden: true, metered: true, macRandomization: 'non_persistent' }),
+    `cmd wifi connect-network 'Bob'\\''s AP' wpa2 'pa ss' -h -m -r non_persistent`
+  );
+  assert.equal(buildConnectNetworkCommand('Open', 'open', 'ignored'), `cmd wifi connect-network 'Open' open`);
+});
+
+test('static IP and proxy options are validated up front', () => {
+  assert.equal(connectOptionsError({ staticIp: { address: '192.168.1.50/24', gateway: '192.168.1.1' } }), undefined);
+  assert.match(connectOptionsError({ staticIp: { address: '192.168.1.50' } }), /IPv4 CIDR/);
+  assert.match(connectOptionsError({ staticIp: { address: '192.168.1.500/24' } }), /IPv4 CIDR/);
+  assert.match(connectOptionsError({ staticIp: { address: '10.0.0.2/8', gateway: 'router' } }), /gateway/);
+  assert.equal(connectOptionsError({ staticIp: { address: '10.0.0.2/8', dns: ['10.0.0.1', '1.1.1.1'] } }), undefined);
+  assert.equal(connectOptionsError({ staticIp: { address: '10.0.0.2/8', dns: ['10.0.0.1', 'dns.lab'] } }), "Invalid staticIp.dns entry 'dns.lab'");
+  assert.equal(connectOptionsError({ proxy: { host: 'proxy.lab', port: 3128 } }), undefined);
+  assert.match(connectOptionsError({ proxy: { host: 'proxy.lab' } }), /proxy.host and proxy.port/);
+  assert.match(connectOptionsError({ proxy: { pacUrl: 'http://wpad/wpad.dat', host: 'x' } }), /not both/);
+});
+
+function virtualWifi() {
+  const transport = new VirtualAdbTransport({
+    devices: [{
+      serial: 'PHONE',
+      accessPoints: [
+        { ssid: 'Stealth', bssid: '02:00:00:00:0b:01', frequency: 5180, rssi: -50, flags: '[ESS]', hidden: true },
+        { ssid: 'Portal', bssid: '02:00:00:00:0b:02', frequency: 2437, rssi: -55, flags: '[ESS]' },
+      ],
+    }],
+  });
+  const adb = new AdbClient('adb', transport);
+  adb.selectDevice('PHONE');
+  return new WifiCommands(adb);
+}
+
+test('hidden networks need the hidden option', async () => {
+  const wifi = virtualWifi();
+  const scan = await wifi.getScanResults();
+  assert.ok(scan.some(r => r.ssid === '<hidden>'));
+  const hidden = await wifi.connect('Stealth', 'open', undefined, { hidden: true });
+  assert.equal(hidden.success, true);
+});
+
+test('metered hint and MAC randomization reach the association', async () => {
+  const wifi = virtualWifi();
+  await wifi.connect('Portal', 'open', undefined, { metered: true, macRandomization: 'none' });
+  const factory = await wifi.getStatus();
+  assert.equal(factory.meteredHint, true);
+
+  await wifi.connect('Portal', 'open', undefined, { macRandomization: 'non_persistent' });
+  const first = (await wifi.getStatus()).macAddress;
+  await wifi.connect('Portal', 'open', undefined, { macRandomization: 'non_persistent' });
+  const second = (await wifi.getStatus()).macAddress;
+  assert.notEqual(first, second);
+  assert.notEqual(first, factory.macAddress);
+  // Locally administered bit set on randomized MACs, clear on the factory one.
+  assert.equal(parseInt(first.slice(0, 2), 16) & 0x02, 0x02);
+  assert.equal(parseInt(factory.macAddress.slice(0, 2), 16) & 0x02, 0);
+});
+
+test('static IP without the companion app fails fast', async () => {
+  const wifi = virtualWifi();
+  const r = await wifi.connect('Portal', 'open', undefined, { staticIp: { address: '192.168.50.77/24' } });
+  assert.equal(r.success, false);
+  assert.equal(r.via, 'companion');
+  assert.match(r.error, /companion app .* not installed/);
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for Wi-Fi Direct.
+ *
+ * Status comes from `dumpsys wifip2p` (WifiP2pInfo / WifiP2pGroup /
+ * WifiP2pDevice toString()s) plus `ip addr` on the group interface;
+ * discovery, connect and group removal go through the companion app, so on
+ * the virtual device (no companion) they fail fast.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WifiP2pCommands, parseP2pDumpsys } from '../../dist/adb/wifi-p2p.js';
+import { AdbClient } from '../../dist/adb/adb-client.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+
+const GROUP_OWNER_DUMP = `WifiP2pStateMachine:
+ total records=12
+ rec[0]: time=10-18 09:00:01.000 processed=P2pDisabledState org=P2pDisabledState dest=P2pEnabledState what=131203
+curState=GroupCreatedState
+mWifiP2pInfo groupFormed: true isGroupOwner: true groupOwnerAddress: /192.168.49.1
+mGroup network: DIRECT-Ab-Pixel
+ isGO: true
+ GO: Device: Pixel 8
+ deviceAddress: 9a:2c:bc:11:22:33
+ primary type: 10-0050F204-5
+ secondary type: null
+ wps: 392
+ grpcapab: 0
+ devcapab: 37
+ status: 0
+ Client: Device: Door Camera
+ deviceAddress: 02:11:22:33:44:55
+ primary type: 7-0050F204-1
+ secondary type: null
+ wps: 128
+ grpcapab: 0
+ devcapab: 0
+ status: 0
+ interface: p2p-wlan0-0
+ networkId: 4
+ frequency: 5745
+mSavedPeerConfig null
+mThisDevice Device: Pixel 8
+ deviceAddress: 9a:2c:bc:11:22:33
+ primary type: 10-0050F204-5
+ status: 0
+mPeers 
+Device: Door Camera
+ deviceAddress: 02:11:22:33:44:55
+ primary type: 7-0050F204-1
+ status: 0
+Device: Printer
+ deviceAddress: 0a:00:27:00:00:01
+ primary type: 3-0050F204-1
+ status: 3
+mNetworkInfo [type: WIFI_P2P[], state: CONNECTED/CONNECTED]
+`;
+
+test('group owner view: group, members, IPs and peers', () => {
+  const status = parseP2pDumpsys(GROUP_OWNER_DUMP);
+  assert.equal(status.enabled, true);
+  assert.equal(status.groupFormed, true);
+  assert.equal(status.isGroupOwner, true);
+  assert.equal(status.groupOwnerAddress, '192.168.49.1');
+  assert.deepEqual(status.thisDevice, { deviceName: 'Pixel 8', deviceAddress: '9a:2c:bc:11:22:33' });
+  assert.equal(status.group.networkName, 'DIRECT-Ab-Pixel');
+  assert.equal(status.group.isGroupOwner, true);
+  assert.equal(status.group.groupOwner.deviceName, 'Pixel 8');
+  assert.deepEqual(status.group.clients.map(c => [c.deviceName, c.deviceAddress, c.status]), [
+    ['Door Camera', '02:11:22:33:44:55', 'connected'],
+  ]);
+  assert.equal(status.group.interface, 'p2p-wlan0-0');
+  assert.equal(status.group.frequency, 5745);
+  assert.deepEqual(status.peers.map(p => [p.deviceName, p.status, p.primaryDeviceType]), [
+    ['Door Camera', 'connected', '7-0050F204-1'],
+    ['Printer', 'available', '3-0050F204-1'],
+  ]);
+});
+
+test('disabled P2P and an empty group', () => {
+  const status = parseP2pDumpsys(
+    'curState=P2pDisabledState\nmWifiP2pInfo groupFormed: false isGroupOwner: false groupOwnerAddress: null\nmGroup null\nmPeers \n'
+  );
+  assert.deepEqual(status, { enabled: false, groupFormed: false, isGroupOwner: false, peers: [] });
+});
+
+function virtualP2p() {
+  const adb = new AdbClient('adb', new VirtualAdbTransport());
+  adb.selectDevice('VIRTUAL0001');
+  return new WifiP2pCommands(adb);
+}
+
+test('virtual device reports idle P2P; companion-only calls fail fast', async () => {
+  const p2p = virtualP2p();
+  const status = await p2p.getStatus();
+  assert.equal(status.enabled, true);
+  assert.equal(status.groupFormed, false);
+  assert.equal(status.thisDevice.deviceName, 'Virtual Phone');
+
+  const discovery = await p2p.discover(1000);
+  assert.equal(discovery.success, false);
+  assert.match(discovery.error, /Companion app not installed/);
+
+  const bad = await p2p.connect('not-a-mac');
+  assert.match(bad.error, /Invalid device address/);
+  const pinless = await p2p.connect('02:11:22:33:44:55', { wps: 'keypad' });
+  assert.match(pinless.error, /needs a pin/);
+  assert.match((await p2p.removeGroup()).error, /Companion app not installed/);
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for BSSID-pinned connects and roam monitoring.
+ *
+ * detectRoamEvents() is fed hand-built sample series; the connect/monitor
+ * paths run against a virtual device with two APs advertising one SSID, and
+ * the virtual transport's roam() or a pinned connect taken between the
+ * monitor's locked polls moves the association mid-window.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectRoamEvents } from '../../dist/adb/wifi-commands.js';
+import { DeviceManager } from '../../dist/adb/device-manager.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+
+const up = (offsetMs, bssid, frequency, rssi) => ({ offsetMs, connected: true, bssid, frequency, rssi });
+const down = (offsetMs) => ({ offsetMs, connected: false });
+
+test('detectRoamEvents: BSSID changes are roams, with band and gap', () => {
+  const { roams, disconnects } = detectRoamEvents([
+    up(0, 'aa:00:00:00:00:01', 2412, -70),
+    up(1000, 'aa:00:00:00:00:01', 2412, -74),
+    up(2000, 'aa:00:00:00:00:02', 5180, -55),
+    up(3000, 'aa:00:00:00:00:03', 5200, -50),
+  ]);
+  assert.deepEqual(disconnects, []);
+  assert.equal(roams.length, 2);
+  assert.deepEqual(roams[0], {
+    offsetMs: 2000,
+    fromBssid: 'aa:00:00:00:00:01',
+    toBssid: 'aa:00:00:00:00:02',
+    fromFrequency: 2412,
+    toFrequency: 5180,
+    fromRssi: -74,
+    toRssi: -55,
+    bandChange: true,
+    gapMs: 1000,
+    disconnected: false,
+  });
+  assert.equal(roams[1].bandChange, false);
+});
+
+test('detectRoamEvents: drop-outs are timed; rejoining the same AP is not a roam', () => {
+  const { roams, disconnects } = detectRoamEvents([
+    up(0, 'aa:00:00:00:00:01', 5180, -60),
+    down(1000),
+    down(2000),
+    up(3000, 'aa:00:00:00:00:01', 5180, -61),
+    down(4000),
+    up(5000, 'aa:00:00:00:00:02', 5180, -58),
+    down(6000),
+  ]);
+  assert.deepEqual(disconnects, [
+    { offsetMs: 1000, durationMs: 2000 },
+    { offsetMs: 4000, durationMs: 1000 },
+    { offsetMs: 6000, durationMs: null },
+  ]);
+  assert.equal(roams.length, 1);
+  assert.equal(roams[0].disconnected, true);
+  assert.equal(roams[0].gapMs, 2000);
+});
+
+function twoApPhone() {
+  const transport = new VirtualAdbTransport({
+    devices: [{
+      serial: 'PHONE',
+      accessPoints: [
+        { ssid: 'Mesh', bssid: '02:00:00:00:0a:01', frequency: 5180, rssi: -45, flags: '[ESS]' },
+        { ssid: 'Mesh', bssid: '02:00:00:00:0a:02', frequency: 2437, rssi: -70, flags: '[ESS]' },
+      ],
+    }],
+  });
+  return { transport, dm: new DeviceManager(undefined, transport) };
+}
+
+test('connect pins the requested BSSID, not the strongest AP', async () => {
+  const { dm } = twoApPhone();
+  const wifi = dm.getDeviceContext('PHONE').getWifiCommands();
+
+  const pinned = await wifi.connect('Mesh', 'open', undefined, { bssid: '02:00:00:00:0A:02' });
+  assert.equal(pinned.success, true);
+  assert.equal((await wifi.getStatus()).bssid, '02:00:00:00:0a:02');
+
+  const free = await wifi.connect('Mesh', 'open');
+  assert.equal(free.success, true);
+  assert.equal((await wifi.getStatus()).bssid, '02:00:00:00:0a:01');
+
+  const bad = await wifi.connect('Mesh', 'open', undefined, { bssid: 'not-a-mac' });
+  assert.equal(bad.success, false);
+  assert.match(bad.error, /Invalid BSSID/);
+});
+
+test('monitorRoaming reports a roam that happens mid-window', async () => {
+  const { dm, transport } = twoApPhone();
+  const wifi = dm.getDeviceContext('PHONE').getWifiCommands();
+  await wifi.connect('Mesh', 'open');
+
+  setTimeout(() => transport.roam('PHONE', '02:00:00:00:0a:02'), 250);
+  const result = await wifi.monitorRoaming({ durationMs: 600, intervalMs: 100, includeSamples: true });
+
+  assert.equal(result.ssid, 'Mesh');
+  assert.equal(result.roams.length, 1);
+  assert.equal(result.roams[0].fromBssid, '02:00:00:00:0a:01');
+  assert.equal(result.roams[0].toBssid, '02:00:00:00:0a:02');
+  assert.equal(result.roams[0].bandChange, true);
+  assert.deepEqual(result.bssids.map(b => b.bssid), ['02:00:00:00:0a:01', '02:00:00:00:0a:02']);
+  assert.equal(result.samples.length, result.sampleCount);
+});
+
+test('monitorRoaming under the device lock per poll: a pinned connect on the same phone interleaves', async () => {
+  const { dm } = twoApPhone();
+  const device = dm.getDeviceContext('PHONE');
+  const wifi = device.getWifiCommands();
+  await wifi.connect('Mesh', 'open', undefined, { bssid: '02:00:00:00:0a:01' });
+
+  const watching = wifi.monitorRoaming({ durationMs: 1500, intervalMs: 100, exclusive: poll => device.exclusive(poll) });
+  await new Promise(resolve => setTimeout(resolve, 300));
+  const roam = await device.exclusive(() => wifi.connect('Mesh', 'open', undefined, { bssid: '02:00:00:00:0a:02' }));
+  assert.equal(roam.success, true);
+
+  const result = await watching;
+  assert.equal(result.roams.length, 1);
+  assert.equal(result.roams[0].toBssid, '02:00:00:00:0a:02');
+});
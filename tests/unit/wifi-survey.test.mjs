@@ -0,0 +1,77 @@
+/**
+ * Unit tests for background RF surveys.
+ *
+ * A WifiSurvey scans on a timer under the device lock, tags every BSSID
+ * sighting with the current location label, hands each scan's samples to the
+ * recorder (the Postgres writer in production) and exports CSV + per-BSSID
+ * JSON time series on the host. Driven against the default virtual phone with
+ * a short interval.
+ *
+ * Run with: npm run test:unit  (after npm run build)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DeviceManager } from '../../dist/adb/device-manager.js';
+import { VirtualAdbTransport } from '../../dist/adb/virtual-device.js';
+import { WifiSurvey, buildSurveySeries, surveySamplesToCsv } from '../../dist/adb/wifi-survey.js';
+
+const sleep = (ms) => new Promise(r => setTimeout(r, ms));
+
+test('surveys scan on an interval, label samples and export CSV/JSON', async () => {
+  const dm = new DeviceManager(undefined, new VirtualAdbTransport());
+  const device = dm.getDeviceContext('VIRTUAL0001');
+  const recorded = [];
+  const survey = new WifiSurvey(device, {
+    intervalMs: 40,
+    settleMs: 0,
+    label: 'lobby',
+    recorder: async (rows) => { recorded.push(...rows); },
+  });
+  survey.start();
+  await sleep(150);
+  survey.setLabel('2F-east');
+  await sleep(150);
+  survey.stop();
+
+  const summary = survey.summary();
+  assert.equal(summary.running, false);
+  assert.ok(summary.scans >= 2, `expected several scans, got ${summary.scans}`);
+  assert.equal(summary.bssids, 3);
+  assert.deepEqual(summary.labels, ['lobby', '2F-east']);
+  assert.equal(recorded.length, summary.samples);
+  assert.equal(recorded[0].survey_id, survey.id);
+  assert.equal(recorded[0].serial, 'VIRTUAL0001');
+
+  const dir = await mkdtemp(join(tmpdir(), 'survey-test-'));
+  try {
+    const { csvPath, jsonPath } = await survey.export(dir);
+    const csv = (await readFile(csvPath, 'utf-8')).trim().split('\n');
+    assert.equal(csv[0], 'timestamp,scan,label,bssid,ssid,frequency,channel,band,rssi,security');
+    assert.equal(csv.length, summary.samples + 1);
+    assert.match(csv[1], /,1,lobby,/);
+    assert.match(csv.at(-1), /,2F-east,/);
+
+    const json = JSON.parse(await readFile(jsonPath, 'utf-8'));
+    assert.equal(json.surveyId, survey.id);
+    assert.equal(json.series.length, 3);
+    assert.equal(json.series[0].ssid, 'Virtual-WPA2');
+    assert.equal(json.series[0].points.length, summary.scans);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('CSV quotes awkward SSIDs; series group by BSSID', () => {
+  const at = new Date('2026-01-01T00:00:00Z');
+  const samples = [
+    { at, label: null, scan: 1, bssid: 'aa:00:00:00:00:01', ssid: 'Cafe, "Free"', frequency: 2412, channel: 1, band: '2.4GHz', rssi: -70, security: 'Open' },
+    { at, label: 'x', scan: 2, bssid: 'aa:00:00:00:00:01', ssid: 'Cafe, "Free"', frequency: 2412, channel: 1, band: '2.4GHz', rssi: -60, security: 'Open' },
+  ];
+  const [, row] = surveySamplesToCsv(samples).split('\n');
+  assert.equal(row, '2026-01-01T00:00:00.000Z,1,,aa:00:00:00:00:01,"Cafe, ""Free""",2412,1,2.4GHz,-70,Open');
+  const [series] = buildSurveySeries(samples);
+  assert.deepEqual([series.rssiMin, series.rssiMax, series.points.length], [-70, -60, 2]);
+});